@@ -0,0 +1,223 @@
+/**
+ * Tests for the dkan CLI
+ *
+ * Runs each command group against a MockDkanServer, covering:
+ * - Argument and flag parsing, help and usage errors
+ * - JSON, table and CSV output
+ * - Reading JSON bodies from files and stdin, and writing downloads
+ * - Reporting API errors
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { MockDkanServer } from '@dkan-client-tools/core/testing'
+import { runCli } from '../cli'
+
+const server = new MockDkanServer({
+  baseUrl: 'https://dkan.test',
+  seed: {
+    datasets: [
+      {
+        identifier: 'parks',
+        title: 'City Parks',
+        keyword: ['parks'],
+        distribution: [{ identifier: 'parks-csv', downloadURL: 'https://files.test/parks.csv' }],
+      },
+      { identifier: 'buses', title: 'Bus Stops', keyword: ['transit'] },
+    ],
+    datastore: {
+      'parks-csv': [
+        { name: 'Riverside', acres: '12' },
+        { name: 'Hilltop', acres: '4' },
+        { name: 'Lakeview', acres: '30' },
+      ],
+    },
+    harvestSources: {
+      'https://county.test/data.json': [{ identifier: 'county-roads', title: 'County Roads' }],
+    },
+  },
+})
+
+describe('dkan CLI', () => {
+  let cwd: string
+
+  beforeEach(() => {
+    server.reset()
+    cwd = mkdtempSync(join(tmpdir(), 'dkan-cli-'))
+  })
+
+  afterEach(() => {
+    rmSync(cwd, { recursive: true, force: true })
+  })
+
+  async function dkan(argv: string[], stdin?: string) {
+    let stdout = ''
+    let stderr = ''
+    const decoder = new TextDecoder()
+    const status = await runCli(argv, {
+      env: { DKAN_URL: 'https://dkan.test' },
+      cwd,
+      fetch: server.fetch,
+      stdout: { write: (chunk) => (stdout += typeof chunk === 'string' ? chunk : decoder.decode(chunk)) },
+      stderr: { write: (chunk) => (stderr += chunk) },
+      stdin: (async function* () {
+        if (stdin !== undefined) yield stdin
+      })(),
+    })
+    return { status, stdout, stderr, json: () => JSON.parse(stdout) }
+  }
+
+  describe('usage', () => {
+    it('should print help', async () => {
+      const main = await dkan(['--help'])
+      const group = await dkan(['dataset', '--help'])
+      const command = await dkan(['dataset', 'search', '-h'])
+
+      expect(main.status).toBe(0)
+      expect(main.stdout).toContain('dictionary  List, get, create, update and delete data dictionaries')
+      expect(group.stdout).toContain('update <id> <file>  Replace a dataset')
+      expect(command.stdout).toContain('--page-size <value>')
+    })
+
+    it('should exit with status 2 on usage errors', async () => {
+      await expect(dkan([])).resolves.toMatchObject({ status: 2, stderr: expect.stringContaining('Usage: dkan') })
+      await expect(dkan(['datasets', 'get'])).resolves.toMatchObject({
+        status: 2,
+        stderr: 'dkan: Unknown command "datasets"\nRun "dkan --help" for usage.\n',
+      })
+      await expect(dkan(['dataset', 'get'])).resolves.toMatchObject({
+        status: 2,
+        stderr: 'dkan: Missing <id> for "dkan dataset get <id>"\nRun "dkan dataset --help" for usage.\n',
+      })
+      await expect(dkan(['dataset', 'get', 'parks', '--nope'])).resolves.toMatchObject({ status: 2 })
+      await expect(dkan(['dataset', 'search', '--page', 'two'])).resolves.toMatchObject({ status: 2 })
+      await expect(dkan(['dataset', 'get', 'parks', '-f', 'xml'])).resolves.toMatchObject({ status: 2 })
+    })
+
+    it('should report API errors with status 1', async () => {
+      const { status, stdout, stderr } = await dkan(['dataset', 'get', 'missing'])
+
+      expect(status).toBe(1)
+      expect(stdout).toBe('')
+      expect(stderr).toMatch(/^dkan: .*missing.* \(HTTP 404\)\n$/)
+    })
+  })
+
+  describe('dataset', () => {
+    it('should get a dataset as JSON or a property table', async () => {
+      const json = await dkan(['dataset', 'get', 'parks'])
+      const table = await dkan(['dataset', 'get', 'parks', '--format', 'table'])
+
+      expect(json.json()).toMatchObject({ identifier: 'parks', title: 'City Parks' })
+      const [header, rule, first] = table.stdout.split('\n')
+      expect(header).toMatch(/^property +value$/)
+      expect(rule).toMatch(/^-+ +-+$/)
+      expect(first).toMatch(/^identifier +parks$/)
+    })
+
+    it('should search datasets', async () => {
+      const { stdout } = await dkan(['dataset', 'search', '--keyword', 'transit', '--format', 'csv'])
+
+      expect(stdout).toContain('buses,Bus Stops,"[""transit""]"')
+      expect(stdout).not.toContain('parks')
+    })
+
+    it('should create, patch and delete datasets from files and stdin', async () => {
+      writeFileSync(join(cwd, 'trees.json'), JSON.stringify({ identifier: 'trees', title: 'Trees' }))
+
+      await expect(dkan(['dataset', 'create', 'trees.json'])).resolves.toMatchObject({ status: 0 })
+      await expect(dkan(['dataset', 'update', 'trees', '-', '--patch'], '{"title":"Street Trees"}'))
+        .resolves.toMatchObject({ status: 0 })
+      expect(server.getItem('dataset', 'trees')?.title).toBe('Street Trees')
+
+      await dkan(['dataset', 'delete', 'trees'])
+      expect(server.getItem('dataset', 'trees')).toBeUndefined()
+    })
+
+    it('should reject invalid JSON input', async () => {
+      const { status, stderr } = await dkan(['dataset', 'create', '-'], '{ nope')
+
+      expect(status).toBe(2)
+      expect(stderr).toContain('stdin is not valid JSON')
+    })
+  })
+
+  describe('datastore', () => {
+    it('should query rows with conditions, sorting and columns', async () => {
+      const { json } = await dkan([
+        'datastore', 'query', 'parks', '0', '--where', 'acres>10', '--sort', 'acres:desc', '--properties', 'name',
+      ])
+
+      expect(json()).toEqual([{ name: 'Lakeview' }, { name: 'Riverside' }])
+    })
+
+    it('should query by distribution ID and limit rows', async () => {
+      const { stdout } = await dkan([
+        'datastore', 'query', 'parks-csv', '--distribution', '--limit', '2', '--format', 'csv',
+      ])
+
+      expect(stdout).toBe('name,acres\nRiverside,12\nHilltop,4\n')
+    })
+
+    it('should run SQL queries', async () => {
+      const { json } = await dkan(['datastore', 'sql', '[SELECT name FROM parks-csv][WHERE acres = "4"];'])
+
+      expect(json()).toEqual([{ name: 'Hilltop' }])
+    })
+
+    it('should download to stdout or a file', async () => {
+      const stdout = await dkan(['datastore', 'download', 'parks'])
+      const file = await dkan(['datastore', 'download', 'parks-csv', '--distribution', '-o', 'parks.csv'])
+
+      expect(stdout.stdout.trim().split('\n')).toEqual(['name,acres', 'Riverside,12', 'Hilltop,4', 'Lakeview,30'])
+      expect(file.stdout).toBe('')
+      expect(readFileSync(join(cwd, 'parks.csv'), 'utf8')).toBe(stdout.stdout)
+    })
+  })
+
+  it('should trigger imports and show their status', async () => {
+    await expect(dkan(['import', 'trigger', 'parks-csv'])).resolves.toMatchObject({ status: 0 })
+    const { json } = await dkan(['import', 'status', 'parks-csv'])
+
+    expect(json()).toMatchObject({ numOfRows: 3 })
+  })
+
+  it('should register and run harvest plans', async () => {
+    const plan = {
+      identifier: 'county',
+      extract: { type: 'datajson', uri: 'https://county.test/data.json' },
+      load: { type: 'simple' },
+    }
+
+    await dkan(['harvest', 'register', '-'], JSON.stringify(plan))
+    await expect(dkan(['harvest', 'run', 'county'])).resolves.toMatchObject({ status: 0 })
+    const runs = (await dkan(['harvest', 'status', 'county'])).json()
+    const run = (await dkan(['harvest', 'status', 'county', runs[0]])).json()
+
+    expect(runs).toHaveLength(1)
+    expect(run.status.load).toEqual({ 'county-roads': 'NEW' })
+  })
+
+  it('should change workflow state and list revisions', async () => {
+    await expect(dkan(['revision', 'state', 'parks', 'retired'])).resolves.toMatchObject({ status: 2 })
+    await expect(dkan(['revision', 'state', 'parks', 'hidden', '-m', 'Under review']))
+      .resolves.toMatchObject({ status: 0 })
+
+    const { json } = await dkan(['revision', 'list', 'parks'])
+    expect(json()[0]).toMatchObject({ state: 'hidden', message: 'Under review' })
+  })
+
+  it('should manage data dictionaries', async () => {
+    const dictionary = { identifier: 'parks-dict', data: { title: 'Parks', fields: [{ name: 'acres', type: 'number' }] } }
+    writeFileSync(join(cwd, 'dict.json'), JSON.stringify(dictionary))
+
+    await dkan(['dictionary', 'create', 'dict.json'])
+    const list = await dkan(['dictionary', 'list', '--format', 'table'])
+    await dkan(['dictionary', 'delete', 'parks-dict'])
+
+    expect(list.stdout).toContain('parks-dict')
+    await expect(dkan(['dictionary', 'get', 'parks-dict'])).resolves.toMatchObject({ status: 1 })
+  })
+})
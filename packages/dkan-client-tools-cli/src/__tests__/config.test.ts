@@ -0,0 +1,67 @@
+/**
+ * Tests for profile loading
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { loadProfile, DEFAULT_DKAN_URL } from '../config'
+import { CliError } from '../command'
+
+describe('loadProfile', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'dkan-config-'))
+    writeFileSync(join(dir, '.env'), 'DKAN_URL=http://base.test\nDKAN_USER=base\nDKAN_PASS=base-pass\n')
+    writeFileSync(join(dir, '.env.local'), 'DKAN_PASS=local-pass\n')
+    writeFileSync(join(dir, '.env.production'), 'DKAN_URL=https://prod.test/\nDKAN_FORMAT=table\n')
+    writeFileSync(join(dir, '.env.production.local'), 'DKAN_USER=prod-user\n')
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should layer .env files, lowest priority first', () => {
+    const profile = loadProfile({ profile: 'production', dir, env: {} })
+
+    expect(profile).toEqual({
+      name: 'production',
+      baseUrl: 'https://prod.test',
+      auth: { username: 'prod-user', password: 'local-pass' },
+      format: 'table',
+      files: ['.env', '.env.local', '.env.production', '.env.production.local'].map((file) => join(dir, file)),
+    })
+  })
+
+  it('should let the shell environment override every file', () => {
+    const profile = loadProfile({ profile: 'production', dir, env: { DKAN_URL: 'https://shell.test' } })
+
+    expect(profile.baseUrl).toBe('https://shell.test')
+  })
+
+  it('should pick the profile from DKAN_PROFILE, then NODE_ENV', () => {
+    expect(loadProfile({ dir, env: { DKAN_PROFILE: 'production', NODE_ENV: 'test' } }).name).toBe('production')
+    expect(loadProfile({ dir, env: { NODE_ENV: 'test' } }).name).toBe('test')
+    expect(loadProfile({ dir, env: {} })).toMatchObject({ name: 'development', baseUrl: 'http://base.test' })
+  })
+
+  it('should prefer a token and fall back to the DDEV site', () => {
+    const empty = mkdtempSync(join(tmpdir(), 'dkan-config-'))
+    try {
+      expect(loadProfile({ dir: empty, env: { DKAN_TOKEN: 'secret', DKAN_USER: 'u', DKAN_PASS: 'p' } }))
+        .toEqual({ name: 'development', baseUrl: DEFAULT_DKAN_URL, auth: { token: 'secret' }, files: [] })
+    } finally {
+      rmSync(empty, { recursive: true, force: true })
+    }
+  })
+
+  it('should reject an unknown output format as a usage error', () => {
+    expect(() => loadProfile({ dir, env: { DKAN_FORMAT: 'xml' } })).toThrow(
+      new CliError('DKAN_FORMAT must be json, table or csv, got "xml"')
+    )
+    expect(() => loadProfile({ dir, env: { DKAN_FORMAT: 'xml' } })).toThrow(CliError)
+  })
+})
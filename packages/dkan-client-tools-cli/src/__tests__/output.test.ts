@@ -0,0 +1,52 @@
+/**
+ * Tests for output formatting
+ */
+
+import { describe, it, expect } from 'vitest'
+import { formatOutput } from '../output'
+
+const rows = [
+  { name: 'Riverside', acres: 12 },
+  { name: 'Hill, "Top"', tags: ['a', 'b'] },
+]
+
+describe('formatOutput', () => {
+  it('should print JSON as-is', () => {
+    expect(formatOutput({ a: [1] }, 'json')).toBe('{\n  "a": [\n    1\n  ]\n}')
+  })
+
+  it('should align lists as a table with the union of their keys', () => {
+    expect(formatOutput(rows, 'table')).toBe([
+      'name         acres  tags',
+      '-----------  -----  ---------',
+      'Riverside    12',
+      'Hill, "Top"         ["a","b"]',
+    ].join('\n'))
+  })
+
+  it('should print single objects as property/value tables', () => {
+    expect(formatOutput({ identifier: 'parks', keyword: ['parks'] }, 'table')).toBe([
+      'property    value',
+      '----------  ---------',
+      'identifier  parks',
+      'keyword     ["parks"]',
+    ].join('\n'))
+  })
+
+  it('should truncate long cells and report empty lists', () => {
+    const [, , row] = formatOutput([{ text: 'x'.repeat(100) }], 'table').split('\n')
+
+    expect(row).toBe(`${'x'.repeat(59)}…`)
+    expect(formatOutput([], 'table')).toBe('(no results)')
+  })
+
+  it('should write CSV with quoting', () => {
+    expect(formatOutput(rows, 'csv')).toBe([
+      'name,acres,tags',
+      'Riverside,12,',
+      '"Hill, ""Top""",,"[""a"",""b""]"',
+    ].join('\n'))
+    expect(formatOutput(['a', 'b'], 'csv')).toBe('value\na\nb')
+    expect(formatOutput({ total: 2 }, 'csv')).toBe('total\n2')
+  })
+})
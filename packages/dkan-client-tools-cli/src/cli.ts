@@ -0,0 +1,245 @@
+/**
+ * `dkan` command-line entry point.
+ *
+ * Parses `dkan <group> <command> [args] [flags]`, loads the selected profile, runs the
+ * command against a DkanApiClient and prints the result. runCli() never exits the process
+ * itself; it resolves with the exit status so it can be driven from tests.
+ *
+ * Exit status: 0 on success, 1 when the request fails, 2 for usage errors.
+ */
+
+import { readFile } from 'node:fs/promises'
+import { resolve } from 'node:path'
+import { parseArgs } from 'node:util'
+import { DkanApiClient, DkanApiError, DkanValidationError } from '@dkan-client-tools/core'
+import type { DkanTransport } from '@dkan-client-tools/core'
+import { CliError } from './command'
+import type { Command, CommandGroup, CommandOption, CommandValues } from './command'
+import { COMMAND_GROUPS } from './commands'
+import { loadProfile } from './config'
+import { OUTPUT_FORMATS, formatOutput } from './output'
+import type { OutputFormat } from './output'
+
+export interface CliOptions {
+  /** Shell environment; defaults to process.env */
+  env?: Record<string, string | undefined>
+  /** Working directory for .env files and relative paths; defaults to process.cwd() */
+  cwd?: string
+  stdout?: { write(chunk: string | Uint8Array): unknown }
+  stderr?: { write(chunk: string): unknown }
+  /** Read by `-` file arguments; defaults to process.stdin */
+  stdin?: AsyncIterable<string | Uint8Array>
+  /** Transport for the DkanApiClient, e.g. a MockDkanServer's `fetch` */
+  fetch?: DkanTransport
+}
+
+export const GLOBAL_OPTIONS: Record<string, CommandOption> = {
+  profile: { type: 'string', short: 'p', description: 'Profile to load: .env.<profile> and .env.<profile>.local' },
+  url: { type: 'string', description: 'DKAN site URL, overriding DKAN_URL' },
+  format: { type: 'string', short: 'f', description: 'Output format: json (default), table or csv' },
+  'env-dir': { type: 'string', description: 'Directory holding the .env files (default: working directory)' },
+  help: { type: 'boolean', short: 'h', description: 'Show help' },
+}
+
+function toParseArgsOptions(options: Record<string, CommandOption>) {
+  return Object.fromEntries(
+    Object.entries(options).map(([name, { type, short, multiple }]) => [
+      name,
+      { type, ...(short ? { short } : {}), ...(multiple ? { multiple } : {}) },
+    ])
+  )
+}
+
+function formatOptions(options: Record<string, CommandOption>): string[] {
+  const flags = Object.entries(options).map(([name, option]) => {
+    const short = option.short ? `-${option.short}, ` : '    '
+    return [`${short}--${name}${option.type === 'string' ? ' <value>' : ''}`, option.description]
+  })
+  const width = Math.max(...flags.map(([flag]) => flag.length))
+  return flags.map(([flag, description]) => `  ${flag.padEnd(width)}  ${description}`)
+}
+
+function mainHelp(): string {
+  const width = Math.max(...Object.keys(COMMAND_GROUPS).map((name) => name.length))
+  return [
+    'Usage: dkan <command> <subcommand> [arguments] [options]',
+    '',
+    'Commands:',
+    ...Object.entries(COMMAND_GROUPS).map(([name, group]) => `  ${name.padEnd(width)}  ${group.description}`),
+    '',
+    'Global options:',
+    ...formatOptions(GLOBAL_OPTIONS),
+    '',
+    'Run "dkan <command> --help" for its subcommands.',
+  ].join('\n')
+}
+
+function groupHelp(name: string, group: CommandGroup): string {
+  const usages = Object.values(group.commands).map((command) => command.usage)
+  const width = Math.max(...usages.map((usage) => usage.length))
+  return [
+    `Usage: dkan ${name} <subcommand> [arguments] [options]`,
+    '',
+    group.description,
+    '',
+    'Subcommands:',
+    ...Object.values(group.commands).map(
+      (command) => `  ${command.usage.padEnd(width)}  ${command.description}`
+    ),
+    '',
+    `Run "dkan ${name} <subcommand> --help" for its options.`,
+  ].join('\n')
+}
+
+function commandHelp(name: string, command: Command): string {
+  return [
+    `Usage: dkan ${name} ${command.usage} [options]`,
+    '',
+    command.description,
+    ...(command.options ? ['', 'Options:', ...formatOptions(command.options)] : []),
+    '',
+    'Global options:',
+    ...formatOptions(GLOBAL_OPTIONS),
+  ].join('\n')
+}
+
+/** Check positionals against the command's usage: `<required>` and `[optional]` */
+function checkArgs(name: string, command: Command, args: string[]): void {
+  const required = command.usage.match(/<[^>]+>/g) ?? []
+  const optional = command.usage.match(/\[[^\]]+\]/g) ?? []
+  if (args.length < required.length) {
+    throw new CliError(`Missing ${required[args.length]} for "dkan ${name} ${command.usage}"`)
+  }
+  if (args.length > required.length + optional.length) {
+    throw new CliError(`Unexpected argument "${args[required.length + optional.length]}"`)
+  }
+}
+
+function reportError(error: unknown, stderr: NonNullable<CliOptions['stderr']>): void {
+  if (error instanceof DkanValidationError) {
+    stderr.write(`dkan: ${error.message}\n`)
+    for (const { property, message } of error.violations) {
+      stderr.write(`  ${property || '(root)'}: ${message}\n`)
+    }
+  } else if (error instanceof DkanApiError) {
+    const status = error.statusCode ? ` (HTTP ${error.statusCode})` : ''
+    stderr.write(`dkan: ${error.message}${status}\n`)
+  } else {
+    stderr.write(`dkan: ${error instanceof Error ? error.message : String(error)}\n`)
+  }
+}
+
+async function readAll(stream: AsyncIterable<string | Uint8Array>): Promise<string> {
+  let text = ''
+  const decoder = new TextDecoder()
+  for await (const chunk of stream) {
+    text += typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true })
+  }
+  return text + decoder.decode()
+}
+
+/**
+ * Run the `dkan` CLI.
+ * @param argv - Arguments after the executable, e.g. `process.argv.slice(2)`
+ * @param options - Environment, working directory, streams and transport to use
+ * @returns Exit status
+ */
+export async function runCli(argv: string[], options: CliOptions = {}): Promise<number> {
+  const stdout = options.stdout ?? process.stdout
+  const stderr = options.stderr ?? process.stderr
+  const cwd = options.cwd ?? process.cwd()
+  let groupName: string | undefined
+
+  try {
+    // First pass only finds the command; its flags are not known yet
+    const { positionals, values: globals } = parseArgs({
+      args: argv,
+      options: toParseArgsOptions(GLOBAL_OPTIONS),
+      strict: false,
+      allowPositionals: true,
+    })
+    const [group, name] = positionals
+
+    if (!group) {
+      ;(globals.help ? stdout : stderr).write(`${mainHelp()}\n`)
+      return globals.help ? 0 : 2
+    }
+    if (!Object.hasOwn(COMMAND_GROUPS, group)) {
+      throw new CliError(`Unknown command "${group}"`)
+    }
+    groupName = group
+    const commands = COMMAND_GROUPS[group].commands
+    if (!name && globals.help) {
+      stdout.write(`${groupHelp(group, COMMAND_GROUPS[group])}\n`)
+      return 0
+    }
+    if (!name || !Object.hasOwn(commands, name)) {
+      throw new CliError(name ? `Unknown subcommand "${group} ${name}"` : `Missing subcommand for "${group}"`)
+    }
+    const command = commands[name]
+
+    let parsed: { values: CommandValues; positionals: string[] }
+    try {
+      parsed = parseArgs({
+        args: argv,
+        options: toParseArgsOptions({ ...GLOBAL_OPTIONS, ...command.options }),
+        allowPositionals: true,
+      })
+    } catch (error) {
+      throw new CliError(error instanceof Error ? error.message : String(error))
+    }
+    const { values } = parsed
+    if (values.help) {
+      stdout.write(`${commandHelp(group, command)}\n`)
+      return 0
+    }
+    const args = parsed.positionals.slice(2)
+    checkArgs(group, command, args)
+
+    const profile = loadProfile({
+      profile: values.profile as string | undefined,
+      dir: values['env-dir'] ? resolve(cwd, values['env-dir'] as string) : cwd,
+      env: options.env,
+    })
+    const format = (values.format as string | undefined) ?? profile.format ?? 'json'
+    if (!OUTPUT_FORMATS.includes(format as OutputFormat)) {
+      throw new CliError(`--format must be ${OUTPUT_FORMATS.join(', ')}, got "${format}"`)
+    }
+
+    const client = new DkanApiClient({
+      baseUrl: ((values.url as string | undefined) ?? profile.baseUrl).replace(/\/+$/, ''),
+      auth: profile.auth,
+      ...(options.fetch ? { fetch: options.fetch } : {}),
+    })
+
+    const data = await command.run({
+      client,
+      args,
+      values,
+      resolvePath: (path) => resolve(cwd, path),
+      readJson: async (path) => {
+        const text = path === '-'
+          ? await readAll(options.stdin ?? process.stdin)
+          : await readFile(resolve(cwd, path), 'utf8')
+        try {
+          return JSON.parse(text)
+        } catch (error) {
+          throw new CliError(`${path === '-' ? 'stdin' : path} is not valid JSON: ${(error as Error).message}`)
+        }
+      },
+      write: (chunk) => stdout.write(chunk),
+    })
+
+    if (data !== undefined) {
+      stdout.write(`${formatOutput(data, format as OutputFormat)}\n`)
+    }
+    return 0
+  } catch (error) {
+    reportError(error, stderr)
+    if (error instanceof CliError) {
+      stderr.write(`Run "dkan ${groupName ? `${groupName} ` : ''}--help" for usage.\n`)
+      return 2
+    }
+    return 1
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Command definitions shared by the `dkan` subcommands.
+ *
+ * Each subcommand declares its positional arguments in `usage` (`<required>`, `[optional]`)
+ * and its flags in `options`; runCli() parses argv against them, builds a DkanApiClient for
+ * the selected profile and prints whatever `run()` returns in the requested output format.
+ */
+
+import type { DkanApiClient } from '@dkan-client-tools/core'
+
+export interface CommandOption {
+  type: 'string' | 'boolean'
+  short?: string
+  /** Allow the flag more than once; its value is then an array */
+  multiple?: boolean
+  description: string
+}
+
+export type CommandValues = Record<string, string | boolean | Array<string | boolean> | undefined>
+
+export interface CommandContext {
+  client: DkanApiClient
+  /** Positional arguments after the subcommand name */
+  args: string[]
+  /** Parsed flags, including the global ones */
+  values: CommandValues
+  /** Read a JSON document from a file path, or from stdin when the path is `-` */
+  readJson(path: string): Promise<unknown>
+  /** Write raw output (downloads); commands that return data should not also write */
+  write(chunk: string | Uint8Array): void
+  /** Resolve a path against the working directory */
+  resolvePath(path: string): string
+}
+
+export interface Command {
+  /** Name and positionals, e.g. `get <id>` or `query <dataset> [index]` */
+  usage: string
+  description: string
+  options?: Record<string, CommandOption>
+  /** Returns the data to print; `undefined` prints nothing */
+  run(context: CommandContext): Promise<unknown>
+}
+
+export interface CommandGroup {
+  description: string
+  commands: Record<string, Command>
+}
+
+/** Usage error: unknown command, missing argument or invalid flag value. Exits with status 2. */
+export class CliError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CliError'
+  }
+}
+
+/** Parse a numeric flag, rejecting anything that is not a non-negative integer */
+export function toInteger(value: unknown, flag: string): number | undefined {
+  if (value === undefined) return undefined
+  if (typeof value !== 'string' || !/^\d+$/.test(value)) {
+    throw new CliError(`--${flag} must be a non-negative integer, got "${value}"`)
+  }
+  return Number(value)
+}
+
+/** Read a string flag that may be given several times */
+export function toList(value: unknown): string[] {
+  if (value === undefined) return []
+  return (Array.isArray(value) ? value : [value]).map(String)
+}
@@ -0,0 +1,75 @@
+import type { DatasetQueryOptions, DkanDataset } from '@dkan-client-tools/core'
+import { toInteger, toList } from '../command'
+import type { CommandGroup } from '../command'
+
+export const dataset: CommandGroup = {
+  description: 'Get, search, create, update and delete datasets',
+  commands: {
+    get: {
+      usage: 'get <id>',
+      description: 'Show a dataset',
+      options: {
+        'reference-ids': { type: 'boolean', description: 'Include distribution and other reference IDs' },
+      },
+      run: ({ client, args: [id], values }) =>
+        client.getDataset(id, { showReferenceIds: values['reference-ids'] === true }),
+    },
+
+    search: {
+      usage: 'search',
+      description: 'Search published datasets (prints the matching page of results)',
+      options: {
+        keyword: { type: 'string', description: 'Filter by keyword' },
+        theme: { type: 'string', description: 'Filter by theme' },
+        publisher: { type: 'string', description: 'Filter by publisher name' },
+        fulltext: { type: 'string', description: 'Full-text search' },
+        sort: { type: 'string', multiple: true, description: 'Sort field; repeat for several' },
+        'sort-order': { type: 'string', multiple: true, description: 'asc or desc, one per --sort' },
+        page: { type: 'string', description: 'Page number, starting at 1' },
+        'page-size': { type: 'string', description: 'Results per page' },
+      },
+      run: async ({ client, values }) => {
+        const options: DatasetQueryOptions = {
+          keyword: values.keyword as string | undefined,
+          theme: values.theme as string | undefined,
+          publisher: values.publisher as string | undefined,
+          fulltext: values.fulltext as string | undefined,
+          page: toInteger(values.page, 'page'),
+          'page-size': toInteger(values['page-size'], 'page-size'),
+        }
+        const sort = toList(values.sort)
+        const order = toList(values['sort-order']) as Array<'asc' | 'desc'>
+        if (sort.length > 0) options.sort = sort
+        if (order.length > 0) options['sort-order'] = order
+
+        const { results } = await client.searchDatasets(options)
+        return results
+      },
+    },
+
+    create: {
+      usage: 'create <file>',
+      description: 'Create a dataset from a JSON file (- for stdin)',
+      run: async ({ client, args: [file], readJson }) =>
+        client.createDataset((await readJson(file)) as DkanDataset),
+    },
+
+    update: {
+      usage: 'update <id> <file>',
+      description: 'Replace a dataset with a JSON file (- for stdin)',
+      options: {
+        patch: { type: 'boolean', description: 'Apply the file as a JSON Merge Patch instead of replacing' },
+      },
+      run: async ({ client, args: [id, file], values, readJson }) => {
+        const body = (await readJson(file)) as DkanDataset
+        return values.patch ? client.patchDataset(id, body) : client.updateDataset(id, body)
+      },
+    },
+
+    delete: {
+      usage: 'delete <id>',
+      description: 'Delete a dataset',
+      run: ({ client, args: [id] }) => client.deleteDataset(id),
+    },
+  },
+}
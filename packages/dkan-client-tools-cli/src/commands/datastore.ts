@@ -0,0 +1,155 @@
+import { datastoreQuery } from '@dkan-client-tools/core'
+import type {
+  DatastoreQueryBuilder,
+  DatastoreQueryOptions,
+  DatastoreScalar,
+  DatastoreScalarOperator,
+} from '@dkan-client-tools/core'
+import { writeStreamToFile } from '@dkan-client-tools/core/node'
+import { CliError, toInteger, toList } from '../command'
+import type { CommandContext, CommandGroup, CommandOption } from '../command'
+
+/** Rows printed by `datastore query` unless --limit or --all is given */
+const DEFAULT_QUERY_LIMIT = 100
+
+const QUERY_OPTIONS: Record<string, CommandOption> = {
+  distribution: { type: 'boolean', description: 'Treat the ID as a distribution ID instead of a dataset ID' },
+  query: { type: 'string', description: 'JSON file with datastore query options to start from (- for stdin)' },
+  properties: { type: 'string', multiple: true, description: 'Columns to return, comma-separated' },
+  where: {
+    type: 'string',
+    multiple: true,
+    description: 'Condition such as "acres>10" or "name like %park%"; repeat to AND several',
+  },
+  sort: { type: 'string', multiple: true, description: 'Sort column, optionally "column:desc"' },
+  limit: { type: 'string', description: 'Maximum number of rows' },
+  offset: { type: 'string', description: 'Rows to skip' },
+}
+
+const WORD_OPERATORS = ['like', 'contains', 'starts with', 'match']
+
+/** Numbers are compared as numbers; everything else as text */
+function toScalar(value: string): DatastoreScalar {
+  return /^-?\d+(\.\d+)?$/.test(value) ? Number(value) : value
+}
+
+/** Parse `acres>=10`, `status!=closed` or `name like %park%` into a condition */
+export function parseCondition(
+  expression: string
+): { property: string; operator: DatastoreScalarOperator; value: DatastoreScalar } {
+  const word = new RegExp(`^(\\S+)\\s+(${WORD_OPERATORS.join('|')})\\s+(.*)$`, 'i').exec(expression)
+  const symbol = /^([^=!<>\s]+)\s*(>=|<=|!=|<>|=|>|<)\s*(.*)$/.exec(expression)
+  const match = word ?? symbol
+  if (!match) {
+    throw new CliError(`Cannot parse --where "${expression}"; expected e.g. "acres>10" or "name like %park%"`)
+  }
+  return {
+    property: match[1],
+    operator: match[2].toLowerCase() as DatastoreScalarOperator,
+    value: toScalar(match[3]),
+  }
+}
+
+async function buildQuery({ values, readJson }: CommandContext): Promise<DatastoreQueryBuilder> {
+  const base = values.query ? ((await readJson(values.query as string)) as DatastoreQueryOptions) : {}
+  // The builder is immutable; each call returns a new one
+  let query = datastoreQuery(base)
+
+  const properties = toList(values.properties).flatMap((list) => list.split(',')).map((p) => p.trim())
+  if (properties.length > 0) query = query.select(...properties.filter(Boolean))
+  for (const expression of toList(values.where)) {
+    const { property, operator, value } = parseCondition(expression)
+    query = query.where(property, operator, value)
+  }
+  for (const sort of toList(values.sort)) {
+    const [property, order = 'asc'] = sort.split(':')
+    if (order !== 'asc' && order !== 'desc') {
+      throw new CliError(`--sort order must be asc or desc, got "${order}"`)
+    }
+    query = query.orderBy(property, order)
+  }
+
+  const limit = toInteger(values.limit, 'limit')
+  const offset = toInteger(values.offset, 'offset')
+  if (limit !== undefined) query = query.limit(limit)
+  if (offset !== undefined) query = query.offset(offset)
+  return query
+}
+
+function indexOf(context: CommandContext): number {
+  if (context.values.distribution) {
+    if (context.args[1] !== undefined) throw new CliError('An index cannot be combined with --distribution')
+    return 0
+  }
+  return toInteger(context.args[1] ?? '0', 'index') as number
+}
+
+export const datastore: CommandGroup = {
+  description: 'Query, SQL and download datastore tables',
+  commands: {
+    query: {
+      usage: 'query <id> [index]',
+      description: 'Print rows from a distribution, by dataset ID and distribution index (default 0)',
+      options: {
+        ...QUERY_OPTIONS,
+        all: { type: 'boolean', description: `Fetch every row (default: first ${DEFAULT_QUERY_LIMIT})` },
+      },
+      run: async (context) => {
+        const { client, args: [id], values } = context
+        const index = indexOf(context)
+        const query = (await buildQuery(context)).build()
+        if (query.limit === undefined && !values.all) query.limit = DEFAULT_QUERY_LIMIT
+
+        const rows = values.distribution
+          ? client.iterateDatastoreByDistribution(id, query)
+          : client.iterateDatastore(id, index, query)
+        const results: Record<string, unknown>[] = []
+        for await (const row of rows) results.push(row)
+        return results
+      },
+    },
+
+    sql: {
+      usage: 'sql <query>',
+      description: 'Run a query in DKAN\'s bracket SQL syntax, e.g. "[SELECT * FROM dist-id][LIMIT 10];"',
+      options: {
+        'db-columns': { type: 'boolean', description: 'Return database column names instead of descriptions' },
+      },
+      run: ({ client, args: [query], values }) =>
+        client.querySql({ query, show_db_columns: values['db-columns'] === true }),
+    },
+
+    download: {
+      usage: 'download <id> [index]',
+      description: 'Download query results as CSV or JSON to a file or stdout (ignores --format)',
+      options: {
+        ...QUERY_OPTIONS,
+        type: { type: 'string', description: 'File type: csv (default) or json' },
+        output: { type: 'string', short: 'o', description: 'File to write; defaults to stdout' },
+      },
+      run: async (context) => {
+        const { client, args: [id], values } = context
+        const index = indexOf(context)
+        const type = (values.type as string | undefined) ?? 'csv'
+        if (type !== 'csv' && type !== 'json') {
+          throw new CliError(`--type must be csv or json, got "${type}"`)
+        }
+        const options = { ...(await buildQuery(context)).build(), format: type } as const
+
+        const stream = values.distribution
+          ? await client.downloadQueryByDistributionStream(id, options)
+          : await client.downloadQueryStream(id, index, options)
+
+        if (values.output) {
+          await writeStreamToFile(stream, context.resolvePath(values.output as string))
+          return undefined
+        }
+        const reader = stream.getReader()
+        for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+          context.write(chunk.value)
+        }
+        return undefined
+      },
+    },
+  },
+}
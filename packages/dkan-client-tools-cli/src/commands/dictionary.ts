@@ -0,0 +1,39 @@
+import type { DataDictionary } from '@dkan-client-tools/core'
+import type { CommandGroup } from '../command'
+
+export const dictionary: CommandGroup = {
+  description: 'List, get, create, update and delete data dictionaries',
+  commands: {
+    list: {
+      usage: 'list',
+      description: 'List data dictionaries',
+      run: ({ client }) => client.listDataDictionaries(),
+    },
+
+    get: {
+      usage: 'get <id>',
+      description: 'Show a data dictionary',
+      run: ({ client, args: [id] }) => client.getDataDictionary(id),
+    },
+
+    create: {
+      usage: 'create <file>',
+      description: 'Create a data dictionary from a JSON file (- for stdin)',
+      run: async ({ client, args: [file], readJson }) =>
+        client.createDataDictionary((await readJson(file)) as DataDictionary),
+    },
+
+    update: {
+      usage: 'update <id> <file>',
+      description: 'Replace a data dictionary with a JSON file (- for stdin)',
+      run: async ({ client, args: [id, file], readJson }) =>
+        client.updateDataDictionary(id, (await readJson(file)) as DataDictionary),
+    },
+
+    delete: {
+      usage: 'delete <id>',
+      description: 'Delete a data dictionary',
+      run: ({ client, args: [id] }) => client.deleteDataDictionary(id),
+    },
+  },
+}
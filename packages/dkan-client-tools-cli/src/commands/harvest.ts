@@ -0,0 +1,33 @@
+import type { HarvestPlan } from '@dkan-client-tools/core'
+import type { CommandGroup } from '../command'
+
+export const harvest: CommandGroup = {
+  description: 'Register harvest plans, run them and check their runs',
+  commands: {
+    list: {
+      usage: 'list',
+      description: 'List harvest plan IDs',
+      run: ({ client }) => client.listHarvestPlans(),
+    },
+
+    register: {
+      usage: 'register <file>',
+      description: 'Register a harvest plan from a JSON file (- for stdin)',
+      run: async ({ client, args: [file], readJson }) =>
+        client.registerHarvestPlan((await readJson(file)) as HarvestPlan),
+    },
+
+    run: {
+      usage: 'run <plan-id>',
+      description: 'Run a harvest plan',
+      run: ({ client, args: [planId] }) => client.runHarvest({ plan_id: planId }),
+    },
+
+    status: {
+      usage: 'status <plan-id> [run-id]',
+      description: 'List a plan\'s run IDs, or show one run\'s result',
+      run: ({ client, args: [planId, runId] }) =>
+        runId ? client.getHarvestRun(runId, planId) : client.listHarvestRuns(planId),
+    },
+  },
+}
@@ -0,0 +1,25 @@
+import type { CommandGroup } from '../command'
+
+export const datastoreImport: CommandGroup = {
+  description: 'Trigger datastore imports and check their status',
+  commands: {
+    trigger: {
+      usage: 'trigger <distribution-id>',
+      description: 'Import a distribution\'s file into the datastore',
+      run: ({ client, args: [id] }) => client.triggerDatastoreImport({ resource_id: id }),
+    },
+
+    status: {
+      usage: 'status <distribution-id>',
+      description: 'Show row and column counts for an imported distribution',
+      run: ({ client, args: [id] }) => client.getDatastoreStatistics(id),
+    },
+
+    list: {
+      usage: 'list',
+      description: 'List datastore imports',
+      run: async ({ client }) =>
+        Object.entries(await client.listDatastoreImports()).map(([identifier, entry]) => ({ identifier, ...entry })),
+    },
+  },
+}
@@ -0,0 +1,17 @@
+import type { CommandGroup } from '../command'
+import { dataset } from './dataset'
+import { datastore } from './datastore'
+import { datastoreImport } from './import'
+import { harvest } from './harvest'
+import { revision } from './revision'
+import { dictionary } from './dictionary'
+
+/** Command groups by name, in the order `dkan --help` lists them */
+export const COMMAND_GROUPS: Record<string, CommandGroup> = {
+  dataset,
+  datastore,
+  import: datastoreImport,
+  harvest,
+  revision,
+  dictionary,
+}
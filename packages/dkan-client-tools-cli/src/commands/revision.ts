@@ -0,0 +1,41 @@
+import type { WorkflowState } from '@dkan-client-tools/core'
+import { CliError } from '../command'
+import type { CommandGroup, CommandOption } from '../command'
+
+const WORKFLOW_STATES: WorkflowState[] = ['draft', 'published', 'hidden', 'archived', 'orphaned']
+
+const SCHEMA_OPTION: CommandOption = {
+  type: 'string',
+  description: 'Metastore schema of the item (default: dataset)',
+}
+
+export const revision: CommandGroup = {
+  description: 'List revisions and change workflow state',
+  commands: {
+    list: {
+      usage: 'list <id>',
+      description: 'List an item\'s revisions, newest first',
+      options: { schema: SCHEMA_OPTION },
+      run: ({ client, args: [id], values }) =>
+        client.getRevisions((values.schema as string | undefined) ?? 'dataset', id),
+    },
+
+    state: {
+      usage: 'state <id> <state>',
+      description: `Move an item to a new state: ${WORKFLOW_STATES.join(', ')}`,
+      options: {
+        schema: SCHEMA_OPTION,
+        message: { type: 'string', short: 'm', description: 'Revision log message' },
+      },
+      run: ({ client, args: [id, state], values }) => {
+        if (!WORKFLOW_STATES.includes(state as WorkflowState)) {
+          throw new CliError(`State must be one of ${WORKFLOW_STATES.join(', ')}, got "${state}"`)
+        }
+        return client.createRevision((values.schema as string | undefined) ?? 'dataset', id, {
+          state: state as WorkflowState,
+          message: values.message as string | undefined,
+        })
+      },
+    },
+  },
+}
@@ -0,0 +1,113 @@
+/**
+ * Profile configuration for the `dkan` CLI.
+ *
+ * A profile is a set of .env files, layered the same way as the core package's scripts
+ * (record-api-responses.ts, create-data-dictionaries.ts). Highest priority first:
+ *
+ * 1. Shell environment variables
+ * 2. `.env.<profile>.local` (personal overrides)
+ * 3. `.env.<profile>` (profile config)
+ * 4. `.env.local` (personal defaults)
+ * 5. `.env` (base config, e.g. generated by DDEV)
+ *
+ * The profile defaults to `DKAN_PROFILE`, then `NODE_ENV`, then `development`, so an
+ * existing `.env.production.local` is picked up by `dkan --profile production`.
+ *
+ * Variables: `DKAN_URL`, `DKAN_USER` / `DKAN_PASS` (HTTP Basic), `DKAN_TOKEN` (Bearer)
+ * and `DKAN_FORMAT` (default output format).
+ */
+
+import { readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { parse } from 'dotenv'
+import type { DkanAuth } from '@dkan-client-tools/core'
+import { CliError } from './command'
+import type { OutputFormat } from './output'
+
+/** Same default as the core package scripts: the local DDEV site */
+export const DEFAULT_DKAN_URL = 'http://dkan.ddev.site'
+
+export interface DkanProfile {
+  name: string
+  baseUrl: string
+  auth?: DkanAuth
+  format?: OutputFormat
+  /** .env files that were found, lowest priority first */
+  files: string[]
+}
+
+export interface LoadProfileOptions {
+  /** Profile name; defaults to DKAN_PROFILE, NODE_ENV, then 'development' */
+  profile?: string
+  /** Directory holding the .env files; defaults to the working directory */
+  dir?: string
+  /** Shell environment; defaults to process.env */
+  env?: Record<string, string | undefined>
+}
+
+function readEnvFile(path: string): Record<string, string> | undefined {
+  try {
+    return parse(readFileSync(path, 'utf8'))
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined
+    throw error
+  }
+}
+
+/**
+ * Resolve a profile's variables without touching process.env.
+ * @returns Merged variables and the .env files they came from
+ */
+export function loadEnv(options: LoadProfileOptions = {}): {
+  name: string
+  vars: Record<string, string | undefined>
+  files: string[]
+} {
+  const env = options.env ?? process.env
+  const dir = options.dir ?? process.cwd()
+  const name = options.profile || env.DKAN_PROFILE || env.NODE_ENV || 'development'
+
+  const files: string[] = []
+  let vars: Record<string, string | undefined> = {}
+  for (const file of ['.env', '.env.local', `.env.${name}`, `.env.${name}.local`]) {
+    const path = join(dir, file)
+    const parsed = readEnvFile(path)
+    if (parsed) {
+      files.push(path)
+      vars = { ...vars, ...parsed }
+    }
+  }
+
+  for (const [key, value] of Object.entries(env)) {
+    if (value !== undefined) vars[key] = value
+  }
+  return { name, vars, files }
+}
+
+/**
+ * Load a profile's site URL, credentials and output format.
+ * @throws {CliError} If DKAN_FORMAT is not json, table or csv
+ */
+export function loadProfile(options: LoadProfileOptions = {}): DkanProfile {
+  const { name, vars, files } = loadEnv(options)
+
+  let auth: DkanAuth | undefined
+  if (vars.DKAN_TOKEN) {
+    auth = { token: vars.DKAN_TOKEN }
+  } else if (vars.DKAN_USER && vars.DKAN_PASS) {
+    auth = { username: vars.DKAN_USER, password: vars.DKAN_PASS }
+  }
+
+  const format = vars.DKAN_FORMAT
+  if (format !== undefined && !['json', 'table', 'csv'].includes(format)) {
+    throw new CliError(`DKAN_FORMAT must be json, table or csv, got "${format}"`)
+  }
+
+  return {
+    name,
+    baseUrl: (vars.DKAN_URL || DEFAULT_DKAN_URL).replace(/\/+$/, ''),
+    ...(auth ? { auth } : {}),
+    ...(format ? { format: format as OutputFormat } : {}),
+    files,
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * @dkan-client-tools/cli
+ *
+ * The `dkan` command-line tool, plus its building blocks for scripts that want the same
+ * profile loading and output formatting.
+ *
+ * @example
+ * ```typescript
+ * import { runCli } from '@dkan-client-tools/cli'
+ *
+ * process.exitCode = await runCli(['dataset', 'search', '--keyword', 'parks', '--format', 'table'])
+ * ```
+ */
+
+export { runCli, GLOBAL_OPTIONS } from './cli'
+export type { CliOptions } from './cli'
+export { COMMAND_GROUPS } from './commands'
+export { CliError } from './command'
+export type { Command, CommandContext, CommandGroup, CommandOption, CommandValues } from './command'
+export { loadProfile, loadEnv, DEFAULT_DKAN_URL } from './config'
+export type { DkanProfile, LoadProfileOptions } from './config'
+export { formatOutput, formatTable, formatCsv, OUTPUT_FORMATS } from './output'
+export type { OutputFormat } from './output'
+export { parseCondition } from './commands/datastore'
@@ -0,0 +1,100 @@
+/**
+ * Output formatting for the `dkan` CLI.
+ *
+ * `json` prints the API response as-is. `table` and `csv` flatten it into rows: a list
+ * becomes one row per item (scalars under a `value` column) and columns are the union of
+ * the items' keys. A single object becomes a property/value table, or a one-row CSV.
+ * Nested values are written as compact JSON.
+ */
+
+export type OutputFormat = 'json' | 'table' | 'csv'
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['json', 'table', 'csv']
+
+/** Widest a table column may get before values are truncated */
+const MAX_COLUMN_WIDTH = 60
+
+type Row = Record<string, unknown>
+
+function isObject(value: unknown): value is Row {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function toCell(value: unknown): string {
+  if (value === undefined || value === null) return ''
+  if (typeof value === 'string') return value
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+function toRows(data: unknown): Row[] {
+  if (Array.isArray(data)) return data.map((item) => (isObject(item) ? item : { value: item }))
+  return [isObject(data) ? data : { value: data }]
+}
+
+function columnsOf(rows: Row[]): string[] {
+  const columns = new Set<string>()
+  for (const row of rows) for (const key of Object.keys(row)) columns.add(key)
+  return [...columns]
+}
+
+function truncate(text: string, width: number): string {
+  const line = text.replace(/\r?\n/g, ' ')
+  return line.length > width ? `${line.slice(0, width - 1)}…` : line
+}
+
+/** Render rows as an aligned plain-text table */
+export function formatTable(data: unknown): string {
+  const rows: Row[] = Array.isArray(data)
+    ? toRows(data)
+    : isObject(data)
+      ? Object.entries(data).map(([property, value]) => ({ property, value }))
+      : toRows(data)
+  if (rows.length === 0) return '(no results)'
+
+  const columns = columnsOf(rows)
+  const cells = rows.map((row) => columns.map((column) => truncate(toCell(row[column]), MAX_COLUMN_WIDTH)))
+  const widths = columns.map((column, i) =>
+    Math.max(column.length, ...cells.map((row) => row[i].length))
+  )
+  const line = (values: string[]) => values.map((value, i) => value.padEnd(widths[i])).join('  ').trimEnd()
+
+  return [
+    line(columns),
+    line(widths.map((width) => '-'.repeat(width))),
+    ...cells.map(line),
+  ].join('\n')
+}
+
+function escapeCsv(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+/** Render rows as RFC 4180 CSV with a header row */
+export function formatCsv(data: unknown): string {
+  const rows = toRows(data)
+  if (rows.length === 0) return ''
+
+  const columns = columnsOf(rows)
+  return [
+    columns.map(escapeCsv).join(','),
+    ...rows.map((row) => columns.map((column) => escapeCsv(toCell(row[column]))).join(',')),
+  ].join('\n')
+}
+
+/**
+ * Format command output.
+ * @param data - Value returned by the command
+ * @param format - `json`, `table` or `csv`
+ * @returns Text to print, without a trailing newline
+ */
+export function formatOutput(data: unknown, format: OutputFormat): string {
+  switch (format) {
+    case 'table':
+      return formatTable(data)
+    case 'csv':
+      return formatCsv(data)
+    default:
+      return JSON.stringify(data, null, 2)
+  }
+}
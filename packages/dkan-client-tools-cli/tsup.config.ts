@@ -0,0 +1,17 @@
+import { defineConfig } from 'tsup'
+
+export default defineConfig({
+  // Library entry plus the `dkan` executable (bin.ts keeps its shebang)
+  entry: ['src/index.ts', 'src/bin.ts'],
+  format: ['esm'],
+  platform: 'node',
+  target: 'node18',
+  dts: { entry: 'src/index.ts' },
+  splitting: false,
+  sourcemap: true,
+  clean: true,
+  treeshake: true,
+  minify: false,
+  outDir: 'dist',
+  external: ['@dkan-client-tools/core', 'dotenv'],
+})
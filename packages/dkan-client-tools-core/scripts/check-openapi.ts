@@ -0,0 +1,121 @@
+#!/usr/bin/env node
+/**
+ * OpenAPI Conformance Check
+ *
+ * Compares DkanApiClient's endpoints with the OpenAPI document a DKAN instance publishes
+ * (or a saved copy) and reports:
+ * - Client methods whose endpoint or HTTP method is missing from the document
+ * - Query parameters the client sends that are no longer declared, or new required ones
+ * - Operations in the document that no client method supports
+ *
+ * Exits with status 1 when any client method has issues, so it can run in CI after a
+ * DKAN upgrade. Unsupported operations are listed but do not fail the check.
+ *
+ * Usage:
+ *   npm run check:openapi                          # Fetch from DKAN_URL (default)
+ *   npm run check:openapi -- path/to/openapi.json  # Check a saved document
+ *   npm run check:openapi -- --json                # Print the report as JSON
+ *
+ * Environment-specific configuration:
+ *   .env                      # Base (auto-generated by DDEV)
+ *   .env.development.local    # Personal dev overrides
+ *   .env.test.local           # Test server credentials
+ *   .env.production.local     # Production server credentials
+ *
+ * Shell overrides (always highest priority):
+ *   DKAN_URL=https://demo.getdkan.org npm run check:openapi
+ */
+
+import { config } from 'dotenv'
+import { join, dirname } from 'path'
+import { fileURLToPath } from 'url'
+import { DkanApiClient } from '../src/api/client'
+import { checkOpenApiConformance } from '../src/openapi/conformance'
+import type { OpenApiDocument } from '../src/openapi/conformance'
+import { readOpenApiDocument } from '../src/node'
+
+// Load environment variables from .env files in project root
+// (same priority order as record-api-responses.ts: shell, .env.${NODE_ENV}.local,
+// .env.${NODE_ENV}, .env.local, .env)
+//
+// @ts-expect-error - import.meta is valid in Node ESM (see tsconfig.scripts.json)
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = dirname(__filename)
+const projectRoot = join(__dirname, '../../..')
+const NODE_ENV = process.env.NODE_ENV || 'development'
+
+config({ path: join(projectRoot, `.env.${NODE_ENV}.local`), override: false, quiet: true })
+config({ path: join(projectRoot, `.env.${NODE_ENV}`), override: false, quiet: true })
+config({ path: join(projectRoot, '.env.local'), override: false, quiet: true })
+config({ path: join(projectRoot, '.env'), override: false, quiet: true })
+
+const DKAN_URL = process.env.DKAN_URL || 'http://dkan.ddev.site'
+const DKAN_USER = process.env.DKAN_USER
+const DKAN_PASS = process.env.DKAN_PASS
+
+const args = process.argv.slice(2)
+const asJson = args.includes('--json')
+const file = args.find((arg) => !arg.startsWith('--'))
+
+async function loadDocument(): Promise<OpenApiDocument> {
+  if (file) {
+    return readOpenApiDocument(file)
+  }
+
+  const client = new DkanApiClient({
+    baseUrl: DKAN_URL,
+    auth: DKAN_USER && DKAN_PASS ? { username: DKAN_USER, password: DKAN_PASS } : undefined,
+  })
+  return client.getOpenApiDocument()
+}
+
+async function main() {
+  try {
+    if (!asJson) {
+      console.log(`📚 Loading OpenAPI document from ${file ?? `${DKAN_URL}/api/1`}...`)
+    }
+    const document = await loadDocument()
+    const report = checkOpenApiConformance(document)
+
+    if (asJson) {
+      console.log(JSON.stringify(report, null, 2))
+      process.exit(report.ok ? 0 : 1)
+    }
+
+    const version = document.info?.version ? ` (API version ${document.info.version})` : ''
+    console.log(`  Checked ${report.checked} client operations${version}\n`)
+
+    if (report.issues.length > 0) {
+      console.log('✗ Client operations with issues:')
+      for (const issue of report.issues) {
+        console.log(`  [${issue.type}] ${issue.message}`)
+      }
+      console.log('')
+    }
+
+    if (report.unsupported.length > 0) {
+      console.log('⊘ Operations without a client method:')
+      for (const operation of report.unsupported) {
+        const label = operation.summary ?? operation.operationId
+        console.log(`  ${operation.method} ${operation.path}${label ? ` - ${label}` : ''}`)
+      }
+      console.log('')
+    }
+
+    console.log('============================================================')
+    console.log(`Issues:      ${report.issues.length}`)
+    console.log(`Unsupported: ${report.unsupported.length}`)
+    console.log('============================================================\n')
+
+    if (report.ok) {
+      console.log('✅ DkanApiClient matches the OpenAPI document\n')
+    } else {
+      process.exit(1)
+    }
+  } catch (error) {
+    console.error('❌ Error:', error instanceof Error ? error.message : String(error))
+    process.exit(1)
+  }
+}
+
+main()
@@ -1367,7 +1367,7 @@ async function main() {
     auth: process.env.DKAN_USER && process.env.DKAN_PASS
       ? { username: process.env.DKAN_USER, password: process.env.DKAN_PASS }
       : undefined,
-    outputDir: join(__dirname, '../src/__tests__/fixtures'),
+    outputDir: join(__dirname, '../src/testing/fixtures'),
     skipMutations,
   }
 
@@ -5,13 +5,24 @@
  * - Constructor and configuration
  * - Authentication (token and basic auth)
  * - Retry logic for network failures
+ * - Retry policy (status codes, idempotency, backoff, Retry-After)
+ * - Custom transport and request/response interceptors
+ * - AbortSignal and per-request timeouts
  * - Error handling and DkanApiError creation
+ * - Typed error subclasses and parsed validation errors
  * - Utility methods (getBaseUrl, getDefaultOptions, getOpenApiDocsUrl)
  */
 
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest'
 import { DkanApiClient } from '../../api/client'
-import { DkanApiError } from '../../types'
+import {
+  DkanApiError,
+  DkanNotFoundError,
+  DkanAuthError,
+  DkanValidationError,
+  DkanNetworkError,
+  DkanTimeoutError,
+} from '../../types'
 
 // Mock fetch globally
 const mockFetch = vi.fn()
@@ -243,6 +254,114 @@ describe('DkanApiClient - Core Functionality', () => {
     })
   })
 
+  describe('Typed Errors', () => {
+    const errorResponse = (status: number, body: any) => ({
+      ok: false,
+      status,
+      statusText: 'Error',
+      text: async () => (typeof body === 'string' ? body : JSON.stringify(body)),
+    })
+
+    const createClient = () => new DkanApiClient({
+      baseUrl: 'https://example.com',
+      defaultOptions: { retry: 0 },
+    })
+
+    it('should throw DkanNotFoundError for 404', async () => {
+      mockFetch.mockResolvedValueOnce(errorResponse(404, { message: 'Not found' }))
+
+      const error = await createClient().getDataset('missing').catch((e) => e)
+      expect(error).toBeInstanceOf(DkanNotFoundError)
+      expect(error).toBeInstanceOf(DkanApiError)
+      expect(error.statusCode).toBe(404)
+    })
+
+    it('should throw DkanAuthError for 401 and 403', async () => {
+      mockFetch
+        .mockResolvedValueOnce(errorResponse(401, 'Unauthorized'))
+        .mockResolvedValueOnce(errorResponse(403, 'Forbidden'))
+
+      await expect(createClient().getDataset('a')).rejects.toBeInstanceOf(DkanAuthError)
+      await expect(createClient().getDataset('a')).rejects.toBeInstanceOf(DkanAuthError)
+    })
+
+    it('should parse violations from a JSON-encoded validator message', async () => {
+      mockFetch.mockResolvedValueOnce(errorResponse(400, {
+        message: JSON.stringify({
+          valid: false,
+          errors: [
+            {
+              keyword: 'required',
+              pointer: '#',
+              message: 'The required properties (title) are missing',
+              keywordArgs: { missing: 'title' },
+            },
+            {
+              keyword: 'format',
+              pointer: '#/contactPoint/hasEmail',
+              message: 'The data must match the email format',
+            },
+          ],
+        }),
+        status: 400,
+        timestamp: '2025-11-13T17:00:00Z',
+      }))
+
+      const error = await createClient().createDataset({} as any).catch((e) => e)
+      expect(error).toBeInstanceOf(DkanValidationError)
+      expect(error.violations).toEqual([
+        { property: 'title', message: 'The required properties (title) are missing', keyword: 'required' },
+        { property: 'contactPoint.hasEmail', message: 'The data must match the email format', keyword: 'format' },
+      ])
+      expect(error.message).toContain('contactPoint.hasEmail: The data must match the email format')
+      expect(error.timestamp).toBe('2025-11-13T17:00:00Z')
+    })
+
+    it('should parse violations from a data.errors array', async () => {
+      mockFetch.mockResolvedValueOnce(errorResponse(422, {
+        message: 'Invalid metadata',
+        data: { errors: [{ property: 'keyword', message: 'Must be an array' }] },
+      }))
+
+      const error = await createClient().patchDataset('a', {}).catch((e) => e)
+      expect(error).toBeInstanceOf(DkanValidationError)
+      expect(error.violations).toEqual([
+        { property: 'keyword', message: 'Must be an array', keyword: undefined },
+      ])
+    })
+
+    it('should throw DkanValidationError with no violations for an unparseable 422', async () => {
+      mockFetch.mockResolvedValueOnce(errorResponse(422, 'Unprocessable'))
+
+      const error = await createClient().createDataset({} as any).catch((e) => e)
+      expect(error).toBeInstanceOf(DkanValidationError)
+      expect(error.violations).toEqual([])
+    })
+
+    it('should throw DkanNetworkError when no response is received', async () => {
+      mockFetch.mockRejectedValueOnce(new TypeError('Failed to fetch'))
+
+      const error = await createClient().getDataset('a').catch((e) => e)
+      expect(error).toBeInstanceOf(DkanNetworkError)
+      expect(error.message).toBe('Failed to fetch')
+      expect(error.statusCode).toBeUndefined()
+    })
+
+    it('should throw DkanTimeoutError when an attempt times out', async () => {
+      const client = new DkanApiClient({
+        baseUrl: 'https://example.com',
+        fetch: (_url, init) => new Promise((_resolve, reject) => {
+          init.signal?.addEventListener('abort', () => reject(new Error('aborted')))
+        }),
+        defaultOptions: { retry: 0 },
+      })
+
+      const error = await client.getDataset('a', undefined, { timeoutMs: 5 }).catch((e) => e)
+      expect(error).toBeInstanceOf(DkanTimeoutError)
+      expect(error.timeoutMs).toBe(5)
+    })
+  })
+
   describe('Retry Logic', () => {
     it('should retry on network failure', async () => {
       vi.useFakeTimers()
@@ -314,6 +433,461 @@ describe('DkanApiClient - Core Functionality', () => {
     })
   })
 
+  describe('Retry Policy', () => {
+    const okResponse = (body: any) => ({
+      ok: true,
+      status: 200,
+      statusText: 'OK',
+      json: async () => body,
+    })
+
+    const errorResponse = (status: number, headers: Record<string, string> = {}) => ({
+      ok: false,
+      status,
+      statusText: 'Error',
+      headers: new Headers(headers),
+      text: async () => 'Error',
+    })
+
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    it('should not retry 4xx responses', async () => {
+      mockFetch.mockResolvedValue(errorResponse(404))
+
+      const client = new DkanApiClient({
+        baseUrl: 'https://example.com',
+        defaultOptions: { retry: 3, retryDelay: 1 },
+      })
+
+      await expect(client.getDataset('missing')).rejects.toMatchObject({ statusCode: 404 })
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+    })
+
+    it('should retry retryable status codes', async () => {
+      mockFetch
+        .mockResolvedValueOnce(errorResponse(503))
+        .mockResolvedValueOnce(okResponse({ identifier: 'test' }))
+
+      const client = new DkanApiClient({
+        baseUrl: 'https://example.com',
+        defaultOptions: { retry: 3, retryDelay: 1 },
+      })
+
+      const result = await client.getDataset('test')
+      expect(result.identifier).toBe('test')
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+    })
+
+    it('should not retry non-idempotent writes', async () => {
+      mockFetch.mockRejectedValue(new Error('Network error'))
+
+      const client = new DkanApiClient({
+        baseUrl: 'https://example.com',
+        defaultOptions: { retry: 3, retryDelay: 1 },
+      })
+
+      await expect(client.createDataset({ identifier: 'test' } as any)).rejects.toThrow(DkanApiError)
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+    })
+
+    it('should retry read-only POST queries', async () => {
+      mockFetch
+        .mockRejectedValueOnce(new Error('Network error'))
+        .mockResolvedValueOnce(okResponse({ results: [], count: 0 }))
+
+      const client = new DkanApiClient({
+        baseUrl: 'https://example.com',
+        defaultOptions: { retry: 3, retryDelay: 1 },
+      })
+
+      await client.queryDatastore('dataset-123', 0, { limit: 10 })
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+    })
+
+    it('should retry writes when idempotentOnly is disabled', async () => {
+      mockFetch
+        .mockRejectedValueOnce(new Error('Network error'))
+        .mockResolvedValueOnce(okResponse({ endpoint: 'dataset', identifier: 'test' }))
+
+      const client = new DkanApiClient({
+        baseUrl: 'https://example.com',
+        defaultOptions: { retry: 3, retryDelay: 1, retryPolicy: { idempotentOnly: false } },
+      })
+
+      await client.createDataset({ identifier: 'test' } as any)
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+    })
+
+    it('should back off exponentially without jitter', async () => {
+      vi.useFakeTimers()
+      mockFetch.mockRejectedValue(new Error('Network error'))
+
+      const client = new DkanApiClient({
+        baseUrl: 'https://example.com',
+        defaultOptions: { retry: 3, retryDelay: 100, retryPolicy: { jitter: false } },
+      })
+
+      const promise = client.getDataset('test')
+      promise.catch(() => {})
+
+      await vi.advanceTimersByTimeAsync(99)
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+      await vi.advanceTimersByTimeAsync(1)
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+      await vi.advanceTimersByTimeAsync(200)
+      expect(mockFetch).toHaveBeenCalledTimes(3)
+      await vi.advanceTimersByTimeAsync(400)
+      expect(mockFetch).toHaveBeenCalledTimes(4)
+
+      await expect(promise).rejects.toThrow('Network error')
+    })
+
+    it('should honor Retry-After', async () => {
+      vi.useFakeTimers()
+      mockFetch
+        .mockResolvedValueOnce(errorResponse(429, { 'Retry-After': '2' }))
+        .mockResolvedValueOnce(okResponse({ identifier: 'test' }))
+
+      const client = new DkanApiClient({
+        baseUrl: 'https://example.com',
+        defaultOptions: { retry: 1, retryDelay: 10 },
+      })
+
+      const promise = client.getDataset('test')
+
+      await vi.advanceTimersByTimeAsync(1999)
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+      await vi.advanceTimersByTimeAsync(1)
+
+      await expect(promise).resolves.toMatchObject({ identifier: 'test' })
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+    })
+
+    it('should cap Retry-After at maxDelay', async () => {
+      vi.useFakeTimers()
+      mockFetch
+        .mockResolvedValueOnce(errorResponse(429, { 'Retry-After': '3600' }))
+        .mockResolvedValueOnce(okResponse({ identifier: 'test' }))
+
+      const client = new DkanApiClient({
+        baseUrl: 'https://example.com',
+        defaultOptions: { retry: 1, retryPolicy: { maxDelay: 1000 } },
+      })
+
+      const promise = client.getDataset('test')
+
+      await vi.advanceTimersByTimeAsync(999)
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+      await vi.advanceTimersByTimeAsync(1)
+
+      await expect(promise).resolves.toMatchObject({ identifier: 'test' })
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+    })
+
+    it('should give up when the next delay exceeds maxElapsedTime', async () => {
+      mockFetch.mockResolvedValue(errorResponse(503, { 'Retry-After': '60' }))
+
+      const client = new DkanApiClient({
+        baseUrl: 'https://example.com',
+        defaultOptions: { retry: 3, retryPolicy: { maxElapsedTime: 5000 } },
+      })
+
+      await expect(client.getDataset('test')).rejects.toMatchObject({
+        statusCode: 503,
+        retryAfter: 60000,
+      })
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+    })
+
+    it('should apply per-call overrides', async () => {
+      mockFetch.mockResolvedValue(errorResponse(404))
+
+      const client = new DkanApiClient({
+        baseUrl: 'https://example.com',
+        defaultOptions: { retry: 0, retryDelay: 1 },
+      })
+
+      await expect(
+        client.getDataset('test', undefined, {
+          retry: 2,
+          retryPolicy: { retryableStatusCodes: [404] },
+        })
+      ).rejects.toThrow(DkanApiError)
+      expect(mockFetch).toHaveBeenCalledTimes(3)
+    })
+  })
+
+  describe('Transport and Interceptors', () => {
+    const okResponse = (body: any) => ({
+      ok: true,
+      status: 200,
+      statusText: 'OK',
+      json: async () => body,
+      blob: async () => new Blob([JSON.stringify(body)]),
+    })
+
+    it('should use custom fetch instead of global fetch', async () => {
+      const customFetch = vi.fn().mockResolvedValue(okResponse({ identifier: 'test' }))
+
+      const client = new DkanApiClient({
+        baseUrl: 'https://example.com',
+        fetch: customFetch,
+      })
+
+      await client.getDataset('test')
+
+      expect(customFetch).toHaveBeenCalledWith(
+        'https://example.com/api/1/metastore/schemas/dataset/items/test',
+        expect.objectContaining({ method: 'GET' })
+      )
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+
+    it('should route downloads through custom fetch', async () => {
+      const customFetch = vi.fn().mockResolvedValue(okResponse([]))
+
+      const client = new DkanApiClient({
+        baseUrl: 'https://example.com',
+        fetch: customFetch,
+      })
+
+      await client.downloadQuery('dataset-123', 0)
+      await client.downloadQueryByDistribution('dist-123', { limit: 10 })
+
+      expect(customFetch).toHaveBeenCalledTimes(2)
+      expect(customFetch).toHaveBeenNthCalledWith(
+        1,
+        'https://example.com/api/1/datastore/query/dataset-123/0/download?format=csv',
+        expect.objectContaining({ method: 'GET' })
+      )
+      expect(customFetch).toHaveBeenNthCalledWith(
+        2,
+        'https://example.com/api/1/datastore/query/dist-123',
+        expect.objectContaining({ method: 'POST' })
+      )
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+
+    it('should run onRequest interceptors in order', async () => {
+      mockFetch.mockResolvedValueOnce(okResponse({ identifier: 'test' }))
+      const calls: string[] = []
+
+      const client = new DkanApiClient({
+        baseUrl: 'https://example.com',
+        auth: { token: 'test-token' },
+        interceptors: [
+          {
+            onRequest: (request) => {
+              calls.push('first')
+              return {
+                ...request,
+                url: request.url.replace('https://example.com', 'https://proxy.example.com'),
+              }
+            },
+          },
+          {
+            onRequest: (request) => {
+              calls.push('second')
+              request.headers['X-Trace-Id'] = 'abc'
+            },
+          },
+        ],
+      })
+
+      await client.getDataset('test')
+
+      expect(calls).toEqual(['first', 'second'])
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://proxy.example.com/api/1/metastore/schemas/dataset/items/test',
+        expect.objectContaining({
+          headers: expect.objectContaining({
+            'Authorization': 'Bearer test-token',
+            'X-Trace-Id': 'abc',
+          }),
+        })
+      )
+    })
+
+    it('should allow onResponse interceptors to replace the response', async () => {
+      mockFetch.mockResolvedValueOnce(okResponse({ identifier: 'original' }))
+
+      const client = new DkanApiClient({
+        baseUrl: 'https://example.com',
+        interceptors: [
+          {
+            onResponse: () => okResponse({ identifier: 'replaced' }) as any,
+          },
+        ],
+      })
+
+      const result = await client.getDataset('test')
+      expect(result.identifier).toBe('replaced')
+    })
+
+    it('should call onError interceptors with DkanApiError', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        statusText: 'Not Found',
+        text: async () => 'Not found',
+      })
+      const onError = vi.fn()
+
+      const client = new DkanApiClient({
+        baseUrl: 'https://example.com',
+        defaultOptions: { retry: 0 },
+        interceptors: [{ onError }],
+      })
+
+      await expect(client.getDataset('missing')).rejects.toThrow(DkanApiError)
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({ statusCode: 404 }),
+        expect.objectContaining({ method: 'GET' })
+      )
+    })
+
+    it('should turn onRequest interceptor failures into DkanApiError', async () => {
+      const onError = vi.fn()
+
+      const client = new DkanApiClient({
+        baseUrl: 'https://example.com',
+        defaultOptions: { retry: 0 },
+        interceptors: [
+          {
+            onRequest: () => {
+              throw new Error('Missing tenant header')
+            },
+          },
+          { onError },
+        ],
+      })
+
+      const error = await client.getDataset('test').catch((e) => e)
+
+      expect(error).toBeInstanceOf(DkanApiError)
+      expect(error).not.toBeInstanceOf(DkanNetworkError)
+      expect(error.message).toBe('Missing tenant header')
+      expect(onError).toHaveBeenCalledWith(error, expect.objectContaining({ method: 'GET' }))
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+
+    it('should call onError interceptors for network failures', async () => {
+      mockFetch.mockRejectedValueOnce(new Error('Network error'))
+      const onError = vi.fn()
+
+      const client = new DkanApiClient({
+        baseUrl: 'https://example.com',
+        defaultOptions: { retry: 0 },
+        interceptors: [{ onError }],
+      })
+
+      await expect(client.getDataset('test')).rejects.toThrow('Network error')
+      expect(onError).toHaveBeenCalledTimes(1)
+      expect(onError.mock.calls[0][0]).toBeInstanceOf(DkanApiError)
+    })
+  })
+
+  describe('Abort and Timeout', () => {
+    /** Fetch double that never resolves until its signal aborts */
+    const hangingFetch = vi.fn((_url: string, init: RequestInit) =>
+      new Promise<Response>((_resolve, reject) => {
+        init.signal?.addEventListener('abort', () => reject(new Error('The operation was aborted')))
+      })
+    )
+
+    beforeEach(() => {
+      hangingFetch.mockClear()
+    })
+
+    it('should pass an AbortSignal to fetch when a signal is provided', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        statusText: 'OK',
+        json: async () => ({ identifier: 'test' }),
+      })
+
+      const client = new DkanApiClient({ baseUrl: 'https://example.com' })
+      await client.getDataset('test', undefined, { signal: new AbortController().signal })
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.objectContaining({ signal: expect.any(AbortSignal) })
+      )
+    })
+
+    it('should abort an in-flight request', async () => {
+      const controller = new AbortController()
+      const client = new DkanApiClient({
+        baseUrl: 'https://example.com',
+        fetch: hangingFetch,
+      })
+
+      const promise = client.searchDatasets({}, { signal: controller.signal })
+      controller.abort()
+
+      await expect(promise).rejects.toThrow('Request aborted')
+    })
+
+    it('should not retry after abort', async () => {
+      const controller = new AbortController()
+      const client = new DkanApiClient({
+        baseUrl: 'https://example.com',
+        fetch: hangingFetch,
+        defaultOptions: { retry: 3, retryDelay: 10 },
+      })
+
+      const promise = client.getDataset('test', undefined, { signal: controller.signal })
+      controller.abort()
+
+      await expect(promise).rejects.toThrow(DkanApiError)
+      expect(hangingFetch).toHaveBeenCalledTimes(1)
+    })
+
+    it('should stop waiting between retries when aborted', async () => {
+      const controller = new AbortController()
+      mockFetch.mockRejectedValue(new Error('Network error'))
+
+      const client = new DkanApiClient({
+        baseUrl: 'https://example.com',
+        defaultOptions: { retry: 3, retryDelay: 60000 },
+      })
+
+      const promise = client.getDataset('test', undefined, { signal: controller.signal })
+      await vi.waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(1))
+      controller.abort()
+
+      await expect(promise).rejects.toThrow('Request aborted')
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+    })
+
+    it('should reject immediately when signal is already aborted', async () => {
+      const client = new DkanApiClient({
+        baseUrl: 'https://example.com',
+        fetch: hangingFetch,
+      })
+
+      await expect(
+        client.downloadQuery('dataset-123', 0, {}, { signal: AbortSignal.abort() })
+      ).rejects.toThrow('Request aborted')
+      expect(hangingFetch).not.toHaveBeenCalled()
+    })
+
+    it('should time out slow requests', async () => {
+      const client = new DkanApiClient({
+        baseUrl: 'https://example.com',
+        fetch: hangingFetch,
+        defaultOptions: { retry: 0 },
+      })
+
+      await expect(
+        client.getDataset('test', undefined, { timeoutMs: 10 })
+      ).rejects.toThrow('Request timed out after 10ms')
+    })
+  })
+
   describe('Utility Methods', () => {
     it('should return base URL', () => {
       const client = new DkanApiClient({ baseUrl: 'https://example.com' })
@@ -0,0 +1,146 @@
+/**
+ * Tests for HTTP Conditional Requests
+ *
+ * Covers:
+ * - Storing ETag / Last-Modified validators per URL
+ * - Sending If-None-Match / If-Modified-Since on later GETs
+ * - 304 Not Modified returning the cached payload
+ * - getResponse() exposing headers
+ * - Staying off unless conditionalRequests is enabled
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { DkanApiClient } from '../../api/client'
+
+const mockFetch = vi.fn()
+global.fetch = mockFetch as any
+
+function okResponse(data: unknown, headers: Record<string, string> = {}) {
+  return {
+    ok: true,
+    status: 200,
+    statusText: 'OK',
+    headers: new Headers(headers),
+    json: async () => data,
+  }
+}
+
+function notModifiedResponse() {
+  return {
+    ok: false,
+    status: 304,
+    statusText: 'Not Modified',
+    headers: new Headers({ ETag: '"v1"' }),
+    json: async () => {
+      throw new Error('304 responses have no body')
+    },
+    text: async () => '',
+  }
+}
+
+function sentHeaders(call: number): Record<string, string> {
+  return mockFetch.mock.calls[call][1].headers
+}
+
+describe('DkanApiClient - Conditional Requests', () => {
+  let client: DkanApiClient
+  const dataset = { identifier: 'abc', title: 'Cached' }
+
+  beforeEach(() => {
+    mockFetch.mockReset()
+    client = new DkanApiClient({
+      baseUrl: 'https://example.com',
+      defaultOptions: { retry: 0 },
+      conditionalRequests: true,
+    })
+  })
+
+  it('should revalidate with If-None-Match and return the cached payload on 304', async () => {
+    mockFetch
+      .mockResolvedValueOnce(okResponse(dataset, { ETag: '"v1"' }))
+      .mockResolvedValueOnce(notModifiedResponse())
+
+    await client.getDataset('abc')
+    const result = await client.getDataset('abc')
+
+    expect(sentHeaders(0)['If-None-Match']).toBeUndefined()
+    expect(sentHeaders(1)['If-None-Match']).toBe('"v1"')
+    expect(result).toEqual(dataset)
+  })
+
+  it('should send If-Modified-Since for Last-Modified validators', async () => {
+    const lastModified = 'Wed, 21 Oct 2025 07:28:00 GMT'
+    mockFetch
+      .mockResolvedValueOnce(okResponse(['dataset'], { 'Last-Modified': lastModified }))
+      .mockResolvedValueOnce(notModifiedResponse())
+
+    await client.listSchemas()
+    expect(await client.listSchemas()).toEqual(['dataset'])
+
+    expect(sentHeaders(1)['If-Modified-Since']).toBe(lastModified)
+  })
+
+  it('should replace the cached payload when the resource changed', async () => {
+    mockFetch
+      .mockResolvedValueOnce(okResponse(dataset, { ETag: '"v1"' }))
+      .mockResolvedValueOnce(okResponse({ ...dataset, title: 'Updated' }, { ETag: '"v2"' }))
+      .mockResolvedValueOnce(notModifiedResponse())
+
+    await client.getDataset('abc')
+    await client.getDataset('abc')
+    const result = await client.getDataset('abc')
+
+    expect(sentHeaders(2)['If-None-Match']).toBe('"v2"')
+    expect(result.title).toBe('Updated')
+  })
+
+  it('should not send validators for other URLs or non-GET requests', async () => {
+    mockFetch.mockImplementation(async () => okResponse(dataset, { ETag: '"v1"' }))
+
+    await client.getDataset('abc')
+    await client.getDataset('def')
+    await client.updateDataset('abc', dataset as any)
+
+    expect(sentHeaders(1)['If-None-Match']).toBeUndefined()
+    expect(sentHeaders(2)['If-None-Match']).toBeUndefined()
+  })
+
+  it('should reject an unsolicited 304', async () => {
+    mockFetch.mockResolvedValueOnce(notModifiedResponse())
+
+    await expect(client.getDataset('abc')).rejects.toMatchObject({ statusCode: 304 })
+  })
+
+  it('should expose headers and notModified through getResponse()', async () => {
+    mockFetch
+      .mockResolvedValueOnce(okResponse(dataset, { ETag: '"v1"', 'Cache-Control': 'max-age=60' }))
+      .mockResolvedValueOnce(notModifiedResponse())
+
+    const first = await client.getResponse('/api/1/metastore/schemas/dataset/items/abc')
+    const second = await client.getResponse('/api/1/metastore/schemas/dataset/items/abc')
+
+    expect(first.headers?.get('Cache-Control')).toBe('max-age=60')
+    expect(first.notModified).toBeUndefined()
+    expect(second).toMatchObject({ data: dataset, status: 200, notModified: true })
+  })
+
+  it('should fetch full responses after clearConditionalCache()', async () => {
+    mockFetch.mockImplementation(async () => okResponse(dataset, { ETag: '"v1"' }))
+
+    await client.getDataset('abc')
+    client.clearConditionalCache()
+    await client.getDataset('abc')
+
+    expect(sentHeaders(1)['If-None-Match']).toBeUndefined()
+  })
+
+  it('should not store validators by default', async () => {
+    client = new DkanApiClient({ baseUrl: 'https://example.com', defaultOptions: { retry: 0 } })
+    mockFetch.mockImplementation(async () => okResponse(dataset, { ETag: '"v1"' }))
+
+    await client.getDataset('abc')
+    await client.getDataset('abc')
+
+    expect(sentHeaders(1)['If-None-Match']).toBeUndefined()
+  })
+})
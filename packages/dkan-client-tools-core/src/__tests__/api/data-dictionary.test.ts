@@ -136,7 +136,8 @@ describe('DkanApiClient - Data Dictionary Operations', () => {
       const result = await client.getDataDictionaryFromUrl('https://example.com/dict.json')
 
       expect(mockFetch).toHaveBeenCalledWith(
-        'https://example.com/dict.json'
+        'https://example.com/dict.json',
+        expect.objectContaining({ method: 'GET' })
       )
       expect(result).toEqual(externalDict)
       expect(result.fields).toHaveLength(2)
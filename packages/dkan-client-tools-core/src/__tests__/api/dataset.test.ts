@@ -9,11 +9,13 @@
  * - updateDataset() - Full replacement update
  * - patchDataset() - Partial update
  * - deleteDataset() - Delete dataset
+ * - validateDataset() / assertValidDataset() - Local schema validation
  */
 
 import { describe, it, expect, beforeEach, vi } from 'vitest'
 import { DkanApiClient } from '../../api/client'
-import { DkanApiError } from '../../types'
+import { DkanApiError, DkanValidationError } from '../../types'
+import { fixtureLoader } from '../helpers/FixtureLoader'
 
 const mockFetch = vi.fn()
 global.fetch = mockFetch as any
@@ -361,4 +363,66 @@ describe('DkanApiClient - Dataset Operations', () => {
       expect(result.message).toContain('deleted')
     })
   })
+
+  describe('validateDataset', () => {
+    const datasetSchema = fixtureLoader.getFixture('Metastore', 'getSchema')!.response
+    const valid = mockDataset
+
+    beforeEach(() => {
+      mockFetch.mockResolvedValue({ ok: true, json: async () => datasetSchema })
+    })
+
+    it('should validate against the dataset schema, fetched once', async () => {
+      expect(await client.validateDataset(valid)).toEqual([])
+      const violations = await client.validateDataset({
+        ...valid,
+        contactPoint: { ...valid.contactPoint, hasEmail: 'not an email' },
+      })
+
+      expect(violations).toEqual([
+        expect.objectContaining({ property: 'contactPoint.hasEmail', keyword: 'pattern' }),
+      ])
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://example.com/api/1/metastore/schemas/dataset',
+        expect.anything()
+      )
+    })
+
+    it('should ignore missing required properties for partial datasets', async () => {
+      expect(await client.validateDataset({ title: 'Only a title' }, { partial: true })).toEqual([])
+      expect(await client.validateDataset({ title: 'Renamed', license: null, issued: null }, { partial: true })).toEqual([])
+      expect(await client.validateDataset({ keyword: 'health' as any }, { partial: true })).toEqual([
+        expect.objectContaining({ property: 'keyword', keyword: 'type' }),
+      ])
+    })
+
+    it('should reject invalid datasets with DkanValidationError', async () => {
+      const { title, ...untitled } = valid
+
+      const error = await client.assertValidDataset(untitled as any).catch((e) => e)
+
+      expect(error).toBeInstanceOf(DkanValidationError)
+      expect(error.message).toBe('Validation failed: title: The property title is required')
+      expect(error.violations).toHaveLength(1)
+      await expect(client.assertValidDataset(valid)).resolves.toBeUndefined()
+    })
+
+    it('should pass request options to the schema fetch without caching an aborted one', async () => {
+      const controller = new AbortController()
+      controller.abort()
+
+      await expect(
+        client.assertValidDataset(valid, undefined, { signal: controller.signal })
+      ).rejects.toThrow('Request aborted')
+      await expect(client.assertValidDataset(valid)).resolves.toBeUndefined()
+    })
+
+    it('should reject when the schema cannot be fetched', async () => {
+      mockFetch.mockReset()
+      mockFetch.mockResolvedValue({ ok: false, status: 404, statusText: 'Not Found', json: async () => ({}), text: async () => 'Not found' })
+
+      await expect(client.validateDataset(valid)).rejects.toBeInstanceOf(DkanApiError)
+    })
+  })
 })
@@ -0,0 +1,184 @@
+/**
+ * Tests for Streaming Datastore Downloads
+ *
+ * Covers:
+ * - downloadQueryStream() / downloadQueryByDistributionStream() - ReadableStream results
+ * - Progress callbacks with and without Content-Length
+ * - Progress for buffered downloadQuery()
+ * - Cancelling a stream mid-download
+ * - writeStreamToFile() from the Node entry
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { DkanApiClient } from '../../api/client'
+import { writeStreamToFile } from '../../node'
+
+const mockFetch = vi.fn()
+global.fetch = mockFetch as any
+
+const encoder = new TextEncoder()
+
+/** Response whose body streams the given chunks */
+function streamingResponse(chunks: string[], headers: Record<string, string> = {}) {
+  return {
+    ok: true,
+    status: 200,
+    statusText: 'OK',
+    headers: new Headers(headers),
+    body: new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (const chunk of chunks) controller.enqueue(encoder.encode(chunk))
+        controller.close()
+      },
+    }),
+  }
+}
+
+async function readText(stream: ReadableStream<Uint8Array>): Promise<string> {
+  const decoder = new TextDecoder()
+  const reader = stream.getReader()
+  let text = ''
+  for (let result = await reader.read(); !result.done; result = await reader.read()) {
+    text += decoder.decode(result.value, { stream: true })
+  }
+  return text + decoder.decode()
+}
+
+describe('DkanApiClient - Streaming Downloads', () => {
+  let client: DkanApiClient
+
+  beforeEach(() => {
+    mockFetch.mockReset()
+    client = new DkanApiClient({ baseUrl: 'https://example.com', defaultOptions: { retry: 0 } })
+  })
+
+  describe('downloadQueryStream', () => {
+    it('should return the response body as a stream', async () => {
+      mockFetch.mockResolvedValueOnce(streamingResponse(['id,name\n', '1,Test\n']))
+
+      const stream = await client.downloadQueryStream('dataset-123', 0, { format: 'csv' })
+
+      expect(stream).toBeInstanceOf(ReadableStream)
+      expect(await readText(stream)).toBe('id,name\n1,Test\n')
+      expect(mockFetch.mock.calls[0][0]).toBe(
+        'https://example.com/api/1/datastore/query/dataset-123/0/download?format=csv'
+      )
+    })
+
+    it('should report progress with the total from Content-Length', async () => {
+      mockFetch.mockResolvedValueOnce(
+        streamingResponse(['abcd', 'efghij'], { 'Content-Length': '10' })
+      )
+      const onProgress = vi.fn()
+
+      const stream = await client.downloadQueryStream('dataset-123', 0, {}, { onProgress })
+      await readText(stream)
+
+      expect(onProgress.mock.calls.map(([progress]) => progress)).toEqual([
+        { loaded: 0, total: 10 },
+        { loaded: 4, total: 10 },
+        { loaded: 10, total: 10 },
+      ])
+    })
+
+    it('should leave the total undefined without Content-Length', async () => {
+      mockFetch.mockResolvedValueOnce(streamingResponse(['abc']))
+      const onProgress = vi.fn()
+
+      await readText(await client.downloadQueryStream('dataset-123', 0, {}, { onProgress }))
+
+      expect(onProgress).toHaveBeenLastCalledWith({ loaded: 3, total: undefined })
+    })
+
+    it('should error the stream when the signal aborts mid-download', async () => {
+      let push!: (chunk: string) => void
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        headers: new Headers(),
+        body: new ReadableStream<Uint8Array>({
+          start(controller) {
+            push = (chunk) => controller.enqueue(encoder.encode(chunk))
+          },
+        }),
+      })
+      const controller = new AbortController()
+
+      const stream = await client.downloadQueryStream('dataset-123', 0, {}, { signal: controller.signal })
+      const reader = stream.getReader()
+      push('first')
+      expect((await reader.read()).done).toBe(false)
+
+      const pending = reader.read()
+      controller.abort()
+
+      await expect(pending).rejects.toThrow('Request aborted')
+    })
+
+    it('should throw typed errors before streaming', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        statusText: 'Not Found',
+        text: async () => 'Not found',
+      })
+
+      await expect(client.downloadQueryStream('missing', 0)).rejects.toMatchObject({ statusCode: 404 })
+    })
+  })
+
+  describe('downloadQueryByDistributionStream', () => {
+    it('should stream filtered results with POST', async () => {
+      mockFetch.mockResolvedValueOnce(streamingResponse(['[]']))
+
+      const stream = await client.downloadQueryByDistributionStream('dist-123', {
+        format: 'json',
+        limit: 10,
+      })
+
+      expect(await readText(stream)).toBe('[]')
+      const [url, init] = mockFetch.mock.calls[0]
+      expect(url).toBe('https://example.com/api/1/datastore/query/dist-123')
+      expect(JSON.parse(init.body)).toEqual({ format: 'json', limit: 10 })
+    })
+  })
+
+  describe('downloadQuery with progress', () => {
+    it('should buffer the stream into a Blob while reporting progress', async () => {
+      mockFetch.mockResolvedValueOnce(
+        streamingResponse(['id\n', '1\n'], { 'Content-Type': 'text/csv', 'Content-Length': '5' })
+      )
+      const onProgress = vi.fn()
+
+      const blob = await client.downloadQuery('dataset-123', 0, {}, { onProgress })
+
+      expect(blob.type).toBe('text/csv')
+      expect(await blob.text()).toBe('id\n1\n')
+      expect(onProgress).toHaveBeenLastCalledWith({ loaded: 5, total: 5 })
+    })
+  })
+
+  describe('writeStreamToFile', () => {
+    let dir: string
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'dkan-download-'))
+    })
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true })
+    })
+
+    it('should pipe a download stream to a file path', async () => {
+      mockFetch.mockResolvedValueOnce(streamingResponse(['id,name\n', '1,Test\n']))
+      const path = join(dir, 'data.csv')
+
+      await writeStreamToFile(await client.downloadQueryStream('dataset-123', 0), path)
+
+      expect(readFileSync(path, 'utf8')).toBe('id,name\n1,Test\n')
+    })
+  })
+})
@@ -0,0 +1,326 @@
+/**
+ * Tests for Datastore Iteration
+ *
+ * Covers:
+ * - iterateDatastore() - Rows and pages across multiple requests
+ * - iterateDatastoreByDistribution() - Distribution endpoint
+ * - Page size, resumable offsets, maxRows and query limit/offset
+ * - Concurrency and ordering
+ * - Abort signals and early exit
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { DkanApiClient } from '../../api/client'
+import { DkanClient } from '../../client/dkanClient'
+import { QueryClient } from '@tanstack/query-core'
+import { datastoreQuery } from '../../query/datastoreQuery'
+import { DkanNotFoundError } from '../../types'
+
+const mockFetch = vi.fn()
+global.fetch = mockFetch as any
+
+const TOTAL_ROWS = 12
+
+/** Serve `TOTAL_ROWS` numbered rows, honoring the request's limit and offset */
+function serveRows(total = TOTAL_ROWS) {
+  mockFetch.mockImplementation(async (_url: string, init: RequestInit) => {
+    const { limit, offset, count } = JSON.parse(init.body as string)
+    const results = Array.from(
+      { length: Math.max(0, Math.min(limit, total - offset)) },
+      (_, i) => ({ id: offset + i })
+    )
+    return {
+      ok: true,
+      status: 200,
+      statusText: 'OK',
+      json: async () => (count ? { results, count: total } : { results }),
+    }
+  })
+}
+
+function requestBodies() {
+  return mockFetch.mock.calls.map(([, init]) => JSON.parse(init.body))
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = []
+  for await (const item of iterable) items.push(item)
+  return items
+}
+
+describe('DkanApiClient - Datastore Iteration', () => {
+  let client: DkanApiClient
+
+  beforeEach(() => {
+    mockFetch.mockReset()
+    client = new DkanApiClient({
+      baseUrl: 'https://example.com',
+      defaultOptions: { retry: 0 },
+    })
+  })
+
+  describe('iterateDatastore', () => {
+    it('should yield every row across pages', async () => {
+      serveRows()
+
+      const rows = await collect(client.iterateDatastore('dataset-123', 0, {}, { pageSize: 5 }))
+
+      expect(rows.map((row) => row.id)).toEqual(Array.from({ length: TOTAL_ROWS }, (_, i) => i))
+      expect(mockFetch).toHaveBeenCalledTimes(3)
+      expect(mockFetch.mock.calls[0][0]).toBe('https://example.com/api/1/datastore/query/dataset-123/0')
+      expect(requestBodies().map(({ limit, offset }) => [offset, limit])).toEqual([
+        [0, 5],
+        [5, 5],
+        [10, 2],
+      ])
+    })
+
+    it('should request the count only on the first page', async () => {
+      serveRows()
+
+      await collect(client.iterateDatastore('dataset-123', 0, {}, { pageSize: 5 }))
+
+      expect(requestBodies().map(({ count }) => count)).toEqual([true, false, false])
+    })
+
+    it('should default to DKAN max page size', async () => {
+      serveRows()
+
+      await collect(client.iterateDatastore('dataset-123'))
+
+      expect(requestBodies()[0].limit).toBe(500)
+    })
+
+    it('should clamp the page size to the DKAN max', async () => {
+      serveRows()
+
+      await collect(client.iterateDatastore('dataset-123', 0, {}, { pageSize: 1000 }))
+
+      expect(requestBodies()[0].limit).toBe(500)
+    })
+
+    it('should continue past short pages while the count has not been reached', async () => {
+      // A server whose rows_limit (4) is below the requested page size
+      mockFetch.mockImplementation(async (_url: string, init: RequestInit) => {
+        const { limit, offset, count } = JSON.parse(init.body as string)
+        const results = Array.from(
+          { length: Math.max(0, Math.min(limit, 4, TOTAL_ROWS - offset)) },
+          (_, i) => ({ id: offset + i })
+        )
+        return {
+          ok: true,
+          status: 200,
+          statusText: 'OK',
+          json: async () => (count ? { results, count: TOTAL_ROWS } : { results }),
+        }
+      })
+
+      const pages = await collect(
+        client.iterateDatastore('dataset-123', 0, {}, { pageSize: 5, concurrency: 2 }).pages()
+      )
+
+      expect(pages.flatMap((page) => page.results.map((row) => row.id))).toEqual(
+        Array.from({ length: TOTAL_ROWS }, (_, i) => i)
+      )
+      expect(pages.map(({ offset, nextOffset }) => [offset, nextOffset])).toEqual([
+        [0, 4],
+        [4, 8],
+        [8, 12],
+      ])
+    })
+
+    it('should yield pages with resumable offsets', async () => {
+      serveRows()
+
+      const pages = await collect(
+        client.iterateDatastore('dataset-123', 0, {}, { pageSize: 5 }).pages()
+      )
+
+      expect(pages.map(({ offset, nextOffset, count }) => ({ offset, nextOffset, count }))).toEqual([
+        { offset: 0, nextOffset: 5, count: 12 },
+        { offset: 5, nextOffset: 10, count: 12 },
+        { offset: 10, nextOffset: 12, count: 12 },
+      ])
+    })
+
+    it('should resume from an offset and stop at maxRows', async () => {
+      serveRows()
+
+      const rows = await collect(
+        client.iterateDatastore('dataset-123', 0, {}, { pageSize: 3, offset: 5, maxRows: 4 })
+      )
+
+      expect(rows.map((row) => row.id)).toEqual([5, 6, 7, 8])
+      expect(requestBodies().map(({ limit, offset }) => [offset, limit])).toEqual([
+        [5, 3],
+        [8, 1],
+      ])
+    })
+
+    it('should use the query limit and offset as bounds', async () => {
+      serveRows()
+
+      const query = datastoreQuery().where('state', 'CA').offset(2).limit(6)
+      const rows = await collect(client.iterateDatastore('dataset-123', 0, query, { pageSize: 4 }))
+
+      expect(rows.map((row) => row.id)).toEqual([2, 3, 4, 5, 6, 7])
+      expect(requestBodies()[0].conditions).toEqual([{ property: 'state', value: 'CA', operator: '=' }])
+    })
+
+    it('should stop on a short page when no count is returned', async () => {
+      mockFetch.mockImplementation(async (_url: string, init: RequestInit) => {
+        const { limit, offset } = JSON.parse(init.body as string)
+        const results = Array.from({ length: Math.max(0, Math.min(limit, 7 - offset)) }, (_, i) => ({
+          id: offset + i,
+        }))
+        return { ok: true, status: 200, statusText: 'OK', json: async () => ({ results }) }
+      })
+
+      const rows = await collect(client.iterateDatastore('dataset-123', 0, {}, { pageSize: 3 }))
+
+      expect(rows).toHaveLength(7)
+      expect(mockFetch).toHaveBeenCalledTimes(3)
+    })
+
+    it('should yield nothing for an empty resource', async () => {
+      serveRows(0)
+
+      expect(await collect(client.iterateDatastore('dataset-123'))).toEqual([])
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+    })
+
+    it('should fetch pages concurrently and yield them in order', async () => {
+      let inFlight = 0
+      let maxInFlight = 0
+      mockFetch.mockImplementation(async (_url: string, init: RequestInit) => {
+        const { limit, offset, count } = JSON.parse(init.body as string)
+        inFlight++
+        maxInFlight = Math.max(maxInFlight, inFlight)
+        // Later pages resolve first
+        await new Promise((resolve) => setTimeout(resolve, 20 - offset))
+        inFlight--
+        const results = Array.from({ length: Math.min(limit, 20 - offset) }, (_, i) => ({ id: offset + i }))
+        return {
+          ok: true,
+          status: 200,
+          statusText: 'OK',
+          json: async () => (count ? { results, count: 20 } : { results }),
+        }
+      })
+
+      const rows = await collect(
+        client.iterateDatastore('dataset-123', 0, {}, { pageSize: 4, concurrency: 3 })
+      )
+
+      expect(rows.map((row) => row.id)).toEqual(Array.from({ length: 20 }, (_, i) => i))
+      expect(maxInFlight).toBe(3)
+      expect(mockFetch).toHaveBeenCalledTimes(5)
+    })
+
+    it('should not request pages until iterated', () => {
+      serveRows()
+
+      client.iterateDatastore('dataset-123')
+
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+
+    it('should stop requesting pages when the consumer breaks', async () => {
+      serveRows()
+
+      for await (const row of client.iterateDatastore('dataset-123', 0, {}, { pageSize: 5 })) {
+        if (row.id === 2) break
+      }
+
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+    })
+
+    it('should abort in-flight pages when the signal is aborted', async () => {
+      serveRows()
+      const controller = new AbortController()
+      const rows: number[] = []
+
+      await expect(async () => {
+        for await (const row of client.iterateDatastore('dataset-123', 0, {}, {
+          pageSize: 5,
+          signal: controller.signal,
+        })) {
+          rows.push(row.id)
+          if (row.id === 4) controller.abort()
+        }
+      }).rejects.toThrow('Request aborted')
+
+      expect(rows).toEqual([0, 1, 2, 3, 4])
+    })
+
+    it('should pass the page signal to each request', async () => {
+      serveRows()
+
+      await collect(client.iterateDatastore('dataset-123', 0, {}, { pageSize: 5, timeoutMs: 1000 }))
+
+      expect(mockFetch.mock.calls[0][1].signal).toBeInstanceOf(AbortSignal)
+    })
+
+    it('should propagate request errors', async () => {
+      mockFetch.mockResolvedValue({
+        ok: false,
+        status: 404,
+        statusText: 'Not Found',
+        text: async () => 'Resource not found',
+      })
+
+      await expect(collect(client.iterateDatastore('missing'))).rejects.toBeInstanceOf(DkanNotFoundError)
+    })
+
+    it('should reject invalid paging options', async () => {
+      await expect(collect(client.iterateDatastore('dataset-123', 0, {}, { pageSize: 0 }))).rejects.toThrow(
+        'pageSize and concurrency must be at least 1'
+      )
+    })
+  })
+
+  describe('iterateDatastoreByDistribution', () => {
+    it('should page through the distribution endpoint', async () => {
+      mockFetch.mockImplementation(async (_url: string, init: RequestInit) => {
+        const { limit, offset } = JSON.parse(init.body as string)
+        const results = Array.from({ length: Math.min(limit, 6 - offset) }, (_, i) => ({ id: offset + i }))
+        return {
+          ok: true,
+          status: 200,
+          statusText: 'OK',
+          json: async () => ({
+            results,
+            count: 6,
+            schema: { 'dist-1': { fields: { id: { type: 'int' } } } },
+          }),
+        }
+      })
+
+      const pages = await collect(
+        client.iterateDatastoreByDistribution('dist-1', {}, { pageSize: 4 }).pages()
+      )
+
+      expect(mockFetch.mock.calls[0][0]).toBe('https://example.com/api/1/datastore/query/dist-1')
+      expect(mockFetch.mock.calls[0][1].method).toBe('POST')
+      expect(pages.flatMap((page) => page.results)).toHaveLength(6)
+      expect(pages[0].schema?.fields[0]).toMatchObject({ name: 'id', type: 'int' })
+    })
+  })
+
+  describe('DkanClient', () => {
+    it('should delegate iteration to the API client', async () => {
+      serveRows()
+      const dkanClient = new DkanClient({
+        baseUrl: 'https://example.com',
+        defaultOptions: { retry: 0 },
+        queryClient: new QueryClient(),
+      })
+
+      const rows = await collect(dkanClient.iterateDatastore('dataset-123', 0, {}, { pageSize: 5 }))
+      await collect(dkanClient.iterateDatastoreByDistribution('dist-1', {}, { maxRows: 1 }))
+
+      expect(rows).toHaveLength(TOTAL_ROWS)
+      expect(mockFetch.mock.calls.at(-1)[0]).toBe('https://example.com/api/1/datastore/query/dist-1')
+    })
+  })
+})
@@ -0,0 +1,194 @@
+/**
+ * Tests for Client-side Rate Limiting
+ *
+ * Covers:
+ * - Token bucket rate with burst
+ * - Maximum concurrent requests
+ * - Per-category limits for mutations, queries and downloads
+ * - Streamed downloads holding their slot until the stream ends
+ * - Aborting queued requests
+ * - Queue metrics
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { DkanApiClient } from '../../api/client'
+import type { RateLimitConfig } from '../../types'
+
+const mockFetch = vi.fn()
+global.fetch = mockFetch as any
+
+function jsonResponse(data: unknown = {}) {
+  return {
+    ok: true,
+    status: 200,
+    statusText: 'OK',
+    json: async () => data,
+    blob: async () => new Blob(['id\n']),
+  }
+}
+
+/** Let queued promise callbacks run without advancing timers */
+async function flush() {
+  for (let i = 0; i < 10; i++) await Promise.resolve()
+}
+
+function createClient(rateLimit: RateLimitConfig) {
+  return new DkanApiClient({
+    baseUrl: 'https://example.com',
+    defaultOptions: { retry: 0 },
+    dedupeRequests: false,
+    rateLimit,
+  })
+}
+
+describe('DkanApiClient - Rate Limiting', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    mockFetch.mockReset()
+    mockFetch.mockImplementation(async () => jsonResponse())
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should not limit requests without a rateLimit config', async () => {
+    const client = new DkanApiClient({ baseUrl: 'https://example.com', defaultOptions: { retry: 0 } })
+
+    await Promise.all([client.listSchemas(), client.listAllDatasets()])
+
+    expect(client.getRateLimitMetrics()).toBeUndefined()
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('should start a burst at once and space the rest by the rate', async () => {
+    const client = createClient({ requestsPerSecond: 2, burst: 2 })
+
+    const requests = Array.from({ length: 4 }, () => client.listSchemas())
+    await flush()
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+
+    await vi.advanceTimersByTimeAsync(500)
+    expect(mockFetch).toHaveBeenCalledTimes(3)
+
+    await vi.advanceTimersByTimeAsync(500)
+    expect(mockFetch).toHaveBeenCalledTimes(4)
+    await Promise.all(requests)
+  })
+
+  it('should cap the number of requests in flight', async () => {
+    const releases: Array<() => void> = []
+    mockFetch.mockImplementation(
+      () => new Promise((resolve) => releases.push(() => resolve(jsonResponse())))
+    )
+    const client = createClient({ maxConcurrent: 2 })
+
+    const requests = Array.from({ length: 3 }, () => client.listSchemas())
+    await flush()
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+    expect(client.getRateLimitMetrics()).toMatchObject({ queued: 1, active: 2 })
+
+    releases[0]()
+    await flush()
+    expect(mockFetch).toHaveBeenCalledTimes(3)
+
+    releases.slice(1).forEach((release) => release())
+    await Promise.all(requests)
+    expect(client.getRateLimitMetrics()).toMatchObject({ queued: 0, active: 0 })
+  })
+
+  it('should apply stricter limits to mutations without blocking reads', async () => {
+    const client = createClient({ categories: { mutation: { requestsPerSecond: 1 } } })
+
+    const mutations = [
+      client.createDataset({ identifier: 'a' } as any),
+      client.createDataset({ identifier: 'b' } as any),
+    ]
+    const read = client.listSchemas()
+    await flush()
+
+    const methods = mockFetch.mock.calls.map(([, init]) => init.method)
+    expect(methods).toEqual(['POST', 'GET'])
+    expect(client.getRateLimitMetrics()?.categories.mutation.queued).toBe(1)
+
+    await read
+    await vi.advanceTimersByTimeAsync(1000)
+    await Promise.all(mutations)
+    expect(mockFetch).toHaveBeenCalledTimes(3)
+  })
+
+  it('should categorize read-only POSTs as queries and exports as downloads', async () => {
+    const client = createClient({
+      categories: { query: { maxConcurrent: 1 }, download: { maxConcurrent: 1 } },
+    })
+
+    const requests = [
+      client.queryDatastore('dataset-1', 0, {}),
+      client.downloadQuery('dataset-1', 0),
+    ]
+
+    expect(client.getRateLimitMetrics()?.categories).toMatchObject({
+      query: { active: 1 },
+      download: { active: 1 },
+    })
+    await Promise.all(requests)
+  })
+
+  it('should hold a streamed download\'s slot until the stream closes', async () => {
+    mockFetch.mockImplementation(async () => ({
+      ...jsonResponse(),
+      headers: new Headers(),
+      body: new ReadableStream({
+        start(controller) {
+          controller.enqueue(new TextEncoder().encode('id\n'))
+          controller.close()
+        },
+      }),
+    }))
+    const client = createClient({ categories: { download: { maxConcurrent: 1 } } })
+
+    const first = client.downloadQueryStream('dataset-1', 0)
+    const second = client.downloadQueryStream('dataset-2', 0)
+    const firstStream = await first
+    await flush()
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+    expect(client.getRateLimitMetrics()?.categories.download).toMatchObject({ active: 1, queued: 1 })
+
+    const reader = firstStream.getReader()
+    while (!(await reader.read()).done);
+    const secondStream = await second
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+
+    await secondStream.cancel()
+    expect(client.getRateLimitMetrics()?.categories.download).toMatchObject({ active: 0, queued: 0 })
+  })
+
+  it('should reject queued requests whose signal aborts', async () => {
+    const client = createClient({ requestsPerSecond: 1 })
+    const controller = new AbortController()
+
+    const first = client.listSchemas()
+    const queued = client.listAllDatasets({ signal: controller.signal })
+    controller.abort()
+
+    await expect(queued).rejects.toThrow('Request aborted')
+    await first
+    expect(client.getRateLimitMetrics()?.queued).toBe(0)
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('should report time spent waiting', async () => {
+    const client = createClient({ requestsPerSecond: 4 })
+
+    const requests = Array.from({ length: 3 }, () => client.listSchemas())
+    await vi.advanceTimersByTimeAsync(500)
+    await Promise.all(requests)
+
+    expect(client.getRateLimitMetrics()).toMatchObject({
+      totalQueued: 2,
+      totalWaitMs: 750,
+      maxWaitMs: 500,
+    })
+  })
+})
@@ -0,0 +1,221 @@
+/**
+ * Tests for Request Deduplication and Batched Dataset Fetching
+ *
+ * Covers:
+ * - Identical concurrent GETs sharing one HTTP request
+ * - Aborting one joined caller without cancelling the others
+ * - Opting out with dedupeRequests: false
+ * - getDatasets() - Bounded parallelism, input order, and partial failures
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { DkanApiClient } from '../../api/client'
+import { DkanApiError, DkanNotFoundError } from '../../types'
+
+const mockFetch = vi.fn()
+global.fetch = mockFetch as any
+
+function datasetResponse(identifier: string) {
+  return {
+    ok: true,
+    status: 200,
+    statusText: 'OK',
+    json: async () => ({ identifier, title: `Dataset ${identifier}` }),
+  }
+}
+
+/** Response that resolves only when release() is called */
+function deferredResponse(identifier: string) {
+  let release!: () => void
+  const response = new Promise((resolve) => {
+    release = () => resolve(datasetResponse(identifier))
+  })
+  return { response, release: () => release() }
+}
+
+describe('DkanApiClient - Request Deduplication', () => {
+  let client: DkanApiClient
+
+  beforeEach(() => {
+    mockFetch.mockReset()
+    client = new DkanApiClient({ baseUrl: 'https://example.com', defaultOptions: { retry: 0 } })
+  })
+
+  describe('concurrent GETs', () => {
+    it('should share one request between identical concurrent GETs', async () => {
+      const { response, release } = deferredResponse('abc')
+      mockFetch.mockReturnValueOnce(response)
+
+      const first = client.getDataset('abc')
+      const second = client.getDataset('abc')
+      release()
+
+      expect(await first).toEqual(await second)
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+    })
+
+    it('should send a new request once the previous one settles', async () => {
+      mockFetch
+        .mockResolvedValueOnce(datasetResponse('abc'))
+        .mockResolvedValueOnce(datasetResponse('abc'))
+
+      await client.getDataset('abc')
+      await client.getDataset('abc')
+
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+    })
+
+    it('should not share requests for different URLs or non-GET methods', async () => {
+      mockFetch.mockImplementation(async () => datasetResponse('abc'))
+
+      await Promise.all([
+        client.getDataset('abc'),
+        client.getDataset('def'),
+        client.queryDatastore('abc', 0, {}),
+        client.queryDatastore('abc', 0, {}),
+      ])
+
+      expect(mockFetch).toHaveBeenCalledTimes(4)
+    })
+
+    it('should share errors with every joined caller', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        statusText: 'Not Found',
+        text: async () => 'Not found',
+      })
+
+      const results = await Promise.allSettled([client.getDataset('missing'), client.getDataset('missing')])
+
+      expect(results.map((result) => result.status)).toEqual(['rejected', 'rejected'])
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+    })
+
+    it('should keep the shared request running when one caller aborts', async () => {
+      const { response, release } = deferredResponse('abc')
+      mockFetch.mockReturnValueOnce(response)
+      const controller = new AbortController()
+
+      const aborted = client.getDataset('abc', undefined, { signal: controller.signal })
+      const other = client.getDataset('abc')
+      controller.abort()
+      release()
+
+      await expect(aborted).rejects.toThrow('Request aborted')
+      expect(await other).toMatchObject({ identifier: 'abc' })
+      expect(mockFetch.mock.calls[0][1].signal.aborted).toBe(false)
+    })
+
+    it('should abort the shared request when every caller aborts', async () => {
+      mockFetch.mockImplementationOnce(() => new Promise(() => {}))
+      const first = new AbortController()
+      const second = new AbortController()
+
+      const requests = [
+        client.getDataset('abc', undefined, { signal: first.signal }),
+        client.getDataset('abc', undefined, { signal: second.signal }),
+      ]
+      first.abort()
+      second.abort()
+
+      await expect(requests[0]).rejects.toBeInstanceOf(DkanApiError)
+      await expect(requests[1]).rejects.toThrow('Request aborted')
+      expect(mockFetch.mock.calls[0][1].signal.aborted).toBe(true)
+    })
+
+    it('should send every request when dedupeRequests is false', async () => {
+      client = new DkanApiClient({
+        baseUrl: 'https://example.com',
+        defaultOptions: { retry: 0 },
+        dedupeRequests: false,
+      })
+      mockFetch.mockImplementation(async () => datasetResponse('abc'))
+
+      await Promise.all([client.getDataset('abc'), client.getDataset('abc')])
+
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+    })
+  })
+
+  describe('getDatasets', () => {
+    it('should return datasets in input order and report failures separately', async () => {
+      mockFetch.mockImplementation(async (url: string) => {
+        if (url.includes('/missing')) {
+          return { ok: false, status: 404, statusText: 'Not Found', text: async () => 'Not found' }
+        }
+        return datasetResponse(url.split('/items/')[1].split('?')[0])
+      })
+
+      const result = await client.getDatasets(['b', 'missing', 'a', 'b'])
+
+      expect(result.datasets.map((dataset) => dataset.identifier)).toEqual(['b', 'a'])
+      expect(result.errors).toHaveLength(1)
+      expect(result.errors[0].identifier).toBe('missing')
+      expect(result.errors[0].error).toBeInstanceOf(DkanNotFoundError)
+      expect(mockFetch).toHaveBeenCalledTimes(3)
+    })
+
+    it('should report non-DkanApiError failures from onError interceptors as errors', async () => {
+      mockFetch.mockResolvedValue({
+        ok: false, status: 404, statusText: 'Not Found', text: async () => 'Not found',
+      })
+      const failingClient = new DkanApiClient({
+        baseUrl: 'https://example.com',
+        defaultOptions: { retry: 0 },
+        interceptors: [{
+          onError: () => {
+            throw new Error('Dataset unavailable')
+          },
+        }],
+      })
+
+      const result = await failingClient.getDatasets(['a', 'b'])
+
+      expect(result.datasets).toEqual([])
+      expect(result.errors.map(({ identifier }) => identifier)).toEqual(['a', 'b'])
+      expect(result.errors[0].error).toBeInstanceOf(DkanApiError)
+      expect(result.errors[0].error.message).toBe('Dataset unavailable')
+    })
+
+    it('should keep at most `concurrency` requests in flight', async () => {
+      let active = 0
+      let maxActive = 0
+      mockFetch.mockImplementation(async (url: string) => {
+        active++
+        maxActive = Math.max(maxActive, active)
+        await new Promise((resolve) => setTimeout(resolve, 1))
+        active--
+        return datasetResponse(url.split('/items/')[1].split('?')[0])
+      })
+
+      const ids = Array.from({ length: 10 }, (_, i) => `d${i}`)
+      const result = await client.getDatasets(ids, { concurrency: 3 })
+
+      expect(result.datasets).toHaveLength(10)
+      expect(maxActive).toBe(3)
+    })
+
+    it('should pass showReferenceIds to each request', async () => {
+      mockFetch.mockResolvedValueOnce(datasetResponse('abc'))
+
+      await client.getDatasets(['abc'], { showReferenceIds: true })
+
+      expect(mockFetch.mock.calls[0][0]).toContain('show-reference-ids')
+    })
+
+    it('should return an empty result for no identifiers', async () => {
+      expect(await client.getDatasets([])).toEqual({ datasets: [], errors: [] })
+      expect(mockFetch).not.toHaveBeenCalled()
+    })
+
+    it('should throw when the signal is aborted', async () => {
+      const controller = new AbortController()
+      controller.abort()
+
+      await expect(client.getDatasets(['abc'], {}, { signal: controller.signal })).rejects.toThrow(
+        'Request aborted'
+      )
+    })
+  })
+})
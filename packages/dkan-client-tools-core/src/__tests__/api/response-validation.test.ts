@@ -0,0 +1,216 @@
+/**
+ * Tests for Runtime Response Validation
+ *
+ * Covers:
+ * - Recorded DKAN responses passing the metastore and built-in schemas
+ * - warn mode reporting drift through onWarning and returning the data
+ * - strict mode throwing DkanResponseValidationError with JSON paths
+ * - Fetching each metastore schema once, and skipping validation without one
+ * - No extra requests when validation is off
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { DkanApiClient } from '../../api/client'
+import { DkanResponseValidationError } from '../../types'
+import type { ResponseValidationOptions } from '../../types'
+import { fixtureLoader } from '../helpers/FixtureLoader'
+
+const mockFetch = vi.fn()
+global.fetch = mockFetch as any
+
+function recorded(category: string, method: string): any {
+  return fixtureLoader.getFixture(category, method)!.response
+}
+
+function okResponse(data: unknown) {
+  return {
+    ok: true,
+    status: 200,
+    statusText: 'OK',
+    json: async () => data,
+  }
+}
+
+const datasetSchema = recorded('Metastore', 'getSchema')
+const dataset = recorded('Dataset Operations', 'listAllDatasets')[0]
+
+/** Serve recorded responses by path; unknown paths 404 */
+function serve(routes: Record<string, unknown>) {
+  mockFetch.mockImplementation(async (url: string) => {
+    const path = url.replace('https://example.com', '')
+    if (path in routes) return okResponse(routes[path])
+    return { ok: false, status: 404, statusText: 'Not Found', json: async () => ({ message: 'Not found' }) }
+  })
+}
+
+function createClient(responseValidation?: ResponseValidationOptions) {
+  return new DkanApiClient({
+    baseUrl: 'https://example.com',
+    defaultOptions: { retry: 0 },
+    responseValidation,
+  })
+}
+
+describe('DkanApiClient - Response Validation', () => {
+  beforeEach(() => {
+    mockFetch.mockReset()
+  })
+
+  it('should accept recorded DKAN responses in strict mode', async () => {
+    serve({
+      '/api/1/metastore/schemas/dataset': datasetSchema,
+      '/api/1/metastore/schemas/dataset/items': recorded('Dataset Operations', 'listAllDatasets'),
+      '/api/1/search': recorded('Dataset Operations', 'searchDatasets'),
+      '/api/1/harvest/plans/sample_content': recorded('Harvest', 'getHarvestPlan'),
+      '/api/1/harvest/runs/1?plan=sample_content': recorded('Harvest', 'getHarvestRun'),
+      '/api/1/datastore/imports': recorded('Datastore Imports', 'listDatastoreImports'),
+      '/api/1/datastore/imports/abc': recorded('Datastore Imports', 'getDatastoreStatistics'),
+      '/api/1/metastore/schemas/dataset/items/abc/revisions': recorded('Revisions', 'getRevisions'),
+      '/api/1/datastore/query/abc/0': recorded('Datastore Operations', 'queryDatastore'),
+    })
+    const client = createClient({ mode: 'strict' })
+
+    await expect(client.listAllDatasets()).resolves.toHaveLength(
+      recorded('Dataset Operations', 'listAllDatasets').length
+    )
+    await expect(client.searchDatasets()).resolves.toBeDefined()
+    await expect(client.getHarvestPlan('sample_content')).resolves.toBeDefined()
+    await expect(client.getHarvestRun('1', 'sample_content')).resolves.toBeDefined()
+    await expect(client.listDatastoreImports()).resolves.toBeDefined()
+    await expect(client.getDatastoreStatistics('abc')).resolves.toBeDefined()
+    await expect(client.getRevisions('dataset', 'abc')).resolves.toBeDefined()
+    await expect(client.queryDatastore('abc', 0)).resolves.toBeDefined()
+  })
+
+  it('should accept recorded write and SQL responses in strict mode', async () => {
+    serve({
+      '/api/1/metastore/schemas/dataset/items/abc': recorded('Dataset Operations', 'deleteDataset'),
+      '/api/1/metastore/schemas/dataset/items/abc/revisions': recorded('Revisions', 'createRevision'),
+      '/api/1/metastore/schemas/data-dictionary/items': recorded('Data Dictionary', 'createDataDictionary'),
+      '/api/1/metastore/schemas/data-dictionary/items/abc': recorded('Data Dictionary', 'updateDataDictionary'),
+      '/api/1/datastore/sql': recorded('Datastore Operations', 'querySql'),
+    })
+    const client = createClient({ mode: 'strict' })
+
+    await expect(client.deleteDataset('abc')).resolves.toBeDefined()
+    await expect(client.createRevision('dataset', 'abc', { state: 'draft' })).resolves.toBeDefined()
+    await expect(client.createDataDictionary({ identifier: 'abc', data: {} } as any)).resolves.toBeDefined()
+    await expect(client.updateDataDictionary('abc', { identifier: 'abc', data: {} } as any)).resolves.toBeDefined()
+    await expect(client.querySql({ query: '[SELECT * FROM abc];', method: 'POST' })).resolves.toBeDefined()
+  })
+
+  it('should check harvest run and import trigger responses', async () => {
+    serve({
+      '/api/1/harvest/runs': { status: { extract: 'SUCCESS' } },
+      '/api/1/datastore/imports': { status: 'done', importer: { state: { num_records: '10' } } },
+    })
+    const client = createClient({ mode: 'strict' })
+
+    await expect(client.runHarvest({ plan_id: 'county' })).rejects.toMatchObject({
+      endpoint: '/api/1/harvest/runs',
+      violations: [expect.objectContaining({ property: 'identifier', keyword: 'required' })],
+    })
+    await expect(client.triggerDatastoreImport({ resource_id: 'abc' })).rejects.toMatchObject({
+      endpoint: '/api/1/datastore/imports',
+      violations: [expect.objectContaining({ property: 'importer.state.num_records', keyword: 'type' })],
+    })
+  })
+
+  it('should report drift with JSON paths in warn mode and still return the data', async () => {
+    const drifted = { ...dataset, keyword: 'health', contactPoint: { fn: 'Jane Doe' } }
+    serve({
+      '/api/1/metastore/schemas/dataset': datasetSchema,
+      '/api/1/metastore/schemas/dataset/items/abc': drifted,
+    })
+    const onWarning = vi.fn()
+    const client = createClient({ mode: 'warn', onWarning })
+
+    await expect(client.getDataset('abc')).resolves.toEqual(drifted)
+
+    expect(onWarning).toHaveBeenCalledTimes(1)
+    const warning = onWarning.mock.calls[0][0]
+    expect(warning.endpoint).toBe('/api/1/metastore/schemas/dataset/items/abc')
+    expect(warning.violations.map((violation: any) => violation.property)).toEqual(
+      expect.arrayContaining(['keyword', 'contactPoint.hasEmail'])
+    )
+  })
+
+  it('should fall back to console.warn without an onWarning callback', async () => {
+    serve({ '/api/1/harvest/plans': ['plan', 7] })
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+    await createClient({ mode: 'warn' }).listHarvestPlans()
+
+    expect(warn).toHaveBeenCalledWith(
+      'Response from /api/1/harvest/plans does not match its schema: 1: Must be of type string, got number'
+    )
+    warn.mockRestore()
+  })
+
+  it('should throw DkanResponseValidationError in strict mode', async () => {
+    serve({ '/api/1/search': { total: '3', results: { a: { title: 'No identifier' } } } })
+    const client = createClient({ mode: 'strict' })
+
+    const error = await client.searchDatasets().catch((e) => e)
+
+    expect(error).toBeInstanceOf(DkanResponseValidationError)
+    expect(error.endpoint).toBe('/api/1/search')
+    expect(error.violations).toEqual([
+      { property: 'results.0.identifier', message: 'The property identifier is required', keyword: 'required' },
+    ])
+    expect(error.message).toContain('results.0.identifier: The property identifier is required')
+  })
+
+  it('should prefix list item violations with their index', async () => {
+    serve({
+      '/api/1/metastore/schemas/dataset': datasetSchema,
+      '/api/1/metastore/schemas/dataset/items': [dataset, { ...dataset, accessLevel: 'secret' }],
+    })
+    const client = createClient({ mode: 'strict' })
+
+    await expect(client.listAllDatasets()).rejects.toMatchObject({
+      violations: [expect.objectContaining({ property: '1.accessLevel', keyword: 'enum' })],
+    })
+  })
+
+  it('should fetch each metastore schema once', async () => {
+    serve({
+      '/api/1/metastore/schemas/dataset': datasetSchema,
+      '/api/1/metastore/schemas/dataset/items/abc': dataset,
+    })
+    const client = createClient({ mode: 'strict' })
+
+    await client.getDataset('abc')
+    await client.getDataset('abc')
+
+    const schemaRequests = mockFetch.mock.calls.filter(
+      ([url]) => url === 'https://example.com/api/1/metastore/schemas/dataset'
+    )
+    expect(schemaRequests).toHaveLength(1)
+  })
+
+  it('should skip metastore validation when the schema cannot be fetched', async () => {
+    serve({ '/api/1/metastore/schemas/dataset/items/abc': { identifier: 'abc' } })
+    const client = createClient({ mode: 'strict' })
+
+    await expect(client.getDataset('abc')).resolves.toEqual({ identifier: 'abc' })
+  })
+
+  it('should not validate reference-id responses', async () => {
+    serve({ '/api/1/metastore/schemas/dataset/items/abc?show-reference-ids': { identifier: 'abc' } })
+    const client = createClient({ mode: 'strict' })
+
+    await client.getDataset('abc', { showReferenceIds: true })
+
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('should not validate or fetch schemas when off', async () => {
+    serve({ '/api/1/metastore/schemas/dataset/items/abc': { identifier: 'abc' } })
+
+    await createClient().getDataset('abc')
+    await createClient({ mode: 'off' }).getDataset('abc')
+
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+  })
+})
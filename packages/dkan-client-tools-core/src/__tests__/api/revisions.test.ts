@@ -1,5 +1,7 @@
 /**
  * Tests for Revisions and Moderation
+ *
+ * Covers getRevisions, getRevision, createRevision, changeDatasetState and compareRevisions.
  */
 
 import { describe, it, expect, beforeEach, vi } from 'vitest'
@@ -94,4 +96,41 @@ describe('DkanApiClient - Revisions and Moderation', () => {
     )
     expect(result.identifier).toBe('test-123')
   })
+
+  describe('compareRevisions', () => {
+    function serveRevisions(revisions: Record<string, object>) {
+      mockFetch.mockImplementation(async (url: string) => ({
+        ok: true,
+        json: async () => revisions[url.split('/').pop()!],
+      }))
+    }
+
+    it('should fetch both revisions and diff their workflow metadata', async () => {
+      const published = { identifier: '130', state: 'published', published: true, modified: '2025-11-12', message: 'Publish' }
+      const draft = { identifier: '136', state: 'draft', published: false, modified: '2025-11-14', message: 'Publish' }
+      serveRevisions({ '130': published, '136': draft })
+
+      const result = await client.compareRevisions('dataset', 'test-123', '130', '136')
+
+      expect(mockFetch).toHaveBeenCalledTimes(2)
+      expect(result.from).toEqual(published)
+      expect(result.to).toEqual(draft)
+      expect(result.changes).toEqual([
+        { type: 'changed', path: 'state', before: 'published', after: 'draft' },
+        { type: 'changed', path: 'published', before: true, after: false },
+        { type: 'changed', path: 'modified', before: '2025-11-12', after: '2025-11-14' },
+      ])
+    })
+
+    it('should reject when a revision is missing', async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ identifier: '1' }) })
+        .mockResolvedValueOnce({ ok: false, status: 404, statusText: 'Not Found', text: async () => 'Not found' })
+      client = new DkanApiClient({ baseUrl: 'https://example.com', defaultOptions: { retry: 0 } })
+
+      await expect(client.compareRevisions('dataset', 'test-123', '1', '99')).rejects.toMatchObject({
+        statusCode: 404,
+      })
+    })
+  })
 })
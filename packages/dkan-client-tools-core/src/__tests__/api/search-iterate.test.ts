@@ -0,0 +1,181 @@
+/**
+ * Tests for Search Iteration
+ *
+ * Covers:
+ * - iterateSearch() - Datasets across multiple search pages
+ * - Stopping on total, empty pages, and maxResults
+ * - Deduplication across pages
+ * - Resumable pages and abort signals
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { DkanApiClient } from '../../api/client'
+import { DkanClient } from '../../client/dkanClient'
+import { QueryClient } from '@tanstack/query-core'
+
+const mockFetch = vi.fn()
+global.fetch = mockFetch as any
+
+function dataset(identifier: string) {
+  return { identifier, title: `Dataset ${identifier}` }
+}
+
+/** Serve a search API page; DKAN returns results keyed by identifier */
+function searchResponse(ids: string[], total: number | string) {
+  return {
+    ok: true,
+    status: 200,
+    statusText: 'OK',
+    json: async () => ({
+      total,
+      results: Object.fromEntries(ids.map((id) => [`dkan_dataset/${id}`, dataset(id)])),
+    }),
+  }
+}
+
+/** Serve `total` datasets named d0, d1, ... honoring page and page-size */
+function serveCatalog(total: number) {
+  mockFetch.mockImplementation(async (url: string) => {
+    const params = new URL(url).searchParams
+    const page = Number(params.get('page'))
+    const size = Number(params.get('page-size'))
+    const start = (page - 1) * size
+    const ids = Array.from({ length: Math.max(0, Math.min(size, total - start)) }, (_, i) => `d${start + i}`)
+    return searchResponse(ids, String(total))
+  })
+}
+
+function requestedPages() {
+  return mockFetch.mock.calls.map(([url]) => {
+    const params = new URL(url).searchParams
+    return [Number(params.get('page')), Number(params.get('page-size'))]
+  })
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = []
+  for await (const item of iterable) items.push(item)
+  return items
+}
+
+describe('DkanApiClient - Search Iteration', () => {
+  let client: DkanApiClient
+
+  beforeEach(() => {
+    mockFetch.mockReset()
+    client = new DkanApiClient({
+      baseUrl: 'https://example.com',
+      defaultOptions: { retry: 0 },
+    })
+  })
+
+  it('should yield every dataset and stop on total', async () => {
+    serveCatalog(7)
+
+    const datasets = await collect(client.iterateSearch({ keyword: 'health' }, { pageSize: 3 }))
+
+    expect(datasets.map((d) => d.identifier)).toEqual(['d0', 'd1', 'd2', 'd3', 'd4', 'd5', 'd6'])
+    expect(requestedPages()).toEqual([
+      [1, 3],
+      [2, 3],
+      [3, 3],
+    ])
+    expect(new URL(mockFetch.mock.calls[0][0]).searchParams.get('keyword')).toBe('health')
+  })
+
+  it('should not request a page past an exact total', async () => {
+    serveCatalog(6)
+
+    await collect(client.iterateSearch({}, { pageSize: 3 }))
+
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('should default to 100 per page and honor page-size from search options', async () => {
+    serveCatalog(1)
+
+    await collect(client.iterateSearch())
+    await collect(client.iterateSearch({ 'page-size': 25 }))
+
+    expect(requestedPages()).toEqual([
+      [1, 100],
+      [1, 25],
+    ])
+  })
+
+  it('should dedupe datasets that shift across pages', async () => {
+    mockFetch
+      .mockResolvedValueOnce(searchResponse(['a', 'b'], 5))
+      .mockResolvedValueOnce(searchResponse(['b', 'c'], 5))
+      .mockResolvedValueOnce(searchResponse(['d', 'e'], 5))
+
+    const pages = await collect(client.iterateSearch({}, { pageSize: 2 }).pages())
+
+    expect(pages.map((page) => page.results.map((d) => d.identifier))).toEqual([
+      ['a', 'b'],
+      ['c'],
+      ['d', 'e'],
+    ])
+  })
+
+  it('should stop on an empty page', async () => {
+    mockFetch
+      .mockResolvedValueOnce(searchResponse(['a', 'b'], 100))
+      .mockResolvedValueOnce(searchResponse([], 100))
+
+    const datasets = await collect(client.iterateSearch({}, { pageSize: 2 }))
+
+    expect(datasets).toHaveLength(2)
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('should resume from a page and stop at maxResults', async () => {
+    serveCatalog(20)
+
+    const pages = await collect(
+      client.iterateSearch({}, { pageSize: 4, page: 3, maxResults: 6 }).pages()
+    )
+
+    expect(pages.map(({ page, nextPage, total }) => ({ page, nextPage, total }))).toEqual([
+      { page: 3, nextPage: 4, total: 20 },
+      { page: 4, nextPage: 5, total: 20 },
+    ])
+    expect(pages.flatMap((page) => page.results.map((d) => d.identifier))).toEqual([
+      'd8', 'd9', 'd10', 'd11', 'd12', 'd13',
+    ])
+  })
+
+  it('should stop requesting pages when the consumer breaks', async () => {
+    serveCatalog(20)
+
+    for await (const found of client.iterateSearch({}, { pageSize: 5 })) {
+      if (found.identifier === 'd1') break
+    }
+
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('should stop when the signal is aborted', async () => {
+    serveCatalog(20)
+    const controller = new AbortController()
+
+    await expect(async () => {
+      for await (const found of client.iterateSearch({}, { pageSize: 5, signal: controller.signal })) {
+        if (found.identifier === 'd4') controller.abort()
+      }
+    }).rejects.toThrow('Request aborted')
+
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+  })
+
+  it('should be available on DkanClient', async () => {
+    serveCatalog(3)
+    const dkanClient = new DkanClient({
+      baseUrl: 'https://example.com',
+      defaultOptions: { retry: 0 },
+      queryClient: new QueryClient(),
+    })
+
+    expect(await collect(dkanClient.iterateSearch({}, { pageSize: 2 }))).toHaveLength(3)
+  })
+})
@@ -0,0 +1,165 @@
+/**
+ * Tests for Drupal Session Authentication
+ *
+ * Covers:
+ * - Sending every request with credentials: 'include' and no Authorization header
+ * - Attaching X-CSRF-Token to writes, fetched once from /session/token
+ * - Leaving reads and read-only datastore queries without a token
+ * - Refreshing the token once on 403
+ * - Basic auth taking precedence over session
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { DkanApiClient } from '../../api/client'
+import { DkanAuthError } from '../../types'
+
+const mockFetch = vi.fn()
+global.fetch = mockFetch as any
+
+const writeResponse = { endpoint: '/api/1/metastore/schemas/dataset/items/abc', identifier: 'abc' }
+
+function okResponse(data: unknown) {
+  return {
+    ok: true,
+    status: 200,
+    statusText: 'OK',
+    json: async () => data,
+    text: async () => JSON.stringify(data),
+  }
+}
+
+function tokenResponse(token: string) {
+  return { ok: true, status: 200, statusText: 'OK', text: async () => `${token}\n` }
+}
+
+function forbidden() {
+  return {
+    ok: false,
+    status: 403,
+    statusText: 'Forbidden',
+    text: async () => JSON.stringify({ message: 'X-CSRF-Token request header is invalid' }),
+  }
+}
+
+function requestsTo(path: string) {
+  return mockFetch.mock.calls.filter(([url]) => url === `https://example.com${path}`)
+}
+
+describe('DkanApiClient - Session Auth', () => {
+  let client: DkanApiClient
+
+  beforeEach(() => {
+    mockFetch.mockReset()
+    client = new DkanApiClient({
+      baseUrl: 'https://example.com',
+      auth: { session: true },
+      defaultOptions: { retry: 0 },
+    })
+  })
+
+  it('should send reads with the session cookie and without a token', async () => {
+    mockFetch.mockResolvedValueOnce(okResponse({ identifier: 'abc' }))
+
+    await client.getDataset('abc')
+
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+    const [, init] = mockFetch.mock.calls[0]
+    expect(init.credentials).toBe('include')
+    expect(init.headers).not.toHaveProperty('Authorization')
+    expect(init.headers).not.toHaveProperty('X-CSRF-Token')
+  })
+
+  it('should attach a CSRF token to writes and fetch it once', async () => {
+    mockFetch
+      .mockResolvedValueOnce(tokenResponse('token-1'))
+      .mockResolvedValueOnce(okResponse(writeResponse))
+      .mockResolvedValueOnce(okResponse(writeResponse))
+
+    await client.createDataset({ identifier: 'abc' } as any)
+    await client.deleteDataset('abc')
+
+    const [tokenUrl, tokenInit] = mockFetch.mock.calls[0]
+    expect(tokenUrl).toBe('https://example.com/session/token')
+    expect(tokenInit.credentials).toBe('include')
+    for (const [, init] of mockFetch.mock.calls.slice(1)) {
+      expect(init.credentials).toBe('include')
+      expect(init.headers['X-CSRF-Token']).toBe('token-1')
+    }
+    expect(requestsTo('/session/token')).toHaveLength(1)
+  })
+
+  it('should share one token fetch between concurrent writes', async () => {
+    mockFetch.mockImplementation(async (url: string) =>
+      url.endsWith('/session/token') ? tokenResponse('token-1') : okResponse(writeResponse)
+    )
+
+    await Promise.all([client.deleteDataset('a'), client.deleteDataset('b')])
+
+    expect(requestsTo('/session/token')).toHaveLength(1)
+  })
+
+  it('should not fetch a token for read-only datastore queries', async () => {
+    mockFetch.mockResolvedValueOnce(okResponse({ results: [], count: 0 }))
+
+    await client.queryDatastore('abc', 0, { limit: 1 })
+
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+    expect(mockFetch.mock.calls[0][1].headers).not.toHaveProperty('X-CSRF-Token')
+  })
+
+  it('should refresh the token and resend once on 403', async () => {
+    mockFetch
+      .mockResolvedValueOnce(tokenResponse('stale'))
+      .mockResolvedValueOnce(forbidden())
+      .mockResolvedValueOnce(tokenResponse('fresh'))
+      .mockResolvedValueOnce(okResponse(writeResponse))
+
+    await expect(client.deleteDataset('abc')).resolves.toEqual(writeResponse)
+
+    expect(mockFetch.mock.calls[1][1].headers['X-CSRF-Token']).toBe('stale')
+    expect(mockFetch.mock.calls[3][1].headers['X-CSRF-Token']).toBe('fresh')
+
+    // The refreshed token is reused by later writes
+    mockFetch.mockResolvedValueOnce(okResponse(writeResponse))
+    await client.deleteDataset('abc')
+    expect(mockFetch.mock.calls[4][1].headers['X-CSRF-Token']).toBe('fresh')
+  })
+
+  it('should fail with DkanAuthError when the fresh token is rejected too', async () => {
+    mockFetch
+      .mockResolvedValueOnce(tokenResponse('token-1'))
+      .mockResolvedValueOnce(forbidden())
+      .mockResolvedValueOnce(tokenResponse('token-2'))
+      .mockResolvedValueOnce(forbidden())
+
+    await expect(client.deleteDataset('abc')).rejects.toBeInstanceOf(DkanAuthError)
+    expect(mockFetch).toHaveBeenCalledTimes(4)
+  })
+
+  it('should fetch the token again after a failed fetch', async () => {
+    mockFetch
+      .mockResolvedValueOnce({ ok: false, status: 500, statusText: 'Error', text: async () => '' })
+      .mockResolvedValueOnce(tokenResponse('token-1'))
+      .mockResolvedValueOnce(okResponse(writeResponse))
+
+    await expect(client.deleteDataset('abc')).rejects.toMatchObject({ statusCode: 500 })
+    await expect(client.deleteDataset('abc')).resolves.toEqual(writeResponse)
+
+    expect(requestsTo('/session/token')).toHaveLength(2)
+  })
+
+  it('should prefer Basic auth when credentials are also given', async () => {
+    client = new DkanApiClient({
+      baseUrl: 'https://example.com',
+      auth: { username: 'admin', password: 'secret', session: true },
+    })
+    mockFetch.mockResolvedValueOnce(okResponse(writeResponse))
+
+    await client.deleteDataset('abc')
+
+    const [, init] = mockFetch.mock.calls[0]
+    expect(init.headers.Authorization).toBe(`Basic ${btoa('admin:secret')}`)
+    expect(init.headers).not.toHaveProperty('X-CSRF-Token')
+    expect(init.credentials).toBeUndefined()
+  })
+})
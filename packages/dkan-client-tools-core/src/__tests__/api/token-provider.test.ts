@@ -0,0 +1,141 @@
+/**
+ * Tests for Token Provider Authentication
+ *
+ * Covers:
+ * - Bearer tokens from getToken() on JSON requests and downloads
+ * - Refreshing on 401 and replaying the request once
+ * - Sharing one refresh between concurrent requests
+ * - onAuthFailure for provider errors and rejected refreshed tokens, not for 403
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { DkanApiClient } from '../../api/client'
+import { DkanAuthError } from '../../types'
+import type { DkanTokenProvider } from '../../types'
+
+const mockFetch = vi.fn()
+global.fetch = mockFetch as any
+
+function okResponse(data: unknown) {
+  return {
+    ok: true,
+    status: 200,
+    statusText: 'OK',
+    json: async () => data,
+    blob: async () => new Blob(['a,b\n1,2']),
+  }
+}
+
+function errorResponse(status: number) {
+  return {
+    ok: false,
+    status,
+    statusText: status === 401 ? 'Unauthorized' : 'Forbidden',
+    text: async () => JSON.stringify({ message: 'Access denied' }),
+  }
+}
+
+/** Serve 401 to any token other than the current one */
+function serveFor(validToken: () => string) {
+  mockFetch.mockImplementation(async (_url: string, init: RequestInit) => {
+    const headers = init.headers as Record<string, string>
+    return headers.Authorization === `Bearer ${validToken()}`
+      ? okResponse({ identifier: 'abc' })
+      : errorResponse(401)
+  })
+}
+
+function authorizationHeaders(): string[] {
+  return mockFetch.mock.calls.map(([, init]) => init.headers.Authorization)
+}
+
+describe('DkanApiClient - Token Provider', () => {
+  let getToken: ReturnType<typeof vi.fn<DkanTokenProvider>>
+  let onAuthFailure: ReturnType<typeof vi.fn>
+  let client: DkanApiClient
+
+  beforeEach(() => {
+    mockFetch.mockReset()
+    let issued = 0
+    getToken = vi.fn<DkanTokenProvider>(async ({ forceRefresh }) => {
+      if (forceRefresh) issued++
+      return `token-${issued}`
+    })
+    onAuthFailure = vi.fn()
+    client = new DkanApiClient({
+      baseUrl: 'https://example.com',
+      auth: { getToken, onAuthFailure },
+      defaultOptions: { retry: 0 },
+    })
+  })
+
+  it('should send the provided token as a bearer token', async () => {
+    serveFor(() => 'token-0')
+
+    await client.getDataset('abc')
+    await client.downloadQuery('abc', 0, { format: 'csv' })
+
+    expect(authorizationHeaders()).toEqual(['Bearer token-0', 'Bearer token-0'])
+    expect(getToken).toHaveBeenCalledWith({ forceRefresh: false })
+  })
+
+  it('should take precedence over a static token', async () => {
+    serveFor(() => 'token-0')
+    client = new DkanApiClient({ baseUrl: 'https://example.com', auth: { token: 'static', getToken } })
+
+    await client.getDataset('abc')
+
+    expect(authorizationHeaders()).toEqual(['Bearer token-0'])
+  })
+
+  it('should refresh the token on 401 and replay the request once', async () => {
+    serveFor(() => 'token-1')
+
+    await expect(client.getDataset('abc')).resolves.toEqual({ identifier: 'abc' })
+
+    expect(authorizationHeaders()).toEqual(['Bearer token-0', 'Bearer token-1'])
+    expect(getToken).toHaveBeenLastCalledWith({ forceRefresh: true })
+    expect(onAuthFailure).not.toHaveBeenCalled()
+  })
+
+  it('should share one refresh between concurrent requests', async () => {
+    serveFor(() => 'token-1')
+
+    await Promise.all([client.getDataset('a'), client.getDataset('b'), client.deleteDataset('c')])
+
+    const refreshes = getToken.mock.calls.filter(([options]) => options.forceRefresh)
+    expect(refreshes).toHaveLength(1)
+  })
+
+  it('should report a refreshed token that is still rejected', async () => {
+    serveFor(() => 'never-valid')
+
+    const error = await client.getDataset('abc').catch((e) => e)
+
+    expect(error).toBeInstanceOf(DkanAuthError)
+    expect(error.statusCode).toBe(401)
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+    expect(onAuthFailure).toHaveBeenCalledWith(error)
+  })
+
+  it('should report provider failures as DkanAuthError without sending the request', async () => {
+    getToken.mockRejectedValueOnce(new Error('Session expired'))
+
+    const error = await client.getDataset('abc').catch((e) => e)
+
+    expect(error).toBeInstanceOf(DkanAuthError)
+    expect(error.message).toBe('Failed to get an auth token: Session expired')
+    expect(mockFetch).not.toHaveBeenCalled()
+    expect(onAuthFailure).toHaveBeenCalledWith(error)
+  })
+
+  it('should not refresh or report on 403', async () => {
+    mockFetch.mockResolvedValue(errorResponse(403))
+
+    await expect(client.deleteDataset('abc')).rejects.toMatchObject({ statusCode: 403 })
+
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+    expect(getToken).not.toHaveBeenCalledWith({ forceRefresh: true })
+    expect(onAuthFailure).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,191 @@
+/**
+ * Tests for the persistent query cache
+ *
+ * Covers:
+ * - Saving matching successful queries, throttled
+ * - Rehydrating on start
+ * - Discarding caches past maxAge or with a different buster
+ * - Ignoring corrupt caches and failing storage
+ * - createFileStorage() from the Node entry
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { QueryClient } from '@tanstack/query-core'
+import { persistQueryClient } from '../../cache/persistQueryClient'
+import type { DkanCacheStorage, PersistedQueryCache } from '../../cache/persistQueryClient'
+import { createFileStorage } from '../../node'
+
+const KEY = 'dkan-client-tools-cache'
+
+function memoryStorage(): DkanCacheStorage & { items: Map<string, string> } {
+  const items = new Map<string, string>()
+  return {
+    items,
+    getItem: async (key) => items.get(key) ?? null,
+    setItem: async (key, value) => {
+      items.set(key, value)
+    },
+    removeItem: async (key) => {
+      items.delete(key)
+    },
+  }
+}
+
+function stored(storage: ReturnType<typeof memoryStorage>): PersistedQueryCache {
+  return JSON.parse(storage.items.get(KEY)!)
+}
+
+describe('persistQueryClient', () => {
+  let storage: ReturnType<typeof memoryStorage>
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    storage = memoryStorage()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should save matching queries after the throttle delay', async () => {
+    const queryClient = new QueryClient()
+    const { restored, unsubscribe } = persistQueryClient(queryClient, { storage })
+    await restored
+
+    queryClient.setQueryData(['datasets', 'search', { keyword: 'health' }], { total: 1 })
+    queryClient.setQueryData(['metastore', 'schemas'], ['dataset'])
+    queryClient.setQueryData(['dataset', 'abc'], { identifier: 'abc' })
+    expect(storage.items.has(KEY)).toBe(false)
+
+    await vi.advanceTimersByTimeAsync(1000)
+
+    const keys = stored(storage).clientState.queries.map((query) => query.queryKey)
+    expect(keys).toEqual([
+      ['datasets', 'search', { keyword: 'health' }],
+      ['metastore', 'schemas'],
+    ])
+    unsubscribe()
+  })
+
+  it('should only persist the configured query keys', async () => {
+    const queryClient = new QueryClient()
+    const { restored, unsubscribe } = persistQueryClient(queryClient, {
+      storage,
+      queryKeys: [['dataset']],
+    })
+    await restored
+
+    queryClient.setQueryData(['dataset', 'abc'], { identifier: 'abc' })
+    queryClient.setQueryData(['metastore', 'schemas'], ['dataset'])
+    await vi.advanceTimersByTimeAsync(1000)
+
+    expect(stored(storage).clientState.queries.map((query) => query.queryKey)).toEqual([['dataset', 'abc']])
+    unsubscribe()
+  })
+
+  it('should rehydrate a stored cache into a new QueryClient', async () => {
+    const first = new QueryClient()
+    const persisted = persistQueryClient(first, { storage, buster: 'v1' })
+    await persisted.restored
+    first.setQueryData(['datasets', 'facets'], { theme: ['Health'] })
+    await vi.advanceTimersByTimeAsync(1000)
+    persisted.unsubscribe()
+
+    const second = new QueryClient()
+    const { restored, unsubscribe } = persistQueryClient(second, { storage, buster: 'v1' })
+    await restored
+
+    expect(second.getQueryData(['datasets', 'facets'])).toEqual({ theme: ['Health'] })
+    unsubscribe()
+  })
+
+  it('should discard a cache with a different buster', async () => {
+    storage.items.set(KEY, JSON.stringify({
+      buster: 'v1',
+      timestamp: Date.now(),
+      clientState: { mutations: [], queries: [] },
+    }))
+
+    const { restored, unsubscribe } = persistQueryClient(new QueryClient(), { storage, buster: 'v2' })
+    await restored
+
+    expect(storage.items.has(KEY)).toBe(false)
+    unsubscribe()
+  })
+
+  it('should discard a cache older than maxAge', async () => {
+    const queryClient = new QueryClient()
+    storage.items.set(KEY, JSON.stringify({
+      buster: '',
+      timestamp: Date.now() - 2000,
+      clientState: {
+        mutations: [],
+        queries: [{
+          queryKey: ['metastore', 'schemas'],
+          queryHash: '["metastore","schemas"]',
+          state: { data: ['dataset'], status: 'success', dataUpdatedAt: Date.now() - 2000 },
+        }],
+      },
+    }))
+
+    const { restored, unsubscribe } = persistQueryClient(queryClient, { storage, maxAge: 1000 })
+    await restored
+
+    expect(queryClient.getQueryData(['metastore', 'schemas'])).toBeUndefined()
+    expect(storage.items.has(KEY)).toBe(false)
+    unsubscribe()
+  })
+
+  it('should ignore a corrupt cache and failing storage', async () => {
+    storage.items.set(KEY, '{not json')
+    storage.setItem = async () => {
+      throw new Error('QuotaExceededError')
+    }
+    const queryClient = new QueryClient()
+
+    const { restored, unsubscribe } = persistQueryClient(queryClient, { storage })
+    await restored
+    queryClient.setQueryData(['metastore', 'schemas'], ['dataset'])
+    await vi.advanceTimersByTimeAsync(1000)
+
+    expect(storage.items.has(KEY)).toBe(false)
+    unsubscribe()
+  })
+
+  it('should stop saving after unsubscribe', async () => {
+    const queryClient = new QueryClient()
+    const { restored, unsubscribe } = persistQueryClient(queryClient, { storage })
+    await restored
+
+    queryClient.setQueryData(['metastore', 'schemas'], ['dataset'])
+    unsubscribe()
+    await vi.advanceTimersByTimeAsync(1000)
+
+    expect(storage.items.has(KEY)).toBe(false)
+  })
+})
+
+describe('createFileStorage', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'dkan-cache-'))
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should write, read and remove items as files', async () => {
+    const storage = createFileStorage(join(dir, 'nested'))
+
+    expect(await storage.getItem('cache')).toBeNull()
+    await storage.setItem('cache', '{"a":1}')
+    expect(await storage.getItem('cache')).toBe('{"a":1}')
+    await storage.removeItem('cache')
+    expect(await storage.getItem('cache')).toBeNull()
+  })
+})
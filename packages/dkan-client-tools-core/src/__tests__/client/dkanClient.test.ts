@@ -147,7 +147,7 @@ describe('DkanClient', () => {
       const client = new DkanClient({ baseUrl: 'https://example.com', queryClient: new QueryClient() })
       const result = await client.fetchDataset('test')
 
-      expect(DkanApiClient.prototype.getDataset).toHaveBeenCalledWith('test')
+      expect(DkanApiClient.prototype.getDataset).toHaveBeenCalledWith('test', undefined, undefined)
       expect(result).toEqual(mockDataset)
     })
 
@@ -163,7 +163,7 @@ describe('DkanClient', () => {
       const client = new DkanClient({ baseUrl: 'https://example.com', queryClient: new QueryClient() })
       const result = await client.searchDatasets({ keyword: 'health' })
 
-      expect(DkanApiClient.prototype.searchDatasets).toHaveBeenCalledWith({ keyword: 'health' })
+      expect(DkanApiClient.prototype.searchDatasets).toHaveBeenCalledWith({ keyword: 'health' }, undefined)
       expect(result).toEqual(mockResponse)
     })
 
@@ -181,10 +181,25 @@ describe('DkanClient', () => {
       expect(DkanApiClient.prototype.queryDatastore).toHaveBeenCalledWith(
         'dataset-123',
         0,
-        { limit: 10 }
+        { limit: 10 },
+        undefined,
+        undefined
       )
       expect(result).toEqual(mockResponse)
     })
+
+    it('should pass request options through to API client', async () => {
+      vi.mocked(DkanApiClient.prototype.getDataset).mockResolvedValue({ identifier: 'test' } as any)
+      const controller = new AbortController()
+
+      const client = new DkanClient({ baseUrl: 'https://example.com', queryClient: new QueryClient() })
+      await client.fetchDataset('test', { signal: controller.signal, timeoutMs: 5000 })
+
+      expect(DkanApiClient.prototype.getDataset).toHaveBeenCalledWith('test', undefined, {
+        signal: controller.signal,
+        timeoutMs: 5000,
+      })
+    })
   })
 
   describe('Query Cache Operations', () => {
@@ -347,6 +362,8 @@ describe('DkanClient', () => {
       expect(DkanApiClient.prototype.queryDatastore).toHaveBeenCalledWith(
         'dataset-123',
         undefined,
+        undefined,
+        undefined,
         undefined
       )
     })
@@ -0,0 +1,168 @@
+/**
+ * Tests for FederatedDkanClient
+ *
+ * Covers:
+ * - Fanning searches out to every source and tagging results with their source
+ * - Ranking by reciprocal rank fusion, or by the requested sort fields
+ * - Paging the merged list
+ * - Summing facet counts from search responses and the facets endpoint
+ * - Partial outages reported in errors; failure only when every source fails
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { FederatedDkanClient } from '../../client/federatedDkanClient'
+import { DkanApiError, DkanNetworkError } from '../../types'
+
+const mockFetch = vi.fn()
+global.fetch = mockFetch as any
+
+function dataset(identifier: string, extra: Record<string, unknown> = {}) {
+  return { identifier, title: identifier, ...extra }
+}
+
+/** DKAN search response, with results keyed by id as the API returns them */
+function searchResponse(results: any[], facets: any[] = [], total = results.length) {
+  return {
+    total: String(total),
+    results: Object.fromEntries(results.map((item) => [`dkan_dataset/${item.identifier}`, item])),
+    facets,
+  }
+}
+
+/** Serve responses by origin; `null` simulates an outage */
+function serve(bySource: Record<string, unknown>) {
+  mockFetch.mockImplementation(async (url: string) => {
+    const body = bySource[new URL(url).origin]
+    if (body === null) throw new TypeError('Failed to fetch')
+    return { ok: true, status: 200, statusText: 'OK', json: async () => body }
+  })
+}
+
+const A = 'https://a.example.com'
+const B = 'https://b.example.com'
+
+describe('FederatedDkanClient', () => {
+  let client: FederatedDkanClient
+
+  beforeEach(() => {
+    mockFetch.mockReset()
+    client = new FederatedDkanClient({
+      sources: [
+        { id: 'a', label: 'County A', baseUrl: A, defaultOptions: { retry: 0 } },
+        { id: 'b', baseUrl: `${B}/`, defaultOptions: { retry: 0 } },
+      ],
+    })
+  })
+
+  it('should reject empty and duplicate sources', () => {
+    expect(() => new FederatedDkanClient({ sources: [] })).toThrow('at least one source')
+    expect(
+      () => new FederatedDkanClient({ sources: [{ id: 'a', baseUrl: A }, { id: 'a', baseUrl: B }] })
+    ).toThrow('unique')
+  })
+
+  it('should list sources with labels defaulting to ids', () => {
+    expect(client.getSources()).toEqual([
+      { id: 'a', label: 'County A', baseUrl: A },
+      { id: 'b', label: 'b', baseUrl: B },
+    ])
+    expect(client.getApiClient('b')?.getBaseUrl()).toBe(B)
+  })
+
+  it('should interleave results by rank and tag their source', async () => {
+    serve({
+      [A]: searchResponse([dataset('a1'), dataset('a2')], [], 7),
+      [B]: searchResponse([dataset('b1'), dataset('b2')], [], 3),
+    })
+
+    const response = await client.searchDatasets({ fulltext: 'parks' })
+
+    expect(response.results.map((item) => item.identifier)).toEqual(['a1', 'b1', 'a2', 'b2'])
+    expect(response.results[1].source).toEqual({ id: 'b', label: 'b', baseUrl: B })
+    expect(response.total).toBe(10)
+    expect(response.totals).toEqual({ a: 7, b: 3 })
+    expect(response.errors).toEqual([])
+    expect(mockFetch).toHaveBeenCalledWith(
+      `${A}/api/1/search?fulltext=parks&page=1&page-size=10`,
+      expect.anything()
+    )
+  })
+
+  it('should merge by the requested sort fields', async () => {
+    serve({
+      [A]: searchResponse([dataset('a1', { modified: '2025-03-01' }), dataset('a2', { modified: '2024-01-01' })]),
+      [B]: searchResponse([dataset('b1', { modified: '2025-06-01' })]),
+    })
+
+    const response = await client.searchDatasets({ sort: 'modified', 'sort-order': 'desc' })
+
+    expect(response.results.map((item) => item.identifier)).toEqual(['b1', 'a1', 'a2'])
+  })
+
+  it('should page through the merged list', async () => {
+    serve({
+      [A]: searchResponse([dataset('a1'), dataset('a2'), dataset('a3'), dataset('a4')]),
+      [B]: searchResponse([dataset('b1'), dataset('b2'), dataset('b3'), dataset('b4')]),
+    })
+
+    const response = await client.searchDatasets({ page: 2, 'page-size': 2 })
+
+    expect(response.results.map((item) => item.identifier)).toEqual(['a2', 'b2'])
+    expect(mockFetch).toHaveBeenCalledWith(`${B}/api/1/search?page=1&page-size=4`, expect.anything())
+  })
+
+  it('should sum facet counts across sources', async () => {
+    serve({
+      [A]: searchResponse([], [
+        { type: 'theme', name: 'Parks', total: '3' },
+        { type: 'publisher__name', name: 'County A', total: 5 },
+      ]),
+      [B]: searchResponse([], [
+        { type: 'theme', name: 'Parks', total: '4' },
+        { type: 'theme', name: 'Transit', total: '9' },
+        { type: 'keyword', name: 'trails', total: '2' },
+      ]),
+    })
+
+    const { facets } = await client.searchDatasets()
+
+    expect(facets).toEqual({
+      theme: [{ name: 'Transit', total: 9 }, { name: 'Parks', total: 7 }],
+      keyword: [{ name: 'trails', total: 2 }],
+      publisher: [{ name: 'County A', total: 5 }],
+    })
+  })
+
+  it('should merge the facets endpoint with counts', async () => {
+    serve({
+      [A]: { facets: [{ type: 'keyword', name: 'trails', total: '1' }] },
+      [B]: [{ type: 'keyword', name: 'trails', total: '2' }],
+    })
+
+    await expect(client.getDatasetFacets()).resolves.toEqual({
+      theme: [],
+      keyword: [{ name: 'trails', total: 3 }],
+      publisher: [],
+      errors: [],
+    })
+  })
+
+  it('should answer from the remaining sources during a partial outage', async () => {
+    serve({ [A]: null, [B]: searchResponse([dataset('b1')]) })
+
+    const response = await client.searchDatasets()
+
+    expect(response.results.map((item) => item.identifier)).toEqual(['b1'])
+    expect(response.totals).toEqual({ b: 1 })
+    expect(response.errors).toHaveLength(1)
+    expect(response.errors[0].source).toBe('a')
+    expect(response.errors[0].error).toBeInstanceOf(DkanNetworkError)
+  })
+
+  it('should fail when every source fails', async () => {
+    serve({ [A]: null, [B]: null })
+
+    await expect(client.searchDatasets()).rejects.toBeInstanceOf(DkanApiError)
+    await expect(client.getDatasetFacets()).rejects.toBeInstanceOf(DkanApiError)
+  })
+})
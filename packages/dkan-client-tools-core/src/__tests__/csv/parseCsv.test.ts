@@ -0,0 +1,216 @@
+/**
+ * Tests for DKAN CSV parsing
+ *
+ * Covers:
+ * - Quoted fields, escaped quotes, embedded newlines, CRLF and BOM
+ * - Chunked tokenizing across field, quote and line boundaries
+ * - Type coercion from datastore schemas and data dictionaries
+ * - Parsing Blobs and streams
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  parseCsv,
+  parseCsvBlob,
+  parseCsvStream,
+  coerceCsvValue,
+  CsvTokenizer,
+} from '../../csv/parseCsv'
+import type { DatastoreSchema, DataDictionary } from '../../types'
+
+function streamOf(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk))
+      controller.close()
+    },
+  })
+}
+
+describe('parseCsv', () => {
+  describe('parsing', () => {
+    it('should map rows to objects keyed by header', () => {
+      expect(parseCsv('id,name\n1,Alice\n2,Bob\n')).toEqual([
+        { id: '1', name: 'Alice' },
+        { id: '2', name: 'Bob' },
+      ])
+    })
+
+    it('should handle quoted fields, escaped quotes and embedded newlines', () => {
+      const csv = 'name,notes\n"Smith, Jane","Said ""hi""\nthen left"\n'
+
+      expect(parseCsv(csv)).toEqual([{ name: 'Smith, Jane', notes: 'Said "hi"\nthen left' }])
+    })
+
+    it('should strip a BOM and handle CRLF line endings', () => {
+      expect(parseCsv('﻿id,name\r\n1,Alice\r\n')).toEqual([{ id: '1', name: 'Alice' }])
+    })
+
+    it('should keep empty fields and fill missing columns with null', () => {
+      expect(parseCsv('a,b,c\n1,,3\n4\n')).toEqual([
+        { a: '1', b: '', c: '3' },
+        { a: '4', b: null, c: null },
+      ])
+    })
+
+    it('should skip blank lines and parse a final row without a newline', () => {
+      expect(parseCsv('a\n\n1\n\n2')).toEqual([{ a: '1' }, { a: '2' }])
+    })
+
+    it('should use provided headers and delimiters', () => {
+      expect(parseCsv('1;Alice', { headers: ['id', 'name'], delimiter: ';' })).toEqual([
+        { id: '1', name: 'Alice' },
+      ])
+    })
+
+    it('should reject an unterminated quoted field', () => {
+      expect(() => parseCsv('a\n"open')).toThrow('Invalid CSV: unterminated quoted field')
+    })
+  })
+
+  describe('CsvTokenizer', () => {
+    it('should produce the same rows for any chunking', () => {
+      const csv = '﻿a,b\r\n"x,""y""\r\nz",2\r\n3,4'
+      const expected = [['a', 'b'], ['x,"y"\r\nz', '2'], ['3', '4']]
+
+      for (let size = 1; size <= csv.length; size++) {
+        const tokenizer = new CsvTokenizer()
+        const rows: string[][] = []
+        for (let i = 0; i < csv.length; i += size) rows.push(...tokenizer.push(csv.slice(i, i + size)))
+        rows.push(...tokenizer.flush())
+        expect(rows).toEqual(expected)
+      }
+    })
+  })
+
+  describe('type coercion', () => {
+    const schema: DatastoreSchema = {
+      fields: [
+        { name: 'id', type: 'int' },
+        { name: 'amount', type: 'numeric' },
+        { name: 'active', type: 'boolean' },
+        { name: 'created', type: 'date' },
+        { name: 'name', type: 'text' },
+      ],
+    }
+
+    it('should coerce values using a datastore schema', () => {
+      const [row] = parseCsv('id,amount,active,created,name\n7,12.5,true,2024-03-01,007\n', { schema })
+
+      expect(row).toEqual({
+        id: 7,
+        amount: 12.5,
+        active: true,
+        created: new Date('2024-03-01T00:00:00Z'),
+        name: '007',
+      })
+    })
+
+    it('should read missing values in typed columns as null', () => {
+      const [row] = parseCsv('id,amount,name\n,NA,\n', {
+        schema,
+        missingValues: ['', 'NA'],
+      })
+
+      expect(row).toEqual({ id: null, amount: null, name: '' })
+    })
+
+    it('should coerce values using a data dictionary and its date formats', () => {
+      const dictionary: DataDictionary = {
+        identifier: 'dict-1',
+        data: {
+          fields: [
+            { name: 'year', type: 'year' },
+            { name: 'reported', title: 'Reported On', type: 'date', format: '%m/%d/%Y' },
+            { name: 'tags', type: 'array' },
+          ],
+        },
+      }
+
+      const [row] = parseCsv('year,Reported On,tags\n2021,07/04/2021,"[""a"",""b""]"\n', {
+        schema: dictionary,
+      })
+
+      expect(row).toEqual({
+        year: 2021,
+        'Reported On': new Date(Date.UTC(2021, 6, 4)),
+        tags: ['a', 'b'],
+      })
+    })
+
+    it('should keep values that cannot be coerced', () => {
+      expect(coerceCsvValue('abc', { type: 'integer' })).toBe('abc')
+      expect(coerceCsvValue('1.5', { type: 'integer' })).toBe('1.5')
+      expect(coerceCsvValue('maybe', { type: 'boolean' })).toBe('maybe')
+      expect(coerceCsvValue('not a date', { type: 'datetime' })).toBe('not a date')
+      expect(coerceCsvValue('31/12', { type: 'date', format: '%m/%d/%Y' })).toBe('31/12')
+      expect(coerceCsvValue('{oops', { type: 'object' })).toBe('{oops')
+    })
+
+    it('should parse date-time patterns in UTC', () => {
+      expect(coerceCsvValue('2020-01-02 03:04:05', { type: 'datetime', format: '%Y-%m-%d %H:%M:%S' }))
+        .toEqual(new Date(Date.UTC(2020, 0, 2, 3, 4, 5)))
+    })
+  })
+
+  describe('Blobs and streams', () => {
+    it('should parse a downloaded Blob', async () => {
+      const blob = new Blob(['id,name\n1,Alice\n'], { type: 'text/csv' })
+
+      expect(await parseCsvBlob(blob, { schema: { fields: [{ name: 'id', type: 'integer' }] } })).toEqual([
+        { id: 1, name: 'Alice' },
+      ])
+    })
+
+    it('should yield rows from a stream split mid-row and mid-character', async () => {
+      const bytes = new TextEncoder().encode('id,city\n1,"Zürich,\nCH"\n2,Köln\n')
+      const decoder = new TextDecoder()
+      const chunks = [bytes.slice(0, 12), bytes.slice(12, 15), bytes.slice(15)]
+      const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+          chunks.forEach((chunk) => controller.enqueue(chunk))
+          controller.close()
+        },
+      })
+
+      const rows = []
+      for await (const row of parseCsvStream(stream, { schema: { fields: [{ name: 'id', type: 'integer' }] } })) {
+        rows.push(row)
+      }
+
+      expect(decoder.decode(chunks[0])).not.toContain('Zürich')
+      expect(rows).toEqual([
+        { id: 1, city: 'Zürich,\nCH' },
+        { id: 2, city: 'Köln' },
+      ])
+    })
+
+    it('should cancel the stream when the consumer stops early', async () => {
+      let cancelled = false
+      const encoder = new TextEncoder()
+      const stream = new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(encoder.encode('id\n1\n2\n'))
+        },
+        cancel() {
+          cancelled = true
+        },
+      })
+
+      for await (const row of parseCsvStream(stream)) {
+        expect(row).toEqual({ id: '1' })
+        break
+      }
+
+      expect(cancelled).toBe(true)
+    })
+
+    it('should parse streams of many small chunks', async () => {
+      const rows = []
+      for await (const row of parseCsvStream(streamOf(['i', 'd\n', '1', '\n2']))) rows.push(row)
+
+      expect(rows).toEqual([{ id: '1' }, { id: '2' }])
+    })
+  })
+})
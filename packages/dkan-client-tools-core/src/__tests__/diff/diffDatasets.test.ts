@@ -0,0 +1,135 @@
+/**
+ * Tests for diffDatasets
+ *
+ * Covers:
+ * - Nested object changes (publisher, contactPoint) with dotted paths
+ * - Scalar lists reported as a whole
+ * - Distributions matched by identifier, then by position
+ * - Merge patches: nested merges, null removals, wholesale arrays
+ */
+
+import { describe, it, expect } from 'vitest'
+import { diffDatasets } from '../../diff/diffDatasets'
+import type { DkanDataset } from '../../types'
+
+/** Apply a merge patch as RFC 7386 describes, to check generated patches round-trip */
+function applyMergePatch(target: any, patch: any): any {
+  if (typeof patch !== 'object' || patch === null || Array.isArray(patch)) return patch
+  const result = typeof target === 'object' && target !== null && !Array.isArray(target) ? { ...target } : {}
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) delete result[key]
+    else result[key] = applyMergePatch(result[key], value)
+  }
+  return result
+}
+
+const original: DkanDataset = {
+  identifier: 'abc',
+  title: 'Bike Lanes',
+  description: 'Bike lanes in Florida',
+  accessLevel: 'public',
+  modified: '2025-01-01',
+  keyword: ['bikes', 'transport'],
+  publisher: { '@type': 'org:Organization', name: 'DOT' },
+  contactPoint: { '@type': 'vcard:Contact', fn: 'Jane Doe', hasEmail: 'mailto:jane@example.com' },
+  distribution: [
+    { '@type': 'dcat:Distribution', identifier: 'd1', title: 'CSV', downloadURL: 'https://example.com/a.csv' },
+    { '@type': 'dcat:Distribution', identifier: 'd2', title: 'JSON', downloadURL: 'https://example.com/a.json' },
+  ],
+}
+
+describe('diffDatasets', () => {
+  it('should report no changes for equal datasets', () => {
+    const copy = JSON.parse(JSON.stringify(original))
+
+    expect(diffDatasets(original, copy)).toEqual({ changes: [], patch: {} })
+  })
+
+  it('should report nested changes with dotted paths and a nested patch', () => {
+    const edited = {
+      ...original,
+      contactPoint: { ...original.contactPoint, hasEmail: 'mailto:john@example.com' },
+      publisher: { ...original.publisher, subOrganizationOf: { name: 'State' } },
+    }
+
+    const { changes, patch } = diffDatasets(original, edited)
+
+    expect(changes).toEqual([
+      { type: 'added', path: 'publisher.subOrganizationOf', after: { name: 'State' } },
+      {
+        type: 'changed',
+        path: 'contactPoint.hasEmail',
+        before: 'mailto:jane@example.com',
+        after: 'mailto:john@example.com',
+      },
+    ])
+    expect(patch).toEqual({
+      publisher: { subOrganizationOf: { name: 'State' } },
+      contactPoint: { hasEmail: 'mailto:john@example.com' },
+    })
+  })
+
+  it('should report scalar lists as a whole', () => {
+    const { changes, patch } = diffDatasets(original, { ...original, keyword: ['bikes', 'cycling'] })
+
+    expect(changes).toEqual([
+      { type: 'changed', path: 'keyword', before: ['bikes', 'transport'], after: ['bikes', 'cycling'] },
+    ])
+    expect(patch).toEqual({ keyword: ['bikes', 'cycling'] })
+  })
+
+  it('should remove properties with null in the patch', () => {
+    const { license, ...withoutLicense } = { ...original, license: 'MIT' }
+    const { changes, patch } = diffDatasets({ ...withoutLicense, license }, withoutLicense)
+
+    expect(changes).toEqual([{ type: 'removed', path: 'license', before: 'MIT' }])
+    expect(patch).toEqual({ license: null })
+  })
+
+  it('should match distributions by identifier', () => {
+    const [csv, json] = original.distribution!
+    const added = { '@type': 'dcat:Distribution', identifier: 'd3', title: 'XML' }
+    const edited = { ...original, distribution: [added, { ...json, title: 'GeoJSON' }, csv] }
+
+    const { changes, patch } = diffDatasets(original, edited)
+
+    expect(changes).toEqual([
+      { type: 'added', path: 'distribution.0', after: added },
+      { type: 'changed', path: 'distribution.1.title', before: 'JSON', after: 'GeoJSON' },
+    ])
+    // Merge patches replace arrays, so the full edited list is sent
+    expect(patch).toEqual({ distribution: edited.distribution })
+  })
+
+  it('should report removed distributions at their original position', () => {
+    const edited = { ...original, distribution: [original.distribution![1]] }
+
+    expect(diffDatasets(original, edited).changes).toEqual([
+      { type: 'removed', path: 'distribution.0', before: original.distribution![0] },
+    ])
+  })
+
+  it('should match distributions without identifiers by position', () => {
+    const withoutIds = original.distribution!.map(({ identifier, ...distribution }) => distribution)
+    const a = { ...original, distribution: withoutIds }
+    const b = { ...original, distribution: [withoutIds[0], { ...withoutIds[1], format: 'json' }] }
+
+    expect(diffDatasets(a, b).changes).toEqual([
+      { type: 'added', path: 'distribution.1.format', after: 'json' },
+    ])
+  })
+
+  it('should produce patches that turn the original into the edited dataset', () => {
+    const { license, ...rest } = { ...original, license: 'MIT' }
+    const edited = {
+      ...rest,
+      title: 'Protected Bike Lanes',
+      theme: ['Transportation'],
+      publisher: { name: 'DOT' },
+      distribution: [{ ...original.distribution![1], mediaType: 'application/json' }],
+    }
+    const { patch } = diffDatasets({ ...rest, license }, edited)
+
+    expect(applyMergePatch({ ...rest, license }, patch)).toEqual(edited)
+  })
+})
@@ -5,33 +5,19 @@
  * Fixtures are real API responses captured by the record-api-responses.ts script.
  */
 
-import datasetFixtures from '../fixtures/dataset-operations.json'
-import datastoreFixtures from '../fixtures/datastore-operations.json'
-import dataDictionaryFixtures from '../fixtures/data-dictionary.json'
-import harvestFixtures from '../fixtures/harvest.json'
-import datastoreImportsFixtures from '../fixtures/datastore-imports.json'
-import metastoreFixtures from '../fixtures/metastore.json'
-import revisionsFixtures from '../fixtures/revisions.json'
-import utilityFixtures from '../fixtures/utility.json'
-import openapiFixtures from '../fixtures/openapi.json'
-import summary from '../fixtures/summary.json'
-
-/**
- * Recorded API response structure
- */
-export interface RecordedResponse {
-  method: string
-  category: string
-  endpoint: string
-  timestamp: string
-  request?: Record<string, unknown> | unknown
-  response?: Record<string, unknown> | unknown
-  status?: number
-  responseTime?: number
-  error?: string
-  skipped?: boolean
-  skipReason?: string
-}
+import datasetFixtures from '../../testing/fixtures/dataset-operations.json'
+import datastoreFixtures from '../../testing/fixtures/datastore-operations.json'
+import dataDictionaryFixtures from '../../testing/fixtures/data-dictionary.json'
+import harvestFixtures from '../../testing/fixtures/harvest.json'
+import datastoreImportsFixtures from '../../testing/fixtures/datastore-imports.json'
+import metastoreFixtures from '../../testing/fixtures/metastore.json'
+import revisionsFixtures from '../../testing/fixtures/revisions.json'
+import utilityFixtures from '../../testing/fixtures/utility.json'
+import openapiFixtures from '../../testing/fixtures/openapi.json'
+import summary from '../../testing/fixtures/summary.json'
+import type { RecordedResponse } from '../../testing/recordedFixtures'
+
+export type { RecordedResponse }
 
 /**
  * Recording summary metadata
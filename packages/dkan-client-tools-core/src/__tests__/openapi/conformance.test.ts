@@ -0,0 +1,324 @@
+/**
+ * Tests for the OpenAPI conformance checker
+ *
+ * Builds a document that describes every client operation, then changes it the way a DKAN
+ * upgrade might: removing paths and methods, renaming and requiring parameters. Also calls
+ * every public DkanApiClient method to check that CLIENT_OPERATIONS describes its requests.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { DkanApiClient } from '../../api/client'
+import { checkOpenApiConformance, CLIENT_OPERATIONS } from '../../openapi/conformance'
+import type { HttpMethod, OpenApiDocument, OpenApiParameter } from '../../openapi/conformance'
+
+const mockFetch = vi.fn()
+global.fetch = mockFetch as any
+
+/** A document matching CLIENT_OPERATIONS, naming every path parameter `{id}` */
+function conformingDocument(): OpenApiDocument {
+  const paths: Record<string, any> = {}
+
+  for (const operation of CLIENT_OPERATIONS) {
+    const path = operation.path.replace(/\{[^}]+\}/g, '{id}')
+    const item = (paths[path] ??= {})
+    const spec = (item[operation.method.toLowerCase()] ??= { parameters: [] })
+    for (const name of operation.query ?? []) {
+      if (!spec.parameters.some((p: OpenApiParameter) => p.name === name)) {
+        spec.parameters.push({ name, in: 'query' })
+      }
+    }
+    if (operation.body) spec.requestBody = { content: { 'application/json': {} } }
+  }
+
+  return { openapi: '3.0.2', paths }
+}
+
+describe('checkOpenApiConformance', () => {
+  let document: OpenApiDocument
+
+  beforeEach(() => {
+    document = conformingDocument()
+  })
+
+  it('should pass a document that describes every client operation', () => {
+    const report = checkOpenApiConformance(document)
+
+    expect(report).toEqual({ ok: true, checked: CLIENT_OPERATIONS.length, issues: [], unsupported: [] })
+  })
+
+  it('should report missing endpoints and methods', () => {
+    delete document.paths!['/api/1/harvest/plans/{id}']
+    delete document.paths!['/api/1/metastore/schemas/data-dictionary/items/{id}']!.delete
+
+    const { ok, issues } = checkOpenApiConformance(document)
+
+    expect(ok).toBe(false)
+    expect(issues).toEqual([
+      expect.objectContaining({ type: 'missing-method', clientMethod: 'deleteDataDictionary', method: 'DELETE' }),
+      expect.objectContaining({
+        type: 'missing-endpoint',
+        clientMethod: 'getHarvestPlan',
+        path: '/api/1/harvest/plans/{planId}',
+        message: 'getHarvestPlan: GET /api/1/harvest/plans/{planId} is not in the OpenAPI document',
+      }),
+    ])
+  })
+
+  it('should report renamed and newly required query parameters', () => {
+    document.paths!['/api/1/search']!.get!.parameters = [
+      ...(document.paths!['/api/1/search']!.get!.parameters as OpenApiParameter[])
+        .filter((p) => p.name !== 'page-size'),
+      { name: 'page_size', in: 'query' },
+      { name: 'api_key', in: 'query', required: true },
+    ]
+
+    const { issues } = checkOpenApiConformance(document)
+
+    expect(issues.map(({ type, clientMethod, parameter }) => ({ type, clientMethod, parameter }))).toEqual([
+      { type: 'unknown-parameter', clientMethod: 'searchDatasets', parameter: 'page-size' },
+      { type: 'required-parameter', clientMethod: 'searchDatasets', parameter: 'api_key' },
+    ])
+  })
+
+  it('should report writes the document no longer accepts a body for', () => {
+    delete document.paths!['/api/1/harvest/runs']!.post!.requestBody
+
+    const { issues } = checkOpenApiConformance(document)
+
+    expect(issues).toEqual([
+      expect.objectContaining({ type: 'missing-request-body', clientMethod: 'runHarvest', method: 'POST' }),
+    ])
+  })
+
+  it('should list operations without a client method', () => {
+    document.paths!['/api/1/metastore/schemas/dataset/items/{id}/publish'] = {
+      post: { operationId: 'publishDataset', summary: 'Publish a dataset' },
+    }
+
+    const { ok, unsupported } = checkOpenApiConformance(document)
+
+    expect(ok).toBe(true)
+    expect(unsupported).toEqual([{
+      method: 'POST',
+      path: '/api/1/metastore/schemas/dataset/items/{id}/publish',
+      operationId: 'publishDataset',
+      summary: 'Publish a dataset',
+    }])
+  })
+
+  it('should fall back to templated segments when no literal path matches', () => {
+    delete document.paths!['/api/1/metastore/schemas/dataset/items']
+
+    const { issues, unsupported } = checkOpenApiConformance(document)
+
+    // listAllDatasets is served by /schemas/{id}/items, which only lists items
+    expect(issues).toEqual([
+      expect.objectContaining({ type: 'missing-method', clientMethod: 'createDataset', method: 'POST' }),
+    ])
+    expect(unsupported).toEqual([])
+  })
+
+  it('should apply the server base path and resolve parameter references', () => {
+    const report = checkOpenApiConformance({
+      servers: [{ url: 'https://dkan.example.com/api/1' }],
+      paths: {
+        '/harvest/runs': {
+          parameters: [{ $ref: '#/components/parameters/plan' }],
+          get: {},
+        },
+      },
+      components: { parameters: { plan: { name: 'plan', in: 'query', required: true } } },
+    }, {
+      operations: [{ clientMethod: 'listHarvestRuns', method: 'GET', path: '/api/1/harvest/runs', query: ['plan'] }],
+    })
+
+    expect(report).toEqual({ ok: true, checked: 1, issues: [], unsupported: [] })
+  })
+})
+
+describe('DkanApiClient - getOpenApiDocument', () => {
+  it('should fetch the document from the OpenAPI docs URL', async () => {
+    const client = new DkanApiClient({ baseUrl: 'https://example.com' })
+    const document = { openapi: '3.0.2', paths: {} }
+    mockFetch.mockResolvedValueOnce({ ok: true, json: async () => document })
+
+    await expect(client.getOpenApiDocument()).resolves.toEqual(document)
+    expect(mockFetch).toHaveBeenCalledWith(client.getOpenApiDocsUrl(), expect.anything())
+  })
+})
+
+/** Public DkanApiClient methods, read from its source since TypeScript's `private` is erased */
+function publicClientMethods(): string[] {
+  const source = readFileSync(join(__dirname, '../../api/client.ts'), 'utf8')
+  return [...source.matchAll(/^ {2}(?:async )?(\w+)(?:<[^>]*>)?\(/gm)]
+    .map(([, name]) => name)
+    .filter((name) => name !== 'constructor')
+}
+
+/** Public methods that never send a request themselves */
+const LOCAL_METHODS = [
+  'getBaseUrl', 'getDefaultOptions', 'getRateLimitMetrics', 'clearConditionalCache', 'getOpenApiDocsUrl',
+]
+
+/** Methods that request an arbitrary caller-supplied URL, so no operation can describe them */
+const PASSTHROUGH_METHODS = ['getResponse', 'getDataDictionaryFromUrl']
+
+async function drain(iterable: AsyncIterable<unknown>): Promise<void> {
+  for await (const _ of iterable) {
+    // consume every page
+  }
+}
+
+interface ClientCall {
+  method: string
+  /** Method whose operations a wrapper's requests are checked against */
+  via?: string
+  call: (client: DkanApiClient) => Promise<unknown>
+}
+
+/** One or more calls per request-making method, covering each of its operations */
+const CALLS: ClientCall[] = [
+  { method: 'getDataset', call: (c) => c.getDataset('abc', { showReferenceIds: true }) },
+  { method: 'getDatasets', via: 'getDataset', call: (c) => c.getDatasets(['abc']) },
+  {
+    method: 'searchDatasets',
+    call: (c) => c.searchDatasets({
+      keyword: 'k', theme: 't', publisher: 'p', fulltext: 'f',
+      sort: 'title', 'sort-order': 'asc', page: 1, 'page-size': 5,
+    }),
+  },
+  { method: 'iterateSearch', via: 'searchDatasets', call: (c) => drain(c.iterateSearch({ keyword: 'k' })) },
+  {
+    method: 'queryDatastore',
+    call: (c) => c.queryDatastore('abc', 0, { conditions: [{ property: 'a', value: 1 }], limit: 1 }, 'GET'),
+  },
+  { method: 'queryDatastore', call: (c) => c.queryDatastore('abc', 0, { limit: 1 }) },
+  {
+    method: 'queryDatastoreMulti',
+    call: (c) => c.queryDatastoreMulti({ resources: [{ id: 'abc', alias: 't' }], limit: 1 }, 'GET'),
+  },
+  { method: 'queryDatastoreMulti', call: (c) => c.queryDatastoreMulti({ resources: [{ id: 'abc', alias: 't' }] }) },
+  { method: 'iterateDatastore', via: 'queryDatastore', call: (c) => drain(c.iterateDatastore('abc', 0)) },
+  { method: 'iterateDatastoreByDistribution', call: (c) => drain(c.iterateDatastoreByDistribution('abc')) },
+  { method: 'getDatastoreSchema', call: (c) => c.getDatastoreSchema('abc', 0) },
+  { method: 'listDataDictionaries', call: (c) => c.listDataDictionaries() },
+  { method: 'getDataDictionary', call: (c) => c.getDataDictionary('abc') },
+  { method: 'listAllDatasets', call: (c) => c.listAllDatasets() },
+  { method: 'listSchemas', call: (c) => c.listSchemas() },
+  { method: 'getSchema', call: (c) => c.getSchema('dataset') },
+  { method: 'getSchemaItems', call: (c) => c.getSchemaItems('dataset', { showReferenceIds: true }) },
+  { method: 'getDatasetFacets', call: (c) => c.getDatasetFacets() },
+  { method: 'listHarvestPlans', call: (c) => c.listHarvestPlans() },
+  {
+    method: 'registerHarvestPlan',
+    call: (c) => c.registerHarvestPlan({
+      identifier: 'p',
+      extract: { type: 'datajson', uri: 'u' },
+      load: { type: 'simple' },
+    } as any),
+  },
+  { method: 'getHarvestPlan', call: (c) => c.getHarvestPlan('p') },
+  { method: 'listHarvestRuns', call: (c) => c.listHarvestRuns('p') },
+  { method: 'getHarvestRun', call: (c) => c.getHarvestRun('1', 'p') },
+  { method: 'runHarvest', call: (c) => c.runHarvest({ plan_id: 'p' }) },
+  { method: 'createDataset', call: (c) => c.createDataset({ identifier: 'abc' } as any) },
+  { method: 'updateDataset', call: (c) => c.updateDataset('abc', { identifier: 'abc' } as any) },
+  { method: 'patchDataset', call: (c) => c.patchDataset('abc', { title: 'T' }) },
+  { method: 'validateDataset', via: 'getSchema', call: (c) => c.validateDataset({ title: 'T' }) },
+  { method: 'assertValidDataset', via: 'getSchema', call: (c) => c.assertValidDataset({ title: 'T' }) },
+  { method: 'deleteDataset', call: (c) => c.deleteDataset('abc') },
+  { method: 'listDatastoreImports', call: (c) => c.listDatastoreImports() },
+  { method: 'triggerDatastoreImport', call: (c) => c.triggerDatastoreImport({ resource_id: 'abc' }) },
+  { method: 'deleteDatastore', call: (c) => c.deleteDatastore('abc') },
+  { method: 'getDatastoreStatistics', call: (c) => c.getDatastoreStatistics('abc') },
+  { method: 'getRevisions', call: (c) => c.getRevisions('dataset', 'abc') },
+  { method: 'getRevision', call: (c) => c.getRevision('dataset', 'abc', '1') },
+  { method: 'compareRevisions', via: 'getRevision', call: (c) => c.compareRevisions('dataset', 'abc', '1', '2') },
+  { method: 'createRevision', call: (c) => c.createRevision('dataset', 'abc', { state: 'draft' }) },
+  { method: 'changeDatasetState', via: 'createRevision', call: (c) => c.changeDatasetState('abc', 'published') },
+  { method: 'downloadQuery', call: (c) => c.downloadQuery('abc', 0, { format: 'json' }) },
+  { method: 'downloadQuery', call: (c) => c.downloadQuery('abc', 0, { limit: 1 }) },
+  { method: 'downloadQueryByDistribution', call: (c) => c.downloadQueryByDistribution('abc') },
+  { method: 'downloadQueryByDistribution', call: (c) => c.downloadQueryByDistribution('abc', { limit: 1 }) },
+  { method: 'downloadQueryStream', via: 'downloadQuery', call: (c) => c.downloadQueryStream('abc', 0) },
+  {
+    method: 'downloadQueryByDistributionStream',
+    via: 'downloadQueryByDistribution',
+    call: (c) => c.downloadQueryByDistributionStream('abc'),
+  },
+  { method: 'querySql', call: (c) => c.querySql({ query: '[SELECT * FROM abc];', show_db_columns: true }) },
+  { method: 'querySql', call: (c) => c.querySql({ query: '[SELECT * FROM abc];', method: 'POST' }) },
+  {
+    method: 'createDataDictionary',
+    call: (c) => c.createDataDictionary({ identifier: 'abc', data: { title: 'T', fields: [] } }),
+  },
+  {
+    method: 'updateDataDictionary',
+    call: (c) => c.updateDataDictionary('abc', { identifier: 'abc', data: { title: 'T', fields: [] } }),
+  },
+  { method: 'deleteDataDictionary', call: (c) => c.deleteDataDictionary('abc') },
+  { method: 'getOpenApiDocument', call: (c) => c.getOpenApiDocument() },
+]
+
+/** Whether a concrete path matches a `{placeholder}` template */
+function matchesTemplate(path: string, template: string): boolean {
+  const segments = path.split('/').filter(Boolean)
+  const parts = template.split('/').filter(Boolean)
+  return segments.length === parts.length
+    && parts.every((part, i) => part.startsWith('{') || part === segments[i])
+}
+
+describe('CLIENT_OPERATIONS', () => {
+  it('should list a call for every public request-making client method', () => {
+    const called = new Set(CALLS.map(({ method }) => method))
+    const exempt = [...LOCAL_METHODS, ...PASSTHROUGH_METHODS]
+
+    const missing = publicClientMethods().filter((name) => !called.has(name) && !exempt.includes(name))
+
+    expect(missing).toEqual([])
+  })
+
+  it('should describe the requests every client method sends', async () => {
+    const requests: Array<{ method: HttpMethod; path: string; query: string[]; body: boolean }> = []
+    // A fresh client per call, so cached schemas do not hide requests
+    const createClient = () => new DkanApiClient({
+      baseUrl: 'https://example.com',
+      defaultOptions: { retry: 0 },
+      fetch: async (url, init) => {
+        const { pathname, searchParams } = new URL(url)
+        requests.push({
+          method: (init.method ?? 'GET') as HttpMethod,
+          path: pathname,
+          query: [...new Set(searchParams.keys())],
+          body: init.body !== undefined && init.body !== null,
+        })
+        return new Response('{}', { headers: { 'Content-Type': 'application/json' } })
+      },
+    })
+    const observed = new Set<(typeof CLIENT_OPERATIONS)[number]>()
+    const unmatched: string[] = []
+
+    for (const { method, via, call } of CALLS) {
+      requests.length = 0
+      await call(createClient())
+      expect(requests.length, method).toBeGreaterThan(0)
+
+      for (const request of requests) {
+        const operation = CLIENT_OPERATIONS.find((candidate) =>
+          candidate.clientMethod === (via ?? method)
+          && candidate.method === request.method
+          && matchesTemplate(request.path, candidate.path)
+          && request.query.every((key) => candidate.query?.includes(key))
+          && request.body === Boolean(candidate.body)
+        )
+        if (operation) observed.add(operation)
+        else unmatched.push(`${method}: ${request.method} ${request.path} ?${request.query.join('&')}`)
+      }
+    }
+
+    expect(unmatched).toEqual([])
+    expect(CLIENT_OPERATIONS.filter((operation) => !observed.has(operation))).toEqual([])
+  })
+})
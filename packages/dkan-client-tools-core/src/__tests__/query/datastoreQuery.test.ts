@@ -0,0 +1,235 @@
+/**
+ * Tests for the datastoreQuery() builder
+ *
+ * Covers:
+ * - Conditions, operators, and nested AND/OR groups
+ * - Properties, aggregates, sorts, groupings, joins, and resources
+ * - Immutability and serialization
+ * - Passing builders to DkanApiClient methods
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import {
+  datastoreQuery,
+  toDatastoreQueryOptions,
+  DatastoreQueryBuilder,
+} from '../../query/datastoreQuery'
+import { DkanApiClient } from '../../api/client'
+
+const mockFetch = vi.fn()
+global.fetch = mockFetch as any
+
+describe('datastoreQuery', () => {
+  describe('conditions', () => {
+    it('should default to equality with two arguments', () => {
+      expect(datastoreQuery().where('state', 'CA').build()).toEqual({
+        conditions: [{ property: 'state', value: 'CA', operator: '=' }],
+      })
+    })
+
+    it('should support DKAN operators', () => {
+      const query = datastoreQuery()
+        .where('state', 'in', ['CA', 'OR'])
+        .where('age', 'between', [18, 65])
+        .where('name', 'contains', 'son')
+        .where('county', 'starts with', 'San')
+        .build()
+
+      expect(query.conditions).toEqual([
+        { property: 'state', value: ['CA', 'OR'], operator: 'in' },
+        { property: 'age', value: [18, 65], operator: 'between' },
+        { property: 'name', value: 'son', operator: 'contains' },
+        { property: 'county', value: 'San', operator: 'starts with' },
+      ])
+    })
+
+    it('should qualify conditions by resource alias', () => {
+      const query = datastoreQuery()
+        .where({ resource: 't', property: 'year' }, '>=', 2020)
+        .build()
+
+      expect(query.conditions).toEqual([
+        { resource: 't', property: 'year', value: 2020, operator: '>=' },
+      ])
+    })
+
+    it('should build nested AND/OR groups', () => {
+      const query = datastoreQuery()
+        .where('status', 'active')
+        .or((group) =>
+          group
+            .where('priority', '>', 5)
+            .and((inner) => inner.where('owner', 'admin').where('flagged', true))
+        )
+        .build()
+
+      expect(query.conditions).toEqual([
+        { property: 'status', value: 'active', operator: '=' },
+        {
+          groupOperator: 'or',
+          conditions: [
+            { property: 'priority', value: 5, operator: '>' },
+            {
+              groupOperator: 'and',
+              conditions: [
+                { property: 'owner', value: 'admin', operator: '=' },
+                { property: 'flagged', value: true, operator: '=' },
+              ],
+            },
+          ],
+        },
+      ])
+    })
+
+    it('should reject invalid values for in and between', () => {
+      expect(() => datastoreQuery().where('state', 'in', 'CA' as any)).toThrow(
+        'Operator "in" requires an array value'
+      )
+      expect(() => datastoreQuery().where('age', 'between', [1] as any)).toThrow(
+        'Operator "between" requires a [min, max] value'
+      )
+    })
+  })
+
+  describe('query structure', () => {
+    it('should build multi-resource queries with joins and aggregates', () => {
+      const query = datastoreQuery()
+        .from('employees-id', 'emp')
+        .from('departments-id', 'dept')
+        .select({ resource: 'dept', property: 'name' })
+        .aggregate('sum', { resource: 'emp', property: 'salary' }, 'total_salary')
+        .join('dept', { resource: 'emp', property: 'department_id' }, { resource: 'dept', property: 'id' })
+        .groupBy({ resource: 'dept', property: 'name' })
+        .orderBy({ resource: 'dept', property: 'name' }, 'desc')
+        .build()
+
+      expect(query).toEqual({
+        resources: [
+          { id: 'employees-id', alias: 'emp' },
+          { id: 'departments-id', alias: 'dept' },
+        ],
+        properties: [
+          { resource: 'dept', property: 'name' },
+          {
+            alias: 'total_salary',
+            expression: { operator: 'sum', operands: [{ resource: 'emp', property: 'salary' }] },
+          },
+        ],
+        joins: [
+          {
+            resource: 'dept',
+            condition: {
+              resource: 'emp',
+              property: 'department_id',
+              operator: '=',
+              value: { resource: 'dept', property: 'id' },
+            },
+          },
+        ],
+        groupings: [{ resource: 'dept', property: 'name' }],
+        sorts: [{ resource: 'dept', property: 'name', order: 'desc' }],
+      })
+    })
+
+    it('should set pagination and response flags', () => {
+      const query = datastoreQuery()
+        .select('name', 'state')
+        .orderBy('name')
+        .limit(25)
+        .offset(50)
+        .options({ count: false, schema: false })
+        .build()
+
+      expect(query).toEqual({
+        properties: ['name', 'state'],
+        sorts: [{ property: 'name', order: 'asc' }],
+        limit: 25,
+        offset: 50,
+        count: false,
+        schema: false,
+      })
+    })
+
+    it('should extend existing options', () => {
+      const query = datastoreQuery({ limit: 10, conditions: [{ property: 'a', value: 1 }] })
+        .where('b', 2)
+        .build()
+
+      expect(query).toEqual({
+        limit: 10,
+        conditions: [
+          { property: 'a', value: 1 },
+          { property: 'b', value: 2, operator: '=' },
+        ],
+      })
+    })
+  })
+
+  describe('immutability and serialization', () => {
+    it('should return new builders without changing the original', () => {
+      const base = datastoreQuery().where('state', 'CA')
+      const paged = base.limit(10)
+
+      expect(base.build()).toEqual({ conditions: [{ property: 'state', value: 'CA', operator: '=' }] })
+      expect(paged.build().limit).toBe(10)
+      expect(paged).not.toBe(base)
+    })
+
+    it('should serialize to the built options', () => {
+      const query = datastoreQuery().where('state', 'CA').limit(5)
+      expect(JSON.parse(JSON.stringify(query))).toEqual(query.build())
+    })
+
+    it('should resolve builders and pass plain options through', () => {
+      const options = { limit: 5 }
+      expect(toDatastoreQueryOptions(options)).toBe(options)
+      expect(toDatastoreQueryOptions(datastoreQuery().limit(5))).toEqual({ limit: 5 })
+      expect(toDatastoreQueryOptions(undefined)).toBeUndefined()
+      expect(datastoreQuery()).toBeInstanceOf(DatastoreQueryBuilder)
+    })
+  })
+
+  describe('with DkanApiClient', () => {
+    let client: DkanApiClient
+
+    beforeEach(() => {
+      mockFetch.mockReset()
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        statusText: 'OK',
+        json: async () => ({ results: [], count: 0 }),
+        blob: async () => new Blob(['a,b']),
+      })
+      client = new DkanApiClient({ baseUrl: 'https://example.com', defaultOptions: { retry: 0 } })
+    })
+
+    it('should accept a builder in queryDatastore', async () => {
+      const query = datastoreQuery().where('state', 'CA').limit(10)
+      await client.queryDatastore('dataset-123', 0, query)
+
+      const [, init] = mockFetch.mock.calls[0]
+      expect(JSON.parse(init.body)).toEqual(query.build())
+    })
+
+    it('should accept a builder in queryDatastoreMulti', async () => {
+      const query = datastoreQuery().from('a-id', 'a').from('b-id', 'b')
+      await client.queryDatastoreMulti(query)
+
+      const [url, init] = mockFetch.mock.calls[0]
+      expect(url).toBe('https://example.com/api/1/datastore/query')
+      expect(JSON.parse(init.body).resources).toHaveLength(2)
+    })
+
+    it('should accept a builder in downloadQuery', async () => {
+      await client.downloadQuery('dataset-123', 0, datastoreQuery().where('state', 'CA'))
+
+      const [, init] = mockFetch.mock.calls[0]
+      expect(init.method).toBe('POST')
+      expect(JSON.parse(init.body)).toEqual({
+        format: 'csv',
+        conditions: [{ property: 'state', value: 'CA', operator: '=' }],
+      })
+    })
+  })
+})
@@ -0,0 +1,184 @@
+/**
+ * Tests for DKAN bracket SQL builder and parser
+ *
+ * Covers:
+ * - Building SELECT, WHERE, ORDER BY, and LIMIT clauses
+ * - Value escaping and identifier validation
+ * - Parsing bracket queries back into parts (round trips)
+ * - Passing builders to querySql
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import {
+  sqlQuery,
+  parseSqlQuery,
+  formatSqlQuery,
+  toSqlQueryString,
+} from '../../query/sqlQuery'
+import { DkanApiClient } from '../../api/client'
+
+const mockFetch = vi.fn()
+global.fetch = mockFetch as any
+
+describe('sqlQuery', () => {
+  describe('building', () => {
+    it('should select all columns by default', () => {
+      expect(sqlQuery('dist-123').build()).toBe('[SELECT * FROM dist-123];')
+    })
+
+    it('should build every clause', () => {
+      const query = sqlQuery('dist-123')
+        .select('name', 'state')
+        .where('state', 'CA')
+        .where('population', '>', 1000)
+        .orderBy('name', 'desc')
+        .limit(10)
+        .offset(20)
+
+      expect(query.build()).toBe(
+        '[SELECT name,state FROM dist-123]' +
+        '[WHERE state = "CA" AND population > "1000"]' +
+        '[ORDER BY name DESC]' +
+        '[LIMIT 10 OFFSET 20];'
+      )
+    })
+
+    it('should build COUNT(*) queries', () => {
+      expect(sqlQuery('dist-123').count().build()).toBe('[SELECT COUNT(*) FROM dist-123];')
+    })
+
+    it('should share a trailing direction and reject mixed directions', () => {
+      expect(sqlQuery('d').orderBy('a').orderBy('b').build()).toBe('[SELECT * FROM d][ORDER BY a, b ASC];')
+      expect(sqlQuery('d').orderBy('a', 'desc').orderBy('b', 'desc').build()).toBe(
+        '[SELECT * FROM d][ORDER BY a, b DESC];'
+      )
+      expect(() => sqlQuery('d').orderBy('a').orderBy('b', 'desc').build()).toThrow('mixed ASC/DESC')
+    })
+
+    it('should be immutable', () => {
+      const base = sqlQuery('d').where('a', '1')
+      base.limit(5)
+      expect(base.build()).toBe('[SELECT * FROM d][WHERE a = "1"];')
+    })
+
+    it('should stringify and serialize as the query', () => {
+      const query = sqlQuery('d').limit(1)
+      expect(String(query)).toBe('[SELECT * FROM d][LIMIT 1];')
+      expect(JSON.stringify({ query })).toBe('{"query":"[SELECT * FROM d][LIMIT 1];"}')
+      expect(toSqlQueryString(query)).toBe('[SELECT * FROM d][LIMIT 1];')
+      expect(toSqlQueryString('raw')).toBe('raw')
+    })
+  })
+
+  describe('escaping and validation', () => {
+    it('should escape quotes and backslashes in values', () => {
+      const query = sqlQuery('d').where('name', 'O"Brien \\ Co').build()
+      expect(query).toBe('[SELECT * FROM d][WHERE name = "O\\"Brien \\\\ Co"];')
+    })
+
+    it('should keep injected clauses inside the quoted value', () => {
+      const query = sqlQuery('d').where('name', '" AND secret = "x').build()
+      expect(parseSqlQuery(query).where).toEqual([
+        { property: 'name', operator: '=', value: '" AND secret = "x' },
+      ])
+    })
+
+    it('should reject brackets in values', () => {
+      expect(() => sqlQuery('d').where('name', 'x][SELECT').build()).toThrow(
+        'SQL values cannot contain "[" or "]"'
+      )
+    })
+
+    it('should reject invalid identifiers', () => {
+      expect(() => sqlQuery('d').select('name; DROP').build()).toThrow('Invalid column name')
+      expect(() => sqlQuery('d').where('a b', 'x').build()).toThrow('Invalid column name')
+      expect(() => sqlQuery('d]').build()).toThrow('Invalid distribution identifier')
+    })
+
+    it('should require LIMIT with OFFSET', () => {
+      expect(() => sqlQuery('d').offset(10).build()).toThrow('OFFSET requires LIMIT')
+    })
+  })
+
+  describe('parsing', () => {
+    it('should parse a full query', () => {
+      expect(
+        parseSqlQuery(
+          '[SELECT a,b FROM dist-1][WHERE a = "x" AND b >= "2"][ORDER BY a DESC][LIMIT 5 OFFSET 10];'
+        )
+      ).toEqual({
+        from: 'dist-1',
+        select: ['a', 'b'],
+        where: [
+          { property: 'a', operator: '=', value: 'x' },
+          { property: 'b', operator: '>=', value: '2' },
+        ],
+        orderBy: [{ property: 'a', order: 'desc' }],
+        limit: 5,
+        offset: 10,
+      })
+    })
+
+    it('should parse SELECT * and COUNT(*)', () => {
+      expect(parseSqlQuery('[SELECT * FROM d];').select).toEqual([])
+      expect(parseSqlQuery('[SELECT COUNT(*) FROM d]')).toMatchObject({ select: [], count: true })
+    })
+
+    it('should apply a trailing ORDER BY direction to every column', () => {
+      expect(parseSqlQuery('[SELECT * FROM d][ORDER BY a, b DESC];').orderBy).toEqual([
+        { property: 'a', order: 'desc' },
+        { property: 'b', order: 'desc' },
+      ])
+      expect(() => parseSqlQuery('[SELECT * FROM d][ORDER BY a ASC, b DESC];')).toThrow('mixed ASC/DESC')
+    })
+
+    it('should parse case-insensitive keywords and LIKE', () => {
+      expect(parseSqlQuery('[select * from d][where name like "%son%"];').where).toEqual([
+        { property: 'name', operator: 'LIKE', value: '%son%' },
+      ])
+    })
+
+    it('should round trip through the builder', () => {
+      const original = sqlQuery('dist-1')
+        .select('a')
+        .where('a', '<>', 'x "y"')
+        .orderBy('a', 'desc')
+        .limit(3)
+        .build()
+
+      expect(formatSqlQuery(parseSqlQuery(original))).toBe(original)
+      expect(sqlQuery(parseSqlQuery(original)).limit(4).build()).toContain('[LIMIT 4]')
+    })
+
+    it('should reject malformed queries', () => {
+      expect(() => parseSqlQuery('SELECT * FROM d')).toThrow('Invalid SQL query')
+      expect(() => parseSqlQuery('[SELECT *][LIMIT 1]')).toThrow('Invalid SELECT clause')
+      expect(() => parseSqlQuery('[SELECT * FROM d][GROUP BY a]')).toThrow('Unsupported SQL clause')
+      expect(() => parseSqlQuery('[SELECT * FROM d][LIMIT ten]')).toThrow('Invalid LIMIT clause')
+    })
+  })
+
+  describe('with DkanApiClient', () => {
+    beforeEach(() => {
+      mockFetch.mockReset()
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        statusText: 'OK',
+        json: async () => [],
+      })
+    })
+
+    it('should accept a builder in querySql', async () => {
+      const client = new DkanApiClient({ baseUrl: 'https://example.com', defaultOptions: { retry: 0 } })
+      const query = sqlQuery('dist-1').where('state', 'CA')
+
+      await client.querySql({ query })
+      await client.querySql({ query, method: 'POST' })
+
+      const url = new URL(mockFetch.mock.calls[0][0])
+      expect(url.searchParams.get('query')).toBe(query.build())
+      expect(JSON.parse(mockFetch.mock.calls[1][1].body).query).toBe(query.build())
+    })
+  })
+})
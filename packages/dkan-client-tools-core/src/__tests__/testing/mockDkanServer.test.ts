@@ -0,0 +1,363 @@
+/**
+ * Tests for MockDkanServer
+ *
+ * Drives the mock through DkanApiClient, covering:
+ * - Metastore CRUD, schema validation and revisions with workflow states
+ * - Search filters, paging and facets
+ * - Datastore queries (conditions, sorts, limits), downloads and SQL
+ * - Datastore imports and harvest runs
+ * - Resetting to the seeded state
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest'
+import { DkanApiClient } from '../../api/client'
+import { DkanApiError, DkanValidationError } from '../../types'
+import { MockDkanServer } from '../../testing/mockDkanServer'
+import type { MockDkanSeed } from '../../testing/mockDkanServer'
+
+const seed: MockDkanSeed = {
+  datasets: [
+    {
+      identifier: 'parks',
+      title: 'City Parks',
+      description: 'Park locations and sizes',
+      keyword: ['parks', 'recreation'],
+      theme: ['Recreation'],
+      publisher: { name: 'Parks Department' },
+      modified: '2025-01-10',
+      distribution: [{ identifier: 'parks-csv', downloadURL: 'https://files.test/parks.csv' }],
+    },
+    {
+      identifier: 'bikes',
+      title: 'Bike Lanes',
+      description: 'Protected bike lanes',
+      keyword: ['transportation'],
+      theme: ['Transportation'],
+      publisher: { name: 'Transit Agency' },
+      modified: '2025-03-02',
+    },
+    {
+      identifier: 'buses',
+      title: 'Bus Stops',
+      description: 'Every bus stop in the city',
+      keyword: ['transportation', 'transit'],
+      theme: ['Transportation'],
+      publisher: { name: 'Transit Agency' },
+      modified: '2024-11-20',
+    },
+  ],
+  datastore: {
+    'parks-csv': [
+      { name: 'Riverside', acres: '12', district: 'North' },
+      { name: 'Hilltop', acres: '4', district: 'South' },
+      { name: 'Lakeview', acres: '30', district: 'North' },
+      { name: 'Oak Grove', acres: '8', district: 'East' },
+    ],
+  },
+  harvestPlans: [
+    {
+      identifier: 'county',
+      extract: { type: 'index', uri: 'https://county.test/data.json' },
+      load: { type: 'dataset' },
+    },
+  ],
+  harvestSources: {
+    'https://county.test/data.json': [
+      { identifier: 'county-roads', title: 'County Roads' },
+      { identifier: 'county-bridges', title: 'County Bridges' },
+    ],
+  },
+}
+
+describe('MockDkanServer', () => {
+  let server: MockDkanServer
+  let client: DkanApiClient
+
+  beforeEach(() => {
+    server = new MockDkanServer({ seed })
+    client = new DkanApiClient({ baseUrl: server.baseUrl, fetch: server.fetch, defaultOptions: { retry: 0 } })
+  })
+
+  describe('metastore', () => {
+    it('should create, read, update, patch and delete datasets', async () => {
+      await expect(client.createDataset({ identifier: 'trees', title: 'Street Trees' } as any)).resolves.toEqual({
+        endpoint: '/api/1/metastore/schemas/dataset/items/trees',
+        identifier: 'trees',
+      })
+      expect(await client.getDataset('trees')).toEqual({ identifier: 'trees', title: 'Street Trees' })
+
+      await client.updateDataset('trees', { identifier: 'trees', title: 'Trees', keyword: ['trees'] } as any)
+      await client.patchDataset('trees', { description: 'Every street tree' })
+      expect(await client.getDataset('trees')).toEqual({
+        identifier: 'trees',
+        title: 'Trees',
+        keyword: ['trees'],
+        description: 'Every street tree',
+      })
+
+      await expect(client.deleteDataset('trees')).resolves.toEqual({ message: 'Dataset trees has been deleted.' })
+      await expect(client.getDataset('trees')).rejects.toMatchObject({ statusCode: 404 })
+    })
+
+    it('should generate identifiers and reject duplicates', async () => {
+      const { identifier } = await client.createDataset({ title: 'Untitled' } as any)
+
+      expect(identifier).toMatch(/^[0-9a-f-]{36}$/)
+      await expect(client.createDataset({ identifier: 'parks', title: 'Again' } as any))
+        .rejects.toMatchObject({ statusCode: 409 })
+    })
+
+    it('should show distribution identifiers only when asked', async () => {
+      const plain = await client.getDataset('parks')
+      const withIds = await client.getDataset('parks', { showReferenceIds: true })
+
+      expect(plain.distribution).toEqual([{ downloadURL: 'https://files.test/parks.csv' }])
+      expect(withIds.distribution).toEqual([
+        { identifier: 'parks-csv', data: { downloadURL: 'https://files.test/parks.csv' } },
+      ])
+    })
+
+    it('should keep distribution identifiers across updates', async () => {
+      const dataset = await client.getDataset('parks')
+      await client.updateDataset('parks', { ...dataset, title: 'Parks' })
+
+      expect(server.getItem('dataset', 'parks')?.distribution[0].identifier).toBe('parks-csv')
+    })
+
+    it('should validate writes against a seeded schema', async () => {
+      server = new MockDkanServer({
+        seed: {
+          schemas: { dataset: { type: 'object', required: ['title'], properties: { title: { type: 'string' } } } },
+        },
+      })
+      client = new DkanApiClient({ baseUrl: server.baseUrl, fetch: server.fetch, defaultOptions: { retry: 0 } })
+
+      const error = await client.createDataset({ identifier: 'x' } as any).catch((e) => e)
+
+      expect(error).toBeInstanceOf(DkanValidationError)
+      expect(error.violations).toEqual([expect.objectContaining({ property: 'title', keyword: 'required' })])
+      await expect(client.getSchema('dataset')).resolves.toMatchObject({ required: ['title'] })
+      await expect(client.getSchema('missing')).rejects.toMatchObject({ statusCode: 404 })
+    })
+
+    it('should store data dictionaries', async () => {
+      const dictionary = { identifier: 'dict', data: { title: 'Parks', fields: [{ name: 'acres', type: 'integer' }] } }
+
+      await client.createDataDictionary(dictionary as any)
+
+      await expect(client.getDataDictionary('dict')).resolves.toEqual(dictionary)
+      await expect(client.listDataDictionaries()).resolves.toEqual([dictionary])
+    })
+  })
+
+  describe('revisions', () => {
+    it('should record revisions and keep drafts out of the published version', async () => {
+      await client.changeDatasetState('bikes', 'draft', 'Needs review')
+
+      const revisions = await client.getRevisions('dataset', 'bikes')
+      expect(revisions.map(({ state, published }) => ({ state, published }))).toEqual([
+        { state: 'draft', published: false },
+        { state: 'published', published: true },
+      ])
+      expect(revisions[0].message).toBe('Needs review')
+      await expect(client.getRevision('dataset', 'bikes', revisions[1].identifier))
+        .resolves.toMatchObject({ state: 'published' })
+      expect((await client.searchDatasets({ theme: 'Transportation' })).total).toBe(2)
+    })
+
+    it('should remove archived and hidden datasets from search', async () => {
+      await client.changeDatasetState('bikes', 'archived')
+      await client.changeDatasetState('buses', 'hidden')
+
+      expect((await client.searchDatasets({ theme: 'Transportation' })).total).toBe(0)
+      const [hidden] = await client.getRevisions('dataset', 'buses')
+      expect(hidden).toMatchObject({ state: 'hidden', published: true })
+    })
+
+    it('should reject unknown workflow states', async () => {
+      await expect(client.createRevision('dataset', 'bikes', { state: 'gone' as any }))
+        .rejects.toMatchObject({ statusCode: 400 })
+    })
+  })
+
+  describe('search', () => {
+    it('should filter by facet and full text', async () => {
+      const byTheme = await client.searchDatasets({ theme: 'Transportation' })
+      const byText = await client.searchDatasets({ fulltext: 'PARK' })
+      const byPublisher = await client.searchDatasets({ publisher: 'Transit Agency', keyword: 'transit' })
+
+      expect(byTheme.results.map((d) => d.identifier)).toEqual(['bikes', 'buses'])
+      expect(byText.results.map((d) => d.identifier)).toEqual(['parks'])
+      expect(byPublisher.results.map((d) => d.identifier)).toEqual(['buses'])
+    })
+
+    it('should sort and page', async () => {
+      const response = await client.searchDatasets({ sort: 'modified', 'sort-order': 'desc', page: 2, 'page-size': 2 })
+
+      expect(response.total).toBe(3)
+      expect(response.results.map((d) => d.identifier)).toEqual(['buses'])
+    })
+
+    it('should count facet values within the matches', async () => {
+      const { facets } = await client.searchDatasets({ theme: 'Transportation' })
+
+      expect(facets).toContainEqual({ type: 'theme', name: 'Recreation', total: '0' })
+      expect(facets).toContainEqual({ type: 'keyword', name: 'transportation', total: '2' })
+      expect(facets).toContainEqual({ type: 'publisher__name', name: 'Transit Agency', total: '2' })
+    })
+
+    it('should list facet values', async () => {
+      await expect(client.getDatasetFacets()).resolves.toEqual({
+        theme: ['Recreation', 'Transportation'],
+        keyword: ['parks', 'recreation', 'transportation', 'transit'],
+        publisher: ['Parks Department', 'Transit Agency'],
+      })
+    })
+  })
+
+  describe('datastore', () => {
+    it('should filter, sort and limit rows', async () => {
+      const response = await client.queryDatastore('parks', 0, {
+        conditions: [{ property: 'acres', value: 5, operator: '>' }],
+        sorts: [{ property: 'acres', order: 'desc' }],
+        limit: 2,
+      })
+
+      expect(response.count).toBe(3)
+      expect(response.results).toEqual([
+        { name: 'Lakeview', acres: '30', district: 'North' },
+        { name: 'Riverside', acres: '12', district: 'North' },
+      ])
+      expect(response.schema?.fields.map((field) => field.name)).toEqual(['name', 'acres', 'district'])
+    })
+
+    it('should evaluate condition groups, properties and GET queries', async () => {
+      const response = await client.queryDatastore('parks', 0, {
+        properties: ['name'],
+        conditions: [{
+          groupOperator: 'or',
+          conditions: [
+            { property: 'district', value: 'South' },
+            { property: 'name', value: 'oak%', operator: 'like' },
+          ],
+        }],
+      }, 'GET')
+
+      expect(response.results).toEqual([{ name: 'Hilltop' }, { name: 'Oak Grove' }])
+    })
+
+    it('should query by distribution and through the multi-resource endpoint', async () => {
+      const byDistribution: unknown[] = []
+      for await (const row of client.iterateDatastoreByDistribution('parks-csv', { offset: 3 }, { pageSize: 2 })) {
+        byDistribution.push(row)
+      }
+      const multi = await client.queryDatastoreMulti({
+        resources: [{ id: 'parks-csv', alias: 'p' }],
+        conditions: [{ resource: 'p', property: 'district', value: 'East' }],
+      })
+
+      expect(byDistribution).toEqual([{ name: 'Oak Grove', acres: '8', district: 'East' }])
+      expect(multi.results).toEqual([{ name: 'Oak Grove', acres: '8', district: 'East' }])
+    })
+
+    it('should reject unknown columns and oversized limits', async () => {
+      await expect(client.queryDatastore('parks', 0, { conditions: [{ property: 'nope', value: 1 }] }))
+        .rejects.toMatchObject({ statusCode: 400, message: 'Column not found: nope' })
+      await expect(client.queryDatastore('parks', 0, { limit: 501 }))
+        .rejects.toMatchObject({ statusCode: 400 })
+      await expect(client.queryDatastore('bikes', 0)).rejects.toMatchObject({ statusCode: 404 })
+    })
+
+    it('should download query results as CSV', async () => {
+      const all = await client.downloadQuery('parks', 0)
+      const filtered = await client.downloadQueryByDistribution('parks-csv', {
+        format: 'csv',
+        conditions: [{ property: 'district', value: 'North' }],
+        properties: ['name'],
+      })
+
+      expect(await all.text()).toBe(
+        'name,acres,district\nRiverside,12,North\nHilltop,4,South\nLakeview,30,North\nOak Grove,8,East\n'
+      )
+      expect(await filtered.text()).toBe('name\nRiverside\nLakeview\n')
+    })
+
+    it('should run bracket SQL queries', async () => {
+      const rows = await client.querySql({
+        query: '[SELECT name FROM parks-csv][WHERE district = "North"][ORDER BY acres ASC][LIMIT 5];',
+      })
+      const count = await client.querySql({ query: '[SELECT COUNT(*) FROM parks-csv];', method: 'POST' })
+
+      expect(rows).toEqual([{ name: 'Riverside' }, { name: 'Lakeview' }])
+      expect(count).toEqual([{ expression: '4' }])
+    })
+  })
+
+  describe('imports', () => {
+    it('should report imports and statistics', async () => {
+      const imports = await client.listDatastoreImports()
+
+      expect(imports['parks-csv']).toMatchObject({ fileName: 'parks.csv', importerStatus: 'done' })
+      await expect(client.getDatastoreStatistics('parks-csv')).resolves.toMatchObject({
+        numOfRows: 4,
+        numOfColumns: 4,
+      })
+    })
+
+    it('should import and drop datastore tables', async () => {
+      await client.deleteDatastore('parks-csv')
+      await expect(client.getDatastoreStatistics('parks-csv')).rejects.toMatchObject({ statusCode: 404 })
+
+      await expect(client.triggerDatastoreImport({ resource_id: 'parks-csv' }))
+        .resolves.toMatchObject({ status: 'done' })
+      await expect(client.getDatastoreStatistics('parks-csv')).resolves.toMatchObject({ numOfRows: 0 })
+      await expect(client.triggerDatastoreImport({ resource_id: 'unknown' })).rejects.toMatchObject({ statusCode: 404 })
+    })
+  })
+
+  describe('harvest', () => {
+    it('should run a plan and load its source datasets', async () => {
+      const run = await client.runHarvest({ plan_id: 'county' })
+
+      expect(run.status).toMatchObject({
+        extract: 'SUCCESS',
+        load: { 'county-roads': 'NEW', 'county-bridges': 'NEW' },
+      })
+      await expect(client.getDataset('county-roads')).resolves.toMatchObject({ title: 'County Roads' })
+      await expect(client.listHarvestRuns('county')).resolves.toEqual([run.identifier])
+      await expect(client.getHarvestRun(run.identifier, 'county')).resolves.toEqual(run)
+
+      const again = await client.runHarvest({ plan_id: 'county' })
+      expect(again.status.load).toEqual({ 'county-roads': 'UNCHANGED', 'county-bridges': 'UNCHANGED' })
+    })
+
+    it('should register plans', async () => {
+      const plan = {
+        identifier: 'state',
+        extract: { type: 'index', uri: 'https://state.test/data.json' },
+        load: { type: 'dataset' },
+      }
+
+      await client.registerHarvestPlan(plan)
+
+      await expect(client.listHarvestPlans()).resolves.toEqual(['county', 'state'])
+      await expect(client.getHarvestPlan('state')).resolves.toEqual(plan)
+      await expect(client.runHarvest({ plan_id: 'missing' })).rejects.toBeInstanceOf(DkanApiError)
+    })
+  })
+
+  it('should restore the seed on reset', async () => {
+    await client.deleteDataset('parks')
+    await client.deleteDatastore('parks-csv')
+
+    server.reset()
+
+    await expect(client.getDataset('parks')).resolves.toMatchObject({ title: 'City Parks' })
+    expect(server.getDatastoreRows('parks-csv')).toHaveLength(4)
+    expect(seed.datasets).toHaveLength(3)
+  })
+
+  it('should answer unknown routes with 404', async () => {
+    await expect(client.getResponse('/api/1/nothing')).rejects.toMatchObject({ statusCode: 404 })
+  })
+})
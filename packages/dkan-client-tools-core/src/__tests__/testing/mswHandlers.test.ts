@@ -0,0 +1,189 @@
+// @vitest-environment node
+/**
+ * Tests for the MSW handlers
+ *
+ * Drives DkanApiClient against an MSW server, covering:
+ * - Default answers from the recorded fixtures, and echoed writes
+ * - Overriding single responses, errors, network failures and latency
+ * - Paging search results and datastore rows
+ * - Delegating to a MockDkanServer
+ */
+
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest'
+import { setupServer } from 'msw/node'
+import { DkanApiClient } from '../../api/client'
+import { DkanApiError, DkanNetworkError } from '../../types'
+import {
+  createDkanHandlers,
+  mockDkanResponse,
+  mockDkanError,
+  mockDkanNetworkError,
+  mockDkanSearch,
+  mockDkanDatastore,
+} from '../../testing/mswHandlers'
+import { MockDkanServer } from '../../testing/mockDkanServer'
+import { FixtureLoader } from '../helpers/FixtureLoader'
+
+const baseUrl = 'https://dkan.test'
+const server = setupServer(...createDkanHandlers())
+const fixtures = new FixtureLoader()
+
+function recorded(category: string, method: string) {
+  return fixtures.getFixture(category, method)?.response as any
+}
+
+const rows = [
+  { name: 'Riverside', acres: '12' },
+  { name: 'Hilltop', acres: '4' },
+  { name: 'Lakeview', acres: '30' },
+]
+
+describe('MSW handlers', () => {
+  const client = new DkanApiClient({ baseUrl, defaultOptions: { retry: 0 } })
+
+  beforeAll(() => server.listen({ onUnhandledRequest: 'error' }))
+  afterEach(() => server.resetHandlers())
+  afterAll(() => server.close())
+
+  describe('recorded responses', () => {
+    it('should answer reads with the recorded responses', async () => {
+      await expect(client.getDataset('any-id')).resolves.toEqual(recorded('Dataset Operations', 'getDataset'))
+      await expect(client.listHarvestPlans()).resolves.toEqual(['sample_content'])
+      await expect(client.getRevisions('dataset', 'any-id'))
+        .resolves.toEqual(recorded('Revisions', 'getRevisions'))
+      await expect(client.getDatastoreStatistics('any-id'))
+        .resolves.toEqual(recorded('Datastore Imports', 'getDatastoreStatistics'))
+    })
+
+    it('should tell schema requests from queries on the same path', async () => {
+      const schema = await client.getDatastoreSchema('any-id', 0)
+      const query = await client.queryDatastore('any-id', 0, { limit: 10 }, 'GET')
+
+      expect(schema.schema?.fields.length).toBeGreaterThan(0)
+      expect(query.results).toEqual(recorded('Datastore Operations', 'queryDatastore').results)
+    })
+
+    it('should download the recorded rows as CSV', async () => {
+      const csv = await (await client.downloadQuery('any-id', 0)).text()
+
+      expect(csv.split('\n')[0]).toBe('objectid,roadway,road_side,lncd,descr,begin_post,end_post,shape_leng')
+      expect(csv.trim().split('\n')).toHaveLength(11)
+    })
+
+    it('should echo identifiers from writes', async () => {
+      await expect(client.createDataset({ identifier: 'parks', title: 'Parks' } as any)).resolves.toEqual({
+        endpoint: '/api/1/metastore/schemas/dataset/items/parks',
+        identifier: 'parks',
+      })
+      await expect(client.deleteDataset('parks')).resolves.toEqual({ message: 'Dataset parks has been deleted.' })
+      await expect(client.deleteDataDictionary('parks-dict')).resolves.toEqual({
+        message: 'Data-dictionary parks-dict has been deleted.',
+      })
+      await expect(client.createRevision('dataset', 'parks', { state: 'draft' }))
+        .resolves.toMatchObject({ identifier: '1' })
+    })
+
+    it('should answer 404 for reads without a recording', async () => {
+      server.use(...createDkanHandlers({ recordings: [] }))
+
+      await expect(client.listSchemas()).rejects.toMatchObject({
+        statusCode: 404,
+        message: 'No recorded response for listSchemas',
+      })
+    })
+  })
+
+  describe('overrides', () => {
+    it('should override a single response', async () => {
+      server.use(mockDkanResponse('getDataset', ({ params }) => ({ identifier: params.identifier, title: 'Parks' })))
+
+      await expect(client.getDataset('parks')).resolves.toEqual({ identifier: 'parks', title: 'Parks' })
+      await expect(client.listHarvestPlans()).resolves.toEqual(['sample_content'])
+    })
+
+    it('should not answer distribution downloads from queryDatastore overrides', async () => {
+      server.use(mockDkanResponse('queryDatastore', { results: [], count: 0 }))
+
+      const csv = await (await client.downloadQueryByDistribution('any-id')).text()
+
+      expect(csv.trim().split('\n')).toHaveLength(11)
+      await expect(client.queryDatastore('any-id', 0)).resolves.toEqual({ results: [], count: 0 })
+    })
+
+    it('should only match the given origin', async () => {
+      server.use(mockDkanResponse('listSchemas', ['elsewhere'], { baseUrl: 'https://other.test' }))
+
+      await expect(client.listSchemas()).resolves.not.toEqual(['elsewhere'])
+    })
+
+    it('should simulate DKAN errors once, for retries', async () => {
+      const retrying = new DkanApiClient({ baseUrl, defaultOptions: { retry: 1, retryDelay: 0 } })
+      server.use(mockDkanError('listHarvestPlans', 503, 'Service Unavailable', { once: true }))
+
+      await expect(retrying.listHarvestPlans()).resolves.toEqual(['sample_content'])
+    })
+
+    it('should simulate DKAN errors and network failures', async () => {
+      server.use(
+        mockDkanError('getDataset', 404, 'Dataset not found'),
+        mockDkanNetworkError('searchDatasets')
+      )
+
+      const error = await client.getDataset('parks').catch((e) => e)
+      expect(error).toBeInstanceOf(DkanApiError)
+      expect(error).toMatchObject({ statusCode: 404, message: 'Dataset not found' })
+      await expect(client.searchDatasets()).rejects.toBeInstanceOf(DkanNetworkError)
+    })
+
+    it('should delay responses', async () => {
+      server.use(mockDkanResponse('listSchemas', ['dataset'], { delay: 50 }))
+
+      const started = Date.now()
+      await client.listSchemas()
+
+      expect(Date.now() - started).toBeGreaterThanOrEqual(45)
+    })
+  })
+
+  describe('pagination', () => {
+    it('should page search results', async () => {
+      const datasets = ['a', 'b', 'c', 'd', 'e'].map((identifier) => ({ identifier, title: identifier }))
+      server.use(mockDkanSearch(datasets))
+
+      const page = await client.searchDatasets({ page: 2, 'page-size': 2 })
+      const all: string[] = []
+      for await (const dataset of client.iterateSearch({}, { pageSize: 2 })) all.push(dataset.identifier)
+
+      expect(page.total).toBe(5)
+      expect(page.results.map((d) => d.identifier)).toEqual(['c', 'd'])
+      expect(all).toEqual(['a', 'b', 'c', 'd', 'e'])
+    })
+
+    it('should page, filter and sort datastore rows', async () => {
+      server.use(...mockDkanDatastore(rows))
+
+      const names: unknown[] = []
+      for await (const row of client.iterateDatastore('parks', 0, {}, { pageSize: 2 })) names.push(row.name)
+      const filtered = await client.queryDatastore('parks', 0, {
+        conditions: [{ property: 'acres', value: 10, operator: '>' }],
+        sorts: [{ property: 'acres', order: 'desc' }],
+      })
+
+      expect(names).toEqual(['Riverside', 'Hilltop', 'Lakeview'])
+      expect(filtered.count).toBe(2)
+      expect(filtered.results.map((row) => row.name)).toEqual(['Lakeview', 'Riverside'])
+      await expect(client.queryDatastore('parks', 0, { properties: ['missing'] }))
+        .rejects.toMatchObject({ statusCode: 400 })
+    })
+  })
+
+  it('should delegate to a MockDkanServer', async () => {
+    const mock = new MockDkanServer({ baseUrl, seed: { datasets: [{ identifier: 'parks', title: 'Parks' }] } })
+    server.use(...createDkanHandlers({ server: mock }))
+
+    await client.patchDataset('parks', { title: 'City Parks' })
+
+    await expect(client.getDataset('parks')).resolves.toEqual({ identifier: 'parks', title: 'City Parks' })
+    expect(mock.getItem('dataset', 'parks')?.title).toBe('City Parks')
+  })
+})
@@ -3,7 +3,14 @@
  */
 
 import { describe, it, expect } from 'vitest'
-import { DkanApiError } from '../types'
+import {
+  DkanApiError,
+  DkanNotFoundError,
+  DkanAuthError,
+  DkanValidationError,
+  DkanNetworkError,
+  DkanTimeoutError,
+} from '../types'
 
 describe('DkanApiError', () => {
   it('should create error with message only', () => {
@@ -60,3 +67,29 @@ describe('DkanApiError', () => {
     expect(error.stack).toContain('DkanApiError')
   })
 })
+
+describe('DkanApiError subclasses', () => {
+  it.each([
+    ['DkanNotFoundError', new DkanNotFoundError('Not found', 404)],
+    ['DkanAuthError', new DkanAuthError('Forbidden', 403)],
+    ['DkanValidationError', new DkanValidationError('Invalid', 400)],
+    ['DkanNetworkError', new DkanNetworkError('Failed to fetch')],
+    ['DkanTimeoutError', new DkanTimeoutError('Timed out', 1000)],
+  ])('%s should extend DkanApiError', (name, error) => {
+    expect(error).toBeInstanceOf(Error)
+    expect(error).toBeInstanceOf(DkanApiError)
+    expect(error.name).toBe(name)
+  })
+
+  it('should keep validation violations', () => {
+    const violations = [{ property: 'title', message: 'Required' }]
+    const error = new DkanValidationError('Invalid', 422, 'body', undefined, undefined, violations)
+
+    expect(error.statusCode).toBe(422)
+    expect(error.violations).toEqual(violations)
+  })
+
+  it('should default to an empty violation list', () => {
+    expect(new DkanValidationError('Invalid').violations).toEqual([])
+  })
+})
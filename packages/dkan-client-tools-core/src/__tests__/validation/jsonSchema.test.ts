@@ -0,0 +1,113 @@
+/**
+ * Tests for the JSON Schema validator
+ *
+ * Covers:
+ * - Recorded DKAN datasets validating cleanly against the recorded dataset schema
+ * - Dotted violation paths into nested objects and arrays
+ * - Type, string, numeric, array and combinator keywords
+ * - Local $ref resolution
+ */
+
+import { describe, it, expect } from 'vitest'
+import { validateJsonSchema } from '../../validation/jsonSchema'
+import { fixtureLoader } from '../helpers/FixtureLoader'
+import type { JsonSchema } from '../../types'
+
+const datasetSchema = fixtureLoader.getFixture('Metastore', 'getSchema')!.response as JsonSchema
+const datasets = fixtureLoader.getFixture('Dataset Operations', 'listAllDatasets')!.response as any[]
+
+describe('validateJsonSchema', () => {
+  describe('DKAN dataset schema', () => {
+    it('should accept every recorded dataset', () => {
+      expect(datasets.length).toBeGreaterThan(0)
+      for (const dataset of datasets) {
+        expect(validateJsonSchema(dataset, datasetSchema)).toEqual([])
+      }
+    })
+
+    it('should report missing required properties at their path', () => {
+      const { title, ...dataset } = datasets[0]
+
+      expect(validateJsonSchema(dataset, datasetSchema)).toContainEqual({
+        property: 'title',
+        message: 'The property title is required',
+        keyword: 'required',
+      })
+    })
+
+    it('should report nested violations with dotted paths', () => {
+      const dataset = {
+        ...datasets[0],
+        contactPoint: { ...datasets[0].contactPoint, hasEmail: 'not-an-email' },
+        distribution: [{ ...datasets[0].distribution?.[0], downloadURL: 42 }],
+      }
+
+      const properties = validateJsonSchema(dataset, datasetSchema).map((violation) => violation.property)
+      expect(properties).toContain('contactPoint.hasEmail')
+      expect(properties).toContain('distribution.0.downloadURL')
+    })
+  })
+
+  describe('keywords', () => {
+    it('should check types, including integer and null', () => {
+      expect(validateJsonSchema(1.5, { type: 'integer' })[0].keyword).toBe('type')
+      expect(validateJsonSchema(2, { type: 'integer' })).toEqual([])
+      expect(validateJsonSchema(null, { type: 'null' })).toEqual([])
+      expect(validateJsonSchema([], { type: 'object' })[0].message).toBe('Must be of type object, got array')
+    })
+
+    it('should check enum, const and string constraints', () => {
+      expect(validateJsonSchema('c', { enum: ['a', 'b'] })[0].keyword).toBe('enum')
+      expect(validateJsonSchema('a', { const: 'b' })[0].keyword).toBe('const')
+      expect(validateJsonSchema('ab', { minLength: 3 })[0].keyword).toBe('minLength')
+      expect(validateJsonSchema('abcd', { maxLength: 3 })[0].keyword).toBe('maxLength')
+      expect(validateJsonSchema('abc', { pattern: '^\\d+$' })[0].keyword).toBe('pattern')
+      expect(validateJsonSchema('2025-13', { format: 'date' })[0].keyword).toBe('format')
+      expect(validateJsonSchema('2025-01-31T10:00:00Z', { format: 'date-time' })).toEqual([])
+    })
+
+    it('should skip patterns that do not compile', () => {
+      expect(validateJsonSchema('abc', { pattern: '(' })).toEqual([])
+    })
+
+    it('should check numeric bounds', () => {
+      const schema = { minimum: 1, exclusiveMaximum: 10 }
+      expect(validateJsonSchema(0, schema)[0].keyword).toBe('minimum')
+      expect(validateJsonSchema(10, schema)[0].keyword).toBe('exclusiveMaximum')
+      expect(validateJsonSchema(5, schema)).toEqual([])
+    })
+
+    it('should check array constraints and item schemas', () => {
+      const schema = { type: 'array', minItems: 1, uniqueItems: true, items: { type: 'string' } }
+      expect(validateJsonSchema([], schema)[0].keyword).toBe('minItems')
+      expect(validateJsonSchema(['a', 'a'], schema)[0].keyword).toBe('uniqueItems')
+      expect(validateJsonSchema(['a', 1], schema)[0].property).toBe('1')
+    })
+
+    it('should reject additional properties when disallowed', () => {
+      const schema = { type: 'object', properties: { a: {} }, additionalProperties: false }
+      expect(validateJsonSchema({ a: 1, b: 2 }, schema)).toEqual([
+        { property: 'b', message: 'The property b is not defined', keyword: 'additionalProperties' },
+      ])
+    })
+
+    it('should apply allOf, anyOf, oneOf and not', () => {
+      expect(validateJsonSchema(5, { allOf: [{ minimum: 1 }, { maximum: 3 }] })[0].keyword).toBe('maximum')
+      expect(validateJsonSchema(true, { anyOf: [{ type: 'string' }, { type: 'number' }] })[0].keyword).toBe('anyOf')
+      expect(validateJsonSchema(2, { oneOf: [{ type: 'integer' }, { type: 'number' }] })[0].keyword).toBe('oneOf')
+      expect(validateJsonSchema('a', { not: { type: 'string' } })[0].keyword).toBe('not')
+    })
+
+    it('should resolve local $refs against the root schema', () => {
+      const schema = {
+        definitions: { name: { type: 'string', minLength: 1 } },
+        type: 'object',
+        properties: { publisher: { type: 'object', properties: { name: { $ref: '#/definitions/name' } } } },
+      }
+
+      expect(validateJsonSchema({ publisher: { name: '' } }, schema)).toEqual([
+        { property: 'publisher.name', message: 'Must be at least 1 characters long', keyword: 'minLength' },
+      ])
+    })
+  })
+})
@@ -4,9 +4,11 @@
  * Direct API access without caching. For React/Vue apps, use framework-specific hooks/composables.
  * Use this for server-side operations, scripts, or custom integrations.
  *
- * Provides 40 methods across datasets, datastore, data dictionaries, harvests, imports,
- * metastore, revisions, downloads, and utilities. Supports Basic auth (default in DKAN 2.x)
- * and Bearer tokens (requires extra modules).
+ * Provides 53 methods across datasets, datastore, data dictionaries, harvests, imports,
+ * metastore, revisions, downloads, and utilities. Supports Basic auth (default in DKAN 2.x),
+ * Bearer tokens (requires extra modules, static or from a refreshing provider), and Drupal
+ * session cookies with CSRF tokens. Every request, including downloads, goes through the
+ * configurable `fetch` transport and interceptor chain.
  *
  * @example
  * ```typescript
@@ -23,11 +25,16 @@
 
 import type {
   DkanClientConfig,
+  DkanDefaultOptions,
   DkanDataset,
+  DatasetMergePatch,
   DkanSearchResponse,
+  DatasetBatchResult,
   DkanDatastoreQueryResponse,
   DatastoreSchema,
+  DatastoreIterateOptions,
   DatasetQueryOptions,
+  SearchIterateOptions,
   DatastoreQueryOptions,
   DkanApiResponse,
   DataDictionary,
@@ -44,27 +51,322 @@ import type {
   MetastoreWriteResponse,
   MetastoreRevision,
   MetastoreNewRevision,
+  RevisionComparison,
   WorkflowState,
   QueryDownloadOptions,
+  DownloadRequestOptions,
   SqlQueryOptions,
   SqlQueryResult,
+  DkanTransport,
+  DkanTokenProvider,
+  DkanInterceptor,
+  DkanRequest,
+  DkanRequestOptions,
+  DkanRequestCategory,
+  DkanValidationViolation,
+  RateLimitMetrics,
+  ResponseValidationOptions,
+  RetryPolicy,
 } from '../types'
-import { DkanApiError } from '../types'
+import {
+  DkanApiError,
+  DkanNotFoundError,
+  DkanAuthError,
+  DkanValidationError,
+  DkanResponseValidationError,
+  DkanNetworkError,
+  DkanTimeoutError,
+} from '../types'
+import { toDatastoreQueryOptions } from '../query/datastoreQuery'
+import type { DatastoreQueryBuilder, DatastoreQueryInput } from '../query/datastoreQuery'
+import { toSqlQueryString } from '../query/sqlQuery'
+import { DatastoreIterable, SearchIterable } from './pagination'
+import { RateLimiter } from './rateLimiter'
+import { validateJsonSchema } from '../validation/jsonSchema'
+import { RESPONSE_SCHEMAS } from '../validation/responseSchemas'
+import { diffJson } from '../diff/diffDatasets'
+import type { OpenApiDocument } from '../openapi/conformance'
+
+const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  retryableStatusCodes: [408, 429, 500, 502, 503, 504],
+  idempotentOnly: true,
+  backoffFactor: 2,
+  maxDelay: 30000,
+  jitter: true,
+  respectRetryAfter: true,
+  maxElapsedTime: Infinity,
+}
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']
+
+/** Methods Drupal accepts without a CSRF token under cookie authentication */
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS']
+
+/** Parse a Retry-After header (delay in seconds or an HTTP date) into milliseconds */
+function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined
+
+  const seconds = Number(value)
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000)
+
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
+
+/** Convert a JSON pointer (`#/contactPoint/hasEmail`) into a dotted property path */
+function pointerToProperty(pointer: string): string {
+  return pointer
+    .replace(/^#?\/?/, '')
+    .split('/')
+    .filter(Boolean)
+    .map((part) => part.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .join('.')
+}
+
+/**
+ * Extract JSON Schema violations from a metastore error body. DKAN reports them either
+ * as `errors`/`data.errors` arrays or as a JSON string in `message`.
+ */
+function parseValidationViolations(errorData: any): DkanValidationViolation[] {
+  let errors = errorData?.errors ?? errorData?.data?.errors
+  if (!errors && typeof errorData?.message === 'string') {
+    try {
+      errors = JSON.parse(errorData.message)?.errors
+    } catch {
+      // Plain text message
+    }
+  }
+  if (!Array.isArray(errors)) return []
+
+  return errors.map((entry: any) => {
+    let property = typeof entry.pointer === 'string'
+      ? pointerToProperty(entry.pointer)
+      : String(entry.property ?? entry.path ?? '').replace(/^\./, '')
+
+    // "required" failures point at the parent object; name the missing field instead
+    const missing = entry.keywordArgs?.missing
+    if (entry.keyword === 'required' && typeof missing === 'string') {
+      property = property ? `${property}.${missing}` : missing
+    }
+
+    return {
+      property,
+      message: String(entry.message ?? 'Invalid value'),
+      keyword: entry.keyword,
+    }
+  })
+}
+
+function formatViolation(violation: DkanValidationViolation): string {
+  return violation.property ? `${violation.property}: ${violation.message}` : violation.message
+}
+
+/** Most violations spelled out in a response validation message */
+const MAX_REPORTED_VIOLATIONS = 5
+
+/** Most URLs whose validators and payloads are kept for conditional requests */
+const MAX_CONDITIONAL_ENTRIES = 200
+
+/** Validators and payload from the last successful GET of a URL */
+interface ConditionalEntry {
+  etag?: string
+  lastModified?: string
+  response: DkanApiResponse<any>
+}
+
+/** A GET request shared by concurrent identical callers */
+interface SharedRequest {
+  promise: Promise<any>
+  controller: AbortController
+  /** Callers still waiting; callers without a signal never leave */
+  callers: number
+}
+
+/**
+ * Reads a successful response inside send(). Calling `keepSlot` takes over the request's
+ * rate limit slot; the returned function must be called once the body is consumed.
+ */
+type ReadResponse<T> = (response: Response, keepSlot: () => () => void) => Promise<T>
+
+/** True when the request carries If-None-Match or If-Modified-Since, set by us or an interceptor */
+function isConditional(request: DkanRequest): boolean {
+  return Object.keys(request.headers).some((name) =>
+    ['if-none-match', 'if-modified-since'].includes(name.toLowerCase())
+  )
+}
+
+/** Workflow metadata compared by compareRevisions(); a revision's own identifier always differs */
+function workflowFields({ state, published, message, modified }: MetastoreRevision) {
+  return { state, published, message, modified }
+}
+
+/** Drop `null` members, which remove properties in a merge patch, from nested objects */
+function withoutNulls(value: unknown): unknown {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return value
+  return Object.fromEntries(
+    Object.entries(value)
+      .filter(([, member]) => member !== null)
+      .map(([key, member]) => [key, withoutNulls(member)])
+  )
+}
+
+/** Wait for `ms` milliseconds, rejecting early if the signal aborts */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(new DkanApiError('Request aborted'))
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+/**
+ * Combine a caller's AbortSignal and timeout into a single signal for one attempt.
+ * Returns undefined when neither is set so requests carry no signal at all.
+ */
+function createAbortScope(options: DkanRequestOptions) {
+  if (!options.signal && options.timeoutMs === undefined) return undefined
+
+  const controller = new AbortController()
+  const { signal: parent, timeoutMs } = options
+  let timedOut = false
+
+  const onAbort = () => controller.abort(parent?.reason)
+  if (parent?.aborted) {
+    controller.abort(parent.reason)
+  } else {
+    parent?.addEventListener('abort', onAbort, { once: true })
+  }
+
+  const timer = timeoutMs !== undefined
+    ? setTimeout(() => {
+        timedOut = true
+        controller.abort()
+      }, timeoutMs)
+    : undefined
+
+  return {
+    signal: controller.signal,
+    timedOut: () => timedOut,
+    dispose: () => {
+      clearTimeout(timer)
+      parent?.removeEventListener('abort', onAbort)
+    },
+  }
+}
+
+/**
+ * Wrap a response body in a stream that reports progress and stops when the signal aborts.
+ * Needed because the request's own abort scope ends once the response headers arrive.
+ * `onClose` runs once the stream finishes, fails, is cancelled or is aborted.
+ */
+function trackProgress(
+  response: Response,
+  options: DownloadRequestOptions,
+  onClose?: () => void
+): ReadableStream<Uint8Array> {
+  if (!response.body) {
+    throw new DkanApiError('Download response has no body to stream', response.status)
+  }
+
+  const { signal, onProgress } = options
+  const reader = response.body.getReader()
+  const contentLength = Number(response.headers?.get('Content-Length'))
+  const total = contentLength > 0 ? contentLength : undefined
+  let loaded = 0
+
+  const cleanup = () => {
+    signal?.removeEventListener('abort', onAbort)
+    onClose?.()
+  }
+  const onAbort = () => {
+    cleanup()
+    reader.cancel(signal?.reason).catch(() => {})
+  }
+  signal?.addEventListener('abort', onAbort, { once: true })
+
+  onProgress?.({ loaded, total })
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read()
+        if (signal?.aborted) {
+          throw new DkanApiError('Request aborted')
+        }
+        if (done) {
+          cleanup()
+          controller.close()
+          return
+        }
+        loaded += value.byteLength
+        onProgress?.({ loaded, total })
+        controller.enqueue(value)
+      } catch (error) {
+        cleanup()
+        controller.error(
+          error instanceof DkanApiError
+            ? error
+            : new DkanNetworkError(error instanceof Error ? error.message : 'Download failed')
+        )
+      }
+    },
+    cancel(reason) {
+      cleanup()
+      return reader.cancel(reason)
+    },
+  })
+}
+
+/** Buffer a stream into a Blob */
+async function readBlob(stream: ReadableStream<Uint8Array>, type: string): Promise<Blob> {
+  const chunks: BlobPart[] = []
+  const reader = stream.getReader()
+  for (let result = await reader.read(); !result.done; result = await reader.read()) {
+    chunks.push(result.value as BlobPart)
+  }
+  return new Blob(chunks, { type })
+}
 
 export class DkanApiClient {
   private baseUrl: string
-  private auth?: { username: string; password: string } | { token: string }
-  private defaultOptions: Required<NonNullable<DkanClientConfig['defaultOptions']>>
+  private auth?:
+    | { username: string; password: string }
+    | { token: string }
+    | { getToken: DkanTokenProvider; onAuthFailure?: (error: DkanAuthError) => void }
+    | { session: true }
+  private defaultOptions: Required<Omit<DkanDefaultOptions, 'retryPolicy'>>
+  private retryPolicy: Required<RetryPolicy>
+  private transport: DkanTransport
+  private interceptors: DkanInterceptor[]
+  private dedupeRequests: boolean
+  private inFlight = new Map<string, SharedRequest>()
+  private rateLimiter?: RateLimiter
+  private conditionalRequests: boolean
+  private validators = new Map<string, ConditionalEntry>()
+  private responseValidation: ResponseValidationOptions
+  private schemas = new Map<string, JsonSchema>()
+  private csrfToken?: Promise<string>
+  private tokenRefresh?: Promise<string>
 
   constructor(config: DkanClientConfig) {
     this.baseUrl = config.baseUrl.replace(/\/$/, '')
 
     // Type guard for auth
     if (config.auth) {
-      if ('token' in config.auth && config.auth.token) {
+      if (config.auth.getToken) {
+        this.auth = { getToken: config.auth.getToken, onAuthFailure: config.auth.onAuthFailure }
+      } else if ('token' in config.auth && config.auth.token) {
         this.auth = { token: config.auth.token }
       } else if ('username' in config.auth && 'password' in config.auth && config.auth.username && config.auth.password) {
         this.auth = { username: config.auth.username, password: config.auth.password }
+      } else if (config.auth.session) {
+        this.auth = { session: true }
       }
     }
 
@@ -74,6 +376,15 @@ export class DkanApiClient {
       staleTime: config.defaultOptions?.staleTime ?? 0,
       cacheTime: config.defaultOptions?.cacheTime ?? 5 * 60 * 1000, // 5 minutes
     }
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...config.defaultOptions?.retryPolicy }
+
+    // Resolve global fetch lazily so polyfills and test mocks installed later are picked up
+    this.transport = config.fetch ?? ((url, init) => fetch(url, init))
+    this.interceptors = [...(config.interceptors ?? [])]
+    this.dedupeRequests = config.dedupeRequests ?? true
+    this.rateLimiter = config.rateLimit ? new RateLimiter(config.rateLimit) : undefined
+    this.conditionalRequests = config.conditionalRequests ?? false
+    this.responseValidation = config.responseValidation ?? { mode: 'off' }
   }
 
   /** Get the authorization header */
@@ -92,95 +403,623 @@ export class DkanApiClient {
     return undefined
   }
 
-  /** Make a request with retry logic */
-  private async request<T>(
+  /** Whether requests authenticate with the Drupal session cookie */
+  private usesSession(): boolean {
+    return this.auth !== undefined && 'session' in this.auth
+  }
+
+  /** Build a request for an API path, adding the authorization header or session cookie policy */
+  private createRequest(
     path: string,
-    options: RequestInit = {},
-    retryCount = 0
-  ): Promise<DkanApiResponse<T>> {
-    const url = `${this.baseUrl}${path}`
+    init: { method?: string; headers?: Record<string, string>; body?: string } = {}
+  ): DkanRequest {
+    const headers: Record<string, string> = { ...init.headers }
     const authHeader = this.getAuthHeader()
 
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-      ...(options.headers as Record<string, string>),
-    }
-
     if (authHeader) {
       headers['Authorization'] = authHeader
     }
 
-    try {
-      const response = await fetch(url, {
-        ...options,
-        headers,
+    return {
+      url: `${this.baseUrl}${path}`,
+      method: init.method ?? 'GET',
+      headers,
+      body: init.body,
+      ...(this.usesSession() && { credentials: 'include' as const }),
+    }
+  }
+
+  /**
+   * Drupal CSRF token for session auth, fetched once from `/session/token`. A failed fetch
+   * is retried on next use.
+   */
+  private getCsrfToken(options: DkanRequestOptions): Promise<string> {
+    if (!this.csrfToken) {
+      const token = this.send(
+        this.createRequest('/session/token'),
+        async (response) => (await response.text()).trim(),
+        { signal: options.signal, timeoutMs: options.timeoutMs }
+      )
+      this.csrfToken = token
+      token.catch(() => {
+        if (this.csrfToken === token) this.csrfToken = undefined
       })
+    }
+    return this.csrfToken
+  }
 
-      if (!response.ok) {
-        const errorText = await response.text()
-        let errorData: any
-        let timestamp: string | undefined
-        let data: Record<string, any> | undefined
+  /** Convert a non-2xx response into a DkanApiError subclass matching its status */
+  private async createError(response: Response): Promise<DkanApiError> {
+    const errorText = await response.text()
+    let errorData: any
+    let timestamp: string | undefined
+    let data: Record<string, any> | undefined
 
-        // Try to parse error response as JSON
-        try {
-          errorData = JSON.parse(errorText)
-          timestamp = errorData.timestamp
-          data = errorData.data
-        } catch {
-          // Not JSON, keep as text
+    // Try to parse error response as JSON
+    try {
+      errorData = JSON.parse(errorText)
+      timestamp = errorData.timestamp
+      data = errorData.data
+    } catch {
+      // Not JSON, keep as text
+    }
+
+    const status = response.status
+    const message = errorData?.message || `HTTP ${status}: ${response.statusText}`
+    const violations = status === 400 || status === 422
+      ? parseValidationViolations(errorData)
+      : []
+
+    let error: DkanApiError
+    if (status === 404) {
+      error = new DkanNotFoundError(message, status, errorText, timestamp, data)
+    } else if (status === 401 || status === 403) {
+      error = new DkanAuthError(message, status, errorText, timestamp, data)
+    } else if (status === 422 || violations.length > 0) {
+      // DKAN embeds the validator output as a JSON string in `message`
+      const summary = violations.length > 0
+        ? `Validation failed: ${violations.map(formatViolation).join('; ')}`
+        : message
+      error = new DkanValidationError(summary, status, errorText, timestamp, data, violations)
+    } else {
+      error = new DkanApiError(message, status, errorText, timestamp, data)
+    }
+
+    error.retryAfter = parseRetryAfter(response.headers?.get('Retry-After'))
+    return error
+  }
+
+  /** Call the token provider, reporting its failures as DkanAuthError */
+  private async fetchToken(getToken: DkanTokenProvider, forceRefresh: boolean): Promise<string> {
+    try {
+      return await getToken({ forceRefresh })
+    } catch (error) {
+      if (error instanceof DkanApiError) throw error
+      const message = error instanceof Error ? error.message : String(error)
+      throw new DkanAuthError(`Failed to get an auth token: ${message}`)
+    }
+  }
+
+  /** Force a token refresh, joining one already in progress */
+  private refreshToken(getToken: DkanTokenProvider): Promise<string> {
+    if (!this.tokenRefresh) {
+      const refresh = this.fetchToken(getToken, true)
+      const clear = () => {
+        if (this.tokenRefresh === refresh) this.tokenRefresh = undefined
+      }
+      refresh.then(clear, clear)
+      this.tokenRefresh = refresh
+    }
+    return this.tokenRefresh
+  }
+
+  /**
+   * send() with a bearer token from the token provider, when one is configured. A 401
+   * refreshes the token, shared by every request that hits it during the refresh, and
+   * replays the request once.
+   */
+  private async sendWithAuth<T>(
+    request: DkanRequest,
+    read: ReadResponse<T>,
+    options: DkanRequestOptions = {},
+    category?: DkanRequestCategory
+  ): Promise<T> {
+    if (!this.auth || !('getToken' in this.auth)) {
+      return this.send(request, read, options, category)
+    }
+
+    const { getToken, onAuthFailure } = this.auth
+    const sendWith = async (token: Promise<string>) => {
+      const headers = { ...request.headers, Authorization: `Bearer ${await token}` }
+      return this.send({ ...request, headers }, read, options, category)
+    }
+
+    try {
+      try {
+        // Requests started during a refresh wait for the new token
+        return await sendWith(this.tokenRefresh ?? this.fetchToken(getToken, false))
+      } catch (error) {
+        if (!(error instanceof DkanAuthError) || error.statusCode !== 401 || options.signal?.aborted) {
+          throw error
         }
+        return await sendWith(this.refreshToken(getToken))
+      }
+    } catch (error) {
+      // 403 means the token is valid but lacks permission
+      if (error instanceof DkanAuthError && error.statusCode !== 403) {
+        onAuthFailure?.(error)
+      }
+      throw error
+    }
+  }
 
-        throw new DkanApiError(
-          errorData?.message || `HTTP ${response.status}: ${response.statusText}`,
-          response.status,
-          errorText,
-          timestamp,
-          data
-        )
+  /**
+   * Send a single request through the interceptor chain and transport, then read the body.
+   * The abort signal and timeout cover both the request and reading the body. With a rate
+   * limit configured, the request first waits for a slot in its category; time spent
+   * waiting does not count towards the timeout. The slot is released once `read` finishes,
+   * unless `read` keeps it (for a streamed body) and releases it itself.
+   * @throws {DkanApiError} For network failures, aborts, timeouts, and non-2xx statuses
+   */
+  private async send<T>(
+    request: DkanRequest,
+    read: ReadResponse<T>,
+    options: DkanRequestOptions = {},
+    category: DkanRequestCategory = request.method === 'GET' ? 'read' : 'mutation'
+  ): Promise<T> {
+    let scope: ReturnType<typeof createAbortScope>
+    let release: (() => void) | undefined
+    let slotKept = false
+    let sent = false
+    let responded = false
+
+    try {
+      for (const interceptor of this.interceptors) {
+        if (interceptor.onRequest) {
+          request = (await interceptor.onRequest(request)) ?? request
+        }
+      }
+
+      if (this.rateLimiter) {
+        release = await this.rateLimiter.acquire(category, options.signal)
+      }
+      scope = createAbortScope(options)
+      if (scope?.signal.aborted) {
+        throw new Error('Request aborted')
       }
 
-      const data = await response.json() as T
+      sent = true
+      let response = await this.transport(request.url, {
+        method: request.method,
+        headers: request.headers,
+        body: request.body,
+        credentials: request.credentials,
+        signal: scope?.signal,
+      })
+      responded = true
+
+      for (const interceptor of this.interceptors) {
+        if (interceptor.onResponse) {
+          response = (await interceptor.onResponse(response, request)) ?? response
+        }
+      }
 
-      return {
-        data,
-        status: response.status,
-        statusText: response.statusText,
+      // 304 is only a valid answer to a conditional request; read() serves the cached payload
+      const notModified = response.status === 304 && isConditional(request)
+      if (!response.ok && !notModified) {
+        throw await this.createError(response)
       }
+
+      return await read(response, () => {
+        slotKept = true
+        return release ?? (() => {})
+      })
     } catch (error) {
-      // Retry logic
-      if (retryCount < this.defaultOptions.retry) {
-        await new Promise((resolve) =>
-          setTimeout(resolve, this.defaultOptions.retryDelay * (retryCount + 1))
+      slotKept = false
+      let apiError: DkanApiError
+      if (error instanceof DkanApiError) {
+        apiError = error
+      } else if (scope?.timedOut()) {
+        apiError = new DkanTimeoutError(
+          `Request timed out after ${options.timeoutMs}ms`,
+          options.timeoutMs
         )
-        return this.request<T>(path, options, retryCount + 1)
+      } else if (options.signal?.aborted) {
+        apiError = new DkanApiError('Request aborted')
+      } else {
+        const message = error instanceof Error ? error.message : 'Unknown error occurred'
+        // Only a transport failure means no response was received
+        apiError = sent && !responded ? new DkanNetworkError(message) : new DkanApiError(message)
       }
 
-      if (error instanceof DkanApiError) {
-        throw error
+      for (const interceptor of this.interceptors) {
+        if (interceptor.onError) {
+          await interceptor.onError(apiError, request)
+        }
       }
 
-      throw new DkanApiError(
-        error instanceof Error ? error.message : 'Unknown error occurred'
-      )
+      throw apiError
+    } finally {
+      scope?.dispose()
+      if (!slotKept) release?.()
+    }
+  }
+
+  /**
+   * Make a JSON request, retrying failures allowed by the retry policy.
+   * `idempotent` marks read-only POSTs (datastore and SQL queries) as safe to retry.
+   * Identical concurrent GETs share one HTTP request unless `dedupeRequests` is disabled.
+   */
+  private request<T>(
+    path: string,
+    options: { method?: string; body?: string; idempotent?: boolean } & DkanRequestOptions = {}
+  ): Promise<DkanApiResponse<T>> {
+    const { method, body, idempotent, ...requestOptions } = options
+    const request = this.createRequest(path, {
+      method,
+      body,
+      headers: { 'Content-Type': 'application/json' },
+    })
+
+    if (!this.dedupeRequests || request.method !== 'GET') {
+      return this.execute<T>(request, idempotent, requestOptions)
+    }
+    return this.share(request.url, requestOptions, (signal) =>
+      this.execute<T>(request, idempotent, { ...requestOptions, signal })
+    )
+  }
+
+  /**
+   * Join an identical request already in flight, or start one. The shared request is
+   * aborted only when every caller that joined it has aborted.
+   */
+  private share<T>(
+    key: string,
+    options: DkanRequestOptions,
+    run: (signal: AbortSignal) => Promise<T>
+  ): Promise<T> {
+    const { signal } = options
+    if (signal?.aborted) {
+      return Promise.reject(new DkanApiError('Request aborted'))
+    }
+
+    let entry = this.inFlight.get(key)
+    if (!entry) {
+      const controller = new AbortController()
+      const created: SharedRequest = { controller, callers: 0, promise: run(controller.signal) }
+      const remove = () => {
+        if (this.inFlight.get(key) === created) this.inFlight.delete(key)
+      }
+      created.promise.then(remove, remove)
+      this.inFlight.set(key, created)
+      entry = created
+    }
+
+    const shared = entry
+    shared.callers++
+    if (!signal) return shared.promise
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        if (--shared.callers === 0) {
+          if (this.inFlight.get(key) === shared) this.inFlight.delete(key)
+          shared.controller.abort()
+        }
+        reject(new DkanApiError('Request aborted'))
+      }
+      signal.addEventListener('abort', onAbort, { once: true })
+      shared.promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort))
+    })
+  }
+
+  /**
+   * Send a JSON request, retrying failures allowed by the retry policy. With session auth,
+   * writes carry the CSRF token; a 403 fetches a fresh token and resends once, outside the
+   * retry budget, since Drupal rotates the token when the session changes.
+   */
+  private async execute<T>(
+    request: DkanRequest,
+    idempotent: boolean | undefined,
+    options: DkanRequestOptions
+  ): Promise<DkanApiResponse<T>> {
+    const { retry, retryPolicy, ...requestOptions } = options
+    const maxRetries = retry ?? this.defaultOptions.retry
+    const policy = { ...this.retryPolicy, ...retryPolicy }
+    const canRetry = idempotent || !policy.idempotentOnly || IDEMPOTENT_METHODS.includes(request.method)
+    const startedAt = Date.now()
+    const cached = this.conditionalRequests && request.method === 'GET'
+      ? this.validators.get(request.url)
+      : undefined
+    if (cached) {
+      request = { ...request, headers: { ...request.headers } }
+      if (cached.etag) request.headers['If-None-Match'] = cached.etag
+      if (cached.lastModified) request.headers['If-Modified-Since'] = cached.lastModified
+    }
+
+    // Read-only POSTs (queries) are not protected by Drupal's CSRF check
+    let csrfToken = this.usesSession() && !idempotent && !SAFE_METHODS.includes(request.method)
+      ? this.getCsrfToken(requestOptions)
+      : undefined
+    let csrfRefreshed = false
+    if (csrfToken) {
+      request = { ...request, headers: { ...request.headers, 'X-CSRF-Token': await csrfToken } }
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.sendWithAuth(
+          request,
+          async (response) => {
+            if (response.status === 304) {
+              if (!cached) {
+                throw new DkanApiError('Received 304 Not Modified without a cached response', 304)
+              }
+              return { ...cached.response, headers: response.headers, notModified: true }
+            }
+            const result: DkanApiResponse<T> = {
+              data: await response.json() as T,
+              status: response.status,
+              statusText: response.statusText,
+              headers: response.headers,
+            }
+            this.rememberValidators(request, result)
+            return result
+          },
+          requestOptions,
+          idempotent && request.method !== 'GET' ? 'query' : undefined
+        )
+      } catch (error) {
+        const apiError = error as DkanApiError
+        if (csrfToken && !csrfRefreshed && apiError.statusCode === 403 && !requestOptions.signal?.aborted) {
+          csrfRefreshed = true
+          // Concurrent writes may have refreshed it already
+          if (this.csrfToken === csrfToken) this.csrfToken = undefined
+          csrfToken = this.getCsrfToken(requestOptions)
+          request = { ...request, headers: { ...request.headers, 'X-CSRF-Token': await csrfToken } }
+          attempt--
+          continue
+        }
+
+        const retryable = apiError.statusCode === undefined
+          || policy.retryableStatusCodes.includes(apiError.statusCode)
+
+        // Never retry once the caller has aborted
+        if (!canRetry || !retryable || attempt >= maxRetries || requestOptions.signal?.aborted) {
+          throw error
+        }
+
+        const delay = this.getRetryDelay(apiError, attempt, policy)
+        if (Date.now() - startedAt + delay > policy.maxElapsedTime) {
+          throw error
+        }
+
+        await sleep(delay, requestOptions.signal)
+      }
+    }
+  }
+
+  /** Keep a GET response's validators and payload so the next request can revalidate it */
+  private rememberValidators(request: DkanRequest, response: DkanApiResponse<any>): void {
+    if (!this.conditionalRequests || request.method !== 'GET') return
+
+    const etag = response.headers?.get('ETag') ?? undefined
+    const lastModified = response.headers?.get('Last-Modified') ?? undefined
+    this.validators.delete(request.url)
+    if (!etag && !lastModified) return
+
+    this.validators.set(request.url, { etag, lastModified, response })
+    if (this.validators.size > MAX_CONDITIONAL_ENTRIES) {
+      // Maps iterate in insertion order, so the first key is the least recently stored
+      this.validators.delete(this.validators.keys().next().value!)
     }
   }
 
+  /**
+   * Metastore schema by id, kept once fetched. Concurrent loads share one request through
+   * GET deduplication, so one caller aborting does not fail the others.
+   */
+  private async loadSchema(schemaId: string, requestOptions?: DkanRequestOptions): Promise<JsonSchema> {
+    const cached = this.schemas.get(schemaId)
+    if (cached) return cached
+
+    const schema = await this.getSchema(schemaId, requestOptions)
+    this.schemas.set(schemaId, schema)
+    return schema
+  }
+
+  /** Check a response against a built-in schema when response validation is on */
+  private checkResponse<T>(endpoint: string, data: T, schema: JsonSchema): T {
+    if (this.responseValidation.mode !== 'off') {
+      this.reportDrift(endpoint, validateJsonSchema(data, schema))
+    }
+    return data
+  }
+
+  /**
+   * Check metastore items against the site's schema when response validation is on.
+   * Arrays are checked item by item, with the index leading each violation's path.
+   */
+  private async checkMetastoreResponse<T>(endpoint: string, schemaId: string, data: T): Promise<T> {
+    if (this.responseValidation.mode === 'off') return data
+
+    let schema: JsonSchema
+    try {
+      schema = await this.loadSchema(schemaId)
+    } catch {
+      // No schema to check against (unknown id, no access); validation is best effort
+      return data
+    }
+
+    const violations = Array.isArray(data)
+      ? data.flatMap((item, i) =>
+          validateJsonSchema(item, schema).map((violation) => ({
+            ...violation,
+            property: violation.property ? `${i}.${violation.property}` : String(i),
+          }))
+        )
+      : validateJsonSchema(data, schema)
+    this.reportDrift(endpoint, violations)
+    return data
+  }
+
+  /** Throw (strict) or warn about schema violations in a response */
+  private reportDrift(endpoint: string, violations: DkanValidationViolation[]): void {
+    if (violations.length === 0) return
+
+    const details = violations.slice(0, MAX_REPORTED_VIOLATIONS).map(formatViolation).join('; ')
+    const more = violations.length > MAX_REPORTED_VIOLATIONS
+      ? ` (and ${violations.length - MAX_REPORTED_VIOLATIONS} more)`
+      : ''
+    const message = `Response from ${endpoint} does not match its schema: ${details}${more}`
+
+    if (this.responseValidation.mode === 'strict') {
+      throw new DkanResponseValidationError(message, endpoint, violations)
+    }
+    if (this.responseValidation.onWarning) {
+      this.responseValidation.onWarning({ endpoint, violations })
+    } else {
+      console.warn(message)
+    }
+  }
+
+  /** Exponential backoff with optional jitter, or the server's Retry-After when present */
+  private getRetryDelay(error: DkanApiError, attempt: number, policy: Required<RetryPolicy>): number {
+    if (policy.respectRetryAfter && error.retryAfter !== undefined) {
+      return Math.min(error.retryAfter, policy.maxDelay)
+    }
+
+    const backoff = Math.min(
+      this.defaultOptions.retryDelay * Math.pow(policy.backoffFactor, attempt),
+      policy.maxDelay
+    )
+    return policy.jitter ? Math.random() * backoff : backoff
+  }
+
+  /**
+   * Start a datastore query download and read its response with `read`, which holds the
+   * download rate limit slot. Uses POST with a JSON body when query options are present,
+   * otherwise the plain GET download endpoint.
+   */
+  private openDownload<T>(
+    queryPath: string,
+    options: QueryDownloadOptions,
+    requestOptions: DkanRequestOptions,
+    read: ReadResponse<T>
+  ): Promise<T> {
+    const format = options.format || 'csv'
+    const queryOptions = { ...options }
+    delete queryOptions.format
+
+    // If we have query options (conditions, sorts, etc.), use POST with body
+    const request = Object.keys(queryOptions).length > 0
+      ? this.createRequest(queryPath, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ format, ...queryOptions }),
+        })
+      : this.createRequest(`${queryPath}/download?format=${format}`)
+
+    return this.sendWithAuth(request, read, requestOptions, 'download')
+  }
+
+  /** Download a datastore query as a Blob, streaming it when progress is requested */
+  private async download(
+    queryPath: string,
+    options: QueryDownloadOptions,
+    requestOptions: DownloadRequestOptions = {}
+  ): Promise<Blob> {
+    return this.openDownload(queryPath, options, requestOptions, async (response) => {
+      if (!requestOptions.onProgress) {
+        return response.blob()
+      }
+      return readBlob(
+        trackProgress(response, requestOptions),
+        response.headers?.get('Content-Type') ?? ''
+      )
+    })
+  }
+
+  /** Download a datastore query as a stream of bytes */
+  private async downloadStream(
+    queryPath: string,
+    options: QueryDownloadOptions,
+    requestOptions: DownloadRequestOptions = {}
+  ): Promise<ReadableStream<Uint8Array>> {
+    // The stream outlives the request, so it keeps the rate limit slot until it closes
+    return this.openDownload(queryPath, options, requestOptions, async (response, keepSlot) =>
+      trackProgress(response, requestOptions, keepSlot())
+    )
+  }
+
   /**
    * Fetch a single dataset by identifier.
    * @param identifier - Dataset identifier
    * @param options.showReferenceIds - Include internal reference IDs (distribution identifiers)
+   * @param requestOptions - Optional abort signal and per-attempt timeout
    * @returns Dataset metadata
    */
   async getDataset(
     identifier: string,
-    options?: { showReferenceIds?: boolean }
+    options?: { showReferenceIds?: boolean },
+    requestOptions?: DkanRequestOptions
   ): Promise<DkanDataset> {
-    const queryParams = options?.showReferenceIds ? '?show-reference-ids' : ''
-    const response = await this.request<DkanDataset>(
-      `/api/1/metastore/schemas/dataset/items/${identifier}${queryParams}`
-    )
-    return response.data
+    const path = `/api/1/metastore/schemas/dataset/items/${identifier}`
+    if (options?.showReferenceIds) {
+      // Referenced items are wrapped in { identifier, data }, which the schema does not describe
+      const response = await this.request<DkanDataset>(`${path}?show-reference-ids`, requestOptions)
+      return response.data
+    }
+
+    const response = await this.request<DkanDataset>(path, requestOptions)
+    return this.checkMetastoreResponse(path, 'dataset', response.data)
+  }
+
+  /**
+   * Fetch many datasets with bounded parallelism. Failures are collected per identifier
+   * instead of rejecting the whole batch; duplicate identifiers are fetched once.
+   * @param identifiers - Dataset identifiers
+   * @param options.concurrency - Maximum requests in flight (default: 5)
+   * @param options.showReferenceIds - Include internal reference IDs (distribution identifiers)
+   * @param requestOptions - Optional abort signal and per-attempt timeout
+   * @returns Fetched datasets in input order, plus the errors for identifiers that failed
+   * @throws {DkanApiError} If the signal is aborted
+   */
+  async getDatasets(
+    identifiers: string[],
+    options: { concurrency?: number; showReferenceIds?: boolean } = {},
+    requestOptions: DkanRequestOptions = {}
+  ): Promise<DatasetBatchResult> {
+    const { concurrency = 5, showReferenceIds } = options
+    const unique = [...new Set(identifiers)]
+    // Indexed by position so both lists keep the order the identifiers were given
+    const datasets: DkanDataset[] = []
+    const errors: DatasetBatchResult['errors'] = []
+    let next = 0
+
+    const worker = async () => {
+      while (next < unique.length && !requestOptions.signal?.aborted) {
+        const i = next++
+        const identifier = unique[i]
+        try {
+          datasets[i] = await this.getDataset(identifier, { showReferenceIds }, requestOptions)
+        } catch (error) {
+          // onError interceptors may throw anything
+          errors[i] = {
+            identifier,
+            error: error instanceof DkanApiError
+              ? error
+              : new DkanApiError(error instanceof Error ? error.message : String(error)),
+          }
+        }
+      }
+    }
+    await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, unique.length)) }, worker))
+
+    if (requestOptions.signal?.aborted) {
+      throw new DkanApiError('Request aborted')
+    }
+
+    return { datasets: datasets.filter(Boolean), errors: errors.filter(Boolean) }
   }
 
   /** Append string or array values to URLSearchParams */
@@ -210,9 +1049,13 @@ export class DkanApiClient {
   /**
    * Search datasets with filters and pagination.
    * @param options - Search options (keyword, theme, fulltext, sort, page, page-size)
+   * @param requestOptions - Optional abort signal and per-attempt timeout
    * @returns Search results with total count, dataset array, and facets
    */
-  async searchDatasets(options: DatasetQueryOptions = {}): Promise<DkanSearchResponse> {
+  async searchDatasets(
+    options: DatasetQueryOptions = {},
+    requestOptions?: DkanRequestOptions
+  ): Promise<DkanSearchResponse> {
     const params = new URLSearchParams()
 
     if (options.keyword) params.append('keyword', options.keyword)
@@ -235,7 +1078,7 @@ export class DkanApiClient {
     const queryString = params.toString()
     const path = `/api/1/search${queryString ? `?${queryString}` : ''}`
 
-    const response = await this.request<any>(path)
+    const response = await this.request<any>(path, requestOptions)
 
     // Transform response: DKAN returns results as object, we need array
     const data = response.data
@@ -246,49 +1089,84 @@ export class DkanApiClient {
       results = Object.values(data.results)
     }
 
-    return {
+    return this.checkResponse(path, {
       total: typeof data.total === 'string' ? parseInt(data.total, 10) : data.total,
       results,
       facets: data.facets,
-    }
+    }, RESPONSE_SCHEMAS.search)
+  }
+
+  /**
+   * Iterate over every dataset matching a search, walking `page`/`page-size`.
+   * Datasets are fetched lazily as the iterable is consumed; call `.pages()` to receive pages instead.
+   * @param options - Search options (keyword, theme, fulltext, sort). page/page-size set the defaults for paging.
+   * @param iterateOptions - Page size, start page, result limit, abort signal and request options
+   * @returns Async iterable of datasets, deduplicated by identifier
+   * @throws {DkanApiError} While iterating, if a page request fails or is aborted
+   */
+  iterateSearch(
+    options: DatasetQueryOptions = {},
+    iterateOptions?: SearchIterateOptions
+  ): SearchIterable {
+    return new SearchIterable(
+      (query, requestOptions) => this.searchDatasets(query, requestOptions),
+      options,
+      iterateOptions
+    )
   }
 
   /**
    * Query datastore for a specific dataset resource.
    * @param datasetId - Dataset identifier
    * @param index - Resource index in dataset.distribution array (default: 0)
-   * @param options - Query options (conditions, limit, offset, sort, keys, joins)
+   * @param options - Query options (conditions, limit, offset, sort, keys, joins) or a datastoreQuery() builder
    * @param method - HTTP method: POST (default) or GET
+   * @param requestOptions - Optional abort signal and per-attempt timeout
    * @returns Query results including schema and result rows
    */
   async queryDatastore(
     datasetId: string,
     index = 0,
-    options: DatastoreQueryOptions = {},
-    method: 'GET' | 'POST' = 'POST'
+    options: DatastoreQueryInput = {},
+    method: 'GET' | 'POST' = 'POST',
+    requestOptions?: DkanRequestOptions
   ): Promise<DkanDatastoreQueryResponse> {
+    const query = toDatastoreQueryOptions(options)
     let response: any
 
     if (method === 'GET') {
-      const queryString = this.serializeQueryOptions(options)
+      const queryString = this.serializeQueryOptions(query)
       const url = queryString
         ? `/api/1/datastore/query/${datasetId}/${index}?${queryString}`
         : `/api/1/datastore/query/${datasetId}/${index}`
 
-      response = await this.request<any>(url)
+      response = await this.request<any>(url, requestOptions)
     } else {
       // Default POST behavior
       response = await this.request<any>(
         `/api/1/datastore/query/${datasetId}/${index}`,
         {
           method: 'POST',
-          body: JSON.stringify(options),
+          body: JSON.stringify(query),
+          idempotent: true,
+          ...requestOptions,
         }
       )
     }
 
-    // Transform nested schema structure to flat array
-    const data = response.data
+    const data = this.checkResponse(
+      `/api/1/datastore/query/${datasetId}/${index}`,
+      response.data,
+      RESPONSE_SCHEMAS.datastoreQuery
+    )
+    return this.transformDatastoreResponse(data)
+  }
+
+  /**
+   * Transform a raw datastore query response, flattening the nested schema
+   * (keyed by resource ID) into a single field list.
+   */
+  private transformDatastoreResponse(data: any): DkanDatastoreQueryResponse {
     let transformedSchema: DatastoreSchema | undefined
 
     if (data.schema && typeof data.schema === 'object') {
@@ -322,23 +1200,27 @@ export class DkanApiClient {
 
   /**
    * Query multiple datastore resources with joins.
-   * @param options - Query options (resources, joins, conditions, limit, offset, sort, keys)
+   * @param options - Query options (resources, joins, conditions, limit, offset, sort, keys) or a datastoreQuery() builder
    * @param method - HTTP method: POST (default) or GET
+   * @param requestOptions - Optional abort signal and per-attempt timeout
    * @returns Query results including schema and result rows
    * @throws {DkanApiError} If resource not found or request fails
    */
   async queryDatastoreMulti(
-    options: DatastoreQueryOptions,
-    method: 'GET' | 'POST' = 'POST'
+    options: DatastoreQueryInput,
+    method: 'GET' | 'POST' = 'POST',
+    requestOptions?: DkanRequestOptions
   ): Promise<DkanDatastoreQueryResponse> {
+    const query = toDatastoreQueryOptions(options)
+
     if (method === 'GET') {
-      const queryString = this.serializeQueryOptions(options)
+      const queryString = this.serializeQueryOptions(query)
       const url = queryString
         ? `/api/1/datastore/query?${queryString}`
         : '/api/1/datastore/query'
 
-      const response = await this.request<DkanDatastoreQueryResponse>(url)
-      return response.data
+      const response = await this.request<DkanDatastoreQueryResponse>(url, requestOptions)
+      return this.checkResponse('/api/1/datastore/query', response.data, RESPONSE_SCHEMAS.datastoreQuery)
     }
 
     // Default POST behavior
@@ -346,25 +1228,81 @@ export class DkanApiClient {
       '/api/1/datastore/query',
       {
         method: 'POST',
-        body: JSON.stringify(options),
+        body: JSON.stringify(query),
+        idempotent: true,
+        ...requestOptions,
       }
     )
-    return response.data
+    return this.checkResponse('/api/1/datastore/query', response.data, RESPONSE_SCHEMAS.datastoreQuery)
+  }
+
+  /**
+   * Iterate over every row of a dataset resource, paging through the datastore query API.
+   * Rows are fetched lazily as the iterable is consumed; call `.pages()` to receive pages instead.
+   * @param datasetId - Dataset identifier
+   * @param index - Resource index in dataset.distribution array (default: 0)
+   * @param options - Query options or a datastoreQuery() builder. limit/offset bound the rows iterated.
+   * @param iterateOptions - Page size, start offset, concurrency, abort signal and request options
+   * @returns Async iterable of result rows
+   * @throws {DkanApiError} While iterating, if a page request fails or is aborted
+   */
+  iterateDatastore(
+    datasetId: string,
+    index = 0,
+    options: DatastoreQueryInput = {},
+    iterateOptions?: DatastoreIterateOptions
+  ): DatastoreIterable {
+    return new DatastoreIterable(
+      (query, requestOptions) => this.queryDatastore(datasetId, index, query, 'POST', requestOptions),
+      toDatastoreQueryOptions(options),
+      iterateOptions
+    )
+  }
+
+  /**
+   * Iterate over every row of a distribution, paging through the datastore query API.
+   * @param distributionId - Distribution identifier
+   * @param options - Query options or a datastoreQuery() builder. limit/offset bound the rows iterated.
+   * @param iterateOptions - Page size, start offset, concurrency, abort signal and request options
+   * @returns Async iterable of result rows
+   * @throws {DkanApiError} While iterating, if a page request fails or is aborted
+   */
+  iterateDatastoreByDistribution(
+    distributionId: string,
+    options: DatastoreQueryInput = {},
+    iterateOptions?: DatastoreIterateOptions
+  ): DatastoreIterable {
+    return new DatastoreIterable(
+      async (query, requestOptions) => {
+        const response = await this.request<any>(`/api/1/datastore/query/${distributionId}`, {
+          method: 'POST',
+          body: JSON.stringify(query),
+          idempotent: true,
+          ...requestOptions,
+        })
+        return this.transformDatastoreResponse(response.data)
+      },
+      toDatastoreQueryOptions(options),
+      iterateOptions
+    )
   }
 
   /**
    * Get datastore schema with data dictionary (if available).
    * @param datasetId - Dataset identifier
    * @param index - Resource index in dataset.distribution array (default: 0)
+   * @param requestOptions - Optional abort signal and per-attempt timeout
    * @returns Query response containing schema information
    * @throws {DkanApiError} If resource not found
    */
   async getDatastoreSchema(
     datasetId: string,
-    index = 0
+    index = 0,
+    requestOptions?: DkanRequestOptions
   ): Promise<DkanDatastoreQueryResponse> {
     const response = await this.request<any>(
-      `/api/1/datastore/query/${datasetId}/${index}?schema=true`
+      `/api/1/datastore/query/${datasetId}/${index}?schema=true`,
+      requestOptions
     )
 
     // Transform nested schema structure to flat array (same as queryDatastore)
@@ -401,20 +1339,20 @@ export class DkanApiClient {
 
   /**
    * Get all data dictionaries (Frictionless Table Schema).
+   * @param requestOptions - Optional abort signal and per-attempt timeout
    * @returns Array of data dictionary objects
    * @throws {DkanApiError} If request fails
    */
-  async listDataDictionaries(): Promise<DataDictionary[]> {
-    const response = await this.request<any>(
-      '/api/1/metastore/schemas/data-dictionary/items'
-    )
+  async listDataDictionaries(requestOptions?: DkanRequestOptions): Promise<DataDictionary[]> {
+    const path = '/api/1/metastore/schemas/data-dictionary/items'
+    const response = await this.request<any>(path, requestOptions)
 
     // The response might be an object with data array or just an array
     if (response.data && Array.isArray(response.data)) {
-      return response.data
+      return this.checkMetastoreResponse(path, 'data-dictionary', response.data)
     } else if (response.data && typeof response.data === 'object') {
       // If it's an object, convert to array
-      return Object.values(response.data)
+      return this.checkMetastoreResponse(path, 'data-dictionary', Object.values(response.data))
     }
 
     return []
@@ -423,55 +1361,47 @@ export class DkanApiClient {
   /**
    * Get a specific data dictionary by identifier.
    * @param identifier - Data dictionary identifier
+   * @param requestOptions - Optional abort signal and per-attempt timeout
    * @returns Data dictionary object with schema and field definitions
    */
-  async getDataDictionary(identifier: string): Promise<DataDictionary> {
-    const response = await this.request<DataDictionary>(
-      `/api/1/metastore/schemas/data-dictionary/items/${identifier}`
-    )
-    return response.data
+  async getDataDictionary(
+    identifier: string,
+    requestOptions?: DkanRequestOptions
+  ): Promise<DataDictionary> {
+    const path = `/api/1/metastore/schemas/data-dictionary/items/${identifier}`
+    const response = await this.request<DataDictionary>(path, requestOptions)
+    return this.checkMetastoreResponse(path, 'data-dictionary', response.data)
   }
 
   /**
    * Get data dictionary from a distribution's describedBy URL.
    * @param url - Full URL to the data dictionary JSON file
+   * @param requestOptions - Optional abort signal and per-attempt timeout
    * @returns Data dictionary object from the remote URL
    */
-  async getDataDictionaryFromUrl(url: string): Promise<DataDictionary> {
-    try {
-      const response = await fetch(url)
-      if (!response.ok) {
-        throw new DkanApiError(
-          `HTTP ${response.status}: ${response.statusText}`,
-          response.status
-        )
-      }
-      return await response.json()
-    } catch (error) {
-      if (error instanceof DkanApiError) {
-        throw error
-      }
-      throw new DkanApiError(
-        error instanceof Error ? error.message : 'Failed to fetch data dictionary'
-      )
-    }
+  async getDataDictionaryFromUrl(
+    url: string,
+    requestOptions?: DkanRequestOptions
+  ): Promise<DataDictionary> {
+    // External URL: goes through interceptors and transport, but without DKAN credentials
+    return this.send({ url, method: 'GET', headers: {} }, (response) => response.json(), requestOptions)
   }
 
   /**
    * Get all datasets from metastore (full metadata objects).
+   * @param requestOptions - Optional abort signal and per-attempt timeout
    * @returns Array of complete dataset metadata objects
    */
-  async listAllDatasets(): Promise<DkanDataset[]> {
-    const response = await this.request<any>(
-      '/api/1/metastore/schemas/dataset/items'
-    )
+  async listAllDatasets(requestOptions?: DkanRequestOptions): Promise<DkanDataset[]> {
+    const path = '/api/1/metastore/schemas/dataset/items'
+    const response = await this.request<any>(path, requestOptions)
 
     // Response might be an object with data array or just an array
     if (response.data && Array.isArray(response.data)) {
-      return response.data
+      return this.checkMetastoreResponse(path, 'dataset', response.data)
     } else if (response.data && typeof response.data === 'object') {
       // If it's an object, convert to array
-      return Object.values(response.data)
+      return this.checkMetastoreResponse(path, 'dataset', Object.values(response.data))
     }
 
     return []
@@ -479,11 +1409,12 @@ export class DkanApiClient {
 
   /**
    * List all available metastore schemas (e.g., 'dataset', 'data-dictionary', 'distribution').
+   * @param requestOptions - Optional abort signal and per-attempt timeout
    * @returns Array of schema type identifiers
    * @throws {DkanApiError} If request fails
    */
-  async listSchemas(): Promise<string[]> {
-    const response = await this.request<any>('/api/1/metastore/schemas')
+  async listSchemas(requestOptions?: DkanRequestOptions): Promise<string[]> {
+    const response = await this.request<any>('/api/1/metastore/schemas', requestOptions)
 
     if (Array.isArray(response.data)) {
       return response.data
@@ -497,11 +1428,13 @@ export class DkanApiClient {
   /**
    * Get a specific schema definition (JSON Schema with validation rules).
    * @param schemaId - Schema identifier (e.g., 'dataset', 'data-dictionary')
+   * @param requestOptions - Optional abort signal and per-attempt timeout
    * @returns JSON Schema definition with properties and validation rules
    */
-  async getSchema(schemaId: string): Promise<JsonSchema> {
+  async getSchema(schemaId: string, requestOptions?: DkanRequestOptions): Promise<JsonSchema> {
     const response = await this.request<JsonSchema>(
-      `/api/1/metastore/schemas/${schemaId}`
+      `/api/1/metastore/schemas/${schemaId}`,
+      requestOptions
     )
     return response.data
   }
@@ -510,36 +1443,40 @@ export class DkanApiClient {
    * Get all items for a specific schema type (e.g., all datasets, all data dictionaries).
    * @param schemaId - Schema identifier (e.g., 'dataset', 'data-dictionary')
    * @param options.showReferenceIds - Include internal reference IDs for nested items
+   * @param requestOptions - Optional abort signal and per-attempt timeout
    * @returns Array of items matching the schema type
    */
   async getSchemaItems(
     schemaId: string,
-    options?: { showReferenceIds?: boolean }
+    options?: { showReferenceIds?: boolean },
+    requestOptions?: DkanRequestOptions
   ): Promise<any[]> {
+    const path = `/api/1/metastore/schemas/${schemaId}/items`
     const queryParams = options?.showReferenceIds ? '?show-reference-ids' : ''
-    const response = await this.request<any>(
-      `/api/1/metastore/schemas/${schemaId}/items${queryParams}`
-    )
+    const response = await this.request<any>(`${path}${queryParams}`, requestOptions)
 
+    let items: any[] = []
     if (response.data && Array.isArray(response.data)) {
-      return response.data
+      items = response.data
     } else if (response.data && typeof response.data === 'object') {
-      return Object.values(response.data)
+      items = Object.values(response.data)
     }
 
-    return []
+    // Referenced items are wrapped in { identifier, data }, which the schema does not describe
+    return options?.showReferenceIds ? items : this.checkMetastoreResponse(path, schemaId, items)
   }
 
   /**
    * Get facet values for datasets (themes, keywords, publishers). Useful for building filter UIs.
+   * @param requestOptions - Optional abort signal and per-attempt timeout
    * @returns Object containing arrays of unique theme, keyword, and publisher values
    */
-  async getDatasetFacets(): Promise<{
+  async getDatasetFacets(requestOptions?: DkanRequestOptions): Promise<{
     theme: string[]
     keyword: string[]
     publisher: string[]
   }> {
-    const response = await this.request<any>('/api/1/search/facets')
+    const response = await this.request<any>('/api/1/search/facets', requestOptions)
 
     // Transform API response to expected format
     const facets = {
@@ -576,87 +1513,123 @@ export class DkanApiClient {
     return { ...this.defaultOptions }
   }
 
+  /** Rate limiter queue and wait-time metrics, or undefined when no `rateLimit` is configured */
+  getRateLimitMetrics(): RateLimitMetrics | undefined {
+    return this.rateLimiter?.getMetrics()
+  }
+
+  /**
+   * GET any DKAN API path and return the full response, including headers and whether it
+   * was revalidated with a 304. Use for caching decisions the typed methods do not expose.
+   * @param path - API path such as `/api/1/metastore/schemas/dataset/items/abc-123`
+   * @param requestOptions - Optional abort signal and per-attempt timeout
+   * @returns Parsed JSON body with status, headers and `notModified`
+   */
+  async getResponse<T = any>(path: string, requestOptions?: DkanRequestOptions): Promise<DkanApiResponse<T>> {
+    return this.request<T>(path, requestOptions)
+  }
+
+  /** Forget stored ETag/Last-Modified validators so the next GETs fetch full responses */
+  clearConditionalCache(): void {
+    this.validators.clear()
+  }
+
   // ==================== HARVEST API ====================
 
   /**
    * List all harvest plan identifiers.
+   * @param requestOptions - Optional abort signal and per-attempt timeout
    * @returns Array of harvest plan identifiers
    * @throws {DkanApiError} If request fails
    */
-  async listHarvestPlans(): Promise<string[]> {
-    const response = await this.request<string[]>('/api/1/harvest/plans')
-    return response.data
+  async listHarvestPlans(requestOptions?: DkanRequestOptions): Promise<string[]> {
+    const response = await this.request<string[]>('/api/1/harvest/plans', requestOptions)
+    return this.checkResponse('/api/1/harvest/plans', response.data, RESPONSE_SCHEMAS.identifiers)
   }
 
   /**
    * Register a new harvest plan. Requires authentication with create permissions.
    * @param plan - Harvest plan configuration with identifier, source, and extract options
+   * @param requestOptions - Optional abort signal and per-attempt timeout
    * @returns Write response containing the plan identifier and endpoint
    * @throws {DkanApiError} If authentication fails, validation fails, or request fails
    */
-  async registerHarvestPlan(plan: HarvestPlan): Promise<MetastoreWriteResponse> {
+  async registerHarvestPlan(
+    plan: HarvestPlan,
+    requestOptions?: DkanRequestOptions
+  ): Promise<MetastoreWriteResponse> {
     const response = await this.request<MetastoreWriteResponse>(
       '/api/1/harvest/plans',
       {
         method: 'POST',
         body: JSON.stringify(plan),
+        ...requestOptions,
       }
     )
-    return response.data
+    return this.checkResponse('/api/1/harvest/plans', response.data, RESPONSE_SCHEMAS.harvestPlanWrite)
   }
 
   /**
    * Get a specific harvest plan.
    * @param planId - Harvest plan identifier
+   * @param requestOptions - Optional abort signal and per-attempt timeout
    * @returns Harvest plan configuration with source and extract settings
    */
-  async getHarvestPlan(planId: string): Promise<HarvestPlan> {
-    const response = await this.request<HarvestPlan>(
-      `/api/1/harvest/plans/${planId}`
-    )
-    return response.data
+  async getHarvestPlan(planId: string, requestOptions?: DkanRequestOptions): Promise<HarvestPlan> {
+    const path = `/api/1/harvest/plans/${planId}`
+    const response = await this.request<HarvestPlan>(path, requestOptions)
+    return this.checkResponse(path, response.data, RESPONSE_SCHEMAS.harvestPlan)
   }
 
   /**
    * List harvest runs for a specific plan.
    * @param planId - Harvest plan identifier
+   * @param requestOptions - Optional abort signal and per-attempt timeout
    * @returns Array of harvest run identifiers
    */
-  async listHarvestRuns(planId: string): Promise<string[]> {
-    const response = await this.request<string[]>(
-      `/api/1/harvest/runs?plan=${planId}`
-    )
-    return response.data
+  async listHarvestRuns(planId: string, requestOptions?: DkanRequestOptions): Promise<string[]> {
+    const path = `/api/1/harvest/runs?plan=${planId}`
+    const response = await this.request<string[]>(path, requestOptions)
+    return this.checkResponse(path, response.data, RESPONSE_SCHEMAS.identifiers)
   }
 
   /**
    * Get information about a specific harvest run (status, counts, errors, timestamps).
    * @param runId - Harvest run identifier
    * @param planId - Harvest plan identifier (required by DKAN API)
+   * @param requestOptions - Optional abort signal and per-attempt timeout
    * @returns Harvest run details with execution status and statistics
    */
-  async getHarvestRun(runId: string, planId: string): Promise<HarvestRun> {
-    const response = await this.request<HarvestRun>(
-      `/api/1/harvest/runs/${runId}?plan=${planId}`
-    )
-    return response.data
+  async getHarvestRun(
+    runId: string,
+    planId: string,
+    requestOptions?: DkanRequestOptions
+  ): Promise<HarvestRun> {
+    const path = `/api/1/harvest/runs/${runId}?plan=${planId}`
+    const response = await this.request<HarvestRun>(path, requestOptions)
+    return this.checkResponse(path, response.data, RESPONSE_SCHEMAS.harvestRun)
   }
 
   /**
    * Execute a harvest run. Requires authentication with harvest run permissions.
    * @param options - Harvest run options with plan_id and optional filters
+   * @param requestOptions - Optional abort signal and per-attempt timeout
    * @returns Harvest run record with initial status
    * @throws {DkanApiError} If authentication fails, plan not found, or request fails
    */
-  async runHarvest(options: HarvestRunOptions): Promise<HarvestRun> {
+  async runHarvest(
+    options: HarvestRunOptions,
+    requestOptions?: DkanRequestOptions
+  ): Promise<HarvestRun> {
     const response = await this.request<HarvestRun>(
       '/api/1/harvest/runs',
       {
         method: 'POST',
         body: JSON.stringify(options),
+        ...requestOptions,
       }
     )
-    return response.data
+    return this.checkResponse('/api/1/harvest/runs', response.data, RESPONSE_SCHEMAS.harvestRun)
   }
 
   // ==================== DATASET CRUD ====================
@@ -664,137 +1637,203 @@ export class DkanApiClient {
   /**
    * Create a new dataset. Requires authentication with create permissions.
    * @param dataset - Complete dataset metadata following DCAT-US schema
+   * @param requestOptions - Optional abort signal and per-attempt timeout
    * @returns Write response containing the dataset identifier and endpoint
    * @throws {DkanApiError} If authentication fails or validation fails
    */
-  async createDataset(dataset: DkanDataset): Promise<MetastoreWriteResponse> {
-    const response = await this.request<MetastoreWriteResponse>(
-      '/api/1/metastore/schemas/dataset/items',
-      {
-        method: 'POST',
-        body: JSON.stringify(dataset),
-      }
-    )
-    return response.data
+  async createDataset(
+    dataset: DkanDataset,
+    requestOptions?: DkanRequestOptions
+  ): Promise<MetastoreWriteResponse> {
+    const path = '/api/1/metastore/schemas/dataset/items'
+    const response = await this.request<MetastoreWriteResponse>(path, {
+      method: 'POST',
+      body: JSON.stringify(dataset),
+      ...requestOptions,
+    })
+    return this.checkResponse(path, response.data, RESPONSE_SCHEMAS.writeResponse)
   }
 
   /**
    * Update existing dataset (full replacement). All properties required. Requires authentication.
    * @param identifier - Dataset identifier
    * @param dataset - Complete replacement dataset metadata
+   * @param requestOptions - Optional abort signal and per-attempt timeout
    * @returns Write response containing the updated identifier
    * @throws {DkanApiError} If dataset not found, authentication fails, or validation fails
    */
   async updateDataset(
     identifier: string,
-    dataset: DkanDataset
+    dataset: DkanDataset,
+    requestOptions?: DkanRequestOptions
   ): Promise<MetastoreWriteResponse> {
-    const response = await this.request<MetastoreWriteResponse>(
-      `/api/1/metastore/schemas/dataset/items/${identifier}`,
-      {
-        method: 'PUT',
-        body: JSON.stringify(dataset),
-      }
-    )
-    return response.data
+    const path = `/api/1/metastore/schemas/dataset/items/${identifier}`
+    const response = await this.request<MetastoreWriteResponse>(path, {
+      method: 'PUT',
+      body: JSON.stringify(dataset),
+      ...requestOptions,
+    })
+    return this.checkResponse(path, response.data, RESPONSE_SCHEMAS.writeResponse)
   }
 
   /**
    * Partially update a dataset. Updates only specified properties. Requires authentication.
    * @param identifier - Dataset identifier
-   * @param partialDataset - Partial dataset with only fields to update
+   * @param partialDataset - Partial dataset with only fields to update, or a merge patch from diffDatasets() (`null` removes a property)
+   * @param requestOptions - Optional abort signal and per-attempt timeout
    * @returns Write response with updated identifier
    * @throws {DkanApiError} If authentication fails or dataset not found
    */
   async patchDataset(
     identifier: string,
-    partialDataset: Partial<DkanDataset>
+    partialDataset: Partial<DkanDataset> | DatasetMergePatch,
+    requestOptions?: DkanRequestOptions
   ): Promise<MetastoreWriteResponse> {
-    const response = await this.request<MetastoreWriteResponse>(
-      `/api/1/metastore/schemas/dataset/items/${identifier}`,
-      {
-        method: 'PATCH',
-        body: JSON.stringify(partialDataset),
-      }
-    )
-    return response.data
+    const path = `/api/1/metastore/schemas/dataset/items/${identifier}`
+    const response = await this.request<MetastoreWriteResponse>(path, {
+      method: 'PATCH',
+      body: JSON.stringify(partialDataset),
+      ...requestOptions,
+    })
+    return this.checkResponse(path, response.data, RESPONSE_SCHEMAS.writeResponse)
+  }
+
+  /**
+   * Validate a dataset locally against the site's `dataset` JSON Schema, reporting the field
+   * errors the metastore would reject it with before a round trip. The schema is fetched once
+   * and cached.
+   * @param dataset - Dataset to check
+   * @param options.partial - Ignore missing required properties and `null` removals, for PATCH bodies
+   * @param requestOptions - Optional abort signal and per-attempt timeout for the schema fetch
+   * @returns Violations with dotted property paths (`contactPoint.hasEmail`); empty when valid
+   * @throws {DkanApiError} If the schema cannot be fetched
+   */
+  async validateDataset(
+    dataset: Partial<DkanDataset> | DatasetMergePatch,
+    options?: { partial?: boolean },
+    requestOptions?: DkanRequestOptions
+  ): Promise<DkanValidationViolation[]> {
+    const schema = await this.loadSchema('dataset', requestOptions)
+    const violations = validateJsonSchema(options?.partial ? withoutNulls(dataset) : dataset, schema)
+    return options?.partial
+      ? violations.filter((violation) => violation.keyword !== 'required')
+      : violations
+  }
+
+  /**
+   * Like validateDataset(), but rejects when the dataset is invalid.
+   * @throws {DkanValidationError} With the violations, shaped like the metastore's own rejection
+   * @throws {DkanApiError} If the schema cannot be fetched
+   */
+  async assertValidDataset(
+    dataset: Partial<DkanDataset> | DatasetMergePatch,
+    options?: { partial?: boolean },
+    requestOptions?: DkanRequestOptions
+  ): Promise<void> {
+    const violations = await this.validateDataset(dataset, options, requestOptions)
+    if (violations.length > 0) {
+      throw new DkanValidationError(
+        `Validation failed: ${violations.map(formatViolation).join('; ')}`,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        violations
+      )
+    }
   }
 
   /**
    * Delete a dataset. Permanently removes dataset and metadata. Requires authentication.
    * @param identifier - Dataset identifier
+   * @param requestOptions - Optional abort signal and per-attempt timeout
    * @returns Confirmation message
    * @throws {DkanApiError} If dataset not found or authentication fails
    */
-  async deleteDataset(identifier: string): Promise<{ message: string }> {
-    const response = await this.request<{ message: string }>(
-      `/api/1/metastore/schemas/dataset/items/${identifier}`,
-      {
-        method: 'DELETE',
-      }
-    )
-    return response.data
+  async deleteDataset(
+    identifier: string,
+    requestOptions?: DkanRequestOptions
+  ): Promise<{ message: string }> {
+    const path = `/api/1/metastore/schemas/dataset/items/${identifier}`
+    const response = await this.request<{ message: string }>(path, {
+      method: 'DELETE',
+      ...requestOptions,
+    })
+    return this.checkResponse(path, response.data, RESPONSE_SCHEMAS.deleteResponse)
   }
 
   // ==================== DATASTORE IMPORTS ====================
 
   /**
    * List all datastore imports (status, timestamps, statistics).
+   * @param requestOptions - Optional abort signal and per-attempt timeout
    * @returns Object mapping distribution identifiers to import records
    * @throws {DkanApiError} If request fails
    */
-  async listDatastoreImports(): Promise<Record<string, DatastoreImport>> {
+  async listDatastoreImports(
+    requestOptions?: DkanRequestOptions
+  ): Promise<Record<string, DatastoreImport>> {
     const response = await this.request<Record<string, DatastoreImport>>(
-      '/api/1/datastore/imports'
+      '/api/1/datastore/imports',
+      requestOptions
     )
-    return response.data
+    return this.checkResponse('/api/1/datastore/imports', response.data, RESPONSE_SCHEMAS.datastoreImports)
   }
 
   /**
    * Trigger a datastore import. Requires authentication with import permissions.
    * @param options - Import options with resource identifier (distribution or dataset ID)
+   * @param requestOptions - Optional abort signal and per-attempt timeout
    * @returns Import record with initial status
    * @throws {DkanApiError} If authentication fails, resource not found, or request fails
    */
   async triggerDatastoreImport(
-    options: DatastoreImportOptions
+    options: DatastoreImportOptions,
+    requestOptions?: DkanRequestOptions
   ): Promise<DatastoreImport> {
     const response = await this.request<DatastoreImport>(
       '/api/1/datastore/imports',
       {
         method: 'POST',
         body: JSON.stringify(options),
+        ...requestOptions,
       }
     )
-    return response.data
+    return this.checkResponse('/api/1/datastore/imports', response.data, RESPONSE_SCHEMAS.datastoreImport)
   }
 
   /**
    * Delete datastore data (does not delete metadata). Requires authentication with delete permissions.
    * @param identifier - Distribution or dataset identifier
+   * @param requestOptions - Optional abort signal and per-attempt timeout
    * @returns Confirmation message
    * @throws {DkanApiError} If resource not found or authentication fails
    */
-  async deleteDatastore(identifier: string): Promise<{ message: string }> {
-    const response = await this.request<{ message: string}>(
-      `/api/1/datastore/imports/${identifier}`,
-      {
-        method: 'DELETE',
-      }
-    )
-    return response.data
+  async deleteDatastore(
+    identifier: string,
+    requestOptions?: DkanRequestOptions
+  ): Promise<{ message: string }> {
+    const path = `/api/1/datastore/imports/${identifier}`
+    const response = await this.request<{ message: string }>(path, {
+      method: 'DELETE',
+      ...requestOptions,
+    })
+    return this.checkResponse(path, response.data, RESPONSE_SCHEMAS.deleteResponse)
   }
 
   /**
    * Get datastore statistics (row/column counts).
    * @param identifier - Distribution or dataset identifier
+   * @param requestOptions - Optional abort signal and per-attempt timeout
    * @returns Statistics including numOfRows, numOfColumns, and columns metadata
    */
-  async getDatastoreStatistics(identifier: string): Promise<DatastoreStatistics> {
-    const response = await this.request<DatastoreStatistics>(
-      `/api/1/datastore/imports/${identifier}`
-    )
-    return response.data
+  async getDatastoreStatistics(
+    identifier: string,
+    requestOptions?: DkanRequestOptions
+  ): Promise<DatastoreStatistics> {
+    const path = `/api/1/datastore/imports/${identifier}`
+    const response = await this.request<DatastoreStatistics>(path, requestOptions)
+    return this.checkResponse(path, response.data, RESPONSE_SCHEMAS.datastoreStatistics)
   }
 
   // ==================== REVISIONS / MODERATION ====================
@@ -803,17 +1842,18 @@ export class DkanApiClient {
    * Get all revisions for an item (workflow state changes and modifications).
    * @param schemaId - Schema identifier (e.g., 'dataset', 'data-dictionary')
    * @param identifier - Item identifier
+   * @param requestOptions - Optional abort signal and per-attempt timeout
    * @returns Array of revision records with timestamps and state information
    * @throws {DkanApiError} If item not found or request fails
    */
   async getRevisions(
     schemaId: string,
-    identifier: string
+    identifier: string,
+    requestOptions?: DkanRequestOptions
   ): Promise<MetastoreRevision[]> {
-    const response = await this.request<MetastoreRevision[]>(
-      `/api/1/metastore/schemas/${schemaId}/items/${identifier}/revisions`
-    )
-    return response.data
+    const path = `/api/1/metastore/schemas/${schemaId}/items/${identifier}/revisions`
+    const response = await this.request<MetastoreRevision[]>(path, requestOptions)
+    return this.checkResponse(path, response.data, RESPONSE_SCHEMAS.revisions)
   }
 
   /**
@@ -821,18 +1861,45 @@ export class DkanApiClient {
    * @param schemaId - Schema identifier (e.g., 'dataset', 'data-dictionary')
    * @param identifier - Item identifier
    * @param revisionId - Revision identifier or number
+   * @param requestOptions - Optional abort signal and per-attempt timeout
    * @returns Revision record with complete item data and metadata
    * @throws {DkanApiError} If item or revision not found
    */
   async getRevision(
     schemaId: string,
     identifier: string,
-    revisionId: string
+    revisionId: string,
+    requestOptions?: DkanRequestOptions
   ): Promise<MetastoreRevision> {
-    const response = await this.request<MetastoreRevision>(
-      `/api/1/metastore/schemas/${schemaId}/items/${identifier}/revisions/${revisionId}`
-    )
-    return response.data
+    const path = `/api/1/metastore/schemas/${schemaId}/items/${identifier}/revisions/${revisionId}`
+    const response = await this.request<MetastoreRevision>(path, requestOptions)
+    return this.checkResponse(path, response.data, RESPONSE_SCHEMAS.revision)
+  }
+
+  /**
+   * Compare the workflow metadata (state, published, message, modified) of two revisions of an
+   * item, fetching both in parallel. DKAN revision records do not include the item content, so
+   * this shows how moderation changed, not what was edited.
+   * @param schemaId - Schema identifier (e.g., 'dataset', 'data-dictionary')
+   * @param identifier - Item identifier
+   * @param fromRevisionId - Earlier revision, the baseline
+   * @param toRevisionId - Later revision
+   * @param requestOptions - Optional abort signal and per-attempt timeout
+   * @returns Both revisions and the workflow changes from the first to the second
+   * @throws {DkanApiError} If the item or either revision is not found
+   */
+  async compareRevisions(
+    schemaId: string,
+    identifier: string,
+    fromRevisionId: string,
+    toRevisionId: string,
+    requestOptions?: DkanRequestOptions
+  ): Promise<RevisionComparison> {
+    const [from, to] = await Promise.all([
+      this.getRevision(schemaId, identifier, fromRevisionId, requestOptions),
+      this.getRevision(schemaId, identifier, toRevisionId, requestOptions),
+    ])
+    return { from, to, changes: diffJson(workflowFields(from), workflowFields(to)) }
   }
 
   /**
@@ -840,22 +1907,23 @@ export class DkanApiClient {
    * @param schemaId - Schema identifier (e.g., 'dataset', 'data-dictionary')
    * @param identifier - Item identifier
    * @param revision - Revision data with new state and optional message
+   * @param requestOptions - Optional abort signal and per-attempt timeout
    * @returns Write response containing the revision identifier
    * @throws {DkanApiError} If authentication fails or item not found
    */
   async createRevision(
     schemaId: string,
     identifier: string,
-    revision: MetastoreNewRevision
+    revision: MetastoreNewRevision,
+    requestOptions?: DkanRequestOptions
   ): Promise<MetastoreWriteResponse> {
-    const response = await this.request<MetastoreWriteResponse>(
-      `/api/1/metastore/schemas/${schemaId}/items/${identifier}/revisions`,
-      {
-        method: 'POST',
-        body: JSON.stringify(revision),
-      }
-    )
-    return response.data
+    const path = `/api/1/metastore/schemas/${schemaId}/items/${identifier}/revisions`
+    const response = await this.request<MetastoreWriteResponse>(path, {
+      method: 'POST',
+      body: JSON.stringify(revision),
+      ...requestOptions,
+    })
+    return this.checkResponse(path, response.data, RESPONSE_SCHEMAS.writeResponse)
   }
 
   /**
@@ -863,15 +1931,17 @@ export class DkanApiClient {
    * @param identifier - Dataset identifier
    * @param state - New workflow state ('draft', 'published', 'archived')
    * @param message - Optional message describing the state change
+   * @param requestOptions - Optional abort signal and per-attempt timeout
    * @returns Write response containing the revision identifier
    * @throws {DkanApiError} If authentication fails or dataset not found
    */
   async changeDatasetState(
     identifier: string,
     state: WorkflowState,
-    message?: string
+    message?: string,
+    requestOptions?: DkanRequestOptions
   ): Promise<MetastoreWriteResponse> {
-    return this.createRevision('dataset', identifier, { state, message })
+    return this.createRevision('dataset', identifier, { state, message }, requestOptions)
   }
 
   // ==================== QUERY DOWNLOAD ====================
@@ -880,154 +1950,116 @@ export class DkanApiClient {
    * Download datastore query results as CSV or JSON.
    * @param datasetId - Dataset identifier
    * @param index - Resource index in dataset.distribution array
-   * @param options - Query and download options (format, conditions, limit, offset, sort)
+   * @param options - Query and download options (format, conditions, limit, offset, sort) or a datastoreQuery() builder
+   * @param requestOptions - Optional abort signal, per-attempt timeout and progress callback
    * @returns Blob containing the file data for download
    * @throws {DkanApiError} If resource not found or request fails
    */
   async downloadQuery(
     datasetId: string,
     index: number,
-    options: QueryDownloadOptions = {}
+    options: QueryDownloadOptions | DatastoreQueryBuilder = {},
+    requestOptions?: DownloadRequestOptions
   ): Promise<Blob> {
-    const format = options.format || 'csv'
-    const queryOptions = { ...options }
-    delete queryOptions.format
-
-    const authHeader = this.getAuthHeader()
-    const headers: Record<string, string> = {}
-
-    if (authHeader) {
-      headers['Authorization'] = authHeader
-    }
-
-    // If we have query options (conditions, sorts, etc.), use POST with body
-    if (Object.keys(queryOptions).length > 0) {
-      const url = `${this.baseUrl}/api/1/datastore/query/${datasetId}/${index}`
-      headers['Content-Type'] = 'application/json'
-
-      const response = await fetch(url, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify({
-          format,
-          ...queryOptions,
-        }),
-      })
-
-      if (!response.ok) {
-        throw new DkanApiError(
-          `HTTP ${response.status}: ${response.statusText}`,
-          response.status
-        )
-      }
-
-      return await response.blob()
-    }
-
-    // No filters - use simple GET to download endpoint
-    const url = `${this.baseUrl}/api/1/datastore/query/${datasetId}/${index}/download?format=${format}`
-    const response = await fetch(url, {
-      method: 'GET',
-      headers,
-    })
-
-    if (!response.ok) {
-      throw new DkanApiError(
-        `HTTP ${response.status}: ${response.statusText}`,
-        response.status
-      )
-    }
-
-    return await response.blob()
+    return this.download(
+      `/api/1/datastore/query/${datasetId}/${index}`,
+      toDatastoreQueryOptions(options),
+      requestOptions
+    )
   }
 
   /**
    * Download datastore query results by distribution ID (instead of dataset ID and index).
    * @param distributionId - Distribution identifier
-   * @param options - Query and download options (format, conditions, limit, offset, sort)
+   * @param options - Query and download options (format, conditions, limit, offset, sort) or a datastoreQuery() builder
+   * @param requestOptions - Optional abort signal, per-attempt timeout and progress callback
    * @returns Blob containing the file data for download
    * @throws {DkanApiError} If distribution not found or request fails
    */
   async downloadQueryByDistribution(
     distributionId: string,
-    options: QueryDownloadOptions = {}
+    options: QueryDownloadOptions | DatastoreQueryBuilder = {},
+    requestOptions?: DownloadRequestOptions
   ): Promise<Blob> {
-    const format = options.format || 'csv'
-    const queryOptions = { ...options }
-    delete queryOptions.format
-
-    const authHeader = this.getAuthHeader()
-    const headers: Record<string, string> = {}
-
-    if (authHeader) {
-      headers['Authorization'] = authHeader
-    }
-
-    // If we have query options (conditions, sorts, etc.), use POST with body
-    if (Object.keys(queryOptions).length > 0) {
-      const url = `${this.baseUrl}/api/1/datastore/query/${distributionId}`
-      headers['Content-Type'] = 'application/json'
-
-      const response = await fetch(url, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify({
-          format,
-          ...queryOptions,
-        }),
-      })
-
-      if (!response.ok) {
-        throw new DkanApiError(
-          `HTTP ${response.status}: ${response.statusText}`,
-          response.status
-        )
-      }
-
-      return await response.blob()
-    }
-
-    // No filters - use simple GET to download endpoint
-    const url = `${this.baseUrl}/api/1/datastore/query/${distributionId}/download?format=${format}`
-    const response = await fetch(url, {
-      method: 'GET',
-      headers,
-    })
+    return this.download(
+      `/api/1/datastore/query/${distributionId}`,
+      toDatastoreQueryOptions(options),
+      requestOptions
+    )
+  }
 
-    if (!response.ok) {
-      throw new DkanApiError(
-        `HTTP ${response.status}: ${response.statusText}`,
-        response.status
-      )
-    }
+  /**
+   * Stream datastore query results as CSV or JSON without buffering the whole file.
+   * Resolves once the response starts; `timeoutMs` covers only the wait for response headers,
+   * while aborting `signal` also cancels the stream mid-download.
+   * @param datasetId - Dataset identifier
+   * @param index - Resource index in dataset.distribution array
+   * @param options - Query and download options (format, conditions, limit, offset, sort) or a datastoreQuery() builder
+   * @param requestOptions - Optional abort signal, timeout and progress callback
+   * @returns Stream of the file bytes
+   * @throws {DkanApiError} If resource not found or request fails
+   */
+  async downloadQueryStream(
+    datasetId: string,
+    index: number,
+    options: QueryDownloadOptions | DatastoreQueryBuilder = {},
+    requestOptions?: DownloadRequestOptions
+  ): Promise<ReadableStream<Uint8Array>> {
+    return this.downloadStream(
+      `/api/1/datastore/query/${datasetId}/${index}`,
+      toDatastoreQueryOptions(options),
+      requestOptions
+    )
+  }
 
-    return await response.blob()
+  /**
+   * Stream datastore query results by distribution ID without buffering the whole file.
+   * @param distributionId - Distribution identifier
+   * @param options - Query and download options (format, conditions, limit, offset, sort) or a datastoreQuery() builder
+   * @param requestOptions - Optional abort signal, timeout and progress callback
+   * @returns Stream of the file bytes
+   * @throws {DkanApiError} If distribution not found or request fails
+   */
+  async downloadQueryByDistributionStream(
+    distributionId: string,
+    options: QueryDownloadOptions | DatastoreQueryBuilder = {},
+    requestOptions?: DownloadRequestOptions
+  ): Promise<ReadableStream<Uint8Array>> {
+    return this.downloadStream(
+      `/api/1/datastore/query/${distributionId}`,
+      toDatastoreQueryOptions(options),
+      requestOptions
+    )
   }
 
   // ==================== SQL QUERY ====================
 
   /**
    * Execute SQL query using DKAN bracket syntax: `[SELECT cols FROM dist-id][WHERE cond][ORDER BY field ASC][LIMIT n];`
-   * @param options - Query options (query, show_db_columns, method: GET or POST)
+   * @param options - Query options (query string or sqlQuery() builder, show_db_columns, method: GET or POST)
+   * @param requestOptions - Optional abort signal and per-attempt timeout
    * @returns Query results
    */
-  async querySql(options: SqlQueryOptions): Promise<SqlQueryResult> {
+  async querySql(
+    options: SqlQueryOptions,
+    requestOptions?: DkanRequestOptions
+  ): Promise<SqlQueryResult> {
     const method = options.method || 'GET'
+    const query = toSqlQueryString(options.query)
 
     if (method === 'GET') {
       // GET method: Use query parameters
-      const params = new URLSearchParams({ query: options.query })
+      const params = new URLSearchParams({ query })
       if (options.show_db_columns) {
         params.append('show_db_columns', 'true')
       }
 
-      const response = await this.request<SqlQueryResult>(
-        `/api/1/datastore/sql?${params.toString()}`,
-        {
-          method: 'GET',
-        }
-      )
-      return response.data
+      const path = `/api/1/datastore/sql?${params.toString()}`
+      const response = await this.request<SqlQueryResult>(path, {
+        method: 'GET',
+        ...requestOptions,
+      })
+      return this.checkResponse(path, response.data, RESPONSE_SCHEMAS.sqlQuery)
     } else {
       // POST method: Use JSON body
       const response = await this.request<SqlQueryResult>(
@@ -1035,12 +2067,14 @@ export class DkanApiClient {
         {
           method: 'POST',
           body: JSON.stringify({
-            query: options.query,
+            query,
             show_db_columns: options.show_db_columns,
           }),
+          idempotent: true,
+          ...requestOptions,
         }
       )
-      return response.data
+      return this.checkResponse('/api/1/datastore/sql', response.data, RESPONSE_SCHEMAS.sqlQuery)
     }
   }
 
@@ -1049,57 +2083,62 @@ export class DkanApiClient {
   /**
    * Create a new data dictionary. Requires authentication with create permissions.
    * @param dictionary - Data dictionary with identifier and Frictionless table schema
+   * @param requestOptions - Optional abort signal and per-attempt timeout
    * @returns Metastore write response with identifier
    * @throws {DkanApiError} If authentication fails or validation fails
    */
   async createDataDictionary(
-    dictionary: DataDictionary
+    dictionary: DataDictionary,
+    requestOptions?: DkanRequestOptions
   ): Promise<MetastoreWriteResponse> {
-    const response = await this.request<MetastoreWriteResponse>(
-      '/api/1/metastore/schemas/data-dictionary/items',
-      {
-        method: 'POST',
-        body: JSON.stringify(dictionary),
-      }
-    )
-    return response.data
+    const path = '/api/1/metastore/schemas/data-dictionary/items'
+    const response = await this.request<MetastoreWriteResponse>(path, {
+      method: 'POST',
+      body: JSON.stringify(dictionary),
+      ...requestOptions,
+    })
+    return this.checkResponse(path, response.data, RESPONSE_SCHEMAS.writeResponse)
   }
 
   /**
    * Update existing data dictionary (full replacement). All fields required. Requires authentication.
    * @param identifier - Data dictionary identifier
    * @param dictionary - Complete replacement data dictionary object
+   * @param requestOptions - Optional abort signal and per-attempt timeout
    * @returns Metastore write response with identifier
    * @throws {DkanApiError} If authentication fails or dictionary not found
    */
   async updateDataDictionary(
     identifier: string,
-    dictionary: DataDictionary
+    dictionary: DataDictionary,
+    requestOptions?: DkanRequestOptions
   ): Promise<MetastoreWriteResponse> {
-    const response = await this.request<MetastoreWriteResponse>(
-      `/api/1/metastore/schemas/data-dictionary/items/${identifier}`,
-      {
-        method: 'PUT',
-        body: JSON.stringify(dictionary),
-      }
-    )
-    return response.data
+    const path = `/api/1/metastore/schemas/data-dictionary/items/${identifier}`
+    const response = await this.request<MetastoreWriteResponse>(path, {
+      method: 'PUT',
+      body: JSON.stringify(dictionary),
+      ...requestOptions,
+    })
+    return this.checkResponse(path, response.data, RESPONSE_SCHEMAS.writeResponse)
   }
 
   /**
    * Delete a data dictionary. Permanently removes schema definition. Requires authentication.
    * @param identifier - Data dictionary identifier
+   * @param requestOptions - Optional abort signal and per-attempt timeout
    * @returns Confirmation message
    * @throws {DkanApiError} If dictionary not found or authentication fails
    */
-  async deleteDataDictionary(identifier: string): Promise<{ message: string }> {
-    const response = await this.request<{ message: string }>(
-      `/api/1/metastore/schemas/data-dictionary/items/${identifier}`,
-      {
-        method: 'DELETE',
-      }
-    )
-    return response.data
+  async deleteDataDictionary(
+    identifier: string,
+    requestOptions?: DkanRequestOptions
+  ): Promise<{ message: string }> {
+    const path = `/api/1/metastore/schemas/data-dictionary/items/${identifier}`
+    const response = await this.request<{ message: string }>(path, {
+      method: 'DELETE',
+      ...requestOptions,
+    })
+    return this.checkResponse(path, response.data, RESPONSE_SCHEMAS.deleteResponse)
   }
 
   // ==================== OPENAPI DOCUMENTATION ====================
@@ -1112,4 +2151,15 @@ export class DkanApiClient {
     return `${this.baseUrl}/api/1`
   }
 
+  /**
+   * Fetch the OpenAPI specification served at getOpenApiDocsUrl().
+   * Pass it to checkOpenApiConformance() to find endpoints that changed in a DKAN upgrade.
+   * @param requestOptions - Optional abort signal and per-attempt timeout
+   * @returns Parsed OpenAPI document
+   */
+  async getOpenApiDocument(requestOptions?: DkanRequestOptions): Promise<OpenApiDocument> {
+    const response = await this.request<OpenApiDocument>('/api/1', requestOptions)
+    return response.data
+  }
+
 }
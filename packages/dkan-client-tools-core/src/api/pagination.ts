@@ -0,0 +1,233 @@
+/**
+ * Async iteration over paged DKAN endpoints.
+ *
+ * Wraps the manual loops needed to read a whole datastore resource or search result set.
+ * Datastore pages are requested with `limit`/`offset`, optionally several at a time; search
+ * pages with `page`/`page-size`. Both yield items in order, or whole pages carrying a
+ * position to resume from later.
+ *
+ * @example
+ * ```typescript
+ * for await (const row of client.iterateDatastore('dataset-id', 0, query)) {
+ *   process(row)
+ * }
+ *
+ * for await (const page of client.iterateDatastore('dataset-id', 0, query, { concurrency: 3 }).pages()) {
+ *   await save(page.results)
+ *   checkpoint(page.nextOffset)
+ * }
+ *
+ * for await (const dataset of client.iterateSearch({ keyword: 'health' })) {
+ *   index(dataset)
+ * }
+ * ```
+ */
+
+import type {
+  DatasetQueryOptions,
+  DkanDataset,
+  DkanSearchResponse,
+  SearchIterateOptions,
+  SearchPage,
+  DatastoreQueryOptions,
+  DatastoreIterateOptions,
+  DatastorePage,
+  DkanDatastoreQueryResponse,
+  DkanRequestOptions,
+} from '../types'
+
+/** DKAN's default `rows_limit`, the largest page the datastore query API returns */
+export const DATASTORE_MAX_PAGE_SIZE = 500
+
+/** Default `page-size` for iterateSearch(), well above DKAN's default of 10 */
+export const SEARCH_DEFAULT_PAGE_SIZE = 100
+
+/** Fetches one page of a datastore query */
+export type DatastorePageFetcher = (
+  query: DatastoreQueryOptions,
+  requestOptions: DkanRequestOptions
+) => Promise<DkanDatastoreQueryResponse>
+
+/**
+ * Rows of a datastore query, fetched page by page as they are consumed.
+ * Iterate directly for rows, or use `pages()` for whole pages. Each iteration starts a new
+ * request sequence; breaking out of a loop cancels any pages still in flight.
+ */
+export class DatastoreIterable implements AsyncIterable<Record<string, any>> {
+  constructor(
+    private readonly fetchPage: DatastorePageFetcher,
+    private readonly query: DatastoreQueryOptions,
+    private readonly options: DatastoreIterateOptions = {}
+  ) {}
+
+  async *[Symbol.asyncIterator](): AsyncGenerator<Record<string, any>> {
+    for await (const page of this.pages()) {
+      yield* page.results
+    }
+  }
+
+  /**
+   * Yield pages in offset order. The first page is requested alone to learn the total
+   * row count; later pages are requested up to `concurrency` at a time. Pages are clamped
+   * to DATASTORE_MAX_PAGE_SIZE, and when the site returns fewer rows than asked for (a lower
+   * `rows_limit`) while `count` says more remain, later pages are requested at that size.
+   * @throws {DkanApiError} If a page request fails or the signal is aborted
+   */
+  async *pages(): AsyncGenerator<DatastorePage> {
+    const {
+      pageSize: requestedPageSize = DATASTORE_MAX_PAGE_SIZE,
+      concurrency = 1,
+      signal,
+      offset,
+      maxRows,
+      ...requestOptions
+    } = this.options
+
+    if (requestedPageSize < 1 || concurrency < 1) {
+      throw new Error('pageSize and concurrency must be at least 1')
+    }
+    let pageSize = Math.min(requestedPageSize, DATASTORE_MAX_PAGE_SIZE)
+
+    const start = offset ?? this.query.offset ?? 0
+    let end = start + (maxRows ?? this.query.limit ?? Infinity)
+
+    // Aborted on early exit so prefetched pages do not keep running
+    const controller = new AbortController()
+    const onAbort = () => controller.abort(signal?.reason)
+    if (signal?.aborted) {
+      controller.abort(signal.reason)
+    } else {
+      signal?.addEventListener('abort', onAbort, { once: true })
+    }
+
+    const fetchAt = (pageOffset: number) => {
+      const limit = Math.min(pageSize, end - pageOffset)
+      const promise = this.fetchPage(
+        { ...this.query, offset: pageOffset, limit, count: pageOffset === start },
+        { ...requestOptions, signal: controller.signal }
+      )
+      // Rejections are rethrown when awaited; this only silences pages abandoned on early exit
+      promise.catch(() => {})
+      return { offset: pageOffset, limit, promise }
+    }
+
+    try {
+      if (start >= end) return
+
+      const first = fetchAt(start)
+      const firstResponse = await first.promise
+      const count = firstResponse.count
+      const countKnown = count > 0
+      if (countKnown) end = Math.min(end, count)
+
+      const toPage = (pageOffset: number, response: DkanDatastoreQueryResponse): DatastorePage => ({
+        results: response.results,
+        offset: pageOffset,
+        nextOffset: pageOffset + response.results.length,
+        count,
+        schema: response.schema ?? firstResponse.schema,
+      })
+
+      let queue: Array<ReturnType<typeof fetchAt>> = []
+      let next = start
+      let pending: ReturnType<typeof fetchAt> | undefined = first
+      let response = firstResponse
+
+      while (true) {
+        const rows = response.results.length
+        if (rows === 0) return
+        yield toPage(pending.offset, response)
+
+        const nextOffset = pending.offset + rows
+        if (nextOffset >= end) return
+        if (rows < pending.limit) {
+          // Without a count, a short page means the resource ended (or rows were deleted)
+          if (!countKnown) return
+          // The site capped the page below what was asked: continue right after the rows it sent
+          pageSize = rows
+          queue = []
+          next = nextOffset
+        } else if (next < nextOffset) {
+          next = nextOffset
+        }
+
+        while (queue.length < concurrency && next < end) {
+          const page = fetchAt(next)
+          queue.push(page)
+          next += page.limit
+        }
+
+        pending = queue.shift()
+        if (!pending) return
+        response = await pending.promise
+      }
+    } finally {
+      signal?.removeEventListener('abort', onAbort)
+      controller.abort()
+    }
+  }
+}
+
+/** Fetches one page of search results */
+export type SearchPageFetcher = (
+  query: DatasetQueryOptions,
+  requestOptions: DkanRequestOptions
+) => Promise<DkanSearchResponse>
+
+/**
+ * Datasets matching a search, fetched page by page as they are consumed.
+ * Datasets are deduplicated by identifier, since results can shift between pages while
+ * the catalog changes. Iterate directly for datasets, or use `pages()` for whole pages.
+ */
+export class SearchIterable implements AsyncIterable<DkanDataset> {
+  constructor(
+    private readonly fetchPage: SearchPageFetcher,
+    private readonly query: DatasetQueryOptions,
+    private readonly options: SearchIterateOptions = {}
+  ) {}
+
+  async *[Symbol.asyncIterator](): AsyncGenerator<DkanDataset> {
+    for await (const page of this.pages()) {
+      yield* page.results
+    }
+  }
+
+  /**
+   * Yield pages in order until DKAN's reported `total` is reached or a page comes back empty.
+   * @throws {DkanApiError} If a page request fails or the signal is aborted
+   */
+  async *pages(): AsyncGenerator<SearchPage> {
+    const {
+      pageSize = this.query['page-size'] ?? SEARCH_DEFAULT_PAGE_SIZE,
+      page: startPage = this.query.page ?? 1,
+      maxResults = Infinity,
+      ...requestOptions
+    } = this.options
+
+    if (pageSize < 1 || startPage < 1) {
+      throw new Error('pageSize and page must be at least 1')
+    }
+
+    const seen = new Set<string>()
+    let yielded = 0
+
+    for (let page = startPage; yielded < maxResults; page++) {
+      const response = await this.fetchPage({ ...this.query, page, 'page-size': pageSize }, requestOptions)
+      if (response.results.length === 0) return
+
+      const results = response.results
+        .filter((dataset) => {
+          if (!dataset.identifier) return true
+          if (seen.has(dataset.identifier)) return false
+          seen.add(dataset.identifier)
+          return true
+        })
+        .slice(0, maxResults - yielded)
+      yielded += results.length
+
+      yield { results, page, nextPage: page + 1, total: response.total, facets: response.facets }
+
+      if (page * pageSize >= response.total) return
+    }
+  }
+}
@@ -0,0 +1,202 @@
+/**
+ * Client-side rate limiting for DkanApiClient.
+ *
+ * Every HTTP attempt acquires a slot from the global limits and from its category's limits
+ * before it is sent, and releases it once the response has been read (for streamed
+ * downloads, once the stream closes, fails or is cancelled). Rates use a token bucket:
+ * `burst` requests may start at once, then tokens refill at `requestsPerSecond`.
+ * Waiting requests start in order, except that a request held back only by its own
+ * category's limits does not block requests in other categories.
+ *
+ * @example
+ * ```typescript
+ * const client = new DkanApiClient({
+ *   baseUrl: 'https://data.example.com',
+ *   rateLimit: {
+ *     requestsPerSecond: 10,
+ *     maxConcurrent: 4,
+ *     categories: { mutation: { requestsPerSecond: 1 }, download: { maxConcurrent: 1 } },
+ *   },
+ * })
+ * ```
+ */
+
+import type { DkanRequestCategory, RateLimit, RateLimitConfig, RateLimitMetrics } from '../types'
+import { DkanApiError } from '../types'
+
+const CATEGORIES: DkanRequestCategory[] = ['read', 'query', 'mutation', 'download']
+
+/** Token bucket and concurrency counter for one set of limits */
+class Bucket {
+  private tokens: number
+  private updatedAt = Date.now()
+  private active = 0
+
+  constructor(private readonly limit: RateLimit) {
+    this.tokens = this.capacity
+  }
+
+  private get capacity(): number {
+    return Math.max(1, this.limit.burst ?? 1)
+  }
+
+  /** Milliseconds until a request may start: 0 if now, Infinity if waiting for a free slot */
+  delay(now: number): number {
+    const { maxConcurrent, requestsPerSecond } = this.limit
+    if (maxConcurrent !== undefined && this.active >= maxConcurrent) return Infinity
+    if (!requestsPerSecond) return 0
+
+    this.refill(now)
+    return this.tokens >= 1 ? 0 : Math.ceil(((1 - this.tokens) * 1000) / requestsPerSecond)
+  }
+
+  take(now: number): void {
+    if (this.limit.requestsPerSecond) {
+      this.refill(now)
+      this.tokens -= 1
+    }
+    this.active++
+  }
+
+  release(): void {
+    this.active--
+  }
+
+  private refill(now: number): void {
+    const rate = this.limit.requestsPerSecond ?? 0
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.updatedAt) * rate) / 1000)
+    this.updatedAt = now
+  }
+}
+
+interface Waiter {
+  category: DkanRequestCategory
+  enqueuedAt: number
+  resolve: (release: () => void) => void
+  dispose: () => void
+}
+
+/**
+ * Queues requests until the global and per-category limits allow them to start.
+ * Created by DkanApiClient when `rateLimit` is configured.
+ */
+export class RateLimiter {
+  private global: Bucket
+  private buckets: Partial<Record<DkanRequestCategory, Bucket>> = {}
+  private queue: Waiter[] = []
+  private active: Record<DkanRequestCategory, number> = { read: 0, query: 0, mutation: 0, download: 0 }
+  private timer?: ReturnType<typeof setTimeout>
+  private stats = { totalQueued: 0, totalWaitMs: 0, maxWaitMs: 0 }
+
+  constructor(config: RateLimitConfig) {
+    const { categories = {}, ...global } = config
+    this.global = new Bucket(global)
+    for (const category of CATEGORIES) {
+      const limit = categories[category]
+      if (limit) this.buckets[category] = new Bucket(limit)
+    }
+  }
+
+  /**
+   * Wait until a request in `category` may start.
+   * @returns Function that releases the request's slot; call it once the request finishes
+   * @throws {DkanApiError} If the signal aborts while waiting
+   */
+  acquire(category: DkanRequestCategory, signal?: AbortSignal): Promise<() => void> {
+    if (signal?.aborted) {
+      return Promise.reject(new DkanApiError('Request aborted'))
+    }
+
+    const queuedAhead = this.queue.some((waiter) => waiter.category === category)
+    if (!queuedAhead && this.delay(category, Date.now()) === 0) {
+      return Promise.resolve(this.start(category))
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = {
+        category,
+        enqueuedAt: Date.now(),
+        resolve,
+        dispose: () => signal?.removeEventListener('abort', onAbort),
+      }
+      const onAbort = () => {
+        this.queue.splice(this.queue.indexOf(waiter), 1)
+        reject(new DkanApiError('Request aborted'))
+        this.pump()
+      }
+      signal?.addEventListener('abort', onAbort, { once: true })
+
+      this.queue.push(waiter)
+      this.stats.totalQueued++
+      this.pump()
+    })
+  }
+
+  /** Current queue length, in-flight requests and wait times */
+  getMetrics(): RateLimitMetrics {
+    const categories = {} as RateLimitMetrics['categories']
+    for (const category of CATEGORIES) {
+      categories[category] = {
+        queued: this.queue.filter((waiter) => waiter.category === category).length,
+        active: this.active[category],
+      }
+    }
+    return {
+      queued: this.queue.length,
+      active: CATEGORIES.reduce((sum, category) => sum + this.active[category], 0),
+      ...this.stats,
+      categories,
+    }
+  }
+
+  private delay(category: DkanRequestCategory, now: number): number {
+    return Math.max(this.global.delay(now), this.buckets[category]?.delay(now) ?? 0)
+  }
+
+  private start(category: DkanRequestCategory): () => void {
+    const now = Date.now()
+    const bucket = this.buckets[category]
+    this.global.take(now)
+    bucket?.take(now)
+    this.active[category]++
+
+    let released = false
+    return () => {
+      if (released) return
+      released = true
+      this.global.release()
+      bucket?.release()
+      this.active[category]--
+      this.pump()
+    }
+  }
+
+  /** Start every waiter whose limits allow it, then wake up when the next token is due */
+  private pump(): void {
+    clearTimeout(this.timer)
+    this.timer = undefined
+
+    const now = Date.now()
+    let wait = Infinity
+    for (let i = 0; i < this.queue.length; ) {
+      const waiter = this.queue[i]
+      const delay = this.delay(waiter.category, now)
+      if (delay > 0) {
+        wait = Math.min(wait, delay)
+        i++
+        continue
+      }
+
+      this.queue.splice(i, 1)
+      waiter.dispose()
+      const waited = now - waiter.enqueuedAt
+      this.stats.totalWaitMs += waited
+      this.stats.maxWaitMs = Math.max(this.stats.maxWaitMs, waited)
+      waiter.resolve(this.start(waiter.category))
+    }
+
+    if (wait !== Infinity) {
+      this.timer = setTimeout(() => this.pump(), wait)
+    }
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * IndexedDB storage backend for persistQueryClient() in browsers.
+ *
+ * IndexedDB has far more room than localStorage and does not block the main thread, which
+ * matters for large search results. The database is opened on first use, so importing this
+ * module in Node.js or during server rendering is safe.
+ */
+
+import type { DkanCacheStorage } from './persistQueryClient'
+
+export interface IndexedDbStorageOptions {
+  /** @default 'dkan-client-tools' */
+  databaseName?: string
+  /** @default 'query-cache' */
+  storeName?: string
+}
+
+function settle<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/**
+ * Create a DkanCacheStorage backed by an IndexedDB object store.
+ * @throws {Error} On first use, if IndexedDB is not available
+ */
+export function createIndexedDbStorage(options: IndexedDbStorageOptions = {}): DkanCacheStorage {
+  const { databaseName = 'dkan-client-tools', storeName = 'query-cache' } = options
+  let database: Promise<IDBDatabase> | undefined
+
+  const open = () => {
+    if (!database) {
+      if (typeof indexedDB === 'undefined') {
+        throw new Error('IndexedDB is not available in this environment')
+      }
+      const request = indexedDB.open(databaseName, 1)
+      request.onupgradeneeded = () => request.result.createObjectStore(storeName)
+      database = settle(request)
+    }
+    return database
+  }
+
+  const store = async (mode: IDBTransactionMode) =>
+    (await open()).transaction(storeName, mode).objectStore(storeName)
+
+  return {
+    async getItem(key) {
+      const value = await settle((await store('readonly')).get(key))
+      return typeof value === 'string' ? value : null
+    },
+    async setItem(key, value) {
+      await settle((await store('readwrite')).put(value, key))
+    },
+    async removeItem(key) {
+      await settle((await store('readwrite')).delete(key))
+    },
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * Persistent cache for DkanClient queries.
+ *
+ * TanStack's QueryClient cache lives in memory, so every page load re-fetches the search
+ * index, facets and schemas. persistQueryClient() saves successful queries whose keys match
+ * the configured prefixes to a storage backend and rehydrates them on start. The stored
+ * cache is discarded when it is older than `maxAge` or was written with a different
+ * `buster`, so bump the buster when a deploy changes the shape of cached data.
+ *
+ * Storage backends: createIndexedDbStorage() for browsers, createFileStorage() from
+ * `@dkan-client-tools/core/node` for Node.js, or `localStorage` directly.
+ *
+ * @example
+ * ```typescript
+ * const { restored, unsubscribe } = persistQueryClient(dkanClient.getQueryClient(), {
+ *   storage: createIndexedDbStorage(),
+ *   maxAge: 60 * 60 * 1000,
+ *   buster: 'v2',
+ * })
+ * await restored
+ * ```
+ */
+
+import { dehydrate, hydrate, partialMatchKey } from '@tanstack/query-core'
+import type { DehydratedState, QueryClient, QueryKey } from '@tanstack/query-core'
+
+/** Key/value store used to persist the cache. Matches the Web Storage API, sync or async. */
+export interface DkanCacheStorage {
+  getItem(key: string): string | null | Promise<string | null>
+  setItem(key: string, value: string): void | Promise<void>
+  removeItem(key: string): void | Promise<void>
+}
+
+export interface PersistQueryClientOptions {
+  storage: DkanCacheStorage
+  /** Query key prefixes to persist. @default DEFAULT_PERSISTED_QUERY_KEYS */
+  queryKeys?: readonly QueryKey[]
+  /** Discard a stored cache older than this many milliseconds. @default 24 hours */
+  maxAge?: number
+  /** Cache version; a stored cache with a different buster is discarded. @default '' */
+  buster?: string
+  /** Storage key the cache is written under. @default 'dkan-client-tools-cache' */
+  key?: string
+  /** Minimum milliseconds between writes. @default 1000 */
+  throttleMs?: number
+}
+
+/** Cache contents as written to storage */
+export interface PersistedQueryCache {
+  buster: string
+  timestamp: number
+  clientState: DehydratedState
+}
+
+/** Search results, facets and metastore schemas: slow-changing data needed on every page */
+export const DEFAULT_PERSISTED_QUERY_KEYS: readonly QueryKey[] = [
+  ['datasets', 'search'],
+  ['datasets', 'facets'],
+  ['metastore'],
+]
+
+const DEFAULT_MAX_AGE = 24 * 60 * 60 * 1000
+
+/**
+ * Restore persisted queries into a QueryClient, then save matching queries as they change.
+ * Storage failures are ignored: the cache is an optimization, never a source of errors.
+ * @returns `restored` resolves once stored queries are hydrated (or found stale or missing);
+ *   `unsubscribe` stops saving
+ */
+export function persistQueryClient(
+  queryClient: QueryClient,
+  options: PersistQueryClientOptions
+): { restored: Promise<void>; unsubscribe: () => void } {
+  const {
+    storage,
+    queryKeys = DEFAULT_PERSISTED_QUERY_KEYS,
+    maxAge = DEFAULT_MAX_AGE,
+    buster = '',
+    key = 'dkan-client-tools-cache',
+    throttleMs = 1000,
+  } = options
+
+  const matches = (queryKey: QueryKey) => queryKeys.some((prefix) => partialMatchKey(queryKey, prefix))
+  let unsubscribed = false
+  let stopListening: (() => void) | undefined
+  let timer: ReturnType<typeof setTimeout> | undefined
+
+  const save = async () => {
+    timer = undefined
+    const cache: PersistedQueryCache = {
+      buster,
+      timestamp: Date.now(),
+      clientState: dehydrate(queryClient, {
+        shouldDehydrateQuery: (query) => query.state.status === 'success' && matches(query.queryKey),
+        shouldDehydrateMutation: () => false,
+      }),
+    }
+    try {
+      await storage.setItem(key, JSON.stringify(cache))
+    } catch {
+      // Quota exceeded or storage unavailable; keep running from memory
+    }
+  }
+
+  const restored = (async () => {
+    try {
+      const stored = await storage.getItem(key)
+      if (stored) {
+        const cache = JSON.parse(stored) as PersistedQueryCache
+        if (cache.buster === buster && Date.now() - cache.timestamp <= maxAge) {
+          hydrate(queryClient, cache.clientState)
+        } else {
+          await storage.removeItem(key)
+        }
+      }
+    } catch {
+      await Promise.resolve(storage.removeItem(key)).catch(() => {})
+    }
+
+    if (unsubscribed) return
+    stopListening = queryClient.getQueryCache().subscribe((event) => {
+      if (timer === undefined && matches(event.query.queryKey)) {
+        timer = setTimeout(save, throttleMs)
+      }
+    })
+  })()
+
+  return {
+    restored,
+    unsubscribe: () => {
+      unsubscribed = true
+      stopListening?.()
+      clearTimeout(timer)
+    },
+  }
+}
@@ -4,7 +4,16 @@
  */
 
 import { QueryClient } from '@tanstack/query-core'
-import type { DkanClientConfig, DatasetKey, DatastoreQueryOptions } from '../types'
+import type {
+  DkanClientConfig,
+  DatasetKey,
+  DkanRequestOptions,
+  DatastoreIterateOptions,
+  DatasetQueryOptions,
+  SearchIterateOptions,
+  DownloadRequestOptions,
+} from '../types'
+import type { DatastoreQueryInput } from '../query/datastoreQuery'
 import { DkanApiClient } from '../api/client'
 
 /**
@@ -28,6 +37,8 @@ export interface DkanClientOptions extends DkanClientConfig {
  *
  * **Important**: All wrapper methods bypass caching and call the API directly. For automatic caching,
  * deduplication, and background refetching, use framework hooks/composables.
+ * Every wrapper accepts trailing `DkanRequestOptions`; pass the `signal` from a TanStack
+ * queryFn context so cancelled queries abort their HTTP requests.
  *
  * Architecture:
  * - DkanApiClient handles HTTP requests and authentication
@@ -102,91 +113,131 @@ export class DkanClient {
   }
 
   /** @inheritdoc DkanApiClient.getDataset */
-  async fetchDataset(identifier: string) {
-    return this.apiClient.getDataset(identifier)
+  async fetchDataset(identifier: string, requestOptions?: DkanRequestOptions) {
+    return this.apiClient.getDataset(identifier, undefined, requestOptions)
+  }
+
+  /** @inheritdoc DkanApiClient.getResponse */
+  async getResponse<T = any>(path: string, requestOptions?: DkanRequestOptions) {
+    return this.apiClient.getResponse<T>(path, requestOptions)
+  }
+
+  /** @inheritdoc DkanApiClient.getDatasets */
+  async getDatasets(
+    identifiers: string[],
+    options?: Parameters<DkanApiClient['getDatasets']>[1],
+    requestOptions?: DkanRequestOptions
+  ) {
+    return this.apiClient.getDatasets(identifiers, options, requestOptions)
   }
 
   /** @inheritdoc DkanApiClient.searchDatasets */
-  async searchDatasets(options: Parameters<DkanApiClient['searchDatasets']>[0]) {
-    return this.apiClient.searchDatasets(options)
+  async searchDatasets(options: Parameters<DkanApiClient['searchDatasets']>[0], requestOptions?: DkanRequestOptions) {
+    return this.apiClient.searchDatasets(options, requestOptions)
+  }
+
+  /** @inheritdoc DkanApiClient.iterateSearch */
+  iterateSearch(options?: DatasetQueryOptions, iterateOptions?: SearchIterateOptions) {
+    return this.apiClient.iterateSearch(options, iterateOptions)
   }
 
   /** @inheritdoc DkanApiClient.queryDatastore */
   async queryDatastore(
     datasetId: string,
     index?: number,
-    options?: Parameters<DkanApiClient['queryDatastore']>[2]
+    options?: Parameters<DkanApiClient['queryDatastore']>[2],
+    requestOptions?: DkanRequestOptions
   ) {
-    return this.apiClient.queryDatastore(datasetId, index, options)
+    return this.apiClient.queryDatastore(datasetId, index, options, undefined, requestOptions)
   }
 
   /** @inheritdoc DkanApiClient.getDatastoreSchema */
-  async getDatastoreSchema(datasetId: string, index?: number) {
-    return this.apiClient.getDatastoreSchema(datasetId, index)
+  async getDatastoreSchema(datasetId: string, index?: number, requestOptions?: DkanRequestOptions) {
+    return this.apiClient.getDatastoreSchema(datasetId, index, requestOptions)
   }
 
   /** @inheritdoc DkanApiClient.listDataDictionaries */
-  async listDataDictionaries() {
-    return this.apiClient.listDataDictionaries()
+  async listDataDictionaries(requestOptions?: DkanRequestOptions) {
+    return this.apiClient.listDataDictionaries(requestOptions)
   }
 
   /** @inheritdoc DkanApiClient.getDataDictionary */
-  async getDataDictionary(identifier: string) {
-    return this.apiClient.getDataDictionary(identifier)
+  async getDataDictionary(identifier: string, requestOptions?: DkanRequestOptions) {
+    return this.apiClient.getDataDictionary(identifier, requestOptions)
   }
 
   /** @inheritdoc DkanApiClient.getDataDictionaryFromUrl */
-  async getDataDictionaryFromUrl(url: string) {
-    return this.apiClient.getDataDictionaryFromUrl(url)
+  async getDataDictionaryFromUrl(url: string, requestOptions?: DkanRequestOptions) {
+    return this.apiClient.getDataDictionaryFromUrl(url, requestOptions)
   }
 
   /** @inheritdoc DkanApiClient.listAllDatasets */
-  async listAllDatasets() {
-    return this.apiClient.listAllDatasets()
+  async listAllDatasets(requestOptions?: DkanRequestOptions) {
+    return this.apiClient.listAllDatasets(requestOptions)
   }
 
   /** @inheritdoc DkanApiClient.listSchemas */
-  async listSchemas() {
-    return this.apiClient.listSchemas()
+  async listSchemas(requestOptions?: DkanRequestOptions) {
+    return this.apiClient.listSchemas(requestOptions)
   }
 
   /** @inheritdoc DkanApiClient.getSchemaItems */
-  async getSchemaItems(schemaId: string) {
-    return this.apiClient.getSchemaItems(schemaId)
+  async getSchemaItems(schemaId: string, requestOptions?: DkanRequestOptions) {
+    return this.apiClient.getSchemaItems(schemaId, undefined, requestOptions)
   }
 
   /** @inheritdoc DkanApiClient.getDatasetFacets */
-  async getDatasetFacets() {
-    return this.apiClient.getDatasetFacets()
+  async getDatasetFacets(requestOptions?: DkanRequestOptions) {
+    return this.apiClient.getDatasetFacets(requestOptions)
   }
 
   /** @inheritdoc DkanApiClient.getSchema */
-  async getSchema(schemaId: string) {
-    return this.apiClient.getSchema(schemaId)
+  async getSchema(schemaId: string, requestOptions?: DkanRequestOptions) {
+    return this.apiClient.getSchema(schemaId, requestOptions)
   }
 
   /** @inheritdoc DkanApiClient.getDatastoreStatistics */
-  async getDatastoreStatistics(identifier: string) {
-    return this.apiClient.getDatastoreStatistics(identifier)
+  async getDatastoreStatistics(identifier: string, requestOptions?: DkanRequestOptions) {
+    return this.apiClient.getDatastoreStatistics(identifier, requestOptions)
   }
 
   /** @inheritdoc DkanApiClient.queryDatastoreMulti */
   async queryDatastoreMulti(
-    options: DatastoreQueryOptions,
-    method: 'GET' | 'POST' = 'POST'
+    options: DatastoreQueryInput,
+    method: 'GET' | 'POST' = 'POST',
+    requestOptions?: DkanRequestOptions
   ) {
-    return this.apiClient.queryDatastoreMulti(options, method)
+    return this.apiClient.queryDatastoreMulti(options, method, requestOptions)
+  }
+
+  /** @inheritdoc DkanApiClient.iterateDatastore */
+  iterateDatastore(
+    datasetId: string,
+    index?: number,
+    options?: DatastoreQueryInput,
+    iterateOptions?: DatastoreIterateOptions
+  ) {
+    return this.apiClient.iterateDatastore(datasetId, index, options, iterateOptions)
+  }
+
+  /** @inheritdoc DkanApiClient.iterateDatastoreByDistribution */
+  iterateDatastoreByDistribution(
+    distributionId: string,
+    options?: DatastoreQueryInput,
+    iterateOptions?: DatastoreIterateOptions
+  ) {
+    return this.apiClient.iterateDatastoreByDistribution(distributionId, options, iterateOptions)
   }
 
   /**
    * Prefetch and cache a query for improved perceived performance.
    * @param queryKey - Unique identifier for the query
-   * @param queryFn - Function returning Promise with data
+   * @param queryFn - Function returning Promise with data. Receives TanStack's AbortSignal to pass on to API methods.
    * @param options - Optional staleTime configuration
    */
   async prefetchQuery<TData = any>(
     queryKey: DatasetKey,
-    queryFn: () => Promise<TData>,
+    queryFn: (context: { signal: AbortSignal }) => Promise<TData>,
     options?: { staleTime?: number }
   ): Promise<void> {
     await this.queryClient.prefetchQuery({
@@ -249,98 +300,120 @@ export class DkanClient {
   // ==================== HARVEST API ====================
 
   /** @inheritdoc DkanApiClient.listHarvestPlans */
-  async listHarvestPlans() {
-    return this.apiClient.listHarvestPlans()
+  async listHarvestPlans(requestOptions?: DkanRequestOptions) {
+    return this.apiClient.listHarvestPlans(requestOptions)
   }
 
   /** @inheritdoc DkanApiClient.registerHarvestPlan */
-  async registerHarvestPlan(plan: Parameters<typeof DkanApiClient.prototype.registerHarvestPlan>[0]) {
-    return this.apiClient.registerHarvestPlan(plan)
+  async registerHarvestPlan(plan: Parameters<typeof DkanApiClient.prototype.registerHarvestPlan>[0], requestOptions?: DkanRequestOptions) {
+    return this.apiClient.registerHarvestPlan(plan, requestOptions)
   }
 
   /** @inheritdoc DkanApiClient.getHarvestPlan */
-  async getHarvestPlan(planId: string) {
-    return this.apiClient.getHarvestPlan(planId)
+  async getHarvestPlan(planId: string, requestOptions?: DkanRequestOptions) {
+    return this.apiClient.getHarvestPlan(planId, requestOptions)
   }
 
   /** @inheritdoc DkanApiClient.listHarvestRuns */
-  async listHarvestRuns(planId: string) {
-    return this.apiClient.listHarvestRuns(planId)
+  async listHarvestRuns(planId: string, requestOptions?: DkanRequestOptions) {
+    return this.apiClient.listHarvestRuns(planId, requestOptions)
   }
 
   /** @inheritdoc DkanApiClient.getHarvestRun */
-  async getHarvestRun(runId: string, planId: string) {
-    return this.apiClient.getHarvestRun(runId, planId)
+  async getHarvestRun(runId: string, planId: string, requestOptions?: DkanRequestOptions) {
+    return this.apiClient.getHarvestRun(runId, planId, requestOptions)
   }
 
   /** @inheritdoc DkanApiClient.runHarvest */
-  async runHarvest(options: Parameters<typeof DkanApiClient.prototype.runHarvest>[0]) {
-    return this.apiClient.runHarvest(options)
+  async runHarvest(options: Parameters<typeof DkanApiClient.prototype.runHarvest>[0], requestOptions?: DkanRequestOptions) {
+    return this.apiClient.runHarvest(options, requestOptions)
   }
 
   // ==================== DATASET CRUD ====================
 
   /** @inheritdoc DkanApiClient.createDataset */
-  async createDataset(dataset: Parameters<typeof DkanApiClient.prototype.createDataset>[0]) {
-    return this.apiClient.createDataset(dataset)
+  async createDataset(dataset: Parameters<typeof DkanApiClient.prototype.createDataset>[0], requestOptions?: DkanRequestOptions) {
+    return this.apiClient.createDataset(dataset, requestOptions)
   }
 
   /** @inheritdoc DkanApiClient.updateDataset */
-  async updateDataset(identifier: string, dataset: Parameters<typeof DkanApiClient.prototype.updateDataset>[1]) {
-    return this.apiClient.updateDataset(identifier, dataset)
+  async updateDataset(identifier: string, dataset: Parameters<typeof DkanApiClient.prototype.updateDataset>[1], requestOptions?: DkanRequestOptions) {
+    return this.apiClient.updateDataset(identifier, dataset, requestOptions)
   }
 
   /** @inheritdoc DkanApiClient.patchDataset */
-  async patchDataset(identifier: string, partialDataset: Parameters<typeof DkanApiClient.prototype.patchDataset>[1]) {
-    return this.apiClient.patchDataset(identifier, partialDataset)
+  async patchDataset(identifier: string, partialDataset: Parameters<typeof DkanApiClient.prototype.patchDataset>[1], requestOptions?: DkanRequestOptions) {
+    return this.apiClient.patchDataset(identifier, partialDataset, requestOptions)
+  }
+
+  /** @inheritdoc DkanApiClient.validateDataset */
+  async validateDataset(dataset: Parameters<typeof DkanApiClient.prototype.validateDataset>[0], options?: { partial?: boolean }, requestOptions?: DkanRequestOptions) {
+    return this.apiClient.validateDataset(dataset, options, requestOptions)
+  }
+
+  /** @inheritdoc DkanApiClient.assertValidDataset */
+  async assertValidDataset(dataset: Parameters<typeof DkanApiClient.prototype.assertValidDataset>[0], options?: { partial?: boolean }, requestOptions?: DkanRequestOptions) {
+    return this.apiClient.assertValidDataset(dataset, options, requestOptions)
   }
 
   /** @inheritdoc DkanApiClient.deleteDataset */
-  async deleteDataset(identifier: string) {
-    return this.apiClient.deleteDataset(identifier)
+  async deleteDataset(identifier: string, requestOptions?: DkanRequestOptions) {
+    return this.apiClient.deleteDataset(identifier, requestOptions)
   }
 
   // ==================== DATASTORE IMPORTS ====================
 
   /** @inheritdoc DkanApiClient.listDatastoreImports */
-  async listDatastoreImports() {
-    return this.apiClient.listDatastoreImports()
+  async listDatastoreImports(requestOptions?: DkanRequestOptions) {
+    return this.apiClient.listDatastoreImports(requestOptions)
   }
 
   /** @inheritdoc DkanApiClient.triggerDatastoreImport */
-  async triggerDatastoreImport(options: Parameters<typeof DkanApiClient.prototype.triggerDatastoreImport>[0]) {
-    return this.apiClient.triggerDatastoreImport(options)
+  async triggerDatastoreImport(options: Parameters<typeof DkanApiClient.prototype.triggerDatastoreImport>[0], requestOptions?: DkanRequestOptions) {
+    return this.apiClient.triggerDatastoreImport(options, requestOptions)
   }
 
   /** @inheritdoc DkanApiClient.deleteDatastore */
-  async deleteDatastore(identifier: string) {
-    return this.apiClient.deleteDatastore(identifier)
+  async deleteDatastore(identifier: string, requestOptions?: DkanRequestOptions) {
+    return this.apiClient.deleteDatastore(identifier, requestOptions)
   }
 
   // ==================== REVISIONS / MODERATION ====================
 
   /** @inheritdoc DkanApiClient.getRevisions */
-  async getRevisions(schemaId: string, identifier: string) {
-    return this.apiClient.getRevisions(schemaId, identifier)
+  async getRevisions(schemaId: string, identifier: string, requestOptions?: DkanRequestOptions) {
+    return this.apiClient.getRevisions(schemaId, identifier, requestOptions)
   }
 
   /** @inheritdoc DkanApiClient.getRevision */
-  async getRevision(schemaId: string, identifier: string, revisionId: string) {
-    return this.apiClient.getRevision(schemaId, identifier, revisionId)
+  async getRevision(schemaId: string, identifier: string, revisionId: string, requestOptions?: DkanRequestOptions) {
+    return this.apiClient.getRevision(schemaId, identifier, revisionId, requestOptions)
+  }
+
+  /** @inheritdoc DkanApiClient.compareRevisions */
+  async compareRevisions(
+    schemaId: string,
+    identifier: string,
+    fromRevisionId: string,
+    toRevisionId: string,
+    requestOptions?: DkanRequestOptions
+  ) {
+    return this.apiClient.compareRevisions(schemaId, identifier, fromRevisionId, toRevisionId, requestOptions)
   }
 
   /** @inheritdoc DkanApiClient.createRevision */
   async createRevision(
     schemaId: string,
     identifier: string,
-    revision: Parameters<typeof DkanApiClient.prototype.createRevision>[2]
+    revision: Parameters<typeof DkanApiClient.prototype.createRevision>[2],
+    requestOptions?: DkanRequestOptions
   ) {
-    return this.apiClient.createRevision(schemaId, identifier, revision)
+    return this.apiClient.createRevision(schemaId, identifier, revision, requestOptions)
   }
 
   /** @inheritdoc DkanApiClient.changeDatasetState */
-  async changeDatasetState(identifier: string, state: Parameters<typeof DkanApiClient.prototype.changeDatasetState>[1], message?: string) {
-    return this.apiClient.changeDatasetState(identifier, state, message)
+  async changeDatasetState(identifier: string, state: Parameters<typeof DkanApiClient.prototype.changeDatasetState>[1], message?: string, requestOptions?: DkanRequestOptions) {
+    return this.apiClient.changeDatasetState(identifier, state, message, requestOptions)
   }
 
   // ==================== QUERY DOWNLOAD ====================
@@ -349,41 +422,62 @@ export class DkanClient {
   async downloadQuery(
     datasetId: string,
     index: number,
-    options?: Parameters<typeof DkanApiClient.prototype.downloadQuery>[2]
+    options?: Parameters<typeof DkanApiClient.prototype.downloadQuery>[2],
+    requestOptions?: DownloadRequestOptions
   ) {
-    return this.apiClient.downloadQuery(datasetId, index, options)
+    return this.apiClient.downloadQuery(datasetId, index, options, requestOptions)
   }
 
   /** @inheritdoc DkanApiClient.downloadQueryByDistribution */
   async downloadQueryByDistribution(
     distributionId: string,
-    options?: Parameters<typeof DkanApiClient.prototype.downloadQueryByDistribution>[1]
+    options?: Parameters<typeof DkanApiClient.prototype.downloadQueryByDistribution>[1],
+    requestOptions?: DownloadRequestOptions
+  ) {
+    return this.apiClient.downloadQueryByDistribution(distributionId, options, requestOptions)
+  }
+
+  /** @inheritdoc DkanApiClient.downloadQueryStream */
+  async downloadQueryStream(
+    datasetId: string,
+    index: number,
+    options?: Parameters<typeof DkanApiClient.prototype.downloadQueryStream>[2],
+    requestOptions?: DownloadRequestOptions
+  ) {
+    return this.apiClient.downloadQueryStream(datasetId, index, options, requestOptions)
+  }
+
+  /** @inheritdoc DkanApiClient.downloadQueryByDistributionStream */
+  async downloadQueryByDistributionStream(
+    distributionId: string,
+    options?: Parameters<typeof DkanApiClient.prototype.downloadQueryByDistributionStream>[1],
+    requestOptions?: DownloadRequestOptions
   ) {
-    return this.apiClient.downloadQueryByDistribution(distributionId, options)
+    return this.apiClient.downloadQueryByDistributionStream(distributionId, options, requestOptions)
   }
 
   // ==================== SQL QUERY ====================
 
   /** @inheritdoc DkanApiClient.querySql */
-  async querySql(options: Parameters<typeof DkanApiClient.prototype.querySql>[0]) {
-    return this.apiClient.querySql(options)
+  async querySql(options: Parameters<typeof DkanApiClient.prototype.querySql>[0], requestOptions?: DkanRequestOptions) {
+    return this.apiClient.querySql(options, requestOptions)
   }
 
   // ==================== DATA DICTIONARY CRUD ====================
 
   /** @inheritdoc DkanApiClient.createDataDictionary */
-  async createDataDictionary(dictionary: Parameters<typeof DkanApiClient.prototype.createDataDictionary>[0]) {
-    return this.apiClient.createDataDictionary(dictionary)
+  async createDataDictionary(dictionary: Parameters<typeof DkanApiClient.prototype.createDataDictionary>[0], requestOptions?: DkanRequestOptions) {
+    return this.apiClient.createDataDictionary(dictionary, requestOptions)
   }
 
   /** @inheritdoc DkanApiClient.updateDataDictionary */
-  async updateDataDictionary(identifier: string, dictionary: Parameters<typeof DkanApiClient.prototype.updateDataDictionary>[1]) {
-    return this.apiClient.updateDataDictionary(identifier, dictionary)
+  async updateDataDictionary(identifier: string, dictionary: Parameters<typeof DkanApiClient.prototype.updateDataDictionary>[1], requestOptions?: DkanRequestOptions) {
+    return this.apiClient.updateDataDictionary(identifier, dictionary, requestOptions)
   }
 
   /** @inheritdoc DkanApiClient.deleteDataDictionary */
-  async deleteDataDictionary(identifier: string) {
-    return this.apiClient.deleteDataDictionary(identifier)
+  async deleteDataDictionary(identifier: string, requestOptions?: DkanRequestOptions) {
+    return this.apiClient.deleteDataDictionary(identifier, requestOptions)
   }
 
   // ==================== OPENAPI DOCUMENTATION ====================
@@ -0,0 +1,262 @@
+/**
+ * FederatedDkanClient - Search several DKAN sites as one catalog
+ */
+
+import type {
+  DkanClientConfig,
+  DkanDataset,
+  DatasetQueryOptions,
+  DkanRequestOptions,
+} from '../types'
+import { DkanApiError } from '../types'
+import { DkanApiClient } from '../api/client'
+
+/** A DKAN site taking part in federated search */
+export interface FederatedSourceConfig extends DkanClientConfig {
+  /** Stable id used to tag results and report failures, e.g. `'orange-county'` */
+  id: string
+  /** Display name; defaults to the id */
+  label?: string
+}
+
+/** Where a federated result came from */
+export interface FederatedSource {
+  id: string
+  label: string
+  baseUrl: string
+}
+
+/** Dataset tagged with the site that returned it */
+export type FederatedDataset = DkanDataset & { source: FederatedSource }
+
+/** Facet value with its dataset count summed across sources */
+export interface FederatedFacetValue {
+  name: string
+  total: number
+}
+
+/** Merged facet values by facet type, most common first */
+export interface FederatedFacets {
+  theme: FederatedFacetValue[]
+  keyword: FederatedFacetValue[]
+  publisher: FederatedFacetValue[]
+}
+
+/** A source that could not be reached; its datasets are missing from the result */
+export interface FederatedSourceError {
+  source: string
+  error: DkanApiError
+}
+
+export interface FederatedSearchResponse {
+  /** Matching datasets across the sources that responded */
+  total: number
+  /** One page of datasets, ranked across sources */
+  results: FederatedDataset[]
+  facets: FederatedFacets
+  /** Matching datasets per source id */
+  totals: Record<string, number>
+  errors: FederatedSourceError[]
+}
+
+export interface FederatedFacetsResponse extends FederatedFacets {
+  errors: FederatedSourceError[]
+}
+
+/** Constant from reciprocal rank fusion; damps the lead of the very top results */
+const RANK_FUSION_K = 60
+
+/** DKAN's default search page size */
+const DEFAULT_PAGE_SIZE = 10
+
+/** Search facet types mapped to FederatedFacets keys */
+const FACET_TYPES: Record<string, keyof FederatedFacets> = {
+  theme: 'theme',
+  keyword: 'keyword',
+  publisher__name: 'publisher',
+}
+
+interface SourceClient {
+  source: FederatedSource
+  client: DkanApiClient
+}
+
+/** Sum `{ type, name, total }` facet entries from several sources */
+function mergeFacets(lists: unknown[]): FederatedFacets {
+  const counts: Record<keyof FederatedFacets, Map<string, number>> = {
+    theme: new Map(),
+    keyword: new Map(),
+    publisher: new Map(),
+  }
+
+  for (const list of lists) {
+    if (!Array.isArray(list)) continue
+    for (const facet of list) {
+      const key = FACET_TYPES[facet?.type]
+      if (!key || !facet.name) continue
+      const total = Number(facet.total) || 0
+      counts[key].set(facet.name, (counts[key].get(facet.name) ?? 0) + total)
+    }
+  }
+
+  const sorted = (values: Map<string, number>) =>
+    [...values]
+      .map(([name, total]) => ({ name, total }))
+      .sort((a, b) => b.total - a.total || a.name.localeCompare(b.name))
+  return { theme: sorted(counts.theme), keyword: sorted(counts.keyword), publisher: sorted(counts.publisher) }
+}
+
+function toArray<T>(value: T | T[] | undefined): T[] {
+  if (value === undefined) return []
+  return Array.isArray(value) ? value : [value]
+}
+
+/** Order datasets by the requested sort fields, as DKAN would within one site */
+function compareBySort(options: DatasetQueryOptions) {
+  const fields = toArray(options.sort)
+  const orders = toArray(options['sort-order'])
+
+  return (a: DkanDataset, b: DkanDataset): number => {
+    for (const [i, field] of fields.entries()) {
+      const left = String((a as unknown as Record<string, unknown>)[field] ?? '')
+      const right = String((b as unknown as Record<string, unknown>)[field] ?? '')
+      const result = left.localeCompare(right)
+      if (result !== 0) return (orders[i] ?? orders[0]) === 'desc' ? -result : result
+    }
+    return 0
+  }
+}
+
+/**
+ * Fans dataset search and facets out to several DKAN sites and merges the answers.
+ *
+ * Results are re-ranked across sites: by the requested `sort` fields when given, otherwise by
+ * reciprocal rank fusion, which interleaves each site's own relevance ranking. Facet counts
+ * are summed per value. Sites that fail are reported in `errors` and the rest still answer;
+ * the request only fails when every site does.
+ *
+ * To rank page N correctly, each site is asked for its first N × page-size results, so deep
+ * pages cost more than they would on a single site.
+ *
+ * @example
+ * ```typescript
+ * const federated = new FederatedDkanClient({
+ *   sources: [
+ *     { id: 'orange', label: 'Orange County', baseUrl: 'https://data.orange.example.gov' },
+ *     { id: 'lake', label: 'Lake County', baseUrl: 'https://data.lake.example.gov' },
+ *   ],
+ * })
+ * const { results, errors } = await federated.searchDatasets({ fulltext: 'parks' })
+ * // results[0].source.label === 'Lake County'
+ * ```
+ */
+export class FederatedDkanClient {
+  private sources: SourceClient[]
+
+  constructor(config: { sources: FederatedSourceConfig[] }) {
+    if (config.sources.length === 0) {
+      throw new Error('FederatedDkanClient requires at least one source')
+    }
+    const ids = new Set(config.sources.map((source) => source.id))
+    if (ids.size !== config.sources.length) {
+      throw new Error('FederatedDkanClient source ids must be unique')
+    }
+
+    this.sources = config.sources.map(({ id, label, ...clientConfig }) => {
+      const client = new DkanApiClient(clientConfig)
+      return { client, source: { id, label: label ?? id, baseUrl: client.getBaseUrl() } }
+    })
+  }
+
+  /** Sources in configuration order */
+  getSources(): FederatedSource[] {
+    return this.sources.map(({ source }) => ({ ...source }))
+  }
+
+  /** Underlying DkanApiClient for one source */
+  getApiClient(sourceId: string): DkanApiClient | undefined {
+    return this.sources.find(({ source }) => source.id === sourceId)?.client
+  }
+
+  /**
+   * Search every source and merge the results into one ranked page.
+   * @param options - Search options, applied to every source; `page` and `page-size` apply to the merged list
+   * @param requestOptions - Optional abort signal and per-attempt timeout, applied to every source
+   * @returns One page of tagged datasets, summed totals and facets, and per-source failures
+   * @throws {DkanApiError} When every source fails (the first source's error)
+   */
+  async searchDatasets(
+    options: DatasetQueryOptions = {},
+    requestOptions?: DkanRequestOptions
+  ): Promise<FederatedSearchResponse> {
+    const page = options.page ?? 1
+    const pageSize = options['page-size'] ?? DEFAULT_PAGE_SIZE
+    const { settled, errors } = await this.fanOut((client) =>
+      client.searchDatasets({ ...options, page: 1, 'page-size': page * pageSize }, requestOptions)
+    )
+
+    const totals: Record<string, number> = {}
+    const ranked: Array<{ dataset: FederatedDataset; score: number; order: number }> = []
+    settled.forEach(({ source, value }, sourceIndex) => {
+      totals[source.id] = value.total
+      value.results.forEach((dataset, rank) => {
+        ranked.push({
+          dataset: { ...dataset, source },
+          score: 1 / (RANK_FUSION_K + rank + 1),
+          // Ties go to the earlier-configured source
+          order: rank * settled.length + sourceIndex,
+        })
+      })
+    })
+
+    const bySort = compareBySort(options)
+    ranked.sort((a, b) => bySort(a.dataset, b.dataset) || b.score - a.score || a.order - b.order)
+
+    return {
+      total: Object.values(totals).reduce((sum, total) => sum + total, 0),
+      results: ranked.slice((page - 1) * pageSize, page * pageSize).map(({ dataset }) => dataset),
+      facets: mergeFacets(settled.map(({ value }) => value.facets)),
+      totals,
+      errors,
+    }
+  }
+
+  /**
+   * Facet values and dataset counts across every source.
+   * @param requestOptions - Optional abort signal and per-attempt timeout, applied to every source
+   * @returns Theme, keyword and publisher values with summed counts, and per-source failures
+   * @throws {DkanApiError} When every source fails (the first source's error)
+   */
+  async getDatasetFacets(requestOptions?: DkanRequestOptions): Promise<FederatedFacetsResponse> {
+    const { settled, errors } = await this.fanOut(async (client) => {
+      // getDatasetFacets() drops the counts, so read the raw response
+      const { data } = await client.getResponse<any>('/api/1/search/facets', requestOptions)
+      return data?.facets ?? data
+    })
+    return { ...mergeFacets(settled.map(({ value }) => value)), errors }
+  }
+
+  /** Run a request against every source, separating answers from failures */
+  private async fanOut<T>(run: (client: DkanApiClient) => Promise<T>) {
+    const outcomes = await Promise.allSettled(this.sources.map(({ client }) => run(client)))
+
+    const settled: Array<{ source: FederatedSource; value: T }> = []
+    const errors: FederatedSourceError[] = []
+    outcomes.forEach((outcome, i) => {
+      const { source } = this.sources[i]
+      if (outcome.status === 'fulfilled') {
+        settled.push({ source, value: outcome.value })
+      } else {
+        const error = outcome.reason instanceof DkanApiError
+          ? outcome.reason
+          : new DkanApiError(outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason))
+        errors.push({ source: source.id, error })
+      }
+    })
+
+    if (settled.length === 0) {
+      throw errors[0].error
+    }
+    return { settled, errors }
+  }
+}
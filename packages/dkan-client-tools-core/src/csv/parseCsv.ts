@@ -0,0 +1,318 @@
+/**
+ * Parser for DKAN CSV downloads.
+ *
+ * Handles quoted fields, escaped quotes, embedded newlines, CRLF line endings and a leading
+ * byte order mark, then maps rows to objects keyed by the header row. When a datastore schema
+ * or data dictionary is supplied, values are coerced to numbers, booleans, dates and JSON
+ * according to each column's type; untyped columns stay strings.
+ *
+ * @example
+ * ```typescript
+ * const [blob, { schema }] = await Promise.all([
+ *   client.downloadQuery('dataset-id', 0, { format: 'csv' }),
+ *   client.getDatastoreSchema('dataset-id', 0),
+ * ])
+ * const rows = await parseCsvBlob(blob, { schema })
+ *
+ * // Large files: parse while downloading
+ * const stream = await client.downloadQueryStream('dataset-id', 0, { format: 'csv' })
+ * for await (const row of parseCsvStream(stream, { schema })) {
+ *   process(row)
+ * }
+ * ```
+ */
+
+import type { DatastoreSchema, DataDictionary, DataDictionaryData } from '../types'
+
+/** Column description used for coercion; matches DatastoreField and DataDictionaryField */
+export interface CsvField {
+  name: string
+  type?: string
+  /** Date pattern such as `%m/%d/%Y`; `default` and `any` use ISO parsing */
+  format?: string
+  title?: string
+  description?: string
+}
+
+export interface ParseCsvOptions {
+  /** Field types used to coerce values, from getDatastoreSchema() or a data dictionary */
+  schema?: DatastoreSchema | DataDictionary | DataDictionaryData | { fields: CsvField[] }
+  /** Column names to use instead of reading them from the first row */
+  headers?: string[]
+  /** Field separator. @default ',' */
+  delimiter?: string
+  /** Values read as null in columns coerced to non-string types. @default [''] */
+  missingValues?: string[]
+}
+
+type Coercer = (value: string) => any
+
+const INTEGER_TYPES = ['integer', 'int', 'serial', 'bigint', 'smallint', 'tinyint', 'year']
+const NUMBER_TYPES = ['number', 'numeric', 'decimal', 'float', 'double', 'real']
+const BOOLEAN_TYPES = ['boolean', 'bool']
+const DATE_TYPES = ['date', 'datetime', 'timestamp']
+const JSON_TYPES = ['object', 'array', 'json']
+const TRUE_VALUES = ['true', '1', 'yes', 'y']
+const FALSE_VALUES = ['false', '0', 'no', 'n']
+// Everything else (string, text, varchar, time, ...) is left as a string
+const COERCED_TYPES = [...INTEGER_TYPES, ...NUMBER_TYPES, ...BOOLEAN_TYPES, ...DATE_TYPES, ...JSON_TYPES]
+
+type DatePart = 'year' | 'shortYear' | 'month' | 'day' | 'hour' | 'minute' | 'second'
+
+// strptime directives supported in data dictionary date formats
+const DATE_DIRECTIVES: Record<string, { pattern: string; part: DatePart }> = {
+  Y: { pattern: '(\\d{4})', part: 'year' },
+  y: { pattern: '(\\d{2})', part: 'shortYear' },
+  m: { pattern: '(\\d{1,2})', part: 'month' },
+  d: { pattern: '(\\d{1,2})', part: 'day' },
+  H: { pattern: '(\\d{1,2})', part: 'hour' },
+  M: { pattern: '(\\d{1,2})', part: 'minute' },
+  S: { pattern: '(\\d{1,2})', part: 'second' },
+}
+
+/** Parse a date using a strptime-style pattern, in UTC. Returns undefined if it does not match. */
+function parseDatePattern(value: string, format: string): Date | undefined {
+  const parts: string[] = []
+  const source = format.replace(/%(.)|([.*+?^${}()|[\]\\])/g, (match, directive, special) => {
+    if (special) return `\\${special}`
+    const known = DATE_DIRECTIVES[directive]
+    if (!known) return match
+    parts.push(known.part)
+    return known.pattern
+  })
+  const match = value.trim().match(new RegExp(`^${source}$`))
+  if (!match) return undefined
+
+  const fields: Record<string, number> = { year: 1970, month: 1, day: 1, hour: 0, minute: 0, second: 0 }
+  parts.forEach((part, i) => {
+    const number = Number(match[i + 1])
+    if (part === 'shortYear') fields.year = number < 70 ? 2000 + number : 1900 + number
+    else fields[part] = number
+  })
+  const { year, month, day, hour, minute, second } = fields
+  return new Date(Date.UTC(year, month - 1, day, hour, minute, second))
+}
+
+/**
+ * Convert one CSV value using a field's type. Values that cannot be converted
+ * are returned unchanged as strings.
+ */
+export function coerceCsvValue(value: string, field: Pick<CsvField, 'type' | 'format'>): any {
+  const type = field.type?.toLowerCase() ?? 'string'
+
+  if (INTEGER_TYPES.includes(type)) {
+    return /^\s*[-+]?\d+\s*$/.test(value) ? parseInt(value, 10) : value
+  }
+  if (NUMBER_TYPES.includes(type)) {
+    const number = Number(value)
+    return value.trim() !== '' && Number.isFinite(number) ? number : value
+  }
+  if (BOOLEAN_TYPES.includes(type)) {
+    const normalized = value.trim().toLowerCase()
+    if (TRUE_VALUES.includes(normalized)) return true
+    if (FALSE_VALUES.includes(normalized)) return false
+    return value
+  }
+  if (DATE_TYPES.includes(type)) {
+    const date = field.format && field.format.includes('%')
+      ? parseDatePattern(value, field.format)
+      : new Date(value.trim())
+    return date && !Number.isNaN(date.getTime()) ? date : value
+  }
+  if (JSON_TYPES.includes(type)) {
+    try {
+      return JSON.parse(value)
+    } catch {
+      return value
+    }
+  }
+  return value
+}
+
+function schemaFields(schema: NonNullable<ParseCsvOptions['schema']>): CsvField[] {
+  return 'data' in schema ? schema.data.fields : schema.fields
+}
+
+/**
+ * Splits CSV text into rows of raw string values. Accepts input in chunks of any size;
+ * a field, quote pair or CRLF split across chunks is completed by the next push().
+ */
+export class CsvTokenizer {
+  private field = ''
+  private row: string[] = []
+  private started = false
+  private atFieldStart = true
+  private inQuotes = false
+  private quotePending = false
+  private pendingCR = false
+
+  constructor(private readonly delimiter = ',') {}
+
+  /** Parse a chunk and return the rows it completed */
+  push(chunk: string): string[][] {
+    const rows: string[][] = []
+    let text = chunk
+
+    if (!this.started && text.length > 0) {
+      this.started = true
+      if (text.charCodeAt(0) === 0xfeff) text = text.slice(1)
+    }
+
+    for (const char of text) {
+      if (this.inQuotes) {
+        if (!this.quotePending) {
+          if (char === '"') this.quotePending = true
+          else this.field += char
+          continue
+        }
+        // A quote inside a quoted field is either escaped ("") or closes the field
+        this.quotePending = false
+        if (char === '"') {
+          this.field += '"'
+          continue
+        }
+        this.inQuotes = false
+      }
+
+      if (this.pendingCR) {
+        this.pendingCR = false
+        if (char === '\n') continue
+      }
+
+      if (char === '"' && this.atFieldStart) {
+        this.inQuotes = true
+        this.atFieldStart = false
+      } else if (char === this.delimiter) {
+        this.row.push(this.field)
+        this.field = ''
+        this.atFieldStart = true
+      } else if (char === '\n' || char === '\r') {
+        this.endRow(rows)
+        this.pendingCR = char === '\r'
+      } else {
+        this.field += char
+        this.atFieldStart = false
+      }
+    }
+
+    return rows
+  }
+
+  /**
+   * Complete the final row once all input has been pushed.
+   * @throws {Error} If the input ended inside a quoted field
+   */
+  flush(): string[][] {
+    if (this.inQuotes && !this.quotePending) {
+      throw new Error('Invalid CSV: unterminated quoted field')
+    }
+    this.inQuotes = false
+    this.quotePending = false
+
+    const rows: string[][] = []
+    if (this.row.length > 0 || !this.atFieldStart || this.field !== '') {
+      this.endRow(rows)
+    }
+    return rows
+  }
+
+  private endRow(rows: string[][]): void {
+    this.row.push(this.field)
+    // Skip blank lines
+    if (this.row.length > 1 || this.row[0] !== '') {
+      rows.push(this.row)
+    }
+    this.row = []
+    this.field = ''
+    this.atFieldStart = true
+  }
+}
+
+/** Maps raw rows to objects, reading the header row and coercing typed columns */
+class CsvRowMapper {
+  private headers?: string[]
+  private coercers: Array<Coercer | undefined> = []
+
+  constructor(private readonly options: ParseCsvOptions) {
+    if (options.headers) this.setHeaders(options.headers)
+  }
+
+  map(rows: string[][]): Record<string, any>[] {
+    const objects: Record<string, any>[] = []
+    for (const row of rows) {
+      if (!this.headers) {
+        this.setHeaders(row.map((header) => header.trim()))
+        continue
+      }
+      const object: Record<string, any> = {}
+      this.headers.forEach((header, i) => {
+        const value = row[i]
+        const coerce = this.coercers[i]
+        object[header] = value === undefined ? null : coerce ? coerce(value) : value
+      })
+      objects.push(object)
+    }
+    return objects
+  }
+
+  private setHeaders(headers: string[]): void {
+    this.headers = headers
+    const fields = this.options.schema ? schemaFields(this.options.schema) : []
+    const missingValues = this.options.missingValues ?? ['']
+
+    this.coercers = headers.map((header) => {
+      // DKAN CSV headers are machine names, or titles/descriptions for human-readable downloads
+      const field = fields.find((f) => f.name === header)
+        ?? fields.find((f) => f.title === header || f.description === header)
+      if (!field?.type || !COERCED_TYPES.includes(field.type.toLowerCase())) return undefined
+      return (value: string) => missingValues.includes(value) ? null : coerceCsvValue(value, field)
+    })
+  }
+}
+
+/**
+ * Parse CSV text into row objects keyed by header.
+ * @throws {Error} If a quoted field is not terminated
+ */
+export function parseCsv(input: string, options: ParseCsvOptions = {}): Record<string, any>[] {
+  const tokenizer = new CsvTokenizer(options.delimiter)
+  const mapper = new CsvRowMapper(options)
+  return [...mapper.map(tokenizer.push(input)), ...mapper.map(tokenizer.flush())]
+}
+
+/**
+ * Parse a downloaded CSV Blob (e.g. from downloadQuery) into row objects.
+ * @throws {Error} If a quoted field is not terminated
+ */
+export async function parseCsvBlob(blob: Blob, options: ParseCsvOptions = {}): Promise<Record<string, any>[]> {
+  return parseCsv(await blob.text(), options)
+}
+
+/**
+ * Parse a CSV byte stream (e.g. from downloadQueryStream) incrementally, yielding rows
+ * as soon as they are complete. Breaking out of the loop cancels the stream.
+ * @throws {Error} If a quoted field is not terminated
+ */
+export async function* parseCsvStream(
+  stream: ReadableStream<Uint8Array>,
+  options: ParseCsvOptions = {}
+): AsyncGenerator<Record<string, any>> {
+  const tokenizer = new CsvTokenizer(options.delimiter)
+  const mapper = new CsvRowMapper(options)
+  const decoder = new TextDecoder()
+  const reader = stream.getReader()
+  let done = false
+
+  try {
+    while (!done) {
+      const result = await reader.read()
+      done = result.done
+      const text = done ? decoder.decode() : decoder.decode(result.value, { stream: true })
+      yield* mapper.map(tokenizer.push(text))
+    }
+    yield* mapper.map(tokenizer.flush())
+  } finally {
+    if (!done) await reader.cancel().catch(() => {})
+    reader.releaseLock()
+  }
+}
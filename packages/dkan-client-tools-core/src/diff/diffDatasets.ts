@@ -0,0 +1,159 @@
+/**
+ * Dataset diffing and JSON Merge Patch generation.
+ *
+ * diffDatasets() compares an original and an edited dataset and returns both a change list
+ * for display and a JSON Merge Patch (RFC 7386) for patchDataset(). Merge patches replace
+ * arrays wholesale, so a change anywhere in `distribution` sends the full edited array. The
+ * change list goes deeper: distributions are matched by `identifier` (by position when they
+ * have none), so inserting or reordering one does not report every later one as changed.
+ *
+ * @example
+ * ```typescript
+ * const original = await client.getDataset(id)
+ * const { changes, patch } = diffDatasets(original, edited)
+ * // changes: [{ type: 'changed', path: 'contactPoint.hasEmail', before: '...', after: '...' }]
+ * if (changes.length > 0) await client.patchDataset(id, patch)
+ * ```
+ */
+
+import type { DatasetMergePatch, DkanDataset } from '../types'
+
+export interface DatasetChange {
+  type: 'added' | 'removed' | 'changed'
+  /**
+   * Dotted path to the value (`contactPoint.hasEmail`, `distribution.1.downloadURL`). Array
+   * indexes are positions in the edited dataset, or in the original for removed items.
+   */
+  path: string
+  /** Original value; absent for additions */
+  before?: unknown
+  /** Edited value; absent for removals */
+  after?: unknown
+}
+
+export interface DatasetDiff {
+  /** Leaf-level changes, in property order */
+  changes: DatasetChange[]
+  /** Merge patch turning the original into the edited dataset; empty when they are equal */
+  patch: DatasetMergePatch
+}
+
+type JsonObject = Record<string, unknown>
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function join(path: string, key: string | number): string {
+  return path ? `${path}.${key}` : String(key)
+}
+
+/** Deep equality for JSON values; object key order is ignored */
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => isEqual(item, b[i]))
+  }
+  if (isObject(a) && isObject(b)) {
+    const keys = Object.keys(a).filter((key) => a[key] !== undefined)
+    return (
+      keys.length === Object.keys(b).filter((key) => b[key] !== undefined).length &&
+      keys.every((key) => isEqual(a[key], b[key]))
+    )
+  }
+  return false
+}
+
+function keyOf(item: unknown): string | undefined {
+  return isObject(item) && typeof item.identifier === 'string' ? item.identifier : undefined
+}
+
+function diffValue(before: unknown, after: unknown, path: string, changes: DatasetChange[]): void {
+  if (isEqual(before, after)) return
+  if (before === undefined) {
+    changes.push({ type: 'added', path, after })
+  } else if (after === undefined) {
+    changes.push({ type: 'removed', path, before })
+  } else if (isObject(before) && isObject(after)) {
+    const keys = new Set([...Object.keys(before), ...Object.keys(after)])
+    for (const key of keys) diffValue(before[key], after[key], join(path, key), changes)
+  } else if (Array.isArray(before) && Array.isArray(after) && [...before, ...after].some(isObject)) {
+    diffArrayItems(before, after, path, changes)
+  } else {
+    // Scalars and lists of scalars (keyword, theme) are reported as a whole
+    changes.push({ type: 'changed', path, before, after })
+  }
+}
+
+/** Diff arrays of objects, pairing items by identifier, then unkeyed items by position */
+function diffArrayItems(before: unknown[], after: unknown[], path: string, changes: DatasetChange[]): void {
+  const keyed = new Map<string, number>()
+  const unkeyed: number[] = []
+  before.forEach((item, i) => {
+    const key = keyOf(item)
+    if (key !== undefined && !keyed.has(key)) keyed.set(key, i)
+    else unkeyed.push(i)
+  })
+
+  const paired = new Set<number>()
+  after.forEach((item, j) => {
+    const key = keyOf(item)
+    let i = key !== undefined ? keyed.get(key) : undefined
+    if (i === undefined || paired.has(i)) {
+      i = key === undefined ? unkeyed.shift() : undefined
+    }
+    if (i === undefined) {
+      changes.push({ type: 'added', path: join(path, j), after: item })
+    } else {
+      paired.add(i)
+      diffValue(before[i], item, join(path, j), changes)
+    }
+  })
+
+  before.forEach((item, i) => {
+    if (!paired.has(i)) changes.push({ type: 'removed', path: join(path, i), before: item })
+  })
+}
+
+function createMergePatch(before: JsonObject, after: JsonObject): JsonObject {
+  const patch: JsonObject = {}
+  for (const key of Object.keys(before)) {
+    if (before[key] !== undefined && after[key] === undefined) patch[key] = null
+  }
+  for (const [key, value] of Object.entries(after)) {
+    if (value === undefined || isEqual(before[key], value)) continue
+    const original = before[key]
+    patch[key] = isObject(original) && isObject(value) ? createMergePatch(original, value) : value
+  }
+  return patch
+}
+
+/**
+ * Leaf-level changes between two JSON values, with the same rules as diffDatasets(): objects
+ * are compared member by member, arrays of objects item by item (matched by `identifier`),
+ * anything else as a whole.
+ * @returns Changes with dotted paths; empty when the values are equal
+ */
+export function diffJson(before: unknown, after: unknown): DatasetChange[] {
+  const changes: DatasetChange[] = []
+  diffValue(before, after, '', changes)
+  return changes
+}
+
+/**
+ * Compare two versions of a dataset.
+ * Values that are `null` in the edited dataset cannot be expressed in a merge patch (null
+ * means delete) and end up removing the property.
+ * @param original - Dataset as currently stored
+ * @param edited - Dataset with the user's edits
+ * @returns Change list and a merge patch suitable for patchDataset()
+ */
+export function diffDatasets(
+  original: Partial<DkanDataset>,
+  edited: Partial<DkanDataset>
+): DatasetDiff {
+  return {
+    changes: diffJson(original, edited),
+    patch: createMergePatch(original, edited) as DatasetMergePatch,
+  }
+}
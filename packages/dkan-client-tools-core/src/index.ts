@@ -6,7 +6,7 @@
  *
  * **Features**:
  * - Framework-agnostic - works with any JavaScript framework
- * - Full DKAN REST API support (43 methods across 10 categories)
+ * - Full DKAN REST API support (53 methods across 10 categories)
  * - Type-safe with complete DCAT-US schema types
  * - Built on TanStack Query for proven caching patterns
  * - Lightweight - only depends on @tanstack/query-core
@@ -47,9 +47,96 @@
 // Main client
 export { DkanClient } from './client/dkanClient'
 export type { DkanClientOptions } from './client/dkanClient'
+export { FederatedDkanClient } from './client/federatedDkanClient'
+export type {
+  FederatedSourceConfig,
+  FederatedSource,
+  FederatedDataset,
+  FederatedFacetValue,
+  FederatedFacets,
+  FederatedFacetsResponse,
+  FederatedSearchResponse,
+  FederatedSourceError,
+} from './client/federatedDkanClient'
 
 // API client
 export { DkanApiClient } from './api/client'
+export {
+  DatastoreIterable,
+  SearchIterable,
+  DATASTORE_MAX_PAGE_SIZE,
+  SEARCH_DEFAULT_PAGE_SIZE,
+} from './api/pagination'
+export type { DatastorePageFetcher, SearchPageFetcher } from './api/pagination'
+
+// Persistent query cache
+export { persistQueryClient, DEFAULT_PERSISTED_QUERY_KEYS } from './cache/persistQueryClient'
+export type {
+  DkanCacheStorage,
+  PersistQueryClientOptions,
+  PersistedQueryCache,
+} from './cache/persistQueryClient'
+export { createIndexedDbStorage } from './cache/indexedDbStorage'
+export type { IndexedDbStorageOptions } from './cache/indexedDbStorage'
+
+// Validation
+export { validateJsonSchema } from './validation/jsonSchema'
+export { RESPONSE_SCHEMAS } from './validation/responseSchemas'
+
+// Dataset diffing
+export { diffDatasets, diffJson } from './diff/diffDatasets'
+export type { DatasetChange, DatasetDiff } from './diff/diffDatasets'
+
+// OpenAPI conformance
+export { checkOpenApiConformance, CLIENT_OPERATIONS } from './openapi/conformance'
+export type {
+  ClientOperation,
+  ConformanceIssue,
+  ConformanceOptions,
+  ConformanceReport,
+  OpenApiDocument,
+  UnsupportedOperation,
+} from './openapi/conformance'
+
+// Query builders
+export {
+  datastoreQuery,
+  toDatastoreQueryOptions,
+  DatastoreQueryBuilder,
+  DatastoreConditionGroupBuilder,
+} from './query/datastoreQuery'
+export type {
+  DatastoreQueryInput,
+  DatastorePropertyRef,
+  DatastoreScalar,
+  DatastoreScalarOperator,
+  DatastoreAggregate,
+  DatastoreResponseOptions,
+} from './query/datastoreQuery'
+export {
+  sqlQuery,
+  parseSqlQuery,
+  formatSqlQuery,
+  toSqlQueryString,
+  SqlQueryBuilder,
+} from './query/sqlQuery'
+export type {
+  SqlQueryInput,
+  SqlQueryParts,
+  SqlCondition,
+  SqlSort,
+  SqlOperator,
+} from './query/sqlQuery'
+
+// CSV parsing
+export {
+  parseCsv,
+  parseCsvBlob,
+  parseCsvStream,
+  coerceCsvValue,
+  CsvTokenizer,
+} from './csv/parseCsv'
+export type { ParseCsvOptions, CsvField } from './csv/parseCsv'
 
 // Re-export TanStack Query core
 export { QueryClient } from '@tanstack/query-core'
@@ -62,23 +149,48 @@ export type {
 // Types
 export type {
   DkanDataset,
+  DatasetMergePatch,
   Publisher,
   ContactPoint,
   Distribution,
   DistributionData,
   DkanApiResponse,
   DkanSearchResponse,
+  DatasetBatchResult,
+  SearchIterateOptions,
+  SearchPage,
   DkanDatastoreQueryResponse,
   DatastoreSchema,
   DatastoreField,
   DatasetQueryOptions,
   DatastoreQueryOptions,
   DatastoreCondition,
+  DatastoreConditionGroup,
+  DatastoreOperator,
+  DatastoreProperty,
+  DatastoreResourceProperty,
+  DatastoreExpressionProperty,
   DatastoreSort,
+  DatastoreIterateOptions,
+  DatastorePage,
   DatastoreJoin,
+  DatastoreJoinCondition,
   DatastoreExpression,
   DkanClientConfig,
+  DkanTransport,
+  DkanRequest,
+  DkanInterceptor,
+  DkanRequestOptions,
+  RetryPolicy,
+  DkanRequestCategory,
+  RateLimit,
+  RateLimitConfig,
+  RateLimitMetrics,
+  DkanValidationViolation,
+  ResponseValidationOptions,
+  ResponseValidationWarning,
   DkanAuth,
+  DkanTokenProvider,
   DkanDefaultOptions,
   DatasetKey,
   DataDictionary,
@@ -101,13 +213,24 @@ export type {
   MetastoreWriteResponse,
   MetastoreRevision,
   MetastoreNewRevision,
+  RevisionComparison,
   WorkflowState,
   QueryDownloadOptions,
+  DownloadProgress,
+  DownloadRequestOptions,
   SqlQueryOptions,
   SqlQueryResult,
 } from './types'
 
-export { DkanApiError } from './types'
+export {
+  DkanApiError,
+  DkanNotFoundError,
+  DkanAuthError,
+  DkanValidationError,
+  DkanResponseValidationError,
+  DkanNetworkError,
+  DkanTimeoutError,
+} from './types'
 
 // Table configuration types
 export type {
@@ -0,0 +1,79 @@
+/**
+ * Node.js-only helpers for @dkan-client-tools/core.
+ *
+ * Imported from `@dkan-client-tools/core/node` so browser bundles never pull in `fs`.
+ *
+ * @example
+ * ```typescript
+ * import { DkanApiClient, persistQueryClient } from '@dkan-client-tools/core'
+ * import { writeStreamToFile, createFileStorage } from '@dkan-client-tools/core/node'
+ *
+ * const stream = await client.downloadQueryStream('dataset-id', 0, { format: 'csv' }, {
+ *   onProgress: ({ loaded, total }) => console.log(loaded, total),
+ * })
+ * await writeStreamToFile(stream, './data.csv')
+ *
+ * // Keep the query cache between script runs
+ * persistQueryClient(dkanClient.getQueryClient(), { storage: createFileStorage('./.dkan-cache') })
+ * ```
+ */
+
+import { createWriteStream } from 'node:fs'
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { Readable } from 'node:stream'
+import { pipeline } from 'node:stream/promises'
+import type { ReadableStream as NodeReadableStream } from 'node:stream/web'
+import type { DkanCacheStorage } from './cache/persistQueryClient'
+import type { OpenApiDocument } from './openapi/conformance'
+
+/**
+ * Pipe a web ReadableStream (e.g. from downloadQueryStream) to a file, with backpressure.
+ * Resolves when the file is fully written.
+ * @param stream - Stream of bytes to write
+ * @param path - Destination file path, created or truncated
+ * @throws {DkanApiError} If the download stream fails or is aborted
+ */
+export async function writeStreamToFile(
+  stream: ReadableStream<Uint8Array>,
+  path: string
+): Promise<void> {
+  await pipeline(
+    Readable.fromWeb(stream as NodeReadableStream<Uint8Array>),
+    createWriteStream(path)
+  )
+}
+
+/**
+ * Create a DkanCacheStorage for persistQueryClient() that stores each key as a JSON file.
+ * @param directory - Cache directory, created on first write
+ */
+export function createFileStorage(directory: string): DkanCacheStorage {
+  const pathFor = (key: string) => join(directory, `${encodeURIComponent(key)}.json`)
+
+  return {
+    async getItem(key) {
+      try {
+        return await readFile(pathFor(key), 'utf8')
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+        throw error
+      }
+    },
+    async setItem(key, value) {
+      await mkdir(directory, { recursive: true })
+      await writeFile(pathFor(key), value, 'utf8')
+    },
+    async removeItem(key) {
+      await rm(pathFor(key), { force: true })
+    },
+  }
+}
+
+/**
+ * Read an OpenAPI document saved as JSON, for checkOpenApiConformance() without a live site.
+ * @param path - Path to the JSON file
+ */
+export async function readOpenApiDocument(path: string): Promise<OpenApiDocument> {
+  return JSON.parse(await readFile(path, 'utf8')) as OpenApiDocument
+}
@@ -0,0 +1,402 @@
+/**
+ * OpenAPI conformance checking.
+ *
+ * CLIENT_OPERATIONS lists the HTTP operation behind every DkanApiClient method: its method,
+ * path template and the query parameters it may send. checkOpenApiConformance() matches each
+ * one against the OpenAPI document a DKAN site publishes at getOpenApiDocsUrl() and reports
+ * endpoints the client calls that the site no longer serves, query parameters that were
+ * renamed, dropped or made required, and operations the client has no method for. Run it
+ * after a DKAN upgrade (or `npm run check:openapi`) to find breakage before users do.
+ *
+ * Path parameters are matched by position, so `{identifier}` and `{datasetId}` are the same
+ * segment. `$ref`s to `#/components/parameters` are resolved; other parameter locations
+ * (headers, cookies) are ignored.
+ *
+ * @example
+ * ```typescript
+ * const document = await client.getOpenApiDocument()
+ * const report = checkOpenApiConformance(document)
+ * for (const issue of report.issues) console.warn(issue.message)
+ * ```
+ */
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE'
+
+export interface ClientOperation {
+  /** DkanApiClient method that sends the request */
+  clientMethod: string
+  method: HttpMethod
+  /** Path template, e.g. `/api/1/metastore/schemas/dataset/items/{identifier}` */
+  path: string
+  /** Query parameters the method may send */
+  query?: string[]
+  /** Whether the method sends a JSON body */
+  body?: boolean
+}
+
+/** Minimal shape of an OpenAPI 3 document; only the parts the checker reads */
+export interface OpenApiDocument {
+  openapi?: string
+  info?: { title?: string; version?: string }
+  servers?: Array<{ url: string }>
+  paths?: Record<string, OpenApiPathItem | undefined>
+  components?: { parameters?: Record<string, OpenApiParameter | OpenApiReference> }
+}
+
+export interface OpenApiPathItem {
+  parameters?: Array<OpenApiParameter | OpenApiReference>
+  get?: OpenApiOperation
+  post?: OpenApiOperation
+  put?: OpenApiOperation
+  patch?: OpenApiOperation
+  delete?: OpenApiOperation
+}
+
+export interface OpenApiOperation {
+  operationId?: string
+  summary?: string
+  parameters?: Array<OpenApiParameter | OpenApiReference>
+  requestBody?: unknown
+}
+
+export interface OpenApiParameter {
+  name: string
+  in: 'query' | 'path' | 'header' | 'cookie'
+  required?: boolean
+}
+
+export interface OpenApiReference {
+  $ref: string
+}
+
+export interface ConformanceIssue {
+  /**
+   * - `missing-endpoint`: no path in the document matches the client's path
+   * - `missing-method`: the path exists but not with the client's HTTP method
+   * - `unknown-parameter`: the client sends a query parameter the operation does not declare
+   * - `required-parameter`: the operation requires a query parameter the client never sends
+   * - `missing-request-body`: the client sends a body the operation does not accept
+   */
+  type:
+    | 'missing-endpoint'
+    | 'missing-method'
+    | 'unknown-parameter'
+    | 'required-parameter'
+    | 'missing-request-body'
+  clientMethod: string
+  method: HttpMethod
+  /** The client's path template */
+  path: string
+  /** Query parameter, for parameter issues */
+  parameter?: string
+  message: string
+}
+
+export interface UnsupportedOperation {
+  method: HttpMethod
+  /** Path as written in the document, including any server base path */
+  path: string
+  operationId?: string
+  summary?: string
+}
+
+export interface ConformanceReport {
+  /** True when no client operation has issues; unsupported operations do not count */
+  ok: boolean
+  /** Client operations checked */
+  checked: number
+  issues: ConformanceIssue[]
+  /** Operations in the document that no client method calls */
+  unsupported: UnsupportedOperation[]
+}
+
+export interface ConformanceOptions {
+  /** Operations to check; defaults to CLIENT_OPERATIONS */
+  operations?: ClientOperation[]
+}
+
+const DATASET_ITEMS = '/api/1/metastore/schemas/dataset/items'
+const DICTIONARY_ITEMS = '/api/1/metastore/schemas/data-dictionary/items'
+const REVISIONS = '/api/1/metastore/schemas/{schemaId}/items/{identifier}/revisions'
+const DATASTORE_QUERY = '/api/1/datastore/query'
+
+/** Query parameters sent by GET datastore queries, one per DatastoreQueryOptions key */
+const DATASTORE_QUERY_PARAMS = [
+  'conditions', 'properties', 'sorts', 'limit', 'offset', 'joins', 'expression', 'resources',
+  'groupings', 'count', 'results', 'schema', 'keys', 'format', 'rowIds',
+]
+
+/**
+ * The HTTP operations behind DkanApiClient. Methods that only wrap another (getDatasets,
+ * iterateDatastore, downloadQueryStream, ...) are covered by the one they call.
+ */
+export const CLIENT_OPERATIONS: ClientOperation[] = [
+  // Datasets
+  { clientMethod: 'getDataset', method: 'GET', path: `${DATASET_ITEMS}/{identifier}`, query: ['show-reference-ids'] },
+  { clientMethod: 'listAllDatasets', method: 'GET', path: DATASET_ITEMS },
+  { clientMethod: 'createDataset', method: 'POST', path: DATASET_ITEMS, body: true },
+  { clientMethod: 'updateDataset', method: 'PUT', path: `${DATASET_ITEMS}/{identifier}`, body: true },
+  { clientMethod: 'patchDataset', method: 'PATCH', path: `${DATASET_ITEMS}/{identifier}`, body: true },
+  { clientMethod: 'deleteDataset', method: 'DELETE', path: `${DATASET_ITEMS}/{identifier}` },
+
+  // Search
+  {
+    clientMethod: 'searchDatasets',
+    method: 'GET',
+    path: '/api/1/search',
+    query: ['keyword', 'theme', 'publisher__name', 'fulltext', 'sort', 'sort-order', 'page', 'page-size'],
+  },
+  { clientMethod: 'getDatasetFacets', method: 'GET', path: '/api/1/search/facets' },
+
+  // Datastore queries
+  {
+    clientMethod: 'queryDatastore',
+    method: 'GET',
+    path: `${DATASTORE_QUERY}/{datasetId}/{index}`,
+    query: DATASTORE_QUERY_PARAMS,
+  },
+  { clientMethod: 'queryDatastore', method: 'POST', path: `${DATASTORE_QUERY}/{datasetId}/{index}`, body: true },
+  { clientMethod: 'queryDatastoreMulti', method: 'GET', path: DATASTORE_QUERY, query: DATASTORE_QUERY_PARAMS },
+  { clientMethod: 'queryDatastoreMulti', method: 'POST', path: DATASTORE_QUERY, body: true },
+  {
+    clientMethod: 'iterateDatastoreByDistribution',
+    method: 'POST',
+    path: `${DATASTORE_QUERY}/{distributionId}`,
+    body: true,
+  },
+  {
+    clientMethod: 'getDatastoreSchema',
+    method: 'GET',
+    path: `${DATASTORE_QUERY}/{datasetId}/{index}`,
+    query: ['schema'],
+  },
+  {
+    clientMethod: 'downloadQuery',
+    method: 'GET',
+    path: `${DATASTORE_QUERY}/{datasetId}/{index}/download`,
+    query: ['format'],
+  },
+  // Downloads with query options are POSTed to the query endpoint with a `format`
+  { clientMethod: 'downloadQuery', method: 'POST', path: `${DATASTORE_QUERY}/{datasetId}/{index}`, body: true },
+  {
+    clientMethod: 'downloadQueryByDistribution',
+    method: 'GET',
+    path: `${DATASTORE_QUERY}/{distributionId}/download`,
+    query: ['format'],
+  },
+  {
+    clientMethod: 'downloadQueryByDistribution',
+    method: 'POST',
+    path: `${DATASTORE_QUERY}/{distributionId}`,
+    body: true,
+  },
+  { clientMethod: 'querySql', method: 'GET', path: '/api/1/datastore/sql', query: ['query', 'show_db_columns'] },
+  { clientMethod: 'querySql', method: 'POST', path: '/api/1/datastore/sql', body: true },
+
+  // Data dictionaries
+  { clientMethod: 'listDataDictionaries', method: 'GET', path: DICTIONARY_ITEMS },
+  { clientMethod: 'getDataDictionary', method: 'GET', path: `${DICTIONARY_ITEMS}/{identifier}` },
+  { clientMethod: 'createDataDictionary', method: 'POST', path: DICTIONARY_ITEMS, body: true },
+  { clientMethod: 'updateDataDictionary', method: 'PUT', path: `${DICTIONARY_ITEMS}/{identifier}`, body: true },
+  { clientMethod: 'deleteDataDictionary', method: 'DELETE', path: `${DICTIONARY_ITEMS}/{identifier}` },
+
+  // Metastore schemas
+  { clientMethod: 'listSchemas', method: 'GET', path: '/api/1/metastore/schemas' },
+  { clientMethod: 'getSchema', method: 'GET', path: '/api/1/metastore/schemas/{schemaId}' },
+  {
+    clientMethod: 'getSchemaItems',
+    method: 'GET',
+    path: '/api/1/metastore/schemas/{schemaId}/items',
+    query: ['show-reference-ids'],
+  },
+
+  // Harvest
+  { clientMethod: 'listHarvestPlans', method: 'GET', path: '/api/1/harvest/plans' },
+  { clientMethod: 'registerHarvestPlan', method: 'POST', path: '/api/1/harvest/plans', body: true },
+  { clientMethod: 'getHarvestPlan', method: 'GET', path: '/api/1/harvest/plans/{planId}' },
+  { clientMethod: 'listHarvestRuns', method: 'GET', path: '/api/1/harvest/runs', query: ['plan'] },
+  { clientMethod: 'getHarvestRun', method: 'GET', path: '/api/1/harvest/runs/{runId}', query: ['plan'] },
+  { clientMethod: 'runHarvest', method: 'POST', path: '/api/1/harvest/runs', body: true },
+
+  // Datastore imports
+  { clientMethod: 'listDatastoreImports', method: 'GET', path: '/api/1/datastore/imports' },
+  { clientMethod: 'triggerDatastoreImport', method: 'POST', path: '/api/1/datastore/imports', body: true },
+  { clientMethod: 'getDatastoreStatistics', method: 'GET', path: '/api/1/datastore/imports/{identifier}' },
+  { clientMethod: 'deleteDatastore', method: 'DELETE', path: '/api/1/datastore/imports/{identifier}' },
+
+  // Revisions
+  { clientMethod: 'getRevisions', method: 'GET', path: REVISIONS },
+  { clientMethod: 'getRevision', method: 'GET', path: `${REVISIONS}/{revisionId}` },
+  { clientMethod: 'createRevision', method: 'POST', path: REVISIONS, body: true },
+
+  // OpenAPI
+  { clientMethod: 'getOpenApiDocument', method: 'GET', path: '/api/1' },
+]
+
+const HTTP_METHODS: HttpMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE']
+
+interface SpecOperation {
+  method: HttpMethod
+  path: string
+  segments: string[]
+  operation: OpenApiOperation
+  parameters: OpenApiParameter[]
+}
+
+function isPlaceholder(segment: string): boolean {
+  return segment.startsWith('{') && segment.endsWith('}')
+}
+
+function splitPath(path: string): string[] {
+  return path.split('/').filter(Boolean)
+}
+
+/** Path of the first server URL (`https://site/api/1` → `/api/1`), prefixed to every document path */
+function serverBasePath(document: OpenApiDocument): string {
+  const url = document.servers?.[0]?.url
+  if (!url) return ''
+  const path = /^[a-z]+:\/\//i.test(url) ? new URL(url).pathname : url
+  return path.replace(/\/+$/, '')
+}
+
+function resolveParameter(
+  document: OpenApiDocument,
+  parameter: OpenApiParameter | OpenApiReference
+): OpenApiParameter | undefined {
+  if (!('$ref' in parameter)) return parameter
+  const match = /^#\/components\/parameters\/(.+)$/.exec(parameter.$ref)
+  const resolved = match ? document.components?.parameters?.[decodeURIComponent(match[1])] : undefined
+  return resolved && !('$ref' in resolved) ? resolved : undefined
+}
+
+/** Flatten the document into operations, merging path-level and operation-level parameters */
+function collectOperations(document: OpenApiDocument): SpecOperation[] {
+  const base = serverBasePath(document)
+  const operations: SpecOperation[] = []
+
+  for (const [rawPath, item] of Object.entries(document.paths ?? {})) {
+    if (!item) continue
+    const path = rawPath.startsWith(base + '/') ? rawPath : base + rawPath
+
+    for (const method of HTTP_METHODS) {
+      const operation = item[method.toLowerCase() as Lowercase<HttpMethod>]
+      if (!operation) continue
+
+      // Operation-level parameters override path-level ones with the same name and location
+      const byKey = new Map<string, OpenApiParameter>()
+      for (const ref of [...(item.parameters ?? []), ...(operation.parameters ?? [])]) {
+        const parameter = resolveParameter(document, ref)
+        if (parameter) byKey.set(`${parameter.in}:${parameter.name}`, parameter)
+      }
+
+      operations.push({ method, path, segments: splitPath(path), operation, parameters: [...byKey.values()] })
+    }
+  }
+  return operations
+}
+
+/**
+ * Score how well a document path matches a client path: -1 for no match, otherwise the number
+ * of literal segments in common, so `/schemas/dataset/items` beats `/schemas/{schema_id}/items`.
+ */
+function matchScore(clientSegments: string[], specSegments: string[]): number {
+  if (clientSegments.length !== specSegments.length) return -1
+  let score = 0
+  for (let i = 0; i < clientSegments.length; i++) {
+    const client = clientSegments[i]
+    const spec = specSegments[i]
+    if (isPlaceholder(spec)) continue
+    if (isPlaceholder(client) || client !== spec) return -1
+    score++
+  }
+  return score
+}
+
+/** Document operations on the best-matching path, or an empty list when no path matches */
+function findPath(clientPath: string, operations: SpecOperation[]): SpecOperation[] {
+  const segments = splitPath(clientPath)
+  let best = -1
+  let matches: SpecOperation[] = []
+
+  for (const candidate of operations) {
+    const score = matchScore(segments, candidate.segments)
+    if (score > best) {
+      best = score
+      matches = [candidate]
+    } else if (score === best && score >= 0) {
+      matches.push(candidate)
+    }
+  }
+  return matches
+}
+
+/**
+ * Check DkanApiClient's operations against a DKAN site's OpenAPI document.
+ * @param document - Parsed OpenAPI 3 document, e.g. from getOpenApiDocument()
+ * @param options - Operations to check instead of CLIENT_OPERATIONS
+ * @returns Report of issues with the client's operations and operations it does not support
+ */
+export function checkOpenApiConformance(
+  document: OpenApiDocument,
+  options: ConformanceOptions = {}
+): ConformanceReport {
+  const operations = options.operations ?? CLIENT_OPERATIONS
+  const specOperations = collectOperations(document)
+  const used = new Set<SpecOperation>()
+  const issues: ConformanceIssue[] = []
+
+  for (const client of operations) {
+    const { clientMethod, method, path } = client
+    const issue = (type: ConformanceIssue['type'], message: string, parameter?: string) =>
+      issues.push({ type, clientMethod, method, path, ...(parameter ? { parameter } : {}), message })
+
+    const onPath = findPath(path, specOperations)
+    if (onPath.length === 0) {
+      issue('missing-endpoint', `${clientMethod}: ${method} ${path} is not in the OpenAPI document`)
+      continue
+    }
+
+    const match = onPath.find((candidate) => candidate.method === method)
+    if (!match) {
+      const allowed = onPath.map((candidate) => candidate.method).join(', ')
+      issue('missing-method', `${clientMethod}: ${onPath[0].path} does not accept ${method} (only ${allowed})`)
+      continue
+    }
+    used.add(match)
+
+    const declared = match.parameters.filter((parameter) => parameter.in === 'query')
+    const sent = new Set(client.query ?? [])
+    for (const name of sent) {
+      if (!declared.some((parameter) => parameter.name === name)) {
+        issue(
+          'unknown-parameter',
+          `${clientMethod}: ${method} ${match.path} does not declare query parameter "${name}"`,
+          name
+        )
+      }
+    }
+    for (const parameter of declared) {
+      if (parameter.required && !sent.has(parameter.name)) {
+        issue(
+          'required-parameter',
+          `${clientMethod}: ${method} ${match.path} requires query parameter "${parameter.name}"`,
+          parameter.name
+        )
+      }
+    }
+    if (client.body && !match.operation.requestBody) {
+      issue('missing-request-body', `${clientMethod}: ${method} ${match.path} does not accept a request body`)
+    }
+  }
+
+  const unsupported = specOperations
+    .filter((operation) => !used.has(operation))
+    .map(({ method, path, operation }) => ({
+      method,
+      path,
+      ...(operation.operationId ? { operationId: operation.operationId } : {}),
+      ...(operation.summary ? { summary: operation.summary } : {}),
+    }))
+
+  return { ok: issues.length === 0, checked: operations.length, issues, unsupported }
+}
@@ -0,0 +1,222 @@
+/**
+ * Fluent builder for DKAN datastore queries.
+ *
+ * Produces plain DatastoreQueryOptions objects and can be passed anywhere query options
+ * are accepted (queryDatastore, queryDatastoreMulti, downloadQuery, and the framework
+ * hooks/composables). Builders are immutable: every method returns a new builder, so a
+ * base query can be shared and extended safely.
+ *
+ * @example
+ * ```typescript
+ * const query = datastoreQuery()
+ *   .select('state', 'county')
+ *   .where('state', 'in', ['CA', 'OR'])
+ *   .or((group) => group.where('population', '>', 100000).where('county', 'starts with', 'San'))
+ *   .orderBy('county')
+ *   .limit(50)
+ *
+ * await client.queryDatastore('dataset-id', 0, query)
+ * ```
+ */
+
+import type {
+  DatastoreQueryOptions,
+  DatastoreCondition,
+  DatastoreConditionGroup,
+  DatastoreOperator,
+  DatastoreProperty,
+  DatastoreResourceProperty,
+  DatastoreExpressionProperty,
+} from '../types'
+
+/** Column name, or a column qualified by resource alias in multi-resource queries */
+export type DatastorePropertyRef = string | DatastoreResourceProperty
+
+export type DatastoreScalar = string | number | boolean | null
+
+/** Operators that compare against a single value */
+export type DatastoreScalarOperator = Exclude<DatastoreOperator, 'in' | 'not in' | 'between'>
+
+/** Aggregate functions supported in DKAN expressions */
+export type DatastoreAggregate = 'sum' | 'count' | 'avg' | 'max' | 'min'
+
+/** Response flags that can be toggled with `DatastoreQueryBuilder.options()` */
+export type DatastoreResponseOptions = Pick<
+  DatastoreQueryOptions,
+  'count' | 'results' | 'schema' | 'keys' | 'format' | 'rowIds'
+>
+
+/** Anything accepted where datastore query options are expected */
+export type DatastoreQueryInput = DatastoreQueryOptions | DatastoreQueryBuilder
+
+type ConditionList = Array<DatastoreCondition | DatastoreConditionGroup>
+type GroupCallback = (group: DatastoreConditionGroupBuilder) => DatastoreConditionGroupBuilder
+
+function createCondition(
+  property: DatastorePropertyRef,
+  operator: DatastoreOperator,
+  value: unknown
+): DatastoreCondition {
+  if ((operator === 'in' || operator === 'not in') && !Array.isArray(value)) {
+    throw new Error(`Operator "${operator}" requires an array value`)
+  }
+  if (operator === 'between' && !(Array.isArray(value) && value.length === 2)) {
+    throw new Error('Operator "between" requires a [min, max] value')
+  }
+
+  return typeof property === 'string'
+    ? { property, value, operator }
+    : { resource: property.resource, property: property.property, value, operator }
+}
+
+/** Shared `where`/`and`/`or` methods for queries and condition groups */
+abstract class ConditionBuilder {
+  protected constructor(protected readonly conditions: ConditionList) {}
+
+  protected abstract withConditions(conditions: ConditionList): this
+
+  /** Add a condition; with two arguments the operator defaults to `=` */
+  where(property: DatastorePropertyRef, value: DatastoreScalar): this
+  where(property: DatastorePropertyRef, operator: DatastoreScalarOperator, value: DatastoreScalar): this
+  where(
+    property: DatastorePropertyRef,
+    operator: 'in' | 'not in',
+    value: readonly DatastoreScalar[]
+  ): this
+  where(
+    property: DatastorePropertyRef,
+    operator: 'between',
+    value: readonly [DatastoreScalar, DatastoreScalar]
+  ): this
+  where(property: DatastorePropertyRef, ...args: [unknown] | [DatastoreOperator, unknown]): this {
+    const condition = args.length === 1
+      ? createCondition(property, '=', args[0])
+      : createCondition(property, args[0], args[1])
+    return this.withConditions([...this.conditions, condition])
+  }
+
+  /** Add a nested group whose conditions must all match */
+  and(build: GroupCallback): this {
+    return this.withConditions([...this.conditions, build(new DatastoreConditionGroupBuilder()).build('and')])
+  }
+
+  /** Add a nested group where any condition may match */
+  or(build: GroupCallback): this {
+    return this.withConditions([...this.conditions, build(new DatastoreConditionGroupBuilder()).build('or')])
+  }
+}
+
+/** Conditions inside an `and()`/`or()` group */
+export class DatastoreConditionGroupBuilder extends ConditionBuilder {
+  constructor(conditions: ConditionList = []) {
+    super(conditions)
+  }
+
+  protected withConditions(conditions: ConditionList): this {
+    return new DatastoreConditionGroupBuilder(conditions) as this
+  }
+
+  build(groupOperator: 'and' | 'or'): DatastoreConditionGroup {
+    return { groupOperator, conditions: [...this.conditions] }
+  }
+}
+
+export class DatastoreQueryBuilder extends ConditionBuilder {
+  constructor(private readonly query: DatastoreQueryOptions = {}) {
+    super(query.conditions ?? [])
+  }
+
+  protected withConditions(conditions: ConditionList): this {
+    return this.with({ conditions })
+  }
+
+  private with(patch: Partial<DatastoreQueryOptions>): this {
+    return new DatastoreQueryBuilder({ ...this.query, ...patch }) as this
+  }
+
+  /** Add a resource (distribution identifier) with an optional alias for multi-resource queries */
+  from(id: string, alias?: string): this {
+    const resource = alias ? { id, alias } : { id }
+    return this.with({ resources: [...(this.query.resources ?? []), resource] })
+  }
+
+  /** Add columns to return */
+  select(...properties: DatastoreProperty[]): this {
+    return this.with({ properties: [...(this.query.properties ?? []), ...properties] })
+  }
+
+  /** Add an aggregate column, e.g. `aggregate('sum', 'amount', 'total')` */
+  aggregate(operator: DatastoreAggregate, property: DatastorePropertyRef, alias: string): this {
+    const column: DatastoreExpressionProperty = {
+      alias,
+      expression: { operator, operands: [property] },
+    }
+    return this.select(column)
+  }
+
+  /** Join a resource where `left` matches `right` (both qualified by alias) */
+  join(
+    resource: string,
+    left: DatastoreResourceProperty,
+    right: DatastoreResourceProperty,
+    operator: DatastoreOperator = '='
+  ): this {
+    const join = {
+      resource,
+      condition: { resource: left.resource, property: left.property, operator, value: right },
+    }
+    return this.with({ joins: [...(this.query.joins ?? []), join] })
+  }
+
+  groupBy(property: DatastorePropertyRef): this {
+    const grouping = typeof property === 'string' ? { property } : { ...property }
+    return this.with({ groupings: [...(this.query.groupings ?? []), grouping] })
+  }
+
+  orderBy(property: DatastorePropertyRef, order: 'asc' | 'desc' = 'asc'): this {
+    const sort = typeof property === 'string'
+      ? { property, order }
+      : { resource: property.resource, property: property.property, order }
+    return this.with({ sorts: [...(this.query.sorts ?? []), sort] })
+  }
+
+  limit(limit: number): this {
+    return this.with({ limit })
+  }
+
+  offset(offset: number): this {
+    return this.with({ offset })
+  }
+
+  /** Toggle response flags (count, results, schema, keys, format, rowIds) */
+  options(options: DatastoreResponseOptions): this {
+    return this.with(options)
+  }
+
+  build(): DatastoreQueryOptions {
+    return { ...this.query }
+  }
+
+  /** Serialize as the built options so builders work in TanStack query keys */
+  toJSON(): DatastoreQueryOptions {
+    return this.build()
+  }
+}
+
+/** Start a new datastore query, optionally extending existing options */
+export function datastoreQuery(options: DatastoreQueryOptions = {}): DatastoreQueryBuilder {
+  return new DatastoreQueryBuilder(options)
+}
+
+/** Resolve a builder or plain options object into DatastoreQueryOptions */
+export function toDatastoreQueryOptions<T extends DatastoreQueryOptions>(
+  input: T | DatastoreQueryBuilder
+): T | DatastoreQueryOptions
+export function toDatastoreQueryOptions<T extends DatastoreQueryOptions>(
+  input: T | DatastoreQueryBuilder | undefined
+): T | DatastoreQueryOptions | undefined
+export function toDatastoreQueryOptions<T extends DatastoreQueryOptions>(
+  input: T | DatastoreQueryBuilder | undefined
+): T | DatastoreQueryOptions | undefined {
+  return input instanceof DatastoreQueryBuilder ? input.build() : input
+}
@@ -0,0 +1,331 @@
+/**
+ * Builder and parser for DKAN's bracket SQL syntax:
+ * `[SELECT cols FROM dist-id][WHERE col = "value" AND ...][ORDER BY col ASC][LIMIT n OFFSET m];`
+ *
+ * The builder validates identifiers and quotes/escapes every value, so user input (e.g. from
+ * a search box) can be used in WHERE clauses without string concatenation. The parser turns
+ * an existing bracket query back into the same structured form.
+ *
+ * @example
+ * ```typescript
+ * const query = sqlQuery('distribution-id')
+ *   .select('name', 'state')
+ *   .where('state', '=', searchInput)
+ *   .orderBy('name')
+ *   .limit(50)
+ *
+ * await client.querySql({ query })
+ * ```
+ */
+
+/** Comparison operators accepted in DKAN SQL WHERE clauses */
+export type SqlOperator = '=' | '<>' | '>' | '<' | '>=' | '<=' | 'LIKE'
+
+export interface SqlCondition {
+  property: string
+  operator: SqlOperator
+  value: string
+}
+
+export interface SqlSort {
+  property: string
+  order: 'asc' | 'desc'
+}
+
+/** Structured form of a bracket SQL query */
+export interface SqlQueryParts {
+  /** Distribution identifier queried */
+  from: string
+  /** Columns to return; empty for `*` */
+  select: string[]
+  /** Return `COUNT(*)` instead of rows */
+  count?: boolean
+  /** Conditions joined with AND */
+  where: SqlCondition[]
+  orderBy: SqlSort[]
+  limit?: number
+  offset?: number
+}
+
+/** SQL query as a string or builder */
+export type SqlQueryInput = string | SqlQueryBuilder
+
+// Longer operators first so `<=` is not read as `<`
+const SQL_OPERATORS: SqlOperator[] = ['=', '<>', '>=', '<=', '>', '<', 'LIKE']
+const CONDITION_PATTERN = new RegExp(
+  `^(\\w+)\\s*(${SQL_OPERATORS.join('|')})\\s*("(?:\\\\.|[^"\\\\])*"|\\S+)$`,
+  'i'
+)
+const COLUMN_PATTERN = /^[A-Za-z0-9_]+$/
+const RESOURCE_PATTERN = /^[A-Za-z0-9_-]+$/
+
+function assertColumn(name: string): void {
+  if (!COLUMN_PATTERN.test(name)) {
+    throw new Error(`Invalid column name: "${name}"`)
+  }
+}
+
+function assertResource(id: string): void {
+  if (!RESOURCE_PATTERN.test(id)) {
+    throw new Error(`Invalid distribution identifier: "${id}"`)
+  }
+}
+
+/** Quote a value for a WHERE clause, escaping backslashes and double quotes */
+function quoteValue(value: string): string {
+  if (/[[\]]/.test(value)) {
+    throw new Error('SQL values cannot contain "[" or "]"')
+  }
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`
+}
+
+function unquoteValue(value: string): string {
+  const quoted = value.match(/^"((?:\\.|[^"\\])*)"$/)
+  return quoted ? quoted[1].replace(/\\(.)/g, '$1') : value
+}
+
+/** Split on a separator, ignoring separators inside double-quoted values */
+function splitOutsideQuotes(input: string, separator: RegExp): string[] {
+  const parts: string[] = []
+  let current = ''
+  let inQuotes = false
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+    if (char === '\\' && inQuotes) {
+      current += char + (input[i + 1] ?? '')
+      i++
+      continue
+    }
+    if (char === '"') inQuotes = !inQuotes
+
+    if (!inQuotes) {
+      const match = input.slice(i).match(separator)
+      if (match?.index === 0) {
+        parts.push(current)
+        current = ''
+        i += match[0].length - 1
+        continue
+      }
+    }
+    current += char
+  }
+
+  parts.push(current)
+  return parts.map((part) => part.trim())
+}
+
+function assertSingleOrder(sorts: SqlSort[]): void {
+  if (new Set(sorts.map(({ order }) => order)).size > 1) {
+    throw new Error('DKAN SQL ORDER BY takes one direction for all columns; mixed ASC/DESC is not supported')
+  }
+}
+
+/**
+ * Format structured parts as a bracket SQL string.
+ * @throws {Error} If an identifier is invalid, a value contains brackets, OFFSET is used without LIMIT,
+ * or ORDER BY mixes directions
+ */
+export function formatSqlQuery(parts: SqlQueryParts): string {
+  assertResource(parts.from)
+  parts.select.forEach(assertColumn)
+
+  const columns = parts.count
+    ? 'COUNT(*)'
+    : parts.select.length > 0 ? parts.select.join(',') : '*'
+  let query = `[SELECT ${columns} FROM ${parts.from}]`
+
+  if (parts.where.length > 0) {
+    const conditions = parts.where.map(({ property, operator, value }) => {
+      assertColumn(property)
+      return `${property} ${operator} ${quoteValue(value)}`
+    })
+    query += `[WHERE ${conditions.join(' AND ')}]`
+  }
+
+  if (parts.orderBy.length > 0) {
+    parts.orderBy.forEach(({ property }) => assertColumn(property))
+    assertSingleOrder(parts.orderBy)
+    // DKAN takes one trailing direction for every column
+    const columns = parts.orderBy.map(({ property }) => property).join(', ')
+    query += `[ORDER BY ${columns} ${parts.orderBy[0].order.toUpperCase()}]`
+  }
+
+  if (parts.offset !== undefined && parts.limit === undefined) {
+    throw new Error('OFFSET requires LIMIT in DKAN SQL queries')
+  }
+  if (parts.limit !== undefined) {
+    query += parts.offset !== undefined
+      ? `[LIMIT ${parts.limit} OFFSET ${parts.offset}]`
+      : `[LIMIT ${parts.limit}]`
+  }
+
+  return `${query};`
+}
+
+/**
+ * Parse a bracket SQL string into structured parts.
+ * @throws {Error} If the query is not valid DKAN bracket syntax or ORDER BY mixes directions
+ */
+export function parseSqlQuery(query: string): SqlQueryParts {
+  const source = query.trim().replace(/;$/, '')
+  const clauses: string[] = []
+  const clausePattern = /\[((?:"(?:\\.|[^"\\])*"|[^\]"])*)\]/g
+  let lastIndex = 0
+
+  for (let match = clausePattern.exec(source); match; match = clausePattern.exec(source)) {
+    if (source.slice(lastIndex, match.index).trim()) break
+    clauses.push(match[1].trim())
+    lastIndex = clausePattern.lastIndex
+  }
+
+  if (clauses.length === 0 || source.slice(lastIndex).trim()) {
+    throw new Error(`Invalid SQL query: ${query}`)
+  }
+
+  const select = clauses[0].match(/^SELECT\s+(.+?)\s+FROM\s+(\S+)$/i)
+  if (!select) {
+    throw new Error(`Invalid SELECT clause: [${clauses[0]}]`)
+  }
+
+  const columns = select[1].trim()
+  const parts: SqlQueryParts = {
+    from: select[2],
+    select: columns === '*' || /^COUNT\(\*\)$/i.test(columns)
+      ? []
+      : columns.split(',').map((column) => column.trim()),
+    where: [],
+    orderBy: [],
+  }
+  if (/^COUNT\(\*\)$/i.test(columns)) parts.count = true
+
+  for (const clause of clauses.slice(1)) {
+    if (/^WHERE\s/i.test(clause)) {
+      const conditions = splitOutsideQuotes(clause.replace(/^WHERE\s+/i, ''), /^\s+AND\s+/i)
+      parts.where = conditions.map((condition) => {
+        const match = condition.match(CONDITION_PATTERN)
+        if (!match) {
+          throw new Error(`Invalid WHERE condition: ${condition}`)
+        }
+        return {
+          property: match[1],
+          operator: match[2].toUpperCase() as SqlOperator,
+          value: unquoteValue(match[3]),
+        }
+      })
+    } else if (/^ORDER BY\s/i.test(clause)) {
+      const sorts = clause.replace(/^ORDER BY\s+/i, '').split(',').map((sort) => {
+        const match = sort.trim().match(/^(\w+)(?:\s+(ASC|DESC))?$/i)
+        if (!match) {
+          throw new Error(`Invalid ORDER BY clause: [${clause}]`)
+        }
+        return { property: match[1], order: match[2]?.toLowerCase() as SqlSort['order'] | undefined }
+      })
+      // A trailing direction applies to columns without their own
+      const fallback = sorts[sorts.length - 1].order ?? 'asc'
+      parts.orderBy = sorts.map(({ property, order }) => ({ property, order: order ?? fallback }))
+      assertSingleOrder(parts.orderBy)
+    } else if (/^LIMIT\s/i.test(clause)) {
+      const match = clause.match(/^LIMIT\s+(\d+)(?:\s+OFFSET\s+(\d+))?$/i)
+      if (!match) {
+        throw new Error(`Invalid LIMIT clause: [${clause}]`)
+      }
+      parts.limit = Number(match[1])
+      if (match[2] !== undefined) parts.offset = Number(match[2])
+    } else {
+      throw new Error(`Unsupported SQL clause: [${clause}]`)
+    }
+  }
+
+  return parts
+}
+
+/** Immutable builder producing DKAN bracket SQL. Every method returns a new builder. */
+export class SqlQueryBuilder {
+  private readonly parts: SqlQueryParts
+
+  constructor(parts: Partial<SqlQueryParts> & { from: string }) {
+    this.parts = { select: [], where: [], orderBy: [], ...parts }
+  }
+
+  private with(patch: Partial<SqlQueryParts>): SqlQueryBuilder {
+    return new SqlQueryBuilder({ ...this.parts, ...patch })
+  }
+
+  /** Query a different distribution */
+  from(distributionId: string): SqlQueryBuilder {
+    return this.with({ from: distributionId })
+  }
+
+  /** Add columns to return (all columns when none are selected) */
+  select(...columns: string[]): SqlQueryBuilder {
+    return this.with({ select: [...this.parts.select, ...columns], count: false })
+  }
+
+  /** Return `COUNT(*)` instead of rows */
+  count(): SqlQueryBuilder {
+    return this.with({ count: true })
+  }
+
+  /** Add an AND condition; with two arguments the operator defaults to `=` */
+  where(property: string, value: string | number | boolean): SqlQueryBuilder
+  where(property: string, operator: SqlOperator, value: string | number | boolean): SqlQueryBuilder
+  where(property: string, ...args: [unknown] | [SqlOperator, unknown]): SqlQueryBuilder {
+    const [operator, value] = args.length === 1 ? ['=' as const, args[0]] : args
+    return this.with({
+      where: [...this.parts.where, { property, operator, value: String(value) }],
+    })
+  }
+
+  /** Add a sort column; DKAN sorts every column in one direction, so all calls must agree */
+  orderBy(property: string, order: 'asc' | 'desc' = 'asc'): SqlQueryBuilder {
+    return this.with({ orderBy: [...this.parts.orderBy, { property, order }] })
+  }
+
+  limit(limit: number): SqlQueryBuilder {
+    return this.with({ limit })
+  }
+
+  offset(offset: number): SqlQueryBuilder {
+    return this.with({ offset })
+  }
+
+  /** Structured copy of the query */
+  toParts(): SqlQueryParts {
+    return {
+      ...this.parts,
+      select: [...this.parts.select],
+      where: [...this.parts.where],
+      orderBy: [...this.parts.orderBy],
+    }
+  }
+
+  /** @throws {Error} If an identifier or value cannot be safely formatted */
+  build(): string {
+    return formatSqlQuery(this.parts)
+  }
+
+  toString(): string {
+    return this.build()
+  }
+
+  /** Serialize as the query string so builders work in TanStack query keys */
+  toJSON(): string {
+    return this.build()
+  }
+}
+
+/**
+ * Start a SQL query for a distribution, or continue from parsed parts.
+ * @example sqlQuery(parseSqlQuery(existing)).where('year', '>=', 2020)
+ */
+export function sqlQuery(from: string | SqlQueryParts): SqlQueryBuilder {
+  return new SqlQueryBuilder(typeof from === 'string' ? { from } : from)
+}
+
+/** Resolve a builder or string into the query string sent to DKAN */
+export function toSqlQueryString(input: SqlQueryInput): string
+export function toSqlQueryString(input: SqlQueryInput | undefined): string | undefined
+export function toSqlQueryString(input: SqlQueryInput | undefined): string | undefined {
+  return input instanceof SqlQueryBuilder ? input.build() : input
+}
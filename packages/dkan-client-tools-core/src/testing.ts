@@ -0,0 +1,45 @@
+/**
+ * Test helpers for @dkan-client-tools/core.
+ *
+ * Imported from `@dkan-client-tools/core/testing` so production bundles never include them.
+ * The MSW handlers need `msw` installed.
+ *
+ * @example
+ * ```typescript
+ * import { DkanApiClient } from '@dkan-client-tools/core'
+ * import { MockDkanServer, createDkanHandlers, mockDkanError } from '@dkan-client-tools/core/testing'
+ * import { setupServer } from 'msw/node'
+ *
+ * const server = new MockDkanServer({ seed: { datasets: [{ identifier: 'parks', title: 'Parks' }] } })
+ * const client = new DkanApiClient({ baseUrl: server.baseUrl, fetch: server.fetch })
+ *
+ * const { total } = await client.searchDatasets() // 1
+ * await client.deleteDataset('parks')
+ * server.reset() // parks is back
+ *
+ * // Or intercept fetch with Mock Service Worker, answering from recorded responses
+ * const worker = setupServer(...createDkanHandlers())
+ * worker.use(mockDkanError('getDataset', 404, 'Dataset not found'))
+ * ```
+ */
+
+export { MockDkanServer } from './testing/mockDkanServer'
+export type { MockDkanSeed, MockDkanServerOptions } from './testing/mockDkanServer'
+export { MockDatastoreTable, MOCK_ROWS_LIMIT } from './testing/datastoreTable'
+export {
+  createDkanHandlers,
+  mockDkanResponse,
+  mockDkanError,
+  mockDkanNetworkError,
+  mockDkanSearch,
+  mockDkanDatastore,
+} from './testing/mswHandlers'
+export type {
+  DkanEndpoint,
+  DkanHandlersOptions,
+  DkanRequestContext,
+  MockDkanBody,
+  MockDkanHandlerOptions,
+} from './testing/mswHandlers'
+export { RECORDED_RESPONSES, findRecordedResponse } from './testing/recordedFixtures'
+export type { RecordedResponse } from './testing/recordedFixtures'
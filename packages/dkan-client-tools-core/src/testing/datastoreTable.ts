@@ -0,0 +1,288 @@
+/**
+ * In-memory datastore table for MockDkanServer and the MSW handlers.
+ *
+ * Evaluates datastore query options (conditions, sorts, properties, limit/offset) and parsed
+ * bracket SQL queries against a list of rows. Like a DKAN
+ * table, every row gets a `record_number` column, hidden from query results unless `rowIds`
+ * is set. Comparisons are numeric when both sides look like numbers, as MySQL does for the
+ * text columns DKAN imports into. Invalid queries throw plain Errors, answered with 400.
+ */
+
+import type {
+  DatastoreCondition,
+  DatastoreConditionGroup,
+  DatastoreQueryOptions,
+  DatastoreSort,
+} from '../types'
+import type { SqlQueryParts } from '../query/sqlQuery'
+
+type Row = Record<string, unknown>
+
+/** Body of a datastore query response, with its content type when not JSON */
+export interface DatastoreResponse {
+  /** CSV text for downloads, otherwise the JSON query response */
+  body: string | Record<string, unknown>
+  contentType?: string
+}
+
+/** DKAN's default `rows_limit`; larger limits are rejected */
+export const MOCK_ROWS_LIMIT = 500
+
+/** Numeric string or number, compared numerically */
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === 'number') return value
+  if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) return Number(value)
+  return undefined
+}
+
+function compareValues(a: unknown, b: unknown): number {
+  const left = toNumber(a)
+  const right = toNumber(b)
+  if (left !== undefined && right !== undefined) return left - right
+  const x = String(a ?? '')
+  const y = String(b ?? '')
+  return x < y ? -1 : x > y ? 1 : 0
+}
+
+function likePattern(pattern: string): RegExp {
+  const source = pattern
+    .split('')
+    .map((char) => (char === '%' ? '.*' : char === '_' ? '.' : char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')))
+    .join('')
+  return new RegExp(`^${source}$`, 'is')
+}
+
+function matchesCondition(row: Row, condition: DatastoreCondition | DatastoreConditionGroup): boolean {
+  if ('groupOperator' in condition) {
+    const results = condition.conditions.map((child) => matchesCondition(row, child))
+    return condition.groupOperator === 'or' ? results.some(Boolean) : results.every(Boolean)
+  }
+
+  const actual = row[condition.property]
+  const { value } = condition
+  const text = String(actual ?? '').toLowerCase()
+  const operator = (condition.operator ?? '=').toLowerCase()
+  switch (operator) {
+    case '=':
+      return compareValues(actual, value) === 0
+    case '!=':
+    case '<>':
+      return compareValues(actual, value) !== 0
+    case '>':
+      return compareValues(actual, value) > 0
+    case '>=':
+      return compareValues(actual, value) >= 0
+    case '<':
+      return compareValues(actual, value) < 0
+    case '<=':
+      return compareValues(actual, value) <= 0
+    case 'like':
+      return likePattern(String(value)).test(String(actual ?? ''))
+    case 'contains':
+    case 'match':
+      return text.includes(String(value).toLowerCase())
+    case 'starts with':
+      return text.startsWith(String(value).toLowerCase())
+    case 'in':
+    case 'not in': {
+      if (!Array.isArray(value)) throw new Error(`Operator "${condition.operator}" requires an array value`)
+      const found = value.some((item) => compareValues(actual, item) === 0)
+      return operator === 'in' ? found : !found
+    }
+    case 'between':
+      if (!Array.isArray(value) || value.length !== 2) {
+        throw new Error('Operator "between" requires a [min, max] value')
+      }
+      return compareValues(actual, value[0]) >= 0 && compareValues(actual, value[1]) <= 0
+    default:
+      throw new Error(`Unsupported operator: ${condition.operator}`)
+  }
+}
+
+function conditionProperties(conditions: Array<DatastoreCondition | DatastoreConditionGroup>): string[] {
+  return conditions.flatMap((condition) =>
+    'groupOperator' in condition ? conditionProperties(condition.conditions) : [condition.property]
+  )
+}
+
+function sortRows(rows: Row[], sorts: DatastoreSort[]): Row[] {
+  return [...rows].sort((a, b) => {
+    for (const { property, order } of sorts) {
+      const result = compareValues(a[property], b[property])
+      if (result !== 0) return order === 'desc' ? -result : result
+    }
+    return 0
+  })
+}
+
+/** Query parameters, JSON-decoded where they parse, as DKAN reads GET datastore queries */
+export function decodeQueryParams(url: URL): Record<string, any> {
+  const params: Record<string, any> = {}
+  for (const [key, value] of url.searchParams) {
+    try {
+      params[key] = JSON.parse(value)
+    } catch {
+      params[key] = value
+    }
+  }
+  return params
+}
+
+/**
+ * Split a `/api/1/datastore/query` request into its one resource and a plain query, dropping
+ * the resource aliases from conditions and sorts.
+ * @throws {Error} If the query names several resources or joins
+ */
+export function unwrapResourceQuery(input: Record<string, any>): {
+  resourceId: string
+  options: Record<string, any>
+} {
+  const { resources = [], joins, ...options } = input
+  if (resources.length !== 1 || joins?.length) {
+    throw new Error('The mock datastore supports queries against exactly one resource, without joins')
+  }
+  const strip = (conditions: Array<Record<string, any>>): Array<Record<string, any>> =>
+    conditions.map(({ resource: _resource, ...condition }) =>
+      condition.conditions ? { ...condition, conditions: strip(condition.conditions) } : condition
+    )
+  if (options.conditions) options.conditions = strip(options.conditions)
+  if (options.sorts) options.sorts = options.sorts.map(({ resource: _resource, ...sort }: Record<string, any>) => sort)
+  return { resourceId: resources[0].id, options }
+}
+
+function pick(row: Row, properties: string[]): Row {
+  return Object.fromEntries(properties.map((property) => [property, row[property]]))
+}
+
+/** Quote a CSV field when it holds a delimiter, quote or line break */
+function csvField(value: unknown): string {
+  const text = value === null || value === undefined ? '' : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export class MockDatastoreTable {
+  private rows: Row[]
+  readonly columns: string[]
+
+  /**
+   * @param rows - Table rows; columns are taken from the first row's keys, in order
+   * @param columns - Column names, for tables without rows
+   */
+  constructor(rows: Row[], columns?: string[]) {
+    this.columns = columns ?? Object.keys(rows[0] ?? {}).filter((column) => column !== 'record_number')
+    this.rows = rows.map((row, i) => ({ record_number: String(i + 1), ...pick(row, this.columns) }))
+  }
+
+  get size(): number {
+    return this.rows.length
+  }
+
+  /** Rows without their record numbers */
+  getRows(): Row[] {
+    return this.rows.map(({ record_number, ...row }) => row)
+  }
+
+  /** Column definitions as DKAN reports them in query schemas */
+  fields(): Record<string, { type: string; mysql_type: string }> {
+    return Object.fromEntries(this.columns.map((column) => [column, { type: 'text', mysql_type: 'text' }]))
+  }
+
+  /**
+   * Run a datastore query.
+   * @returns Matching rows (one page) and the number of rows matching before paging
+   * @throws {Error} If the query uses unknown columns, unsupported operators or a limit above 500
+   */
+  query(options: DatastoreQueryOptions): { results: Array<Row | unknown[]>; count: number } {
+    const limit = options.limit ?? MOCK_ROWS_LIMIT
+    if (limit > MOCK_ROWS_LIMIT) {
+      throw new Error(`Limit of ${limit} is larger than the maximum allowed of ${MOCK_ROWS_LIMIT}`)
+    }
+
+    const properties = (options.properties ?? []).map((property) => {
+      if (typeof property === 'string') return property
+      if ('property' in property) return property.property
+      throw new Error('Expression properties are not supported by the mock datastore')
+    })
+    const known = new Set(['record_number', ...this.columns])
+    for (const property of [
+      ...properties,
+      ...(options.sorts ?? []).map((sort) => sort.property),
+      ...conditionProperties(options.conditions ?? []),
+    ]) {
+      if (!known.has(property)) throw new Error(`Column not found: ${property}`)
+    }
+
+    const matching = sortRows(
+      this.rows.filter((row) => (options.conditions ?? []).every((condition) => matchesCondition(row, condition))),
+      options.sorts ?? []
+    )
+    const offset = options.offset ?? 0
+    const columns = properties.length > 0
+      ? properties
+      : options.rowIds ? ['record_number', ...this.columns] : this.columns
+    const page = matching.slice(offset, offset + limit).map((row) => pick(row, columns))
+
+    return {
+      results: options.keys === false ? page.map((row) => Object.values(row)) : page,
+      count: matching.length,
+    }
+  }
+
+  /**
+   * Run a parsed bracket SQL query against this table.
+   * @throws {Error} If the query uses unknown columns
+   */
+  sql(parts: SqlQueryParts): Row[] {
+    const limit = parts.limit ?? MOCK_ROWS_LIMIT
+    const { results, count } = this.query({
+      properties: parts.select.length > 0 ? parts.select : ['record_number', ...this.columns],
+      conditions: parts.where.map(({ property, operator, value }) => ({
+        property,
+        operator: operator.toLowerCase() as DatastoreCondition['operator'],
+        value,
+      })),
+      sorts: parts.orderBy,
+      limit: parts.count ? 0 : Math.min(limit, MOCK_ROWS_LIMIT),
+      offset: parts.offset,
+    })
+    return parts.count ? [{ expression: String(count) }] : (results as Row[])
+  }
+
+  /**
+   * Answer a datastore query as DKAN does: rows with count, schema and the normalized query,
+   * or CSV when `format` is `'csv'` (the default for downloads).
+   * @throws {Error} If the query is invalid
+   */
+  respond(resourceId: string, options: Record<string, any>, download = false): DatastoreResponse {
+    const { format = download ? 'csv' : 'json', count, results, schema, ...query } = options
+    const rows = this.query(query as DatastoreQueryOptions)
+
+    if (format === 'csv') {
+      const columns = rows.results.length > 0 && !Array.isArray(rows.results[0])
+        ? Object.keys(rows.results[0] as Row)
+        : this.columns
+      const records = rows.results.map((row) =>
+        Array.isArray(row) ? Object.fromEntries(columns.map((column, i) => [column, row[i]])) : row
+      )
+      return { body: MockDatastoreTable.toCsv(records, columns), contentType: 'text/csv' }
+    }
+
+    return {
+      body: {
+        ...(results === false ? {} : { results: rows.results }),
+        ...(count === false ? {} : { count: rows.count }),
+        ...(schema === false ? {} : { schema: { [resourceId]: { fields: this.fields() } } }),
+        query: { ...options, resources: [{ id: resourceId, alias: 't' }] },
+      },
+    }
+  }
+
+  /** Serialize query results as CSV with a header row */
+  static toCsv(rows: Row[], columns: string[]): string {
+    const lines = [columns.map(csvField).join(',')]
+    for (const row of rows) {
+      lines.push(columns.map((column) => csvField(row[column])).join(','))
+    }
+    return `${lines.join('\n')}\n`
+  }
+}
@@ -0,0 +1,725 @@
+/**
+ * MockDkanServer - Stateful in-memory DKAN for tests and offline development
+ */
+
+import type {
+  DataDictionary,
+  DkanDataset,
+  DkanTransport,
+  HarvestPlan,
+  JsonSchema,
+  MetastoreRevision,
+  WorkflowState,
+} from '../types'
+import { validateJsonSchema } from '../validation/jsonSchema'
+import { parseSqlQuery } from '../query/sqlQuery'
+import { MockDatastoreTable, decodeQueryParams, unwrapResourceQuery } from './datastoreTable'
+
+type Item = Record<string, any>
+type Row = Record<string, unknown>
+
+/** Initial contents of a MockDkanServer; copied, so the seed itself is never modified */
+export interface MockDkanSeed {
+  /**
+   * Published datasets. Give distributions an `identifier` to attach datastore rows to them;
+   * distributions without one get a generated id.
+   */
+  datasets?: Array<Partial<DkanDataset>>
+  dataDictionaries?: DataDictionary[]
+  /** Items of other metastore schemas, by schema id */
+  items?: Record<string, Item[]>
+  /** Metastore schemas by id; writes to a schema listed here are validated against it */
+  schemas?: Record<string, JsonSchema>
+  /** Datastore rows by distribution identifier */
+  datastore?: Record<string, Row[]>
+  harvestPlans?: HarvestPlan[]
+  /** Datasets a harvest run loads, by the plan's `extract.uri` */
+  harvestSources?: Record<string, Array<Partial<DkanDataset>>>
+}
+
+export interface MockDkanServerOptions {
+  /** Origin (and optional path prefix) the server answers on. @default 'https://dkan.test' */
+  baseUrl?: string
+  seed?: MockDkanSeed
+}
+
+interface StoredItem {
+  data: Item
+  revisions: MetastoreRevision[]
+}
+
+interface StoredRun {
+  plan: string
+  run: Item
+}
+
+interface MockResult {
+  status?: number
+  body: unknown
+  contentType?: string
+}
+
+type Params = string[]
+type RouteHandler = (params: Params, url: URL, body: any) => MockResult
+type Route = [RegExp, Partial<Record<string, RouteHandler>>]
+
+const WORKFLOW_STATES: WorkflowState[] = ['draft', 'published', 'hidden', 'archived', 'orphaned']
+
+/** Search facet types and the dataset values they count */
+const FACETS: Record<string, (dataset: Item) => string[]> = {
+  theme: (dataset) => toList(dataset.theme),
+  keyword: (dataset) => toList(dataset.keyword),
+  publisher__name: (dataset) => (dataset.publisher?.name ? [dataset.publisher.name] : []),
+}
+
+class MockHttpError extends Error {
+  constructor(
+    readonly status: number,
+    message: string,
+    readonly data?: unknown
+  ) {
+    super(message)
+  }
+}
+
+function fail(status: number, message: string, data?: unknown): never {
+  throw new MockHttpError(status, message, data)
+}
+
+function toList(value: unknown): string[] {
+  if (value === undefined || value === null) return []
+  return (Array.isArray(value) ? value : [value]).map(String)
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value))
+}
+
+/** Random UUID, falling back to Math.random() where the global `crypto.randomUUID` is missing */
+export function generateId(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID()
+  }
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (char) => {
+    const random = (Math.random() * 16) | 0
+    return (char === 'x' ? random : (random & 0x3) | 0x8).toString(16)
+  })
+}
+
+/** Apply an RFC 7386 JSON merge patch */
+function mergePatch(target: unknown, patch: unknown): unknown {
+  if (patch === null || typeof patch !== 'object' || Array.isArray(patch)) return patch
+  const result: Item = target && typeof target === 'object' && !Array.isArray(target) ? { ...target } : {}
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) {
+      delete result[key]
+    } else {
+      result[key] = mergePatch(result[key], value)
+    }
+  }
+  return result
+}
+
+/** Unwrap `{ identifier, data }` references and drop `%Ref:` keys, as DKAN stores distributions */
+function unwrapDistribution(entry: Item): Item {
+  const distribution: Item = entry.data && typeof entry.data === 'object'
+    ? { ...entry.data, identifier: entry.identifier }
+    : { ...entry }
+  for (const key of Object.keys(distribution)) {
+    if (key.startsWith('%Ref')) delete distribution[key]
+  }
+  return distribution
+}
+
+/** Dataset with plain distributions, for comparing content regardless of distribution ids */
+function withoutDistributionIds(dataset: Item): Item {
+  if (!Array.isArray(dataset.distribution)) return dataset
+  return {
+    ...dataset,
+    distribution: dataset.distribution.map((entry: Item) => {
+      const { identifier: _identifier, ...distribution } = unwrapDistribution(entry)
+      return distribution
+    }),
+  }
+}
+
+/**
+ * In-memory stand-in for a DKAN site, implementing the `/api/1` endpoints DkanApiClient calls:
+ * metastore CRUD and revisions, search with facets, datastore queries (conditions, sorts,
+ * limits, CSV downloads and the bracket SQL subset), datastore imports and harvests.
+ *
+ * State lives in the instance and persists across requests until `reset()`. Pass `fetch` as
+ * the client transport, or hand intercepted requests to `handle()`. Authentication is not
+ * checked; every request is treated as coming from an administrator.
+ *
+ * Deliberately simpler than DKAN: datastore columns are all text (compared numerically when
+ * both sides are numbers), search ranks by dataset order unless sorted, and imports and
+ * harvests finish synchronously.
+ *
+ * @example
+ * ```typescript
+ * import { MockDkanServer } from '@dkan-client-tools/core/testing'
+ *
+ * const server = new MockDkanServer({
+ *   seed: {
+ *     datasets: [{ identifier: 'parks', title: 'Parks', distribution: [{ identifier: 'parks-csv' }] }],
+ *     datastore: { 'parks-csv': [{ name: 'Riverside', acres: '12' }] },
+ *   },
+ * })
+ * const client = new DkanApiClient({ baseUrl: server.baseUrl, fetch: server.fetch })
+ * await client.queryDatastore('parks', 0, { conditions: [{ property: 'acres', value: 10, operator: '>' }] })
+ * ```
+ */
+export class MockDkanServer {
+  readonly baseUrl: string
+  private seed: MockDkanSeed
+  private items = new Map<string, Map<string, StoredItem>>()
+  private schemas = new Map<string, JsonSchema>()
+  private tables = new Map<string, MockDatastoreTable>()
+  private plans = new Map<string, HarvestPlan>()
+  private runs: StoredRun[] = []
+  private lastRevision = 0
+  private lastRun = 0
+  private routes: Route[]
+
+  constructor(options: MockDkanServerOptions = {}) {
+    this.baseUrl = (options.baseUrl ?? 'https://dkan.test').replace(/\/$/, '')
+    this.seed = clone(options.seed ?? {})
+    this.routes = this.createRoutes()
+    this.reset()
+  }
+
+  /** Transport for `new DkanApiClient({ fetch: server.fetch })` */
+  readonly fetch: DkanTransport = async (url, init) => {
+    if (init.signal?.aborted) {
+      throw init.signal.reason ?? new DOMException('The operation was aborted.', 'AbortError')
+    }
+    return this.handle(new Request(url, init))
+  }
+
+  /** Restore the seeded state */
+  reset(): void {
+    const seed = clone(this.seed)
+    this.items.clear()
+    this.schemas = new Map(Object.entries(seed.schemas ?? {}))
+    this.tables.clear()
+    this.plans = new Map((seed.harvestPlans ?? []).map((plan) => [plan.identifier, plan]))
+    this.runs = []
+    this.lastRevision = 0
+    this.lastRun = 0
+
+    for (const dataset of seed.datasets ?? []) this.saveItem('dataset', dataset as Item)
+    for (const dictionary of seed.dataDictionaries ?? []) this.saveItem('data-dictionary', dictionary as Item)
+    for (const [schemaId, items] of Object.entries(seed.items ?? {})) {
+      for (const item of items) this.saveItem(schemaId, item)
+    }
+    for (const [distributionId, rows] of Object.entries(seed.datastore ?? {})) {
+      this.tables.set(distributionId, new MockDatastoreTable(rows))
+    }
+  }
+
+  /**
+   * Answer one request. Unknown routes get 404 and unsupported methods 405, with DKAN's
+   * `{ message, status, timestamp }` error body.
+   */
+  async handle(request: Request): Promise<Response> {
+    const url = new URL(request.url)
+    const text = request.method === 'GET' || request.method === 'HEAD' ? '' : await request.text()
+
+    let result: MockResult
+    try {
+      let body: unknown
+      if (text) {
+        try {
+          body = JSON.parse(text)
+        } catch {
+          fail(400, 'Invalid JSON in request body')
+        }
+      }
+      result = this.route(request.method, url, body)
+    } catch (error) {
+      const status = error instanceof MockHttpError ? error.status : 400
+      const message = error instanceof Error ? error.message : String(error)
+      const data = error instanceof MockHttpError ? error.data : undefined
+      result = {
+        status,
+        body: { message, status, timestamp: new Date().toISOString(), ...(data ? { data } : {}) },
+      }
+    }
+
+    const contentType = result.contentType ?? 'application/json'
+    return new Response(
+      contentType === 'application/json' ? JSON.stringify(result.body) : String(result.body),
+      { status: result.status ?? 200, headers: { 'Content-Type': contentType } }
+    )
+  }
+
+  /** Stored metastore item as DKAN holds it, with distribution identifiers */
+  getItem(schemaId: string, identifier: string): Item | undefined {
+    return clone(this.items.get(schemaId)?.get(identifier)?.data)
+  }
+
+  /** Datastore rows of a distribution, without record numbers */
+  getDatastoreRows(distributionId: string): Row[] | undefined {
+    return this.tables.get(distributionId)?.getRows()
+  }
+
+  private route(method: string, url: URL, body: unknown): MockResult {
+    const base = new URL(this.baseUrl)
+    const prefix = base.pathname.replace(/\/$/, '')
+    if (url.origin !== base.origin || !url.pathname.startsWith(prefix)) {
+      fail(404, `No route found for "${method} ${url.pathname}"`)
+    }
+    const path = url.pathname.slice(prefix.length).replace(/\/$/, '')
+
+    for (const [pattern, handlers] of this.routes) {
+      const match = pattern.exec(path)
+      if (!match) continue
+      const handler = handlers[method]
+      if (!handler) fail(405, `Method ${method} not allowed for ${path}`)
+      return handler(match.slice(1).map(decodeURIComponent), url, body)
+    }
+    fail(404, `No route found for "${method} ${path}"`)
+  }
+
+  private createRoutes(): Route[] {
+    const items = '/api/1/metastore/schemas/([^/]+)/items'
+    const byIndex = ([datasetId, index]: Params) => this.distributionAt(datasetId, index)
+    const query = (resolve: (params: Params) => string, download = false): Route[1] => ({
+      GET: (params, url) => this.queryDatastore(resolve(params), decodeQueryParams(url), download),
+      POST: (params, _url, body) => this.queryDatastore(resolve(params), body ?? {}, download),
+    })
+
+    return [
+      [/^\/api\/1\/metastore\/schemas$/, { GET: () => ({ body: this.schemaIds() }) }],
+      [/^\/api\/1\/metastore\/schemas\/([^/]+)$/, { GET: ([schemaId]) => ({ body: this.getSchema(schemaId) }) }],
+      [new RegExp(`^${items}$`), {
+        GET: ([schemaId], url) => ({ body: this.listItems(schemaId, url) }),
+        POST: ([schemaId], _url, body) => this.createItem(schemaId, body),
+      }],
+      [new RegExp(`^${items}/([^/]+)$`), {
+        GET: ([schemaId, id], url) => ({ body: this.showItem(schemaId, this.findItem(schemaId, id).data, url) }),
+        PUT: ([schemaId, id], _url, body) => this.replaceItem(schemaId, id, body),
+        PATCH: ([schemaId, id], _url, body) => this.patchItem(schemaId, id, body),
+        DELETE: ([schemaId, id]) => this.deleteItem(schemaId, id),
+      }],
+      [new RegExp(`^${items}/([^/]+)/revisions$`), {
+        GET: ([schemaId, id]) => ({ body: this.revisions(this.findItem(schemaId, id)) }),
+        POST: ([schemaId, id], url, body) => this.createRevision(schemaId, id, url, body),
+      }],
+      [new RegExp(`^${items}/([^/]+)/revisions/([^/]+)$`), {
+        GET: ([schemaId, id, revisionId]) => {
+          const revision = this.revisions(this.findItem(schemaId, id)).find((r) => r.identifier === revisionId)
+          return { body: revision ?? fail(404, `Revision ${revisionId} not found`) }
+        },
+      }],
+      [/^\/api\/1\/search$/, { GET: (_params, url) => ({ body: this.search(url) }) }],
+      [/^\/api\/1\/search\/facets$/, {
+        GET: () => ({ body: { facets: this.facets(this.published(), this.published()) } }),
+      }],
+      [/^\/api\/1\/datastore\/query$/, {
+        GET: (_params, url) => this.queryResources(decodeQueryParams(url)),
+        POST: (_params, _url, body) => this.queryResources(body ?? {}),
+      }],
+      [/^\/api\/1\/datastore\/query\/([^/]+)\/download$/, query(([id]) => id, true)],
+      [/^\/api\/1\/datastore\/query\/([^/]+)$/, query(([id]) => id)],
+      [/^\/api\/1\/datastore\/query\/([^/]+)\/(\d+)\/download$/, query(byIndex, true)],
+      [/^\/api\/1\/datastore\/query\/([^/]+)\/(\d+)$/, query(byIndex)],
+      [/^\/api\/1\/datastore\/sql$/, {
+        GET: (_params, url) => this.querySql(url.searchParams.get('query')),
+        POST: (_params, _url, body) => this.querySql(body?.query),
+      }],
+      [/^\/api\/1\/datastore\/imports$/, {
+        GET: () => ({ body: this.listImports() }),
+        POST: (_params, _url, body) => this.runImport(body?.resource_id),
+      }],
+      [/^\/api\/1\/datastore\/imports\/([^/]+)$/, {
+        GET: ([id]) => ({ body: this.importStatistics(id) }),
+        DELETE: ([id]) => {
+          if (!this.tables.delete(id)) fail(404, `No datastore found for ${id}`)
+          return { body: { message: `Successfully dropped the datastore for resource ${id}` } }
+        },
+      }],
+      [/^\/api\/1\/harvest\/plans$/, {
+        GET: () => ({ body: [...this.plans.keys()] }),
+        POST: (_params, _url, body) => this.registerPlan(body),
+      }],
+      [/^\/api\/1\/harvest\/plans\/([^/]+)$/, {
+        GET: ([id]) => ({ body: this.plans.get(id) ?? fail(404, `Harvest plan ${id} not found`) }),
+      }],
+      [/^\/api\/1\/harvest\/runs$/, {
+        GET: (_params, url) => ({ body: this.listRuns(url.searchParams.get('plan')) }),
+        POST: (_params, _url, body) => this.runHarvest(body?.plan_id),
+      }],
+      [/^\/api\/1\/harvest\/runs\/([^/]+)$/, {
+        GET: ([id], url) => {
+          const plan = url.searchParams.get('plan')
+          const stored = this.runs.find((r) => r.run.identifier === id && (!plan || r.plan === plan))
+          return { body: stored?.run ?? fail(404, `Harvest run ${id} not found`) }
+        },
+      }],
+    ]
+  }
+
+  // ==================== METASTORE ====================
+
+  private store(schemaId: string): Map<string, StoredItem> {
+    let store = this.items.get(schemaId)
+    if (!store) {
+      store = new Map()
+      this.items.set(schemaId, store)
+    }
+    return store
+  }
+
+  private schemaIds(): string[] {
+    return [...new Set(['dataset', 'data-dictionary', ...this.schemas.keys(), ...this.items.keys()])]
+  }
+
+  private getSchema(schemaId: string): JsonSchema {
+    return this.schemas.get(schemaId) ?? fail(404, `Schema ${schemaId} not found`)
+  }
+
+  private findItem(schemaId: string, identifier: string): StoredItem {
+    return this.items.get(schemaId)?.get(identifier)
+      ?? fail(404, `Error retrieving metadata: ${schemaId} ${identifier} not found.`)
+  }
+
+  /** Item as the API returns it: distribution ids only with `show-reference-ids` */
+  private showItem(schemaId: string, data: Item, url: URL): Item {
+    const item = clone(data)
+    if (schemaId !== 'dataset' || !Array.isArray(item.distribution)) return item
+    if (!url.searchParams.has('show-reference-ids')) return withoutDistributionIds(item)
+    return {
+      ...item,
+      distribution: item.distribution.map(({ identifier, ...data }: Item) => ({ identifier, data })),
+    }
+  }
+
+  private listItems(schemaId: string, url: URL): Item[] {
+    return [...this.store(schemaId).values()].map(({ data }) => this.showItem(schemaId, data, url))
+  }
+
+  private validate(schemaId: string, item: Item): void {
+    const schema = this.schemas.get(schemaId)
+    if (!schema) return
+    const violations = validateJsonSchema(item, schema)
+    if (violations.length > 0) {
+      fail(400, 'JSON Schema validation failed.', {
+        errors: violations.map(({ property, keyword, message }) => ({
+          pointer: `/${property.split('.').join('/')}`,
+          keyword,
+          message,
+        })),
+      })
+    }
+  }
+
+  /** Store a new version of an item and record a revision for it */
+  private saveItem(schemaId: string, input: Item, state: WorkflowState = 'published'): StoredItem {
+    const store = this.store(schemaId)
+    const identifier = String(input.identifier ?? generateId())
+    const previous = store.get(identifier)
+    const data: Item = { ...input, identifier }
+
+    if (schemaId === 'dataset' && Array.isArray(data.distribution)) {
+      // Keep distribution ids stable across updates, matched by download URL
+      const previousIds = new Map<string, string>(
+        (previous?.data.distribution ?? []).map((d: Item) => [d.downloadURL ?? d.accessURL, d.identifier])
+      )
+      data.distribution = data.distribution.map((entry: Item) => {
+        const distribution = unwrapDistribution(entry)
+        distribution.identifier ??=
+          previousIds.get(distribution.downloadURL ?? distribution.accessURL) ?? generateId()
+        return distribution
+      })
+    }
+
+    const stored: StoredItem = { data, revisions: previous?.revisions ?? [] }
+    stored.revisions.unshift(this.revision(state))
+    store.set(identifier, stored)
+    return stored
+  }
+
+  private revision(state: WorkflowState, message = ''): MetastoreRevision {
+    return {
+      identifier: String(++this.lastRevision),
+      published: false,
+      message,
+      modified: new Date().toISOString(),
+      state,
+    }
+  }
+
+  /** Current revision: drafts wait on top of it, as in Drupal content moderation */
+  private currentRevision(item: StoredItem): MetastoreRevision | undefined {
+    return item.revisions.find((revision) => revision.state !== 'draft')
+  }
+
+  /** Revisions newest first; `published` marks the current one if it is live */
+  private revisions(item: StoredItem): MetastoreRevision[] {
+    const current = this.currentRevision(item)
+    const live = current?.state === 'published' || current?.state === 'hidden'
+    return item.revisions.map((revision) => ({ ...revision, published: live && revision === current }))
+  }
+
+  /** Listed in search: the current revision is published (hidden ones are live but unlisted) */
+  private isPublished(item: StoredItem): boolean {
+    return this.currentRevision(item)?.state === 'published'
+  }
+
+  private writeResponse(schemaId: string, identifier: string, status = 200): MockResult {
+    return { status, body: { endpoint: `/api/1/metastore/schemas/${schemaId}/items/${identifier}`, identifier } }
+  }
+
+  private createItem(schemaId: string, body: unknown): MockResult {
+    if (!body || typeof body !== 'object' || Array.isArray(body)) fail(400, 'Request body must be a JSON object')
+    const input = body as Item
+    if (input.identifier !== undefined && this.store(schemaId).has(String(input.identifier))) {
+      fail(409, `${schemaId} ${input.identifier} already exists.`)
+    }
+    this.validate(schemaId, input)
+    const { data } = this.saveItem(schemaId, input)
+    return this.writeResponse(schemaId, data.identifier, 201)
+  }
+
+  private replaceItem(schemaId: string, identifier: string, body: unknown): MockResult {
+    if (!body || typeof body !== 'object' || Array.isArray(body)) fail(400, 'Request body must be a JSON object')
+    const input = { ...(body as Item), identifier: (body as Item).identifier ?? identifier }
+    if (String(input.identifier) !== identifier) {
+      fail(409, `Identifier cannot be modified: ${identifier} does not match ${input.identifier}`)
+    }
+    this.validate(schemaId, input)
+    const created = !this.store(schemaId).has(identifier)
+    this.saveItem(schemaId, input)
+    return this.writeResponse(schemaId, identifier, created ? 201 : 200)
+  }
+
+  private patchItem(schemaId: string, identifier: string, body: unknown): MockResult {
+    const current = this.findItem(schemaId, identifier)
+    const patch = body as Item | undefined
+    if (patch?.identifier !== undefined && String(patch.identifier) !== identifier) {
+      fail(409, `Identifier cannot be modified: ${identifier} does not match ${patch.identifier}`)
+    }
+    const patched = mergePatch(current.data, patch) as Item
+    this.validate(schemaId, patched)
+    this.saveItem(schemaId, patched)
+    return this.writeResponse(schemaId, identifier)
+  }
+
+  private deleteItem(schemaId: string, identifier: string): MockResult {
+    this.findItem(schemaId, identifier)
+    this.store(schemaId).delete(identifier)
+    const label = schemaId.charAt(0).toUpperCase() + schemaId.slice(1)
+    return { body: { message: `${label} ${identifier} has been deleted.` } }
+  }
+
+  private createRevision(schemaId: string, identifier: string, url: URL, body: any): MockResult {
+    const item = this.findItem(schemaId, identifier)
+    if (!WORKFLOW_STATES.includes(body?.state)) {
+      fail(400, `Invalid state: ${body?.state}. Expected one of ${WORKFLOW_STATES.join(', ')}`)
+    }
+    const revision = this.revision(body.state, body.message ?? '')
+    item.revisions.unshift(revision)
+    return {
+      status: 201,
+      body: { endpoint: `${url.pathname}/${revision.identifier}`, identifier: revision.identifier },
+    }
+  }
+
+  // ==================== SEARCH ====================
+
+  private published(): Item[] {
+    return [...this.store('dataset').values()]
+      .filter((item) => this.isPublished(item))
+      .map(({ data }) => data)
+  }
+
+  /** Facet values across all published datasets, counted within the matches */
+  private facets(all: Item[], matches: Item[]): Array<{ type: string; name: string; total: string }> {
+    return Object.entries(FACETS).flatMap(([type, values]) => {
+      const names = [...new Set(all.flatMap(values))]
+      return names.map((name) => ({
+        type,
+        name,
+        total: String(matches.filter((dataset) => values(dataset).includes(name)).length),
+      }))
+    })
+  }
+
+  private search(url: URL): Item {
+    const params = url.searchParams
+    const all = this.published()
+    const fulltext = params.get('fulltext')?.toLowerCase()
+
+    let matches = all.filter((dataset) =>
+      Object.entries(FACETS).every(([type, values]) => {
+        const wanted = params.get(type)
+        return !wanted || values(dataset).includes(wanted)
+      })
+      && (!fulltext || [dataset.title, dataset.description, ...toList(dataset.keyword)]
+        .some((text) => String(text ?? '').toLowerCase().includes(fulltext)))
+    )
+
+    const sorts = params.getAll('sort').flatMap((sort) => sort.split(','))
+    const orders = params.getAll('sort-order').flatMap((order) => order.split(','))
+    if (sorts.length > 0) {
+      matches = [...matches].sort((a, b) => {
+        for (const [i, field] of sorts.entries()) {
+          const result = String(a[field] ?? '').localeCompare(String(b[field] ?? ''))
+          if (result !== 0) return (orders[i] ?? orders[0]) === 'desc' ? -result : result
+        }
+        return 0
+      })
+    }
+
+    const page = Math.max(Number(params.get('page') ?? 1) || 1, 1)
+    const pageSize = Number(params.get('page-size') ?? 10) || 10
+    const results = matches.slice((page - 1) * pageSize, page * pageSize)
+
+    return {
+      total: String(matches.length),
+      results: Object.fromEntries(
+        results.map((dataset) => [`dkan_dataset/${dataset.identifier}`, this.showItem('dataset', dataset, url)])
+      ),
+      facets: this.facets(all, matches),
+    }
+  }
+
+  // ==================== DATASTORE ====================
+
+  private distributionAt(datasetId: string, index: string): string {
+    const dataset = this.findItem('dataset', datasetId).data
+    const distribution = dataset.distribution?.[Number(index)]
+    return distribution?.identifier ?? fail(404, `No resource found for dataset ${datasetId} at index ${index}`)
+  }
+
+  private table(distributionId: string): MockDatastoreTable {
+    return this.tables.get(distributionId) ?? fail(404, `No datastore storage found for ${distributionId}.`)
+  }
+
+  private queryDatastore(distributionId: string, options: Item, download: boolean): MockResult {
+    return this.table(distributionId).respond(distributionId, options, download)
+  }
+
+  /** POST /api/1/datastore/query with a single resource; joins are not supported */
+  private queryResources(input: Item): MockResult {
+    const { resourceId, options } = unwrapResourceQuery(input)
+    return this.queryDatastore(resourceId, options, false)
+  }
+
+  private querySql(query: unknown): MockResult {
+    if (typeof query !== 'string' || !query) fail(400, 'Missing query')
+    const parts = parseSqlQuery(query)
+    return { body: this.table(parts.from).sql(parts) }
+  }
+
+  private listImports(): Item {
+    const datasets = this.store('dataset')
+    const fileNames = new Map<string, string>()
+    for (const { data } of datasets.values()) {
+      for (const distribution of data.distribution ?? []) {
+        const url = distribution.downloadURL ?? ''
+        fileNames.set(distribution.identifier, url.split('/').pop() || distribution.identifier)
+      }
+    }
+    return Object.fromEntries(
+      [...this.tables.keys()].map((id) => [
+        id,
+        {
+          fileName: fileNames.get(id) ?? id,
+          fileFetcherStatus: 'done',
+          fileFetcherBytes: 0,
+          fileFetcherPercentDone: 100,
+          importerStatus: 'done',
+          importerBytes: 0,
+          importerPercentDone: 100,
+          importerError: '',
+        },
+      ])
+    )
+  }
+
+  private importStatistics(distributionId: string): Item {
+    const table = this.table(distributionId)
+    const columns = {
+      record_number: { type: 'serial', unsigned: true, 'not null': true, mysql_type: 'int' },
+      ...table.fields(),
+    }
+    return { numOfRows: table.size, numOfColumns: Object.keys(columns).length, columns }
+  }
+
+  /** Imports finish immediately; a resource without seeded rows gets an empty table */
+  private runImport(resourceId: unknown): MockResult {
+    if (typeof resourceId !== 'string' || !resourceId) fail(400, 'Missing resource_id')
+    const known = [...this.store('dataset').values()].some(({ data }) =>
+      (data.distribution ?? []).some((distribution: Item) => distribution.identifier === resourceId)
+    )
+    if (!known && !this.tables.has(resourceId)) fail(404, `Resource ${resourceId} not found`)
+
+    let table = this.tables.get(resourceId)
+    if (!table) {
+      table = new MockDatastoreTable([])
+      this.tables.set(resourceId, table)
+    }
+    return { body: { status: 'done', importer: { state: { num_records: table.size } } } }
+  }
+
+  // ==================== HARVEST ====================
+
+  private registerPlan(body: any): MockResult {
+    if (!body?.identifier || !body.extract?.uri) fail(400, 'Harvest plan requires an identifier and extract.uri')
+    this.plans.set(body.identifier, body)
+    return { body: { identifier: body.identifier } }
+  }
+
+  private listRuns(planId: string | null): string[] {
+    return this.runs.filter((run) => !planId || run.plan === planId).map(({ run }) => run.identifier)
+  }
+
+  /**
+   * Load the plan's source datasets: new and changed ones are saved, and datasets from the
+   * previous run that the source no longer lists are orphaned.
+   */
+  private runHarvest(planId: unknown): MockResult {
+    const plan = typeof planId === 'string' ? this.plans.get(planId) : undefined
+    if (!plan) fail(404, `Harvest plan ${planId} not found`)
+
+    const datasets = clone(this.seed.harvestSources?.[plan.extract.uri] ?? [])
+    const store = this.store('dataset')
+    const load: Record<string, string> = {}
+    for (const dataset of datasets) {
+      const identifier = String(dataset.identifier ?? generateId())
+      const existing = store.get(identifier)
+      const incoming = { ...dataset, identifier }
+      const unchanged = existing
+        && JSON.stringify(withoutDistributionIds(existing.data)) === JSON.stringify(withoutDistributionIds(incoming))
+      if (unchanged) {
+        load[identifier] = 'UNCHANGED'
+      } else {
+        this.saveItem('dataset', incoming)
+        load[identifier] = existing ? 'UPDATED' : 'NEW'
+      }
+    }
+
+    const previous = [...this.runs].reverse().find((run) => run.plan === plan.identifier)
+    const orphans = (previous?.run.status.extracted_items_ids ?? [])
+      .filter((id: string) => !(id in load) && store.has(id))
+    for (const id of orphans) store.get(id)!.revisions.unshift(this.revision('orphaned'))
+
+    const identifier = String(Math.max(Math.floor(Date.now() / 1000), this.lastRun + 1))
+    this.lastRun = Number(identifier)
+    const run = {
+      identifier,
+      plan: JSON.stringify(plan),
+      status: {
+        extract: 'SUCCESS',
+        extracted_items_ids: Object.keys(load),
+        load,
+        orphan_ids: orphans,
+      },
+    }
+    this.runs.push({ plan: plan.identifier, run })
+    return { body: clone(run) }
+  }
+}
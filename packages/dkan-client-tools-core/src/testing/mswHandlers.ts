@@ -0,0 +1,438 @@
+/**
+ * Mock Service Worker handlers for the DKAN API
+ */
+
+import { http, HttpResponse, delay as wait } from 'msw'
+import type { HttpHandler, JsonBodyType } from 'msw'
+import type { DkanDataset } from '../types'
+import { MockDatastoreTable, decodeQueryParams, unwrapResourceQuery } from './datastoreTable'
+import type { DatastoreResponse } from './datastoreTable'
+import { generateId } from './mockDkanServer'
+import type { MockDkanServer } from './mockDkanServer'
+import { RECORDED_RESPONSES, findRecordedResponse } from './recordedFixtures'
+import type { RecordedResponse } from './recordedFixtures'
+
+/** Request details passed to response factories */
+export interface DkanRequestContext {
+  request: Request
+  url: URL
+  /** Path parameters, e.g. `identifier` or `datasetId` and `index` */
+  params: Record<string, string>
+  /** Parsed JSON request body, if any */
+  body: any
+}
+
+interface EndpointContext extends DkanRequestContext {
+  /** Recorded response of the endpoint's client method */
+  recorded: (method: string) => JsonBodyType
+  /** Revision ids handed out by createRevision */
+  nextRevision: () => string
+}
+
+interface Endpoint {
+  method: 'get' | 'post' | 'put' | 'patch' | 'delete' | 'all'
+  path: string
+  /**
+   * Default response; the endpoint's recorded response when omitted. Returning undefined
+   * falls through to the next handler.
+   */
+  respond?: (context: EndpointContext) => JsonBodyType | Response
+  /** Reject requests the path pattern also matches but another endpoint owns */
+  matches?: (params: Record<string, string>) => boolean
+}
+
+const DATASET_ITEMS = '/api/1/metastore/schemas/dataset/items'
+const DICTIONARY_ITEMS = '/api/1/metastore/schemas/data-dictionary/items'
+const REVISIONS = '/api/1/metastore/schemas/:schemaId/items/:identifier/revisions'
+
+/** `/query/:datasetId/:index` also matches distribution downloads (`/query/:distributionId/download`) */
+const notDownload = ({ index }: Record<string, string>) => index !== 'download'
+
+function created(items: string) {
+  return ({ body }: EndpointContext) => {
+    const identifier = body?.identifier ?? generateId()
+    return { endpoint: `${items}/${identifier}`, identifier }
+  }
+}
+
+function updated(items: string) {
+  return ({ params }: EndpointContext) => ({
+    endpoint: `${items}/${params.identifier}`,
+    identifier: params.identifier,
+  })
+}
+
+function deleted(label: string) {
+  return ({ params }: EndpointContext) => ({ message: `${label} ${params.identifier} has been deleted.` })
+}
+
+/** Datastore query options from the query string or JSON body */
+function queryOptions({ request, url, body }: DkanRequestContext): Record<string, any> {
+  return request.method === 'GET' ? decodeQueryParams(url) : body ?? {}
+}
+
+/** The recorded query response, or its rows as CSV when the request asks for a download */
+function recordedQuery(context: EndpointContext, download = false) {
+  const recorded = context.recorded('queryDatastore') as { results?: Record<string, unknown>[] } | undefined
+  const format = queryOptions(context).format ?? (download ? 'csv' : 'json')
+  if (format !== 'csv') return recorded
+  const rows = recorded?.results ?? []
+  return new HttpResponse(MockDatastoreTable.toCsv(rows, Object.keys(rows[0] ?? {})), {
+    headers: { 'Content-Type': 'text/csv' },
+  })
+}
+
+/**
+ * DKAN API endpoints by the DkanApiClient method that calls them. Declaration order is match
+ * order: specific paths come before the generic ones that would also match them.
+ */
+const ENDPOINTS = {
+  getDataset: { method: 'get', path: `${DATASET_ITEMS}/:identifier` },
+  listAllDatasets: {
+    method: 'get',
+    path: DATASET_ITEMS,
+    // getSchemaItems('dataset', { showReferenceIds: true }) has its own recording
+    respond: ({ url, recorded }) =>
+      url.searchParams.has('show-reference-ids') ? undefined : recorded('listAllDatasets'),
+  },
+  createDataset: { method: 'post', path: DATASET_ITEMS, respond: created(DATASET_ITEMS) },
+  updateDataset: { method: 'put', path: `${DATASET_ITEMS}/:identifier`, respond: updated(DATASET_ITEMS) },
+  patchDataset: { method: 'patch', path: `${DATASET_ITEMS}/:identifier`, respond: updated(DATASET_ITEMS) },
+  deleteDataset: { method: 'delete', path: `${DATASET_ITEMS}/:identifier`, respond: deleted('Dataset') },
+  searchDatasets: { method: 'get', path: '/api/1/search' },
+  getDatasetFacets: { method: 'get', path: '/api/1/search/facets' },
+
+  downloadQuery: {
+    method: 'get',
+    path: '/api/1/datastore/query/:datasetId/:index/download',
+    respond: (context) => recordedQuery(context, true),
+  },
+  downloadQueryByDistribution: {
+    method: 'get',
+    path: '/api/1/datastore/query/:distributionId/download',
+    respond: (context) => recordedQuery(context, true),
+  },
+  getDatastoreSchema: {
+    method: 'get',
+    path: '/api/1/datastore/query/:datasetId/:index',
+    matches: notDownload,
+    // Other GETs on this path are queries
+    respond: ({ url, recorded }) =>
+      url.searchParams.get('schema') === 'true' ? recorded('getDatastoreSchema') : undefined,
+  },
+  queryDatastore: {
+    method: 'all',
+    path: '/api/1/datastore/query/:datasetId/:index',
+    matches: notDownload,
+    respond: (context) => recordedQuery(context),
+  },
+  queryDatastoreByDistribution: {
+    method: 'all',
+    path: '/api/1/datastore/query/:distributionId',
+    respond: (context) => recordedQuery(context),
+  },
+  queryDatastoreMulti: { method: 'all', path: '/api/1/datastore/query' },
+  querySql: { method: 'all', path: '/api/1/datastore/sql' },
+
+  listDataDictionaries: { method: 'get', path: DICTIONARY_ITEMS },
+  getDataDictionary: { method: 'get', path: `${DICTIONARY_ITEMS}/:identifier` },
+  createDataDictionary: { method: 'post', path: DICTIONARY_ITEMS, respond: created(DICTIONARY_ITEMS) },
+  updateDataDictionary: {
+    method: 'put',
+    path: `${DICTIONARY_ITEMS}/:identifier`,
+    respond: updated(DICTIONARY_ITEMS),
+  },
+  deleteDataDictionary: {
+    method: 'delete',
+    path: `${DICTIONARY_ITEMS}/:identifier`,
+    respond: deleted('Data-dictionary'),
+  },
+
+  listSchemas: { method: 'get', path: '/api/1/metastore/schemas' },
+  getSchema: { method: 'get', path: '/api/1/metastore/schemas/:schemaId' },
+  getSchemaItems: { method: 'get', path: '/api/1/metastore/schemas/:schemaId/items' },
+
+  getRevisions: { method: 'get', path: REVISIONS },
+  getRevision: { method: 'get', path: `${REVISIONS}/:revisionId` },
+  createRevision: {
+    method: 'post',
+    path: REVISIONS,
+    respond: ({ url, nextRevision }) => {
+      const identifier = nextRevision()
+      return { endpoint: `${url.pathname}/${identifier}`, identifier }
+    },
+  },
+
+  listHarvestPlans: { method: 'get', path: '/api/1/harvest/plans' },
+  getHarvestPlan: { method: 'get', path: '/api/1/harvest/plans/:planId' },
+  registerHarvestPlan: {
+    method: 'post',
+    path: '/api/1/harvest/plans',
+    respond: ({ body }) => ({ identifier: body?.identifier }),
+  },
+  listHarvestRuns: { method: 'get', path: '/api/1/harvest/runs' },
+  getHarvestRun: { method: 'get', path: '/api/1/harvest/runs/:runId' },
+  runHarvest: {
+    method: 'post',
+    path: '/api/1/harvest/runs',
+    respond: () => ({
+      identifier: String(Math.floor(Date.now() / 1000)),
+      status: { extract: 'SUCCESS', extracted_items_ids: [], load: {}, orphan_ids: [] },
+    }),
+  },
+
+  listDatastoreImports: { method: 'get', path: '/api/1/datastore/imports' },
+  triggerDatastoreImport: {
+    method: 'post',
+    path: '/api/1/datastore/imports',
+    respond: () => ({ status: 'done', importer: { state: { num_records: 0 } } }),
+  },
+  getDatastoreStatistics: { method: 'get', path: '/api/1/datastore/imports/:identifier' },
+  deleteDatastore: {
+    method: 'delete',
+    path: '/api/1/datastore/imports/:identifier',
+    respond: ({ params }) => ({ message: `Successfully dropped the datastore for resource ${params.identifier}` }),
+  },
+} satisfies Record<string, Endpoint>
+
+/**
+ * A mocked DKAN API endpoint, named after the DkanApiClient method that calls it.
+ * Streaming downloads share their endpoint with downloadQuery and downloadQueryByDistribution;
+ * iterateDatastoreByDistribution and downloads with query options use queryDatastoreByDistribution.
+ */
+export type DkanEndpoint = keyof typeof ENDPOINTS
+
+/** Options shared by every handler factory */
+export interface MockDkanHandlerOptions {
+  /** Origin (and optional path prefix) to answer on; any origin when omitted */
+  baseUrl?: string
+  /** Milliseconds to wait before responding, to simulate latency */
+  delay?: number
+  /** Answer the first matching request only, then fall through to the next handler */
+  once?: boolean
+}
+
+export interface DkanHandlersOptions extends Omit<MockDkanHandlerOptions, 'once'> {
+  /**
+   * Recorded responses to answer reads with, as saved by `npm run record:api`.
+   * Defaults to the responses recorded in this package.
+   */
+  recordings?: RecordedResponse[]
+  /** Answer from a stateful MockDkanServer instead of recordings; `baseUrl` defaults to the server's */
+  server?: MockDkanServer
+}
+
+/** JSON response body or a Response, or a factory computing one from the request */
+export type MockDkanBody =
+  | JsonBodyType
+  | Response
+  | ((context: DkanRequestContext) => JsonBodyType | Response)
+
+function endpointUrl(endpoint: DkanEndpoint, baseUrl = '*'): string {
+  return `${baseUrl.replace(/\/$/, '')}${ENDPOINTS[endpoint].path}`
+}
+
+async function requestContext(request: Request, params: Record<string, unknown>): Promise<DkanRequestContext> {
+  const text = request.method === 'GET' ? '' : await request.clone().text()
+  let body: unknown
+  try {
+    body = text ? JSON.parse(text) : undefined
+  } catch {
+    body = text
+  }
+  return { request, url: new URL(request.url), params: params as Record<string, string>, body }
+}
+
+function toResponse(body: JsonBodyType | Response, status = 200): Response {
+  return body instanceof Response ? body : HttpResponse.json(body, { status })
+}
+
+/** Handler for one endpoint; a resolver returning undefined falls through to the next handler */
+function endpointHandler(
+  endpoint: DkanEndpoint,
+  options: MockDkanHandlerOptions,
+  resolve: (context: DkanRequestContext) => Response | undefined | Promise<Response | undefined>
+): HttpHandler {
+  const { method, matches } = ENDPOINTS[endpoint] as Endpoint
+  return http[method](
+    endpointUrl(endpoint, options.baseUrl),
+    async ({ request, params }) => {
+      if (matches && !matches(params as Record<string, string>)) return undefined
+      const response = await resolve(await requestContext(request, params))
+      if (response && options.delay) await wait(options.delay)
+      return response
+    },
+    { once: options.once }
+  )
+}
+
+/** DKAN's error body */
+function errorBody(status: number, message: string) {
+  return { message, status, timestamp: new Date().toISOString() }
+}
+
+/**
+ * MSW handlers for every DkanApiClient endpoint. Reads answer with responses recorded from a
+ * live DKAN site; writes echo the identifiers they were sent. Endpoints without a recording
+ * answer 404. Pass `server` to answer from a stateful MockDkanServer instead.
+ *
+ * Override individual endpoints with `server.use()` and the mockDkan* factories.
+ *
+ * @example
+ * ```typescript
+ * import { setupServer } from 'msw/node'
+ * import { createDkanHandlers, mockDkanError } from '@dkan-client-tools/core/testing'
+ *
+ * const server = setupServer(...createDkanHandlers())
+ * beforeAll(() => server.listen())
+ * afterEach(() => server.resetHandlers())
+ * afterAll(() => server.close())
+ *
+ * it('shows an error when the dataset is missing', async () => {
+ *   server.use(mockDkanError('getDataset', 404, 'Dataset not found'))
+ *   // ...
+ * })
+ * ```
+ */
+export function createDkanHandlers(options: DkanHandlersOptions = {}): HttpHandler[] {
+  const { server } = options
+  if (server) {
+    return [
+      http.all(`${(options.baseUrl ?? server.baseUrl).replace(/\/$/, '')}/api/1/*`, async ({ request }) => {
+        const response = await server.handle(request)
+        if (options.delay) await wait(options.delay)
+        return response
+      }),
+    ]
+  }
+
+  const recordings = options.recordings ?? RECORDED_RESPONSES
+  // Recordings are parsed JSON responses
+  const recorded = (method: string) => findRecordedResponse(recordings, method)?.response as JsonBodyType
+  let lastRevision = 0
+  const nextRevision = () => String(++lastRevision)
+
+  return (Object.keys(ENDPOINTS) as DkanEndpoint[]).map((endpoint) => {
+    const { respond } = ENDPOINTS[endpoint] as Endpoint
+    return endpointHandler(endpoint, options, (context) => {
+      const body = respond ? respond({ ...context, recorded, nextRevision }) : recorded(endpoint)
+      if (body !== undefined) return toResponse(body)
+      // Endpoints with a custom response fall through; unrecorded reads answer 404
+      if (respond) return undefined
+      return HttpResponse.json(errorBody(404, `No recorded response for ${endpoint}`), { status: 404 })
+    })
+  })
+}
+
+/**
+ * Answer an endpoint with a fixed or computed response.
+ * @param body - Response body, a Response, or a factory receiving the request, path params and JSON body
+ * @param options - Status code, latency, `once` and origin
+ *
+ * @example
+ * ```typescript
+ * server.use(mockDkanResponse('getDataset', ({ params }) => ({ identifier: params.identifier, title: 'Parks' })))
+ * ```
+ */
+export function mockDkanResponse(
+  endpoint: DkanEndpoint,
+  body: MockDkanBody,
+  options: MockDkanHandlerOptions & { status?: number } = {}
+): HttpHandler {
+  return endpointHandler(endpoint, options, (context) =>
+    toResponse(typeof body === 'function' ? body(context) : body, options.status)
+  )
+}
+
+/**
+ * Answer an endpoint with a DKAN error (`{ message, status, timestamp }`).
+ *
+ * @example
+ * ```typescript
+ * // Fail once, then answer normally: exercises retries
+ * server.use(mockDkanError('searchDatasets', 503, 'Service Unavailable', { once: true }))
+ * ```
+ */
+export function mockDkanError(
+  endpoint: DkanEndpoint,
+  status: number,
+  message = 'Error',
+  options: MockDkanHandlerOptions = {}
+): HttpHandler {
+  return endpointHandler(endpoint, options, () => HttpResponse.json(errorBody(status, message), { status }))
+}
+
+/** Fail requests to an endpoint at the network level, as when the site is unreachable */
+export function mockDkanNetworkError(endpoint: DkanEndpoint, options: MockDkanHandlerOptions = {}): HttpHandler {
+  return endpointHandler(endpoint, options, () => HttpResponse.error())
+}
+
+/**
+ * Answer dataset searches from a list, paged by `page` and `page-size` as DKAN does.
+ * Filters are not applied; pass the datasets a search should match.
+ * @param options.facets - Facets to return with every page
+ */
+export function mockDkanSearch(
+  datasets: Array<Partial<DkanDataset>>,
+  options: MockDkanHandlerOptions & { facets?: Array<{ type: string; name: string; total: number | string }> } = {}
+): HttpHandler {
+  return endpointHandler('searchDatasets', options, ({ url }) => {
+    const page = Math.max(Number(url.searchParams.get('page') ?? 1) || 1, 1)
+    const pageSize = Number(url.searchParams.get('page-size') ?? 10) || 10
+    const results = datasets.slice((page - 1) * pageSize, page * pageSize)
+    return HttpResponse.json({
+      total: String(datasets.length),
+      results: Object.fromEntries(results.map((dataset, i) => [`dkan_dataset/${dataset.identifier ?? i}`, dataset])),
+      facets: options.facets ?? [],
+    })
+  })
+}
+
+/**
+ * Answer every datastore query endpoint (by dataset, by distribution, multi-resource and
+ * downloads) from a list of rows, applying conditions, sorts and limit/offset paging.
+ * Invalid queries answer 400.
+ *
+ * @example
+ * ```typescript
+ * server.use(...mockDkanDatastore([{ name: 'Riverside', acres: '12' }, { name: 'Hilltop', acres: '4' }]))
+ * for await (const row of client.iterateDatastore('parks', 0, {}, { pageSize: 1 })) { ... }
+ * ```
+ */
+export function mockDkanDatastore(
+  rows: Record<string, unknown>[],
+  options: MockDkanHandlerOptions = {}
+): HttpHandler[] {
+  const table = new MockDatastoreTable(rows)
+  const answer = (run: () => DatastoreResponse) => {
+    try {
+      const { body, contentType } = run()
+      return contentType
+        ? new HttpResponse(String(body), { headers: { 'Content-Type': contentType } })
+        : HttpResponse.json(body)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      return HttpResponse.json(errorBody(400, message), { status: 400 })
+    }
+  }
+
+  const resourceId = (params: Record<string, string>) =>
+    params.distributionId ?? `${params.datasetId}/${params.index}`
+  const byResource = (endpoint: DkanEndpoint, download = false) =>
+    endpointHandler(endpoint, options, (context) =>
+      answer(() => table.respond(resourceId(context.params), queryOptions(context), download))
+    )
+
+  return [
+    byResource('downloadQuery', true),
+    byResource('downloadQueryByDistribution', true),
+    byResource('queryDatastore'),
+    byResource('queryDatastoreByDistribution'),
+    endpointHandler('queryDatastoreMulti', options, (context) =>
+      answer(() => {
+        const { resourceId: id, options: query } = unwrapResourceQuery(queryOptions(context))
+        return table.respond(id, query)
+      })
+    ),
+  ]
+}
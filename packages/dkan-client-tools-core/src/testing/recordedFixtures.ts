@@ -0,0 +1,54 @@
+/**
+ * Responses recorded from a live DKAN site by `npm run record:api`, bundled as the default
+ * answers of the MSW handlers.
+ */
+
+import datasetFixtures from './fixtures/dataset-operations.json'
+import datastoreFixtures from './fixtures/datastore-operations.json'
+import dataDictionaryFixtures from './fixtures/data-dictionary.json'
+import harvestFixtures from './fixtures/harvest.json'
+import datastoreImportsFixtures from './fixtures/datastore-imports.json'
+import metastoreFixtures from './fixtures/metastore.json'
+import revisionsFixtures from './fixtures/revisions.json'
+
+/**
+ * Recorded API response structure
+ */
+export interface RecordedResponse {
+  /** DkanApiClient method that made the request */
+  method: string
+  category: string
+  endpoint: string
+  timestamp: string
+  request?: Record<string, unknown> | unknown
+  response?: Record<string, unknown> | unknown
+  status?: number
+  responseTime?: number
+  error?: string
+  skipped?: boolean
+  skipReason?: string
+}
+
+/** Every recorded API operation, in recording order */
+export const RECORDED_RESPONSES: RecordedResponse[] = [
+  ...datasetFixtures,
+  ...datastoreFixtures,
+  ...dataDictionaryFixtures,
+  ...harvestFixtures,
+  ...datastoreImportsFixtures,
+  ...metastoreFixtures,
+  ...revisionsFixtures,
+] as RecordedResponse[]
+
+/**
+ * Find the recorded response of a client method.
+ * @returns The first successful recording, or undefined if the method was skipped or failed
+ */
+export function findRecordedResponse(
+  recordings: RecordedResponse[],
+  method: string
+): RecordedResponse | undefined {
+  return recordings.find((recording) =>
+    recording.method === method && !recording.skipped && !recording.error && recording.response !== undefined
+  )
+}
@@ -2,6 +2,9 @@
  * Core types for DKAN data structures based on DCAT-US schema
  */
 
+import type { SqlQueryInput } from './query/sqlQuery'
+import type { DatasetChange } from './diff/diffDatasets'
+
 /**
  * DKAN Dataset following DCAT-US / Project Open Data schema
  */
@@ -31,6 +34,14 @@ export interface DkanDataset {
   [key: string]: any
 }
 
+/**
+ * JSON Merge Patch (RFC 7386) for a dataset: properties to set, with `null` removing a
+ * property. Nested objects merge; arrays replace.
+ */
+export type DatasetMergePatch = {
+  [K in keyof DkanDataset]?: DkanDataset[K] | null
+}
+
 export interface Publisher {
   name: string
   '@type'?: string
@@ -70,6 +81,10 @@ export interface DkanApiResponse<T> {
   data: T
   status?: number
   statusText?: string
+  /** Response headers (ETag, Last-Modified, Cache-Control, ...) */
+  headers?: Headers
+  /** True when the server answered 304 Not Modified and `data` is the previously cached payload */
+  notModified?: boolean
 }
 
 export interface DkanSearchResponse {
@@ -78,6 +93,37 @@ export interface DkanSearchResponse {
   facets?: Record<string, any>
 }
 
+/** Result of getDatasets(): successes and failures are reported separately */
+export interface DatasetBatchResult {
+  /** Datasets fetched successfully, in the order their identifiers were given */
+  datasets: DkanDataset[]
+  /** Identifiers that could not be fetched, with the error for each */
+  errors: Array<{ identifier: string; error: DkanApiError }>
+}
+
+/** Paging options for iterateSearch(); the search's own page/page-size act as defaults */
+export interface SearchIterateOptions extends DkanRequestOptions {
+  /** Datasets requested per page. @default 100 */
+  pageSize?: number
+  /** 1-based page to start from, e.g. a previous page's `nextPage` to resume. @default 1 */
+  page?: number
+  /** Stop after this many datasets. @default all results */
+  maxResults?: number
+}
+
+/** One page of datasets yielded by iterateSearch().pages() */
+export interface SearchPage {
+  /** Datasets not already yielded by an earlier page */
+  results: DkanDataset[]
+  /** 1-based page number */
+  page: number
+  /** Page to pass as `page` to resume after this page */
+  nextPage: number
+  /** Total matching datasets reported by DKAN */
+  total: number
+  facets?: Record<string, any>
+}
+
 /**
  * Facets API response structure
  */
@@ -133,8 +179,8 @@ export interface DatasetQueryOptions {
 
 export interface DatastoreQueryOptions {
   // Query structure
-  conditions?: DatastoreCondition[]
-  properties?: string[]
+  conditions?: Array<DatastoreCondition | DatastoreConditionGroup>
+  properties?: DatastoreProperty[]
   sorts?: DatastoreSort[]
   limit?: number
   offset?: number
@@ -154,20 +200,97 @@ export interface DatastoreQueryOptions {
   rowIds?: boolean         // Include row IDs (default: false)
 }
 
+/** Paging options for iterateDatastore(); the query's own limit/offset act as defaults for maxRows/offset */
+export interface DatastoreIterateOptions extends DkanRequestOptions {
+  /** Rows requested per page, capped at DKAN's default `rows_limit` of 500. @default 500 */
+  pageSize?: number
+  /** Row offset to start from, e.g. a previous page's `nextOffset` to resume. @default 0 */
+  offset?: number
+  /** Stop after this many rows. @default all rows */
+  maxRows?: number
+  /** Maximum number of page requests in flight at once. Pages are still yielded in order. @default 1 */
+  concurrency?: number
+}
+
+/** One page of rows yielded by iterateDatastore().pages() */
+export interface DatastorePage {
+  results: Record<string, any>[]
+  /** Offset of the first row in this page */
+  offset: number
+  /** Offset to pass as `offset` to resume after this page */
+  nextOffset: number
+  /** Total matching rows reported by DKAN for the first request */
+  count: number
+  schema?: DatastoreSchema
+}
+
+/** Comparison operators accepted by the DKAN datastore query API */
+export type DatastoreOperator =
+  | '='
+  | '!='
+  | '<>'
+  | '>'
+  | '<'
+  | '>='
+  | '<='
+  | 'like'
+  | 'match'
+  | 'in'
+  | 'not in'
+  | 'between'
+  | 'contains'
+  | 'starts with'
+
 export interface DatastoreCondition {
   property: string
+  /** Array for `in`/`not in`, `[min, max]` for `between` */
   value: any
-  operator?: '=' | '!=' | '>' | '<' | '>=' | '<=' | 'like' | 'match'
+  operator?: DatastoreOperator
+  /** Resource alias in multi-resource queries */
+  resource?: string
+}
+
+/** Nested AND/OR group of conditions */
+export interface DatastoreConditionGroup {
+  groupOperator: 'and' | 'or'
+  conditions: Array<DatastoreCondition | DatastoreConditionGroup>
+}
+
+/** Property qualified by resource alias */
+export interface DatastoreResourceProperty {
+  resource: string
+  property: string
 }
 
+/** Computed column, e.g. `{ alias: 'total', expression: { operator: 'sum', operands: ['amount'] } }` */
+export interface DatastoreExpressionProperty {
+  alias: string
+  expression: {
+    operator: 'sum' | 'count' | 'avg' | 'max' | 'min' | '+' | '-' | '*' | '/' | '%'
+    operands: Array<string | number | DatastoreResourceProperty>
+  }
+}
+
+export type DatastoreProperty = string | DatastoreResourceProperty | DatastoreExpressionProperty
+
 export interface DatastoreSort {
   property: string
   order: 'asc' | 'desc'
+  /** Resource alias in multi-resource queries */
+  resource?: string
 }
 
 export interface DatastoreJoin {
   resource: string
-  condition: string
+  condition: string | DatastoreJoinCondition
+}
+
+/** Join condition matching a property of one resource to a property of another */
+export interface DatastoreJoinCondition {
+  resource: string
+  property: string
+  operator?: DatastoreOperator
+  value: DatastoreResourceProperty
 }
 
 export interface DatastoreExpression {
@@ -182,20 +305,182 @@ export interface DkanClientConfig {
   baseUrl: string
   auth?: DkanAuth
   defaultOptions?: DkanDefaultOptions
+  /** Custom fetch implementation (proxies, Node polyfills, test doubles). @default globalThis.fetch */
+  fetch?: DkanTransport
+  /** Interceptors applied to every request, in array order */
+  interceptors?: DkanInterceptor[]
+  /**
+   * Share one HTTP request between identical concurrent GETs. Joined callers receive the same
+   * response data; the first caller's timeout and retry options apply. @default true
+   */
+  dedupeRequests?: boolean
+  /**
+   * Remember ETag/Last-Modified validators per URL and revalidate GETs with If-None-Match and
+   * If-Modified-Since. A 304 response returns the previously received payload.
+   *
+   * Those headers are not CORS-safelisted, so cross-origin GETs trigger a preflight and fail
+   * unless Drupal's `cors.config` `allowedHeaders` lists them. The client also keeps the last
+   * payload of up to 200 URLs in memory. @default false
+   */
+  conditionalRequests?: boolean
+  /** Client-side request rate and concurrency limits, applied to every HTTP request */
+  rateLimit?: RateLimitConfig
+  /** Check responses against DKAN's metastore schemas and built-in response shapes */
+  responseValidation?: ResponseValidationOptions
+}
+
+/**
+ * Runtime checks on response shapes, to catch drift after a DKAN upgrade. Metastore items
+ * are validated against the JSON Schemas served by getSchema(); other endpoints against
+ * built-in schemas.
+ */
+export interface ResponseValidationOptions {
+  /** `warn` reports drift and returns the data anyway; `strict` throws DkanResponseValidationError */
+  mode: 'off' | 'warn' | 'strict'
+  /** Receives drift reports in `warn` mode. @default console.warn */
+  onWarning?: (warning: ResponseValidationWarning) => void
+}
+
+/** Response drift reported in `warn` mode */
+export interface ResponseValidationWarning {
+  /** API path whose response failed validation */
+  endpoint: string
+  violations: DkanValidationViolation[]
+}
+
+/**
+ * Rate limiter categories. Reads are GETs, queries are read-only POSTs (datastore and SQL),
+ * mutations are all other writes, and downloads are file exports.
+ */
+export type DkanRequestCategory = 'read' | 'query' | 'mutation' | 'download'
+
+/** Token-bucket rate and concurrency limits. Omitted limits are unlimited. */
+export interface RateLimit {
+  /** Sustained number of requests started per second */
+  requestsPerSecond?: number
+  /** Requests that may start at once before the rate applies. @default 1 */
+  burst?: number
+  /** Maximum number of requests in flight at once */
+  maxConcurrent?: number
+}
+
+/**
+ * Limits applied to all requests, plus optional per-category limits. A request waits until
+ * both the global and its category's limits allow it to start.
+ */
+export interface RateLimitConfig extends RateLimit {
+  categories?: Partial<Record<DkanRequestCategory, RateLimit>>
+}
+
+/** Snapshot of the rate limiter queue, from DkanApiClient.getRateLimitMetrics() */
+export interface RateLimitMetrics {
+  /** Requests waiting to start */
+  queued: number
+  /** Requests in flight */
+  active: number
+  /** Requests that had to wait since the client was created */
+  totalQueued: number
+  /** Total milliseconds requests spent waiting */
+  totalWaitMs: number
+  /** Longest time a single request waited, in milliseconds */
+  maxWaitMs: number
+  categories: Record<DkanRequestCategory, { queued: number; active: number }>
+}
+
+/** Per-call options accepted as the last argument of every DkanApiClient method */
+export interface DkanRequestOptions {
+  /** Cancels the request and any pending retries when aborted */
+  signal?: AbortSignal
+  /** Abort each attempt that takes longer than this many milliseconds */
+  timeoutMs?: number
+  /** Override the client's retry count for this call */
+  retry?: number
+  /** Override parts of the client's retry policy for this call */
+  retryPolicy?: RetryPolicy
+}
+
+/** Function used to perform HTTP requests. Same signature as `fetch`. */
+export type DkanTransport = (url: string, init: RequestInit) => Promise<Response>
+
+/** Outgoing HTTP request as seen by interceptors */
+export interface DkanRequest {
+  /** Absolute request URL */
+  url: string
+  method: string
+  headers: Record<string, string>
+  body?: string
+  /** Cookie policy passed to the transport; `'include'` with session auth */
+  credentials?: RequestCredentials
+}
+
+/**
+ * Hooks run around every HTTP request made by DkanApiClient, including downloads.
+ * Each hook may return a replacement value or nothing to keep the current one.
+ */
+export interface DkanInterceptor {
+  /** Inspect or replace the outgoing request (add headers, rewrite URLs) */
+  onRequest?: (request: DkanRequest) => DkanRequest | void | Promise<DkanRequest | void>
+  /** Inspect or replace the response before status checks and parsing */
+  onResponse?: (
+    response: Response,
+    request: DkanRequest
+  ) => Response | void | Promise<Response | void>
+  /** Observe failures (network errors and non-2xx responses). Throw to replace the error. */
+  onError?: (error: DkanApiError, request: DkanRequest) => void | Promise<void>
 }
 
+/**
+ * Supplies bearer tokens, e.g. from an OAuth library. Called before each request, so it
+ * should cache the token itself; `forceRefresh` is set after the server rejected a token with 401.
+ */
+export type DkanTokenProvider = (options: { forceRefresh: boolean }) => string | Promise<string>
+
 /** Authentication for DKAN API. Basic Auth works with DKAN 2.x, tokens require additional modules. */
 export interface DkanAuth {
   username?: string
   password?: string
   token?: string
+  /** Token source for tokens that expire; takes precedence over `token` */
+  getToken?: DkanTokenProvider
+  /** Called when getToken() fails or a refreshed token is still rejected with 401 */
+  onAuthFailure?: (error: DkanAuthError) => void
+  /**
+   * Authenticate with the browser's Drupal session cookie. Requests are sent with
+   * `credentials: 'include'`, and writes carry an `X-CSRF-Token` fetched from `/session/token`.
+   * Ignored when a token or username/password is given.
+   */
+  session?: boolean
 }
 
 export interface DkanDefaultOptions {
   retry?: number
+  /** Base delay in milliseconds for the first retry */
   retryDelay?: number
   staleTime?: number
   cacheTime?: number
+  /** Controls which failures DkanApiClient retries and how long it waits */
+  retryPolicy?: RetryPolicy
+}
+
+/**
+ * Retry behaviour for DkanApiClient requests. Network errors and timeouts are always
+ * retryable; HTTP errors only when their status is listed.
+ */
+export interface RetryPolicy {
+  /** HTTP statuses worth retrying. @default [408, 429, 500, 502, 503, 504] */
+  retryableStatusCodes?: number[]
+  /** Only retry GET, HEAD, OPTIONS, PUT and DELETE so writes are never double-submitted. @default true */
+  idempotentOnly?: boolean
+  /** Multiplier applied to retryDelay after each attempt. @default 2 */
+  backoffFactor?: number
+  /** Upper bound for a single retry delay in milliseconds, Retry-After included. @default 30000 */
+  maxDelay?: number
+  /** Randomize each delay between 0 and the backoff value ("full jitter"). @default true */
+  jitter?: boolean
+  /** Wait as long as the server's Retry-After header asks, up to maxDelay. @default true */
+  respectRetryAfter?: boolean
+  /** Stop retrying once this many milliseconds have passed since the first attempt. @default Infinity */
+  maxElapsedTime?: number
 }
 
 /**
@@ -277,6 +562,78 @@ export class DkanApiError extends Error {
     super(message)
     this.name = 'DkanApiError'
   }
+
+  /** Delay in milliseconds requested by the server's Retry-After header */
+  retryAfter?: number
+}
+
+/** 404 - the dataset, distribution, or other resource does not exist */
+export class DkanNotFoundError extends DkanApiError {
+  constructor(...args: ConstructorParameters<typeof DkanApiError>) {
+    super(...args)
+    this.name = 'DkanNotFoundError'
+  }
+}
+
+/** 401/403 - missing or insufficient credentials */
+export class DkanAuthError extends DkanApiError {
+  constructor(...args: ConstructorParameters<typeof DkanApiError>) {
+    super(...args)
+    this.name = 'DkanAuthError'
+  }
+}
+
+/** A single JSON Schema violation reported by the metastore */
+export interface DkanValidationViolation {
+  /** Dot-separated path to the offending property (e.g. `contactPoint.hasEmail`), empty for the root */
+  property: string
+  message: string
+  /** JSON Schema keyword that failed (required, format, pattern, ...) */
+  keyword?: string
+}
+
+/** 400/422 - the submitted metadata failed schema validation */
+export class DkanValidationError extends DkanApiError {
+  constructor(
+    message: string,
+    statusCode?: number,
+    response?: any,
+    timestamp?: string,
+    data?: Record<string, any>,
+    public violations: DkanValidationViolation[] = []
+  ) {
+    super(message, statusCode, response, timestamp, data)
+    this.name = 'DkanValidationError'
+  }
+}
+
+/** A response did not match its expected schema (strict response validation) */
+export class DkanResponseValidationError extends DkanApiError {
+  constructor(
+    message: string,
+    /** API path whose response failed validation */
+    public endpoint: string,
+    public violations: DkanValidationViolation[] = []
+  ) {
+    super(message)
+    this.name = 'DkanResponseValidationError'
+  }
+}
+
+/** The request never got a response (DNS, connection, CORS failures) */
+export class DkanNetworkError extends DkanApiError {
+  constructor(message: string) {
+    super(message)
+    this.name = 'DkanNetworkError'
+  }
+}
+
+/** An attempt exceeded its `timeoutMs` */
+export class DkanTimeoutError extends DkanApiError {
+  constructor(message: string, public timeoutMs?: number) {
+    super(message)
+    this.name = 'DkanTimeoutError'
+  }
 }
 
 /**
@@ -382,6 +739,14 @@ export interface MetastoreRevision {
   state: WorkflowState
 }
 
+/** Result of compareRevisions() */
+export interface RevisionComparison {
+  from: MetastoreRevision
+  to: MetastoreRevision
+  /** Changes to state, published, message and modified from `from` to `to` */
+  changes: DatasetChange[]
+}
+
 export interface MetastoreNewRevision {
   message?: string
   state: WorkflowState
@@ -394,12 +759,26 @@ export interface QueryDownloadOptions extends DatastoreQueryOptions {
   format?: 'csv' | 'json'
 }
 
+/** Download progress reported after each received chunk */
+export interface DownloadProgress {
+  /** Bytes received so far */
+  loaded: number
+  /** Total bytes from the Content-Length header, when the server sends one */
+  total?: number
+}
+
+/** Request options for downloads, adding progress reporting */
+export interface DownloadRequestOptions extends DkanRequestOptions {
+  /** Called once the response starts and after every chunk received */
+  onProgress?: (progress: DownloadProgress) => void
+}
+
 /**
  * SQL Query types
  */
 export interface SqlQueryOptions {
-  /** SQL query in DKAN bracket syntax: `[SELECT cols FROM dist-id][WHERE...][ORDER BY...][LIMIT n];` */
-  query: string
+  /** SQL query in DKAN bracket syntax: `[SELECT cols FROM dist-id][WHERE...][ORDER BY...][LIMIT n];`, or a sqlQuery() builder */
+  query: SqlQueryInput
 
   /** Return database column names instead of human-readable descriptions. @default false */
   show_db_columns?: boolean
@@ -0,0 +1,219 @@
+/**
+ * Minimal JSON Schema validator for DKAN metastore schemas.
+ *
+ * Covers the draft-04 to 2020-12 keywords DKAN's bundled schemas (dataset, distribution,
+ * publisher, data-dictionary, ...) rely on: types, enums, object and array constraints,
+ * string patterns and formats, numeric bounds, combinators and local `$ref`s. Unknown
+ * keywords and formats are ignored, so a schema using features outside this set validates
+ * more leniently rather than failing.
+ *
+ * @example
+ * ```typescript
+ * const schema = await client.getSchema('dataset')
+ * const violations = validateJsonSchema(dataset, schema)
+ * // [{ property: 'contactPoint.hasEmail', message: 'Must match pattern ...', keyword: 'pattern' }]
+ * ```
+ */
+
+import type { DkanValidationViolation, JsonSchema } from '../types'
+
+type Schema = JsonSchema | boolean
+
+const FORMATS: Record<string, RegExp> = {
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  uri: /^[a-z][a-z\d+.-]*:[^\s]*$/i,
+  iri: /^[a-z][a-z\d+.-]*:[^\s]*$/i,
+  'uri-reference': /^[^\s]*$/,
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  'date-time': /^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/i,
+}
+
+const patterns = new Map<string, RegExp | null>()
+
+/** Compile a schema pattern once. DKAN's patterns use escapes (`\_`, `\~`) invalid in unicode mode. */
+function compilePattern(pattern: string): RegExp | null {
+  if (!patterns.has(pattern)) {
+    try {
+      patterns.set(pattern, new RegExp(pattern))
+    } catch {
+      patterns.set(pattern, null)
+    }
+  }
+  return patterns.get(pattern)!
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  return typeof value
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value)
+  if (type === 'integer') return actual === 'number' && Number.isInteger(value)
+  return actual === type
+}
+
+function join(path: string, key: string | number): string {
+  return path ? `${path}.${key}` : String(key)
+}
+
+function resolveRef(ref: string, root: JsonSchema): Schema | undefined {
+  if (!ref.startsWith('#')) return undefined
+  return ref
+    .slice(1)
+    .split('/')
+    .filter(Boolean)
+    .map((part) => decodeURIComponent(part).replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce<any>((node, part) => node?.[part], root)
+}
+
+function equal(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+function validate(
+  value: unknown,
+  schema: Schema,
+  root: JsonSchema,
+  path: string,
+  violations: DkanValidationViolation[]
+): void {
+  if (schema === true) return
+  if (schema === false) {
+    violations.push({ property: path, message: 'No value is allowed here', keyword: 'false' })
+    return
+  }
+
+  const add = (keyword: string, message: string, property = path) =>
+    violations.push({ property, message, keyword })
+
+  if (typeof schema.$ref === 'string') {
+    const target = resolveRef(schema.$ref, root)
+    if (target !== undefined) validate(value, target, root, path, violations)
+    // Keywords next to $ref are applied as well (draft 2019-09 semantics)
+  }
+
+  if (schema.type !== undefined) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type]
+    if (!types.some((type) => matchesType(value, type))) {
+      add('type', `Must be of type ${types.join(' or ')}, got ${typeOf(value)}`)
+      return
+    }
+  }
+
+  if (schema.enum && !schema.enum.some((option: unknown) => equal(option, value))) {
+    add('enum', `Must be one of: ${schema.enum.map((option: unknown) => JSON.stringify(option)).join(', ')}`)
+  }
+  if ('const' in schema && !equal(schema.const, value)) {
+    add('const', `Must equal ${JSON.stringify(schema.const)}`)
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && [...value].length < schema.minLength) {
+      add('minLength', `Must be at least ${schema.minLength} characters long`)
+    }
+    if (schema.maxLength !== undefined && [...value].length > schema.maxLength) {
+      add('maxLength', `Must be at most ${schema.maxLength} characters long`)
+    }
+    const pattern = typeof schema.pattern === 'string' ? compilePattern(schema.pattern) : null
+    if (pattern && !pattern.test(value)) {
+      add('pattern', `Must match pattern ${schema.pattern}`)
+    }
+    const format = FORMATS[schema.format]
+    if (format && !format.test(value)) {
+      add('format', `Must be a valid ${schema.format}`)
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      add('minimum', `Must be at least ${schema.minimum}`)
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      add('maximum', `Must be at most ${schema.maximum}`)
+    }
+    if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) {
+      add('exclusiveMinimum', `Must be greater than ${schema.exclusiveMinimum}`)
+    }
+    if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) {
+      add('exclusiveMaximum', `Must be less than ${schema.exclusiveMaximum}`)
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      add('minItems', `Must contain at least ${schema.minItems} items`)
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      add('maxItems', `Must contain at most ${schema.maxItems} items`)
+    }
+    if (schema.uniqueItems && new Set(value.map((item) => JSON.stringify(item))).size !== value.length) {
+      add('uniqueItems', 'Items must be unique')
+    }
+    if (Array.isArray(schema.items)) {
+      schema.items.forEach((itemSchema: Schema, i: number) => {
+        if (i < value.length) validate(value[i], itemSchema, root, join(path, i), violations)
+      })
+    } else if (schema.items !== undefined) {
+      value.forEach((item, i) => validate(item, schema.items, root, join(path, i), violations))
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    const object = value as Record<string, unknown>
+    for (const name of schema.required ?? []) {
+      if (!(name in object)) {
+        add('required', `The property ${name} is required`, join(path, name))
+      }
+    }
+
+    const properties: Record<string, Schema> = schema.properties ?? {}
+    for (const [name, propertyValue] of Object.entries(object)) {
+      if (name in properties) {
+        validate(propertyValue, properties[name], root, join(path, name), violations)
+      } else if (schema.additionalProperties === false) {
+        add('additionalProperties', `The property ${name} is not defined`, join(path, name))
+      } else if (typeof schema.additionalProperties === 'object') {
+        validate(propertyValue, schema.additionalProperties, root, join(path, name), violations)
+      }
+    }
+  }
+
+  for (const subschema of schema.allOf ?? []) {
+    validate(value, subschema, root, path, violations)
+  }
+
+  if (schema.anyOf || schema.oneOf) {
+    const options: Schema[] = schema.anyOf ?? schema.oneOf
+    const matched = options.filter((option) => validateJsonSchema(value, option, root).length === 0).length
+    if (schema.anyOf && matched === 0) {
+      add('anyOf', 'Must match at least one of the allowed schemas')
+    } else if (schema.oneOf && matched !== 1) {
+      add('oneOf', matched === 0
+        ? 'Must match one of the allowed schemas'
+        : `Must match exactly one of the allowed schemas, matched ${matched}`)
+    }
+  }
+
+  if (schema.not !== undefined && validateJsonSchema(value, schema.not, root).length === 0) {
+    add('not', 'Must not match the disallowed schema')
+  }
+}
+
+/**
+ * Validate a value against a JSON Schema.
+ * @param value - Parsed JSON value
+ * @param schema - Schema to validate against
+ * @param root - Document that local `$ref`s resolve against (defaults to `schema`)
+ * @returns Violations with dotted property paths (`distribution.0.downloadURL`); empty when valid
+ */
+export function validateJsonSchema(
+  value: unknown,
+  schema: JsonSchema | boolean,
+  root: JsonSchema = typeof schema === 'object' ? schema : {}
+): DkanValidationViolation[] {
+  const violations: DkanValidationViolation[] = []
+  validate(value, schema, root, '', violations)
+  return violations
+}
@@ -0,0 +1,165 @@
+/**
+ * Built-in schemas for DKAN responses that have no metastore schema.
+ *
+ * Metastore items (datasets, data dictionaries, ...) are validated against the schemas the
+ * site serves through getSchema(). Everything else is checked against these, which only pin
+ * down the fields the client and its hooks read; extra properties are always allowed.
+ */
+
+import type { JsonSchema } from '../types'
+
+const stringArray: JsonSchema = { type: 'array', items: { type: 'string' } }
+
+const writeResponse: JsonSchema = {
+  type: 'object',
+  required: ['endpoint', 'identifier'],
+  properties: {
+    endpoint: { type: 'string' },
+    identifier: { type: 'string' },
+  },
+}
+
+// Recorded runs carry the plan as a JSON string and per-stage status objects
+const harvestRun: JsonSchema = {
+  type: 'object',
+  required: ['identifier'],
+  properties: {
+    identifier: { type: 'string' },
+    plan: { type: 'string' },
+    status: {
+      type: 'object',
+      properties: {
+        extract: { type: 'string' },
+        extracted_items_ids: stringArray,
+        load: { type: 'object', additionalProperties: { type: 'string' } },
+      },
+    },
+  },
+}
+
+// Import list entries, keyed by resource id
+const importListEntry: JsonSchema = {
+  type: 'object',
+  properties: {
+    fileName: { type: 'string' },
+    fileFetcherStatus: { type: 'string' },
+    fileFetcherPercentDone: { type: 'number' },
+    importerStatus: { type: 'string' },
+    importerPercentDone: { type: 'number' },
+    importerError: { type: 'string' },
+  },
+}
+
+const revision: JsonSchema = {
+  type: 'object',
+  required: ['identifier', 'published', 'modified', 'state'],
+  properties: {
+    identifier: { type: 'string' },
+    published: { type: 'boolean' },
+    message: { type: 'string' },
+    modified: { type: 'string' },
+    state: { enum: ['draft', 'published', 'hidden', 'archived', 'orphaned'] },
+  },
+}
+
+/**
+ * Response schemas keyed by the client method (or group of methods) they check. They follow
+ * what DKAN 2.x actually returns, which is looser than some of the TypeScript interfaces.
+ */
+export const RESPONSE_SCHEMAS = {
+  /** searchDatasets(), after results are converted from an object to an array */
+  search: {
+    type: 'object',
+    required: ['total', 'results'],
+    properties: {
+      total: { type: 'integer', minimum: 0 },
+      results: {
+        type: 'array',
+        items: {
+          type: 'object',
+          required: ['identifier'],
+          properties: { identifier: { type: 'string' } },
+        },
+      },
+    },
+  },
+  /** Raw datastore query responses, before the schema is flattened */
+  datastoreQuery: {
+    type: 'object',
+    required: ['results'],
+    properties: {
+      results: { type: 'array', items: { type: 'object' } },
+      count: { type: 'integer', minimum: 0 },
+      schema: {
+        type: 'object',
+        additionalProperties: {
+          type: 'object',
+          properties: {
+            fields: { type: 'object', additionalProperties: { type: 'object' } },
+          },
+        },
+      },
+    },
+  },
+  harvestPlan: {
+    type: 'object',
+    required: ['identifier', 'extract', 'load'],
+    properties: {
+      identifier: { type: 'string' },
+      extract: {
+        type: 'object',
+        required: ['type', 'uri'],
+        properties: { type: { type: 'string' }, uri: { type: 'string' } },
+      },
+      transforms: { type: 'array' },
+      load: {
+        type: 'object',
+        required: ['type'],
+        properties: { type: { type: 'string' } },
+      },
+    },
+  },
+  harvestRun,
+  datastoreImports: { type: 'object', additionalProperties: importListEntry },
+  /** triggerDatastoreImport(); the file fetcher and importer stages are only typed when present */
+  datastoreImport: {
+    type: 'object',
+    properties: {
+      status: { type: 'string' },
+      file_fetcher: { type: 'object' },
+      importer: {
+        type: 'object',
+        properties: {
+          state: { type: 'object', properties: { num_records: { type: 'integer', minimum: 0 } } },
+        },
+      },
+    },
+  },
+  datastoreStatistics: {
+    type: 'object',
+    required: ['numOfRows', 'numOfColumns', 'columns'],
+    properties: {
+      numOfRows: { type: 'integer', minimum: 0 },
+      numOfColumns: { type: 'integer', minimum: 0 },
+      columns: { type: 'object' },
+    },
+  },
+  writeResponse,
+  /** registerHarvestPlan(); DKAN answers with the identifier only */
+  harvestPlanWrite: {
+    type: 'object',
+    required: ['identifier'],
+    properties: { identifier: { type: 'string' } },
+  },
+  /** Metastore item and datastore deletions */
+  deleteResponse: {
+    type: 'object',
+    required: ['message'],
+    properties: { message: { type: 'string' } },
+  },
+  /** querySql() rows, keyed by column name or description */
+  sqlQuery: { type: 'array', items: { type: 'object' } },
+  revision,
+  revisions: { type: 'array', items: revision },
+  identifiers: stringArray,
+} satisfies Record<string, JsonSchema>
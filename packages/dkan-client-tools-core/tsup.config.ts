@@ -3,7 +3,7 @@ import { defineConfig } from 'tsup'
 export default defineConfig([
   // ESM and CJS builds for bundlers and Node.js
   {
-    entry: ['src/index.ts'],
+    entry: ['src/index.ts', 'src/node.ts', 'src/testing.ts'],
     format: ['esm', 'cjs'],
     dts: true,
     splitting: false,
@@ -12,7 +12,7 @@ export default defineConfig([
     treeshake: true,
     minify: false,
     outDir: 'dist',
-    external: ['@tanstack/query-core'],
+    external: ['@tanstack/query-core', 'msw'],
   },
   // IIFE build for browsers and Drupal
   {
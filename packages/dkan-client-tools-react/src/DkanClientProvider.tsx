@@ -3,21 +3,32 @@
  * Wraps TanStack Query's QueryClientProvider
  */
 
-import { createContext, useContext, useEffect, type ReactNode } from 'react'
-import { QueryClientProvider } from '@tanstack/react-query'
-import { DkanClient } from '@dkan-client-tools/core'
+import { createContext, useContext, useEffect, useState, type ReactNode } from 'react'
+import { IsRestoringProvider, QueryClientProvider } from '@tanstack/react-query'
+import {
+  DkanClient,
+  persistQueryClient,
+  type PersistQueryClientOptions,
+} from '@dkan-client-tools/core'
 
 const DkanClientContext = createContext<DkanClient | undefined>(undefined)
 
 export interface DkanClientProviderProps {
   client: DkanClient
   children: ReactNode
+  /**
+   * Persist selected queries (search results, facets, schemas by default) across page loads.
+   * Queries wait for the stored cache to be restored before fetching.
+   */
+  persistOptions?: PersistQueryClientOptions
 }
 
 /**
  * Provider component that makes DkanClient and TanStack Query available to all child components
  */
-export function DkanClientProvider({ client, children }: DkanClientProviderProps) {
+export function DkanClientProvider({ client, children, persistOptions }: DkanClientProviderProps) {
+  const [isRestoring, setIsRestoring] = useState(!!persistOptions)
+
   useEffect(() => {
     client.mount()
     return () => {
@@ -25,9 +36,27 @@ export function DkanClientProvider({ client, children }: DkanClientProviderProps
     }
   }, [client])
 
+  // Options are read once per client; changing them later does not restart persistence
+  useEffect(() => {
+    if (!persistOptions) return
+
+    let active = true
+    setIsRestoring(true)
+    const { restored, unsubscribe } = persistQueryClient(client.getQueryClient(), persistOptions)
+    restored.then(() => {
+      if (active) setIsRestoring(false)
+    })
+    return () => {
+      active = false
+      unsubscribe()
+    }
+  }, [client])
+
   return (
     <QueryClientProvider client={client.getQueryClient()}>
-      <DkanClientContext.Provider value={client}>{children}</DkanClientContext.Provider>
+      <IsRestoringProvider value={isRestoring}>
+        <DkanClientContext.Provider value={client}>{children}</DkanClientContext.Provider>
+      </IsRestoringProvider>
     </QueryClientProvider>
   )
 }
@@ -7,6 +7,8 @@ import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { render, screen, waitFor } from '@testing-library/react'
 import { DkanClient, QueryClient } from '@dkan-client-tools/core'
 import { DkanClientProvider, useDkanClient } from '../DkanClientProvider'
+import { useDatasetFacets } from '../useMetastore'
+import { useDataset } from '../useDataset'
 
 // Test component that uses the context
 function TestComponent() {
@@ -149,6 +151,77 @@ describe('DkanClientProvider', () => {
 
     expect(screen.getByText('Inner: https://inner.example.com')).toBeInTheDocument()
   })
+
+  it('should restore persisted queries before fetching', async () => {
+    const facets = { theme: ['Health'], keyword: [], publisher: [] }
+    const storage = {
+      getItem: async () => JSON.stringify({
+        buster: '',
+        timestamp: Date.now(),
+        clientState: {
+          mutations: [],
+          queries: [{
+            queryKey: ['datasets', 'facets'],
+            queryHash: '["datasets","facets"]',
+            state: { data: facets, status: 'success', dataUpdatedAt: Date.now() },
+          }],
+        },
+      }),
+      setItem: vi.fn(),
+      removeItem: vi.fn(),
+    }
+    const getDatasetFacets = vi.spyOn(mockClient, 'getDatasetFacets')
+
+    function FacetsTest() {
+      const { data } = useDatasetFacets()
+      return <div>{data ? `Themes: ${data.theme.join(', ')}` : 'Loading'}</div>
+    }
+
+    render(
+      <DkanClientProvider client={mockClient} persistOptions={{ storage }}>
+        <FacetsTest />
+      </DkanClientProvider>
+    )
+
+    expect(await screen.findByText('Themes: Health')).toBeInTheDocument()
+    expect(getDatasetFacets).not.toHaveBeenCalled()
+  })
+
+  it('should refresh provider tokens for hooks', async () => {
+    const fetch = vi.fn(async (_url: string, init: RequestInit) => {
+      const authorized = (init.headers as Record<string, string>).Authorization === 'Bearer fresh'
+      return {
+        ok: authorized,
+        status: authorized ? 200 : 401,
+        statusText: authorized ? 'OK' : 'Unauthorized',
+        json: async () => ({ identifier: 'abc', title: 'Bike Lanes' }),
+        text: async () => 'Unauthorized',
+      } as Response
+    })
+    const getToken = vi.fn(async ({ forceRefresh }: { forceRefresh: boolean }) =>
+      forceRefresh ? 'fresh' : 'expired'
+    )
+    const client = new DkanClient({
+      queryClient: new QueryClient({ defaultOptions: { queries: { retry: 0 } } }),
+      baseUrl: 'https://test.example.com',
+      auth: { getToken },
+      fetch,
+    })
+
+    function DatasetTest() {
+      const { data } = useDataset({ identifier: 'abc' })
+      return <div>{data ? data.title : 'Loading'}</div>
+    }
+
+    render(
+      <DkanClientProvider client={client}>
+        <DatasetTest />
+      </DkanClientProvider>
+    )
+
+    expect(await screen.findByText('Bike Lanes')).toBeInTheDocument()
+    expect(fetch).toHaveBeenCalledTimes(2)
+  })
 })
 
 describe('useDkanClient', () => {
@@ -72,7 +72,7 @@ describe('useDataDictionary', () => {
         expect(screen.getByText('Fields: 3')).toBeInTheDocument()
       })
 
-      expect(mockClient.getDataDictionary).toHaveBeenCalledWith('dict-123')
+      expect(mockClient.getDataDictionary).toHaveBeenCalledWith('dict-123', { signal: expect.any(AbortSignal) })
     })
 
     it('should handle fetch error', async () => {
@@ -164,7 +164,7 @@ describe('useDataDictionary', () => {
         expect(screen.getByText('Title: Test Dictionary')).toBeInTheDocument()
       })
 
-      expect(fetchSpy).toHaveBeenCalledWith('dict-123')
+      expect(fetchSpy).toHaveBeenCalledWith('dict-123', { signal: expect.any(AbortSignal) })
     })
 
     it('should cache results', async () => {
@@ -484,7 +484,8 @@ describe('useDataDictionary', () => {
       })
 
       expect(mockClient.getDataDictionaryFromUrl).toHaveBeenCalledWith(
-        'https://example.com/dictionaries/dict-url'
+        'https://example.com/dictionaries/dict-url',
+        { signal: expect.any(AbortSignal) }
       )
     })
 
@@ -656,7 +657,7 @@ describe('useDataDictionary', () => {
         expect(screen.getByText('First field: id')).toBeInTheDocument()
       })
 
-      expect(mockClient.getDatastoreSchema).toHaveBeenCalledWith('dataset-123', 0)
+      expect(mockClient.getDatastoreSchema).toHaveBeenCalledWith('dataset-123', 0, { signal: expect.any(AbortSignal) })
     })
 
     it('should use default index of 0', async () => {
@@ -690,7 +691,7 @@ describe('useDataDictionary', () => {
         expect(screen.getByText('Schema loaded')).toBeInTheDocument()
       })
 
-      expect(schemaSpy).toHaveBeenCalledWith('dataset-123', undefined)
+      expect(schemaSpy).toHaveBeenCalledWith('dataset-123', undefined, { signal: expect.any(AbortSignal) })
     })
 
     it('should fetch different distributions by index', async () => {
@@ -725,8 +726,8 @@ describe('useDataDictionary', () => {
         expect(screen.getByText('Dist1: field_dist_1')).toBeInTheDocument()
       })
 
-      expect(schemaSpy).toHaveBeenCalledWith('dataset-123', 0)
-      expect(schemaSpy).toHaveBeenCalledWith('dataset-123', 1)
+      expect(schemaSpy).toHaveBeenCalledWith('dataset-123', 0, { signal: expect.any(AbortSignal) })
+      expect(schemaSpy).toHaveBeenCalledWith('dataset-123', 1, { signal: expect.any(AbortSignal) })
     })
 
     it('should handle schema with indexes', async () => {
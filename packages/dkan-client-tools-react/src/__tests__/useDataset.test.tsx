@@ -61,7 +61,7 @@ describe('useDataset', () => {
       expect(screen.getByText('Title: Test Dataset')).toBeInTheDocument()
     })
 
-    expect(mockClient.fetchDataset).toHaveBeenCalledWith('test-123')
+    expect(mockClient.fetchDataset).toHaveBeenCalledWith('test-123', { signal: expect.any(AbortSignal) })
   })
 
   it('should handle fetch error', async () => {
@@ -151,7 +151,7 @@ describe('useDataset', () => {
       expect(screen.getByText('Title: Test')).toBeInTheDocument()
     })
 
-    expect(fetchSpy).toHaveBeenCalledWith('test-123')
+    expect(fetchSpy).toHaveBeenCalledWith('test-123', { signal: expect.any(AbortSignal) })
   })
 
   it('should cache results', async () => {
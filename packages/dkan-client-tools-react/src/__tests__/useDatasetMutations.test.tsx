@@ -6,7 +6,7 @@ import React from 'react'
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { render, screen, waitFor } from '@testing-library/react'
 import userEvent from '@testing-library/user-event'
-import { DkanClient, QueryClient } from '@dkan-client-tools/core'
+import { DkanClient, QueryClient, DkanValidationError } from '@dkan-client-tools/core'
 import { DkanClientProvider } from '../DkanClientProvider'
 import {
   useCreateDataset,
@@ -33,6 +33,16 @@ describe('useDatasetMutations', () => {
     },
   }
 
+  const datasetSchema = {
+    type: 'object',
+    required: ['title', 'description'],
+    properties: {
+      title: { type: 'string', minLength: 1 },
+      description: { type: 'string' },
+      keyword: { type: 'array', items: { type: 'string' } },
+    },
+  }
+
   beforeEach(() => {
     mockClient = new DkanClient({
       queryClient: new QueryClient({ defaultOptions: { queries: { retry: 0 } } }),
@@ -119,6 +129,107 @@ describe('useDatasetMutations', () => {
       })
     })
 
+    it('should expose typed validation errors', async () => {
+      const user = userEvent.setup()
+      vi.spyOn(mockClient, 'createDataset').mockRejectedValue(
+        new DkanValidationError('Validation failed', 400, undefined, undefined, undefined, [
+          { property: 'title', message: 'Title is required' },
+        ])
+      )
+
+      function TestComponent() {
+        const createDataset = useCreateDataset()
+        const error = createDataset.error
+
+        return (
+          <div>
+            <button onClick={() => createDataset.mutate({} as any)}>Create</button>
+            {error instanceof DkanValidationError &&
+              error.violations.map((violation) => (
+                <div key={violation.property}>
+                  {violation.property}: {violation.message}
+                </div>
+              ))}
+          </div>
+        )
+      }
+
+      render(
+        <DkanClientProvider client={mockClient}>
+          <TestComponent />
+        </DkanClientProvider>
+      )
+
+      await user.click(screen.getByText('Create'))
+
+      await waitFor(() => {
+        expect(screen.getByText('title: Title is required')).toBeInTheDocument()
+      })
+    })
+
+    it('should validate against the dataset schema before sending', async () => {
+      const user = userEvent.setup()
+      vi.spyOn(mockClient.getApiClient(), 'getSchema').mockResolvedValue(datasetSchema)
+      const createSpy = vi.spyOn(mockClient, 'createDataset')
+
+      function TestComponent() {
+        const createDataset = useCreateDataset({ validate: true })
+        const error = createDataset.error
+
+        return (
+          <div>
+            <button onClick={() => createDataset.mutate({ ...mockDataset, title: '' })}>Create</button>
+            {error instanceof DkanValidationError && <div>Error: {error.message}</div>}
+          </div>
+        )
+      }
+
+      render(
+        <DkanClientProvider client={mockClient}>
+          <TestComponent />
+        </DkanClientProvider>
+      )
+
+      await user.click(screen.getByText('Create'))
+
+      await waitFor(() => {
+        expect(
+          screen.getByText('Error: Validation failed: title: Must be at least 1 characters long')
+        ).toBeInTheDocument()
+      })
+      expect(createSpy).not.toHaveBeenCalled()
+    })
+
+    it('should pass validate request options to the schema fetch', async () => {
+      const user = userEvent.setup()
+      const schemaSpy = vi.spyOn(mockClient.getApiClient(), 'getSchema').mockResolvedValue(datasetSchema)
+      vi.spyOn(mockClient, 'createDataset').mockResolvedValue({ endpoint: 'dataset', identifier: 'test-123' })
+
+      function TestComponent() {
+        const createDataset = useCreateDataset({ validate: { timeoutMs: 5000 } })
+
+        return (
+          <div>
+            <button onClick={() => createDataset.mutate(mockDataset)}>Create</button>
+            {createDataset.isSuccess && <div>Created</div>}
+          </div>
+        )
+      }
+
+      render(
+        <DkanClientProvider client={mockClient}>
+          <TestComponent />
+        </DkanClientProvider>
+      )
+
+      await user.click(screen.getByText('Create'))
+
+      await waitFor(() => {
+        expect(screen.getByText('Created')).toBeInTheDocument()
+      })
+      expect(schemaSpy).toHaveBeenCalledWith('dataset', { timeoutMs: 5000 })
+    })
+
     it('should call onSuccess callback', async () => {
       const user = userEvent.setup()
       const onSuccess = vi.fn()
@@ -569,6 +680,56 @@ describe('useDatasetMutations', () => {
       expect(patchSpy).toHaveBeenCalledWith('test-123', partialUpdate)
     })
 
+    it('should validate only the patched fields', async () => {
+      const user = userEvent.setup()
+      vi.spyOn(mockClient.getApiClient(), 'getSchema').mockResolvedValue(datasetSchema)
+      const patchSpy = vi
+        .spyOn(mockClient, 'patchDataset')
+        .mockResolvedValue({ endpoint: 'dataset', identifier: 'test-123' })
+
+      function TestComponent() {
+        const patchDataset = usePatchDataset({ validate: true })
+
+        return (
+          <div>
+            <button
+              onClick={() =>
+                patchDataset.mutate({ identifier: 'test-123', partialDataset: { keyword: ['a', 1 as any] } })
+              }
+            >
+              Bad
+            </button>
+            <button
+              onClick={() => patchDataset.mutate({ identifier: 'test-123', partialDataset: { keyword: ['a'] } })}
+            >
+              Good
+            </button>
+            {patchDataset.isError && <div>Error: {patchDataset.error.message}</div>}
+            {patchDataset.isSuccess && <div>Patched</div>}
+          </div>
+        )
+      }
+
+      render(
+        <DkanClientProvider client={mockClient}>
+          <TestComponent />
+        </DkanClientProvider>
+      )
+
+      await user.click(screen.getByText('Bad'))
+      await waitFor(() => {
+        expect(
+          screen.getByText('Error: Validation failed: keyword.1: Must be of type string, got number')
+        ).toBeInTheDocument()
+      })
+
+      await user.click(screen.getByText('Good'))
+      await waitFor(() => {
+        expect(screen.getByText('Patched')).toBeInTheDocument()
+      })
+      expect(patchSpy).toHaveBeenCalledTimes(1)
+    })
+
     it('should handle patch errors', async () => {
       const user = userEvent.setup()
       vi.spyOn(mockClient, 'patchDataset').mockRejectedValue(
@@ -6,9 +6,9 @@ import React from 'react'
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { render, screen, waitFor } from '@testing-library/react'
 import userEvent from '@testing-library/user-event'
-import { DkanClient, QueryClient } from '@dkan-client-tools/core'
+import { DkanClient, FederatedDkanClient, QueryClient } from '@dkan-client-tools/core'
 import { DkanClientProvider } from '../DkanClientProvider'
-import { useDatasetSearch } from '../useDatasetSearch'
+import { useDatasetSearch, useFederatedDatasetSearch } from '../useDatasetSearch'
 
 describe('useDatasetSearch', () => {
   let mockClient: DkanClient
@@ -51,7 +51,7 @@ describe('useDatasetSearch', () => {
       expect(screen.getByText('Found 10 datasets')).toBeInTheDocument()
     })
 
-    expect(mockClient.searchDatasets).toHaveBeenCalledWith(undefined)
+    expect(mockClient.searchDatasets).toHaveBeenCalledWith(undefined, { signal: expect.any(AbortSignal) })
   })
 
   it('should search with keyword filter', async () => {
@@ -80,7 +80,7 @@ describe('useDatasetSearch', () => {
       expect(screen.getByText('Results: 1')).toBeInTheDocument()
     })
 
-    expect(mockClient.searchDatasets).toHaveBeenCalledWith({ keyword: 'health' })
+    expect(mockClient.searchDatasets).toHaveBeenCalledWith({ keyword: 'health' }, { signal: expect.any(AbortSignal) })
   })
 
   it('should search with multiple filters', async () => {
@@ -120,7 +120,7 @@ describe('useDatasetSearch', () => {
       page: 1,
       sort: 'modified',
       'sort-order': 'desc',
-    })
+    }, { signal: expect.any(AbortSignal) })
   })
 
   it('should handle search error', async () => {
@@ -195,14 +195,14 @@ describe('useDatasetSearch', () => {
     )
 
     await waitFor(() => {
-      expect(searchSpy).toHaveBeenCalledWith({ keyword: 'health' })
+      expect(searchSpy).toHaveBeenCalledWith({ keyword: 'health' }, { signal: expect.any(AbortSignal) })
     })
 
     const button = screen.getByText('Change Keyword')
     await user.click(button)
 
     await waitFor(() => {
-      expect(searchSpy).toHaveBeenCalledWith({ keyword: 'education' })
+      expect(searchSpy).toHaveBeenCalledWith({ keyword: 'education' }, { signal: expect.any(AbortSignal) })
     })
 
     expect(searchSpy).toHaveBeenCalledTimes(2)
@@ -306,3 +306,77 @@ describe('useDatasetSearch', () => {
     })
   })
 })
+
+describe('useFederatedDatasetSearch', () => {
+  let mockClient: DkanClient
+  let federated: FederatedDkanClient
+
+  beforeEach(() => {
+    mockClient = new DkanClient({
+      queryClient: new QueryClient({ defaultOptions: { queries: { retry: 0 } } }),
+      baseUrl: 'https://test.example.com',
+    })
+    federated = new FederatedDkanClient({
+      sources: [
+        { id: 'a', label: 'County A', baseUrl: 'https://a.example.com' },
+        { id: 'b', label: 'County B', baseUrl: 'https://b.example.com' },
+      ],
+    })
+  })
+
+  it('should search every source and show merged results', async () => {
+    vi.spyOn(federated, 'searchDatasets').mockResolvedValue({
+      total: 2,
+      results: [
+        { identifier: '1', title: 'Parks', source: { id: 'a', label: 'County A', baseUrl: 'https://a.example.com' } },
+      ],
+      facets: { theme: [], keyword: [], publisher: [] },
+      totals: { a: 2 },
+      errors: [{ source: 'b', error: new Error('Failed to fetch') }],
+    } as any)
+
+    function TestComponent() {
+      const { data } = useFederatedDatasetSearch({
+        client: federated,
+        searchOptions: { fulltext: 'parks' },
+      })
+      if (!data) return <div>Loading...</div>
+
+      return (
+        <div>
+          {data.results[0].title} from {data.results[0].source.label}, {data.errors.length} unavailable
+        </div>
+      )
+    }
+
+    render(
+      <DkanClientProvider client={mockClient}>
+        <TestComponent />
+      </DkanClientProvider>
+    )
+
+    expect(await screen.findByText('Parks from County A, 1 unavailable')).toBeInTheDocument()
+    expect(federated.searchDatasets).toHaveBeenCalledWith(
+      { fulltext: 'parks' },
+      { signal: expect.any(AbortSignal) }
+    )
+  })
+
+  it('should not search when disabled', async () => {
+    const searchDatasets = vi.spyOn(federated, 'searchDatasets')
+
+    function TestComponent() {
+      const { fetchStatus } = useFederatedDatasetSearch({ client: federated, enabled: false })
+      return <div>Status: {fetchStatus}</div>
+    }
+
+    render(
+      <DkanClientProvider client={mockClient}>
+        <TestComponent />
+      </DkanClientProvider>
+    )
+
+    expect(await screen.findByText('Status: idle')).toBeInTheDocument()
+    expect(searchDatasets).not.toHaveBeenCalled()
+  })
+})
@@ -6,7 +6,7 @@ import React from 'react'
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { render, screen, waitFor } from '@testing-library/react'
 import userEvent from '@testing-library/user-event'
-import { DkanClient, QueryClient } from '@dkan-client-tools/core'
+import { DkanClient, QueryClient, datastoreQuery } from '@dkan-client-tools/core'
 import { DkanClientProvider } from '../DkanClientProvider'
 import { useDatastore } from '../useDatastore'
 
@@ -51,7 +51,7 @@ describe('useDatastore', () => {
       expect(screen.getByText('Rows: 2')).toBeInTheDocument()
     })
 
-    expect(mockClient.queryDatastore).toHaveBeenCalledWith('dataset-123', undefined, undefined)
+    expect(mockClient.queryDatastore).toHaveBeenCalledWith('dataset-123', undefined, undefined, { signal: expect.any(AbortSignal) })
   })
 
   it('should query with specific index', async () => {
@@ -78,7 +78,7 @@ describe('useDatastore', () => {
       expect(screen.getByText('Count: 0')).toBeInTheDocument()
     })
 
-    expect(mockClient.queryDatastore).toHaveBeenCalledWith('dataset-123', 2, undefined)
+    expect(mockClient.queryDatastore).toHaveBeenCalledWith('dataset-123', 2, undefined, { signal: expect.any(AbortSignal) })
   })
 
   it('should query with query options', async () => {
@@ -111,7 +111,38 @@ describe('useDatastore', () => {
       expect(mockClient.queryDatastore).toHaveBeenCalledWith(
         'dataset-123',
         undefined,
-        queryOptions
+        queryOptions,
+        { signal: expect.any(AbortSignal) }
+      )
+    })
+  })
+
+  it('should accept a datastoreQuery builder', async () => {
+    vi.spyOn(mockClient, 'queryDatastore').mockResolvedValue({ results: [], count: 0 })
+
+    const query = datastoreQuery().where('status', 'active').limit(10)
+
+    function TestComponent() {
+      const { data } = useDatastore({ datasetId: 'dataset-123', queryOptions: query })
+
+      return <div>Count: {data?.count || 0}</div>
+    }
+
+    render(
+      <DkanClientProvider client={mockClient}>
+        <TestComponent />
+      </DkanClientProvider>
+    )
+
+    await waitFor(() => {
+      expect(mockClient.queryDatastore).toHaveBeenCalledWith(
+        'dataset-123',
+        undefined,
+        {
+          conditions: [{ property: 'status', value: 'active', operator: '=' }],
+          limit: 10,
+        },
+        { signal: expect.any(AbortSignal) }
       )
     })
   })
@@ -190,14 +221,14 @@ describe('useDatastore', () => {
     )
 
     await waitFor(() => {
-      expect(querySpy).toHaveBeenCalledWith('dataset-1', undefined, undefined)
+      expect(querySpy).toHaveBeenCalledWith('dataset-1', undefined, undefined, { signal: expect.any(AbortSignal) })
     })
 
     const button = screen.getByText('Change Dataset')
     await user.click(button)
 
     await waitFor(() => {
-      expect(querySpy).toHaveBeenCalledWith('dataset-2', undefined, undefined)
+      expect(querySpy).toHaveBeenCalledWith('dataset-2', undefined, undefined, { signal: expect.any(AbortSignal) })
     })
 
     expect(querySpy).toHaveBeenCalledTimes(2)
@@ -302,7 +333,7 @@ describe('useDatastore', () => {
     )
 
     await waitFor(() => {
-      expect(querySpy).toHaveBeenCalledWith('dataset-123', 0, queryOptions)
+      expect(querySpy).toHaveBeenCalledWith('dataset-123', 0, queryOptions, { signal: expect.any(AbortSignal) })
     })
   })
 
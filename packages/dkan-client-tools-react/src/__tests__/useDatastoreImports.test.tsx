@@ -363,7 +363,7 @@ describe('useDatastoreImports', () => {
         expect(screen.getByText('Columns: 8')).toBeInTheDocument()
       })
 
-      expect(mockClient.getDatastoreStatistics).toHaveBeenCalledWith('resource-1')
+      expect(mockClient.getDatastoreStatistics).toHaveBeenCalledWith('resource-1', { signal: expect.any(AbortSignal) })
     })
 
     it('should handle loading state', () => {
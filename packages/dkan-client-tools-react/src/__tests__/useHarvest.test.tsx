@@ -125,7 +125,7 @@ describe('useHarvest', () => {
         expect(screen.getByText('URI: https://example.com/data.json')).toBeInTheDocument()
       })
 
-      expect(mockClient.getHarvestPlan).toHaveBeenCalledWith('plan-1')
+      expect(mockClient.getHarvestPlan).toHaveBeenCalledWith('plan-1', { signal: expect.any(AbortSignal) })
     })
 
     it('should not fetch when planId is empty', () => {
@@ -185,7 +185,7 @@ describe('useHarvest', () => {
         expect(screen.getByText('Run ID: run-2')).toBeInTheDocument()
       })
 
-      expect(mockClient.listHarvestRuns).toHaveBeenCalledWith('plan-1')
+      expect(mockClient.listHarvestRuns).toHaveBeenCalledWith('plan-1', { signal: expect.any(AbortSignal) })
     })
 
     it('should not fetch when planId is empty', () => {
@@ -250,7 +250,7 @@ describe('useHarvest', () => {
         expect(screen.getByText('Errors: 1')).toBeInTheDocument()
       })
 
-      expect(mockClient.getHarvestRun).toHaveBeenCalledWith('run-1', 'plan-1')
+      expect(mockClient.getHarvestRun).toHaveBeenCalledWith('run-1', 'plan-1', { signal: expect.any(AbortSignal) })
     })
   })
 
@@ -238,7 +238,7 @@ describe('useMetastore', () => {
         expect(screen.getByText('Required: 4')).toBeInTheDocument()
       })
 
-      expect(mockClient.getSchema).toHaveBeenCalledWith('dataset')
+      expect(mockClient.getSchema).toHaveBeenCalledWith('dataset', { signal: expect.any(AbortSignal) })
     })
 
     it('should handle loading state', () => {
@@ -423,7 +423,7 @@ describe('useMetastore', () => {
         expect(screen.getByText('Item 2')).toBeInTheDocument()
       })
 
-      expect(mockClient.getSchemaItems).toHaveBeenCalledWith('data-dictionary')
+      expect(mockClient.getSchemaItems).toHaveBeenCalledWith('data-dictionary', { signal: expect.any(AbortSignal) })
     })
 
     it('should handle enabled option', () => {
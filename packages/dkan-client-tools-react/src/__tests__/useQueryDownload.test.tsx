@@ -13,6 +13,8 @@ import {
   useDownloadQueryByDistribution,
 } from '../useQueryDownload'
 
+const progressOptions = { onProgress: expect.any(Function) }
+
 describe('useQueryDownload', () => {
   let mockClient: DkanClient
 
@@ -68,7 +70,7 @@ describe('useQueryDownload', () => {
         expect(screen.getByText('Download complete')).toBeInTheDocument()
       })
 
-      expect(downloadSpy).toHaveBeenCalledWith('dataset-123', 0, { format: 'csv' })
+      expect(downloadSpy).toHaveBeenCalledWith('dataset-123', 0, { format: 'csv' }, progressOptions)
     })
 
     it('should handle download with conditions and limit', async () => {
@@ -111,7 +113,7 @@ describe('useQueryDownload', () => {
           format: 'csv',
           conditions: [{ property: 'state', value: 'CA' }],
           limit: 1000,
-        })
+        }, progressOptions)
       })
     })
 
@@ -235,8 +237,93 @@ describe('useQueryDownload', () => {
       await user.click(button)
 
       await waitFor(() => {
-        expect(downloadSpy).toHaveBeenCalledWith('dataset-123', 0, { format: 'json' })
+        expect(downloadSpy).toHaveBeenCalledWith('dataset-123', 0, { format: 'json' }, progressOptions)
+      })
+    })
+
+    it('should expose download progress', async () => {
+      const user = userEvent.setup()
+      const mockBlob = new Blob(['test,data\n'], { type: 'text/csv' })
+
+      vi.spyOn(mockClient, 'downloadQuery').mockImplementation(
+        async (_datasetId, _index, _options, requestOptions) => {
+          requestOptions?.onProgress?.({ loaded: 0, total: 200 })
+          requestOptions?.onProgress?.({ loaded: 50, total: 200 })
+          return mockBlob
+        }
+      )
+
+      function TestComponent() {
+        const downloadQuery = useDownloadQuery()
+
+        return (
+          <div>
+            <button onClick={() => downloadQuery.mutate({ datasetId: 'dataset-123', index: 0 })}>
+              Download
+            </button>
+            <div>
+              {downloadQuery.progress
+                ? `${downloadQuery.progress.loaded} of ${downloadQuery.progress.total}`
+                : 'No progress'}
+            </div>
+          </div>
+        )
+      }
+
+      render(
+        <DkanClientProvider client={mockClient}>
+          <TestComponent />
+        </DkanClientProvider>
+      )
+
+      expect(screen.getByText('No progress')).toBeInTheDocument()
+      await user.click(screen.getByText('Download'))
+
+      await waitFor(() => {
+        expect(screen.getByText('50 of 200')).toBeInTheDocument()
+      })
+    })
+
+    it('should only re-render progress when the percentage changes', async () => {
+      const user = userEvent.setup()
+      const rendered: string[] = []
+
+      vi.spyOn(mockClient, 'downloadQuery').mockImplementation(
+        async (_datasetId, _index, _options, requestOptions) => {
+          for (const loaded of [0, 10, 20, 30, 40]) {
+            requestOptions?.onProgress?.({ loaded, total: 100000 })
+            await new Promise((resolve) => setTimeout(resolve, 0))
+          }
+          return new Blob(['test,data\n'], { type: 'text/csv' })
+        }
+      )
+
+      function TestComponent() {
+        const downloadQuery = useDownloadQuery()
+        if (downloadQuery.progress) rendered.push(String(downloadQuery.progress.loaded))
+
+        return (
+          <div>
+            <button onClick={() => downloadQuery.mutate({ datasetId: 'dataset-123', index: 0 })}>
+              Download
+            </button>
+            <div>{downloadQuery.isSuccess ? `Done at ${downloadQuery.progress?.loaded}` : 'Pending'}</div>
+          </div>
+        )
+      }
+
+      render(
+        <DkanClientProvider client={mockClient}>
+          <TestComponent />
+        </DkanClientProvider>
+      )
+
+      await user.click(screen.getByText('Download'))
+
+      await waitFor(() => {
+        expect(screen.getByText('Done at 40')).toBeInTheDocument()
       })
+      expect(new Set(rendered)).toEqual(new Set(['0', '40']))
     })
   })
 
@@ -283,7 +370,7 @@ describe('useQueryDownload', () => {
         expect(screen.getByText('Success')).toBeInTheDocument()
       })
 
-      expect(downloadSpy).toHaveBeenCalledWith('dist-123', { format: 'csv' })
+      expect(downloadSpy).toHaveBeenCalledWith('dist-123', { format: 'csv' }, progressOptions)
     })
 
     it('should handle filtered download by distribution', async () => {
@@ -329,7 +416,7 @@ describe('useQueryDownload', () => {
           format: 'csv',
           conditions: [{ property: 'active', value: 'true' }],
           limit: 5000,
-        })
+        }, progressOptions)
       })
     })
 
@@ -11,6 +11,7 @@ import { DkanClientProvider } from '../DkanClientProvider'
 import {
   useRevisions,
   useRevision,
+  useRevisionDiff,
   useCreateRevision,
   useChangeDatasetState,
 } from '../useRevisions'
@@ -81,7 +82,7 @@ describe('useRevisions', () => {
         expect(screen.getByText('rev-2: draft')).toBeInTheDocument()
       })
 
-      expect(mockClient.getRevisions).toHaveBeenCalledWith('dataset', 'dataset-123')
+      expect(mockClient.getRevisions).toHaveBeenCalledWith('dataset', 'dataset-123', { signal: expect.any(AbortSignal) })
     })
 
     it('should not fetch when schemaId or identifier is empty', () => {
@@ -154,7 +155,8 @@ describe('useRevisions', () => {
       expect(mockClient.getRevision).toHaveBeenCalledWith(
         'dataset',
         'dataset-123',
-        'rev-1'
+        'rev-1',
+        { signal: expect.any(AbortSignal) }
       )
     })
 
@@ -186,6 +188,73 @@ describe('useRevisions', () => {
     })
   })
 
+  describe('useRevisionDiff', () => {
+    it('should show the changes between two revisions', async () => {
+      const compareSpy = vi.spyOn(mockClient, 'compareRevisions').mockResolvedValue({
+        from: { identifier: 'rev-1', state: 'published', published: true, modified: '2024-01-01', message: '' },
+        to: { identifier: 'rev-2', state: 'draft', published: false, modified: '2024-01-02', message: '' },
+        changes: [
+          { type: 'changed', path: 'state', before: 'published', after: 'draft' },
+          { type: 'changed', path: 'published', before: true, after: false },
+        ],
+      })
+
+      function TestComponent() {
+        const { data } = useRevisionDiff({
+          schemaId: 'dataset',
+          identifier: 'dataset-123',
+          fromRevisionId: 'rev-1',
+          toRevisionId: 'rev-2',
+        })
+
+        return (
+          <ul>
+            {data?.changes.map((change) => (
+              <li key={change.path}>
+                {change.path}: {String(change.before)} → {String(change.after)}
+              </li>
+            ))}
+          </ul>
+        )
+      }
+
+      render(
+        <DkanClientProvider client={mockClient}>
+          <TestComponent />
+        </DkanClientProvider>
+      )
+
+      await waitFor(() => {
+        expect(screen.getByText('state: published → draft')).toBeInTheDocument()
+        expect(screen.getByText('published: true → false')).toBeInTheDocument()
+      })
+      expect(compareSpy).toHaveBeenCalledWith('dataset', 'dataset-123', 'rev-1', 'rev-2', expect.anything())
+    })
+
+    it('should not fetch until both revisions are chosen', () => {
+      const compareSpy = vi.spyOn(mockClient, 'compareRevisions')
+
+      function TestComponent() {
+        const { fetchStatus } = useRevisionDiff({
+          schemaId: 'dataset',
+          identifier: 'dataset-123',
+          fromRevisionId: 'rev-1',
+          toRevisionId: '',
+        })
+        return <div>{fetchStatus}</div>
+      }
+
+      render(
+        <DkanClientProvider client={mockClient}>
+          <TestComponent />
+        </DkanClientProvider>
+      )
+
+      expect(screen.getByText('idle')).toBeInTheDocument()
+      expect(compareSpy).not.toHaveBeenCalled()
+    })
+  })
+
   describe('useCreateRevision', () => {
     it('should create revision successfully', async () => {
       const user = userEvent.setup()
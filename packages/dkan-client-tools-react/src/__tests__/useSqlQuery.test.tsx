@@ -6,7 +6,7 @@ import React from 'react'
 import { describe, it, expect, beforeEach, vi } from 'vitest'
 import { render, screen, waitFor } from '@testing-library/react'
 import userEvent from '@testing-library/user-event'
-import { DkanClient, QueryClient } from '@dkan-client-tools/core'
+import { DkanClient, QueryClient, sqlQuery } from '@dkan-client-tools/core'
 import { DkanClientProvider } from '../DkanClientProvider'
 import { useSqlQuery, useExecuteSqlQuery } from '../useSqlQuery'
 
@@ -63,7 +63,53 @@ describe('useSqlQuery', () => {
       expect(mockClient.querySql).toHaveBeenCalledWith({
         query: 'SELECT * FROM datastore_12345 LIMIT 10',
         show_db_columns: undefined,
+      }, { signal: expect.any(AbortSignal) })
+    })
+
+    it('should accept a sqlQuery builder', async () => {
+      vi.spyOn(mockClient, 'querySql').mockResolvedValue([{ id: 1, name: 'Record 1' }])
+
+      const query = sqlQuery('dist-123').where('name', 'Record "1"').limit(10)
+
+      function TestComponent() {
+        const { data } = useSqlQuery({ query })
+
+        return <div>Rows: {data?.length ?? 0}</div>
+      }
+
+      render(
+        <DkanClientProvider client={mockClient}>
+          <TestComponent />
+        </DkanClientProvider>
+      )
+
+      await waitFor(() => {
+        expect(screen.getByText('Rows: 1')).toBeInTheDocument()
+      })
+
+      expect(mockClient.querySql).toHaveBeenCalledWith({ query }, { signal: expect.any(AbortSignal) })
+    })
+
+    it('should report an unbuildable sqlQuery builder as the query error', async () => {
+      const fetchSpy = vi.spyOn(global, 'fetch')
+      const query = sqlQuery('dist-123').where('name', 'Record [1]')
+
+      function TestComponent() {
+        const { error } = useSqlQuery({ query })
+
+        return <div>{error ? `Error: ${error.message}` : 'Pending'}</div>
+      }
+
+      render(
+        <DkanClientProvider client={mockClient}>
+          <TestComponent />
+        </DkanClientProvider>
+      )
+
+      await waitFor(() => {
+        expect(screen.getByText('Error: SQL values cannot contain "[" or "]"')).toBeInTheDocument()
       })
+      expect(fetchSpy).not.toHaveBeenCalled()
     })
 
     it('should execute aggregate query successfully', async () => {
@@ -214,7 +260,7 @@ describe('useSqlQuery', () => {
       expect(querySpy).toHaveBeenCalledWith({
         query: 'SELECT * FROM datastore_12345',
         show_db_columns: true,
-      })
+      }, { signal: expect.any(AbortSignal) })
     })
   })
 
@@ -190,7 +190,7 @@ describe('Table Hooks', () => {
 
       expect(mockClient.searchDatasets).toHaveBeenCalledWith({
         keyword: 'health',
-      })
+      }, { signal: expect.any(AbortSignal) })
     })
 
     it('should handle search errors', async () => {
@@ -326,7 +326,7 @@ describe('Table Hooks', () => {
         expect(screen.getByText('Name: Jane')).toBeInTheDocument()
       })
 
-      expect(mockClient.queryDatastore).toHaveBeenCalledWith('test-dataset', 0, undefined)
+      expect(mockClient.queryDatastore).toHaveBeenCalledWith('test-dataset', 0, undefined, { signal: expect.any(AbortSignal) })
     })
 
     it('should handle datastore query errors', async () => {
@@ -31,7 +31,7 @@ export function useDataDictionary(options: UseDataDictionaryOptions) {
 
   return useQuery({
     queryKey: ['data-dictionary', options.identifier] as const,
-    queryFn: () => client.getDataDictionary(options.identifier),
+    queryFn: ({ signal }) => client.getDataDictionary(options.identifier, { signal }),
     enabled: options.enabled ?? true,
     staleTime: options.staleTime,
   })
@@ -52,7 +52,7 @@ export function useDataDictionaryList(options: UseDataDictionaryListOptions = {}
 
   return useQuery({
     queryKey: ['data-dictionaries'] as const,
-    queryFn: () => client.listDataDictionaries(),
+    queryFn: ({ signal }) => client.listDataDictionaries({ signal }),
     enabled: options.enabled ?? true,
     staleTime: options.staleTime,
   })
@@ -80,7 +80,7 @@ export function useDataDictionaryFromUrl(options: {
 
   return useQuery({
     queryKey: ['data-dictionary-url', options.url] as const,
-    queryFn: () => client.getDataDictionaryFromUrl(options.url),
+    queryFn: ({ signal }) => client.getDataDictionaryFromUrl(options.url, { signal }),
     enabled: options.enabled ?? true,
     staleTime: options.staleTime,
   })
@@ -113,7 +113,7 @@ export function useDatastoreSchema(options: {
       options.datasetId,
       options.index ?? 0,
     ] as const,
-    queryFn: () => client.getDatastoreSchema(options.datasetId, options.index),
+    queryFn: ({ signal }) => client.getDatastoreSchema(options.datasetId, options.index, { signal }),
     enabled: options.enabled ?? true,
     staleTime: options.staleTime,
   })
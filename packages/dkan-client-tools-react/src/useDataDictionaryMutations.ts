@@ -7,6 +7,7 @@ import { useDkanClient } from './DkanClientProvider'
 import type {
   DataDictionary,
   MetastoreWriteResponse,
+  DkanApiError,
 } from '@dkan-client-tools/core'
 
 /**
@@ -24,7 +25,7 @@ export function useCreateDataDictionary() {
   const client = useDkanClient()
   const queryClient = useQueryClient()
 
-  return useMutation<MetastoreWriteResponse, Error, DataDictionary>({
+  return useMutation<MetastoreWriteResponse, DkanApiError, DataDictionary>({
     mutationFn: (dictionary) => client.createDataDictionary(dictionary),
     onSuccess: () => {
       // Invalidate data dictionary lists
@@ -52,7 +53,7 @@ export function useUpdateDataDictionary() {
 
   return useMutation<
     MetastoreWriteResponse,
-    Error,
+    DkanApiError,
     { identifier: string; dictionary: DataDictionary }
   >({
     mutationFn: ({ identifier, dictionary }) =>
@@ -87,7 +88,7 @@ export function useDeleteDataDictionary() {
   const client = useDkanClient()
   const queryClient = useQueryClient()
 
-  return useMutation<{ message: string }, Error, string>({
+  return useMutation<{ message: string }, DkanApiError, string>({
     mutationFn: (identifier) => client.deleteDataDictionary(identifier),
     onSuccess: (data, identifier) => {
       // Remove the specific dictionary from cache
@@ -24,7 +24,7 @@ export function useDataset(options: UseDatasetOptions) {
 
   return useQuery({
     queryKey: ['dataset', options.identifier] as const,
-    queryFn: () => client.fetchDataset(options.identifier),
+    queryFn: ({ signal }) => client.fetchDataset(options.identifier, { signal }),
     enabled: options.enabled ?? true,
     staleTime: options.staleTime,
     gcTime: options.gcTime,
@@ -6,9 +6,27 @@ import { useMutation, useQueryClient } from '@tanstack/react-query'
 import { useDkanClient } from './DkanClientProvider'
 import type {
   DkanDataset,
+  DatasetMergePatch,
   MetastoreWriteResponse,
+  DkanApiError,
+  DkanRequestOptions,
 } from '@dkan-client-tools/core'
 
+export interface DatasetMutationOptions {
+  /**
+   * Validate against the site's dataset schema before sending. Invalid datasets reject with
+   * DkanValidationError, the same error the metastore returns, without a request. Pass request
+   * options (`{ timeoutMs: 5000 }`) to bound the schema fetch.
+   * @default false
+   */
+  validate?: boolean | DkanRequestOptions
+}
+
+/** Request options for the schema fetch behind `validate` */
+function schemaRequestOptions({ validate }: DatasetMutationOptions) {
+  return typeof validate === 'object' ? validate : undefined
+}
+
 /**
  * Creates a new dataset following DCAT-US schema.
  *
@@ -16,16 +34,20 @@ import type {
  *
  * @example
  * ```tsx
- * const createDataset = useCreateDataset()
+ * const createDataset = useCreateDataset({ validate: true })
  * const result = await createDataset.mutateAsync(dataset)
+ * // createDataset.error.violations lists field errors, locally or from the server
  * ```
  */
-export function useCreateDataset() {
+export function useCreateDataset(options: DatasetMutationOptions = {}) {
   const client = useDkanClient()
   const queryClient = useQueryClient()
 
-  return useMutation<MetastoreWriteResponse, Error, DkanDataset>({
-    mutationFn: (dataset) => client.createDataset(dataset),
+  return useMutation<MetastoreWriteResponse, DkanApiError, DkanDataset>({
+    mutationFn: async (dataset) => {
+      if (options.validate) await client.assertValidDataset(dataset, undefined, schemaRequestOptions(options))
+      return client.createDataset(dataset)
+    },
     onSuccess: (data) => {
       // Invalidate datasets list
       queryClient.invalidateQueries({ queryKey: ['datasets'] })
@@ -57,13 +79,15 @@ export interface UpdateDatasetOptions {
  * updateDataset.mutate({ identifier, dataset: updatedDataset })
  * ```
  */
-export function useUpdateDataset() {
+export function useUpdateDataset(options: DatasetMutationOptions = {}) {
   const client = useDkanClient()
   const queryClient = useQueryClient()
 
-  return useMutation<MetastoreWriteResponse, Error, UpdateDatasetOptions>({
-    mutationFn: ({ identifier, dataset }) =>
-      client.updateDataset(identifier, dataset),
+  return useMutation<MetastoreWriteResponse, DkanApiError, UpdateDatasetOptions>({
+    mutationFn: async ({ identifier, dataset }) => {
+      if (options.validate) await client.assertValidDataset(dataset, undefined, schemaRequestOptions(options))
+      return client.updateDataset(identifier, dataset)
+    },
     onSuccess: (data, variables) => {
       // Invalidate specific dataset
       queryClient.invalidateQueries({
@@ -82,14 +106,15 @@ export function useUpdateDataset() {
 export interface PatchDatasetOptions {
   /** Dataset UUID */
   identifier: string
-  /** Partial dataset (PATCH - updates only specified fields) */
-  partialDataset: Partial<DkanDataset>
+  /** Partial dataset (PATCH - updates only specified fields), or a merge patch from diffDatasets() */
+  partialDataset: Partial<DkanDataset> | DatasetMergePatch
 }
 
 /**
  * Updates specific dataset fields (PATCH operation).
  *
  * Preserves unspecified fields. Invalidates dataset and search queries on success.
+ * With `validate`, only the fields sent are checked; missing required fields are allowed.
  *
  * @example
  * ```tsx
@@ -97,13 +122,17 @@ export interface PatchDatasetOptions {
  * patchDataset.mutate({ identifier, partialDataset: { title: 'New Title' } })
  * ```
  */
-export function usePatchDataset() {
+export function usePatchDataset(options: DatasetMutationOptions = {}) {
   const client = useDkanClient()
   const queryClient = useQueryClient()
 
-  return useMutation<MetastoreWriteResponse, Error, PatchDatasetOptions>({
-    mutationFn: ({ identifier, partialDataset }) =>
-      client.patchDataset(identifier, partialDataset),
+  return useMutation<MetastoreWriteResponse, DkanApiError, PatchDatasetOptions>({
+    mutationFn: async ({ identifier, partialDataset }) => {
+      if (options.validate) {
+        await client.assertValidDataset(partialDataset, { partial: true }, schemaRequestOptions(options))
+      }
+      return client.patchDataset(identifier, partialDataset)
+    },
     onSuccess: (data, variables) => {
       // Invalidate specific dataset
       queryClient.invalidateQueries({
@@ -132,7 +161,7 @@ export function useDeleteDataset() {
   const client = useDkanClient()
   const queryClient = useQueryClient()
 
-  return useMutation<{ message: string }, Error, string>({
+  return useMutation<{ message: string }, DkanApiError, string>({
     mutationFn: (identifier) => client.deleteDataset(identifier),
     onSuccess: (data, identifier) => {
       // Remove specific dataset from cache
@@ -1,5 +1,5 @@
 import { useQuery } from '@tanstack/react-query'
-import type { DatasetQueryOptions } from '@dkan-client-tools/core'
+import type { DatasetQueryOptions, FederatedDkanClient } from '@dkan-client-tools/core'
 import { useDkanClient } from './DkanClientProvider'
 
 export interface UseDatasetSearchOptions {
@@ -28,7 +28,46 @@ export function useDatasetSearch(options: UseDatasetSearchOptions = {}) {
 
   return useQuery({
     queryKey: ['datasets', 'search', options.searchOptions || {}] as const,
-    queryFn: () => client.searchDatasets(options.searchOptions),
+    queryFn: ({ signal }) => client.searchDatasets(options.searchOptions, { signal }),
+    enabled: options.enabled ?? true,
+    staleTime: options.staleTime,
+    gcTime: options.gcTime,
+  })
+}
+
+export interface UseFederatedDatasetSearchOptions {
+  /** Sites to search; create it once, outside the component */
+  client: FederatedDkanClient
+  /** Applied to every site; page and page-size apply to the merged results */
+  searchOptions?: DatasetQueryOptions
+  enabled?: boolean
+  /** @default 60000 (1 minute) */
+  staleTime?: number
+  /** @default 300000 (5 minutes) */
+  gcTime?: number
+}
+
+/**
+ * Searches several DKAN sites at once and merges the results into one ranked page.
+ * Sites that fail are listed in `data.errors` while the others still answer.
+ *
+ * @example
+ * ```tsx
+ * const federated = new FederatedDkanClient({ sources: [...] })
+ *
+ * const { data } = useFederatedDatasetSearch({
+ *   client: federated,
+ *   searchOptions: { fulltext: 'parks', 'page-size': 20 },
+ * })
+ * // data.results[0].source.label, data.totals, data.errors
+ * ```
+ */
+export function useFederatedDatasetSearch(options: UseFederatedDatasetSearchOptions) {
+  const { client } = options
+
+  return useQuery({
+    queryKey: ['datasets', 'federated-search', client.getSources(), options.searchOptions || {}] as const,
+    queryFn: ({ signal }) => client.searchDatasets(options.searchOptions, { signal }),
     enabled: options.enabled ?? true,
     staleTime: options.staleTime,
     gcTime: options.gcTime,
@@ -1,5 +1,6 @@
 import { useQuery } from '@tanstack/react-query'
-import type { DatastoreQueryOptions } from '@dkan-client-tools/core'
+import { toDatastoreQueryOptions } from '@dkan-client-tools/core'
+import type { DatastoreQueryInput } from '@dkan-client-tools/core'
 import { useDkanClient } from './DkanClientProvider'
 
 export interface UseDatastoreOptions {
@@ -7,8 +8,8 @@ export interface UseDatastoreOptions {
   datasetId: string
   /** Distribution index within dataset (default: 0) */
   index?: number
-  /** Query options for filtering, sorting, limiting results */
-  queryOptions?: DatastoreQueryOptions
+  /** Query options for filtering, sorting, limiting results, or a datastoreQuery() builder */
+  queryOptions?: DatastoreQueryInput
   enabled?: boolean
   /** @default 300000 (5 minutes) */
   staleTime?: number
@@ -31,15 +32,16 @@ export interface UseDatastoreOptions {
  */
 export function useDatastore(options: UseDatastoreOptions) {
   const client = useDkanClient()
+  const queryOptions = toDatastoreQueryOptions(options.queryOptions)
 
   return useQuery({
     queryKey: [
       'datastore',
       options.datasetId,
       options.index || 0,
-      options.queryOptions || {},
+      queryOptions || {},
     ] as const,
-    queryFn: () => client.queryDatastore(options.datasetId, options.index, options.queryOptions),
+    queryFn: ({ signal }) => client.queryDatastore(options.datasetId, options.index, queryOptions, { signal }),
     enabled: options.enabled ?? true,
     staleTime: options.staleTime,
     gcTime: options.gcTime,
@@ -47,8 +49,8 @@ export function useDatastore(options: UseDatastoreOptions) {
 }
 
 export interface UseQueryDatastoreMultiOptions {
-  /** Multi-resource query options with resources, joins, conditions, etc. */
-  queryOptions: DatastoreQueryOptions
+  /** Multi-resource query options with resources, joins, conditions, etc., or a datastoreQuery() builder */
+  queryOptions: DatastoreQueryInput
   /** HTTP method (POST recommended for complex queries, GET for caching) */
   method?: 'GET' | 'POST'
   enabled?: boolean
@@ -83,15 +85,16 @@ export interface UseQueryDatastoreMultiOptions {
  */
 export function useQueryDatastoreMulti(options: UseQueryDatastoreMultiOptions) {
   const client = useDkanClient()
+  const queryOptions = toDatastoreQueryOptions(options.queryOptions)
 
   return useQuery({
     queryKey: [
       'datastore',
       'multi',
-      options.queryOptions,
+      queryOptions,
       options.method || 'POST',
     ] as const,
-    queryFn: () => client.queryDatastoreMulti(options.queryOptions, options.method),
+    queryFn: ({ signal }) => client.queryDatastoreMulti(queryOptions, options.method, { signal }),
     enabled: options.enabled ?? true,
     staleTime: options.staleTime ?? 5 * 60 * 1000, // Default 5 minutes
     gcTime: options.gcTime ?? 5 * 60 * 1000,
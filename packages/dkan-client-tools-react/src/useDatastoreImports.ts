@@ -8,6 +8,7 @@ import type {
   DatastoreImport,
   DatastoreImportOptions,
   DatastoreStatistics,
+  DkanApiError,
 } from '@dkan-client-tools/core'
 
 export interface UseDatastoreImportsOptions {
@@ -47,7 +48,7 @@ export function useDatastoreImports(options: UseDatastoreImportsOptions = {}) {
 
   return useQuery({
     queryKey: ['datastore', 'imports'] as const,
-    queryFn: () => client.listDatastoreImports(),
+    queryFn: ({ signal }) => client.listDatastoreImports({ signal }),
     enabled: options.enabled ?? true,
     staleTime: options.staleTime ?? 0, // Default to always refetch
     refetchInterval: options.refetchInterval,
@@ -97,7 +98,7 @@ export function useDatastoreStatistics(options: UseDatastoreStatisticsOptions) {
 
   return useQuery({
     queryKey: ['datastore', 'statistics', options.identifier] as const,
-    queryFn: () => client.getDatastoreStatistics(options.identifier),
+    queryFn: ({ signal }) => client.getDatastoreStatistics(options.identifier, { signal }),
     enabled: options.enabled !== false && !!options.identifier,
     staleTime: options.staleTime ?? 5 * 60 * 1000, // Default 5 minutes
   })
@@ -125,7 +126,7 @@ export function useTriggerDatastoreImport() {
   const client = useDkanClient()
   const queryClient = useQueryClient()
 
-  return useMutation<DatastoreImport, Error, DatastoreImportOptions>({
+  return useMutation<DatastoreImport, DkanApiError, DatastoreImportOptions>({
     mutationFn: (options) => client.triggerDatastoreImport(options),
     onSuccess: () => {
       // Invalidate imports list
@@ -154,7 +155,7 @@ export function useDeleteDatastore() {
   const client = useDkanClient()
   const queryClient = useQueryClient()
 
-  return useMutation<{ message: string }, Error, string>({
+  return useMutation<{ message: string }, DkanApiError, string>({
     mutationFn: (identifier) => client.deleteDatastore(identifier),
     onSuccess: (data, identifier) => {
       // Invalidate imports list
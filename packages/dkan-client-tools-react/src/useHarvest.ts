@@ -9,6 +9,7 @@ import type {
   HarvestRun,
   HarvestRunOptions,
   MetastoreWriteResponse,
+  DkanApiError,
 } from '@dkan-client-tools/core'
 
 export interface UseHarvestPlansOptions {
@@ -52,7 +53,7 @@ export function useHarvestPlans(options: UseHarvestPlansOptions = {}) {
 
   return useQuery({
     queryKey: ['harvest', 'plans'] as const,
-    queryFn: () => client.listHarvestPlans(),
+    queryFn: ({ signal }) => client.listHarvestPlans({ signal }),
     enabled: options.enabled ?? true,
     staleTime: options.staleTime,
   })
@@ -71,7 +72,7 @@ export function useHarvestPlan(options: UseHarvestPlanOptions) {
 
   return useQuery({
     queryKey: ['harvest', 'plan', options.planId] as const,
-    queryFn: () => client.getHarvestPlan(options.planId),
+    queryFn: ({ signal }) => client.getHarvestPlan(options.planId, { signal }),
     enabled: (options.enabled ?? true) && !!options.planId,
     staleTime: options.staleTime,
   })
@@ -95,7 +96,7 @@ export function useHarvestRuns(options: UseHarvestRunsOptions) {
 
   return useQuery({
     queryKey: ['harvest', 'runs', options.planId] as const,
-    queryFn: () => client.listHarvestRuns(options.planId),
+    queryFn: ({ signal }) => client.listHarvestRuns(options.planId, { signal }),
     enabled: (options.enabled ?? true) && !!options.planId,
     staleTime: options.staleTime ?? 0, // Default to always refetch
     refetchInterval: options.refetchInterval,
@@ -121,7 +122,7 @@ export function useHarvestRun(options: UseHarvestRunOptions) {
 
   return useQuery({
     queryKey: ['harvest', 'run', options.runId, options.planId] as const,
-    queryFn: () => client.getHarvestRun(options.runId, options.planId),
+    queryFn: ({ signal }) => client.getHarvestRun(options.runId, options.planId, { signal }),
     enabled: (options.enabled ?? true) && !!options.runId && !!options.planId,
     staleTime: options.staleTime ?? 0,
     refetchInterval: options.refetchInterval,
@@ -150,7 +151,7 @@ export function useRegisterHarvestPlan() {
   const client = useDkanClient()
   const queryClient = useQueryClient()
 
-  return useMutation<MetastoreWriteResponse, Error, HarvestPlan>({
+  return useMutation<MetastoreWriteResponse, DkanApiError, HarvestPlan>({
     mutationFn: (plan) => client.registerHarvestPlan(plan),
     onSuccess: () => {
       // Invalidate harvest plans list
@@ -175,7 +176,7 @@ export function useRunHarvest() {
   const client = useDkanClient()
   const queryClient = useQueryClient()
 
-  return useMutation<HarvestRun, Error, HarvestRunOptions>({
+  return useMutation<HarvestRun, DkanApiError, HarvestRunOptions>({
     mutationFn: (options) => client.runHarvest(options),
     onSuccess: (data, variables) => {
       // Invalidate runs list for this plan
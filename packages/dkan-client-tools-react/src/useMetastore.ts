@@ -49,7 +49,7 @@ export function useAllDatasets(options: UseAllDatasetsOptions = {}) {
 
   return useQuery({
     queryKey: ['datasets', 'all'] as const,
-    queryFn: () => client.listAllDatasets(),
+    queryFn: ({ signal }) => client.listAllDatasets({ signal }),
     enabled: options.enabled ?? true,
     staleTime: options.staleTime,
   })
@@ -71,7 +71,7 @@ export function useSchemas(options: UseSchemasOptions = {}) {
 
   return useQuery({
     queryKey: ['metastore', 'schemas'] as const,
-    queryFn: () => client.listSchemas(),
+    queryFn: ({ signal }) => client.listSchemas({ signal }),
     enabled: options.enabled ?? true,
     staleTime: options.staleTime,
   })
@@ -92,7 +92,7 @@ export function useSchema(options: UseSchemaOptions) {
 
   return useQuery({
     queryKey: ['metastore', 'schema', options.schemaId] as const,
-    queryFn: () => client.getSchema(options.schemaId),
+    queryFn: ({ signal }) => client.getSchema(options.schemaId, { signal }),
     enabled: options.enabled !== false && !!options.schemaId,
     staleTime: options.staleTime ?? 10 * 60 * 1000, // Default 10 minutes - schemas rarely change
   })
@@ -115,7 +115,7 @@ export function useSchemaItems(options: UseSchemaItemsOptions) {
 
   return useQuery({
     queryKey: ['metastore', 'schema-items', options.schemaId] as const,
-    queryFn: () => client.getSchemaItems(options.schemaId),
+    queryFn: ({ signal }) => client.getSchemaItems(options.schemaId, { signal }),
     enabled: options.enabled ?? true,
     staleTime: options.staleTime,
   })
@@ -137,7 +137,7 @@ export function useDatasetFacets(options: UseFacetsOptions = {}) {
 
   return useQuery({
     queryKey: ['datasets', 'facets'] as const,
-    queryFn: () => client.getDatasetFacets(),
+    queryFn: ({ signal }) => client.getDatasetFacets({ signal }),
     enabled: options.enabled ?? true,
     staleTime: options.staleTime ?? 5 * 60 * 1000, // Default 5 minutes since facets don't change often
   })
@@ -1,6 +1,12 @@
+import { useState } from 'react'
 import { useMutation } from '@tanstack/react-query'
 import { useDkanClient } from './DkanClientProvider'
-import type { QueryDownloadOptions } from '@dkan-client-tools/core'
+import type {
+  QueryDownloadOptions,
+  DatastoreQueryBuilder,
+  DkanApiError,
+  DownloadProgress,
+} from '@dkan-client-tools/core'
 
 export interface DownloadQueryOptions {
   /** Dataset identifier (UUID) */
@@ -8,20 +14,54 @@ export interface DownloadQueryOptions {
   /** Distribution index (default: 0) */
   index: number
   /** Query options: format, conditions, properties, sorts, limit, offset */
-  queryOptions?: QueryDownloadOptions
+  queryOptions?: QueryDownloadOptions | DatastoreQueryBuilder
 }
 
 export interface DownloadQueryByDistributionOptions {
   /** Distribution/resource identifier */
   distributionId: string
   /** Query options: format, conditions, properties, sorts, limit, offset */
-  queryOptions?: QueryDownloadOptions
+  queryOptions?: QueryDownloadOptions | DatastoreQueryBuilder
+}
+
+/** Minimum time between progress updates when the server sends no Content-Length */
+const PROGRESS_INTERVAL = 100
+
+/**
+ * Limit progress updates to one per percent (or one per PROGRESS_INTERVAL without a total)
+ * so large downloads don't re-render on every chunk. `flush` reports the last skipped value.
+ */
+function throttleProgress(report: (progress: DownloadProgress) => void) {
+  let latest: DownloadProgress | undefined
+  let reported: DownloadProgress | undefined
+  let reportedAt = 0
+  const percent = ({ loaded, total }: DownloadProgress) => Math.floor((loaded / total!) * 100)
+
+  return {
+    onProgress(progress: DownloadProgress) {
+      latest = progress
+      const now = Date.now()
+      const due = !reported || (progress.total
+        ? percent(progress) !== percent(reported)
+        : now - reportedAt >= PROGRESS_INTERVAL)
+      if (due) {
+        reported = progress
+        reportedAt = now
+        report(progress)
+      }
+    },
+    flush() {
+      if (latest && latest !== reported) report(latest)
+    },
+  }
 }
 
 /**
  * Downloads datastore query results as CSV or JSON files.
  *
- * Returns Blob for use with `URL.createObjectURL()` or file-saver.
+ * Returns Blob for use with `URL.createObjectURL()` or file-saver. `progress` holds the bytes
+ * received (and the total when the server sends Content-Length) while the download runs,
+ * updated at most once per percent, and resets to null when a new download starts.
  *
  * @example
  * ```tsx
@@ -39,21 +79,30 @@ export interface DownloadQueryByDistributionOptions {
  *     },
  *   }
  * )
+ *
+ * const { progress } = download
+ * const percent = progress?.total ? Math.round((progress.loaded / progress.total) * 100) : null
  * ```
  */
 export function useDownloadQuery() {
   const client = useDkanClient()
+  const [progress, setProgress] = useState<DownloadProgress | null>(null)
 
-  return useMutation<Blob, Error, DownloadQueryOptions>({
-    mutationFn: ({ datasetId, index, queryOptions }) =>
-      client.downloadQuery(datasetId, index, queryOptions),
+  const mutation = useMutation<Blob, DkanApiError, DownloadQueryOptions>({
+    mutationFn: ({ datasetId, index, queryOptions }) => {
+      setProgress(null)
+      const { onProgress, flush } = throttleProgress(setProgress)
+      return client.downloadQuery(datasetId, index, queryOptions, { onProgress }).finally(flush)
+    },
   })
+
+  return { ...mutation, progress }
 }
 
 /**
  * Downloads datastore data by distribution ID (alternative to useDownloadQuery).
  *
- * Simpler interface when you have distribution ID directly.
+ * Simpler interface when you have distribution ID directly. Exposes `progress` like useDownloadQuery.
  *
  * @example
  * ```tsx
@@ -63,9 +112,15 @@ export function useDownloadQuery() {
  */
 export function useDownloadQueryByDistribution() {
   const client = useDkanClient()
+  const [progress, setProgress] = useState<DownloadProgress | null>(null)
 
-  return useMutation<Blob, Error, DownloadQueryByDistributionOptions>({
-    mutationFn: ({ distributionId, queryOptions }) =>
-      client.downloadQueryByDistribution(distributionId, queryOptions),
+  const mutation = useMutation<Blob, DkanApiError, DownloadQueryByDistributionOptions>({
+    mutationFn: ({ distributionId, queryOptions }) => {
+      setProgress(null)
+      const { onProgress, flush } = throttleProgress(setProgress)
+      return client.downloadQueryByDistribution(distributionId, queryOptions, { onProgress }).finally(flush)
+    },
   })
+
+  return { ...mutation, progress }
 }
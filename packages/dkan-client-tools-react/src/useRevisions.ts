@@ -9,6 +9,7 @@ import type {
   MetastoreNewRevision,
   MetastoreWriteResponse,
   WorkflowState,
+  DkanApiError,
 } from '@dkan-client-tools/core'
 
 export interface UseRevisionsOptions {
@@ -26,6 +27,17 @@ export interface UseRevisionOptions {
   staleTime?: number
 }
 
+export interface UseRevisionDiffOptions {
+  schemaId: string
+  identifier: string
+  /** Baseline revision, e.g. the published one */
+  fromRevisionId: string
+  /** Revision to review, e.g. the editor's draft */
+  toRevisionId: string
+  enabled?: boolean
+  staleTime?: number
+}
+
 export interface CreateRevisionOptions {
   schemaId: string
   identifier: string
@@ -58,7 +70,7 @@ export function useRevisions(options: UseRevisionsOptions) {
       options.schemaId,
       options.identifier,
     ] as const,
-    queryFn: () => client.getRevisions(options.schemaId, options.identifier),
+    queryFn: ({ signal }) => client.getRevisions(options.schemaId, options.identifier, { signal }),
     enabled:
       (options.enabled ?? true) && !!options.schemaId && !!options.identifier,
     staleTime: options.staleTime,
@@ -84,11 +96,12 @@ export function useRevision(options: UseRevisionOptions) {
       options.identifier,
       options.revisionId,
     ] as const,
-    queryFn: () =>
+    queryFn: ({ signal }) =>
       client.getRevision(
         options.schemaId,
         options.identifier,
-        options.revisionId
+        options.revisionId,
+        { signal }
       ),
     enabled:
       (options.enabled ?? true) &&
@@ -99,6 +112,48 @@ export function useRevision(options: UseRevisionOptions) {
   })
 }
 
+/**
+ * Compares the workflow metadata of two revisions of a metastore item.
+ *
+ * Returns both revisions and the changes to state, published, message and modified between
+ * them (`{ type, path, before, after }`). DKAN revision records do not include item content.
+ *
+ * @example
+ * ```tsx
+ * const { data } = useRevisionDiff({ schemaId: 'dataset', identifier, fromRevisionId, toRevisionId })
+ * data?.changes.map((change) => <li key={change.path}>{change.path}: {String(change.after)}</li>)
+ * ```
+ */
+export function useRevisionDiff(options: UseRevisionDiffOptions) {
+  const client = useDkanClient()
+
+  return useQuery({
+    queryKey: [
+      'metastore',
+      'revision-diff',
+      options.schemaId,
+      options.identifier,
+      options.fromRevisionId,
+      options.toRevisionId,
+    ] as const,
+    queryFn: ({ signal }) =>
+      client.compareRevisions(
+        options.schemaId,
+        options.identifier,
+        options.fromRevisionId,
+        options.toRevisionId,
+        { signal }
+      ),
+    enabled:
+      (options.enabled ?? true) &&
+      !!options.schemaId &&
+      !!options.identifier &&
+      !!options.fromRevisionId &&
+      !!options.toRevisionId,
+    staleTime: options.staleTime,
+  })
+}
+
 /**
  * Creates a new revision by changing an item's workflow state.
  *
@@ -119,7 +174,7 @@ export function useCreateRevision() {
   const client = useDkanClient()
   const queryClient = useQueryClient()
 
-  return useMutation<MetastoreWriteResponse, Error, CreateRevisionOptions>({
+  return useMutation<MetastoreWriteResponse, DkanApiError, CreateRevisionOptions>({
     mutationFn: ({ schemaId, identifier, revision }) =>
       client.createRevision(schemaId, identifier, revision),
     onSuccess: (data, variables) => {
@@ -164,7 +219,7 @@ export function useChangeDatasetState() {
   const client = useDkanClient()
   const queryClient = useQueryClient()
 
-  return useMutation<MetastoreWriteResponse, Error, ChangeDatasetStateOptions>({
+  return useMutation<MetastoreWriteResponse, DkanApiError, ChangeDatasetStateOptions>({
     mutationFn: ({ identifier, state, message }) =>
       client.changeDatasetState(identifier, state, message),
     onSuccess: (data, variables) => {
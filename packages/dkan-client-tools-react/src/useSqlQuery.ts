@@ -1,6 +1,13 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
 import { useDkanClient } from './DkanClientProvider'
-import type { SqlQueryOptions, SqlQueryResult } from '@dkan-client-tools/core'
+import { toSqlQueryString } from '@dkan-client-tools/core'
+import type {
+  SqlQueryBuilder,
+  SqlQueryInput,
+  SqlQueryOptions,
+  SqlQueryResult,
+  DkanApiError,
+} from '@dkan-client-tools/core'
 
 export interface UseSqlQueryOptions extends SqlQueryOptions {
   enabled?: boolean
@@ -10,6 +17,15 @@ export interface UseSqlQueryOptions extends SqlQueryOptions {
   gcTime?: number
 }
 
+/** Query key part for a SQL query; an unbuildable builder keys on its parts so queryFn can report the error */
+function sqlQueryKey(query: SqlQueryInput | undefined) {
+  try {
+    return toSqlQueryString(query)
+  } catch {
+    return (query as SqlQueryBuilder).toParts()
+  }
+}
+
 /**
  * Executes SQL queries against DKAN datastore tables.
  *
@@ -22,16 +38,24 @@ export interface UseSqlQueryOptions extends SqlQueryOptions {
  *   query: 'SELECT * FROM datastore_12345 LIMIT 10',
  *   show_db_columns: false,
  * })
+ *
+ * // Or build the query safely from user input
+ * const { data } = useSqlQuery({
+ *   query: sqlQuery(distributionId).where('state', searchInput).limit(10),
+ * })
  * ```
  */
 export function useSqlQuery(options: UseSqlQueryOptions) {
   const client = useDkanClient()
   const { enabled, staleTime, gcTime, ...sqlOptions } = options
+  const { query, show_db_columns } = sqlOptions as SqlQueryOptions
 
   return useQuery({
-    queryKey: ['datastore', 'sql', (sqlOptions as SqlQueryOptions).query, (sqlOptions as SqlQueryOptions).show_db_columns] as const,
-    queryFn: () => client.querySql(sqlOptions as SqlQueryOptions),
-    enabled: (enabled ?? true) && !!(sqlOptions as SqlQueryOptions).query,
+    // Resolve builders so the key holds the query string
+    queryKey: ['datastore', 'sql', sqlQueryKey(query), show_db_columns] as const,
+    // Builders are built here so invalid input becomes the query error instead of a render error
+    queryFn: ({ signal }) => client.querySql(sqlOptions as SqlQueryOptions, { signal }),
+    enabled: (enabled ?? true) && !!query,
     staleTime,
     gcTime,
   })
@@ -52,12 +76,12 @@ export function useExecuteSqlQuery() {
   const client = useDkanClient()
   const queryClient = useQueryClient()
 
-  return useMutation<SqlQueryResult, Error, SqlQueryOptions>({
+  return useMutation<SqlQueryResult, DkanApiError, SqlQueryOptions>({
     mutationFn: (options) => client.querySql(options),
     onSuccess: (data, variables) => {
       // Optionally cache the result using the same key as useSqlQuery
       queryClient.setQueryData(
-        ['datastore', 'sql', variables.query, variables.show_db_columns],
+        ['datastore', 'sql', toSqlQueryString(variables.query), variables.show_db_columns],
         data
       )
     },
@@ -2,12 +2,14 @@
  * Tests for DkanClientPlugin and useDkanClient
  */
 
-import { describe, it, expect, beforeEach } from 'vitest'
-import { mount } from '@vue/test-utils'
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { mount, flushPromises } from '@vue/test-utils'
 import { defineComponent, h } from 'vue'
 import { QueryClient } from '@tanstack/vue-query'
 import { DkanClient } from '@dkan-client-tools/core'
 import { DkanClientPlugin, useDkanClient } from '../plugin'
+import { useDatasetFacets } from '../useMetastore'
+import { useDataset } from '../useDataset'
 
 describe('DkanClientPlugin', () => {
   let mockClient: DkanClient
@@ -47,6 +49,83 @@ describe('DkanClientPlugin', () => {
     expect(wrapper.text()).toBe('client-provided')
   })
 
+  it('should restore persisted queries before fetching', async () => {
+    const facets = { theme: ['Health'], keyword: [], publisher: [] }
+    const storage = {
+      getItem: async () => JSON.stringify({
+        buster: '',
+        timestamp: Date.now(),
+        clientState: {
+          mutations: [],
+          queries: [{
+            queryKey: ['metastore', 'facets'],
+            queryHash: '["metastore","facets"]',
+            state: { data: facets, status: 'success', dataUpdatedAt: Date.now() },
+          }],
+        },
+      }),
+      setItem: vi.fn(),
+      removeItem: vi.fn(),
+    }
+    const getDatasetFacets = vi.spyOn(mockClient, 'getDatasetFacets')
+
+    const TestComponent = defineComponent({
+      setup() {
+        const { data } = useDatasetFacets({ staleTime: 60000 })
+        return () => h('div', data.value ? `Themes: ${data.value.theme.join(', ')}` : 'Loading')
+      },
+    })
+
+    const wrapper = mount(TestComponent, {
+      global: {
+        plugins: [[DkanClientPlugin, { client: mockClient, persistOptions: { storage } }]],
+      },
+    })
+    await flushPromises()
+
+    expect(wrapper.text()).toBe('Themes: Health')
+    expect(getDatasetFacets).not.toHaveBeenCalled()
+  })
+
+  it('should pass a token provider from clientOptions to hook requests', async () => {
+    const fetch = vi.fn(async (_url: string, init: RequestInit) => {
+      const authorized = (init.headers as Record<string, string>).Authorization === 'Bearer fresh'
+      return {
+        ok: authorized,
+        status: authorized ? 200 : 401,
+        statusText: authorized ? 'OK' : 'Unauthorized',
+        json: async () => ({ identifier: 'abc', title: 'Bike Lanes' }),
+        text: async () => 'Unauthorized',
+      } as Response
+    })
+    const getToken = vi.fn(async ({ forceRefresh }: { forceRefresh: boolean }) =>
+      forceRefresh ? 'fresh' : 'expired'
+    )
+
+    const TestComponent = defineComponent({
+      setup() {
+        const { data } = useDataset({ identifier: 'abc' })
+        return () => h('div', data.value ? data.value.title : 'Loading')
+      },
+    })
+
+    const wrapper = mount(TestComponent, {
+      global: {
+        plugins: [[DkanClientPlugin, {
+          clientOptions: {
+            baseUrl: 'https://test.example.com',
+            defaultOptions: { retry: 0 },
+            auth: { getToken },
+            fetch,
+          },
+        }]],
+      },
+    })
+    await vi.waitFor(() => expect(wrapper.text()).toBe('Bike Lanes'))
+
+    expect(fetch).toHaveBeenCalledTimes(2)
+  })
+
   it('should throw error when useDkanClient is used without plugin', () => {
     const TestComponent = defineComponent({
       setup() {
@@ -77,7 +77,7 @@ describe('useDataset', () => {
       expect(wrapper.text()).toBe('Title: Test Dataset')
     }, waitForOptions)
 
-    expect(mockClient.fetchDataset).toHaveBeenCalledWith('test-123')
+    expect(mockClient.fetchDataset).toHaveBeenCalledWith('test-123', { signal: expect.any(AbortSignal) })
   })
 
   it('should handle fetch error', async () => {
@@ -185,7 +185,7 @@ describe('useDataset', () => {
       expect(wrapper.text()).toContain('Title: Test')
     }, waitForOptions)
 
-    expect(fetchSpy).toHaveBeenCalledWith('test-123')
+    expect(fetchSpy).toHaveBeenCalledWith('test-123', { signal: expect.any(AbortSignal) })
   })
 
   it('should cache results', async () => {
@@ -6,7 +6,7 @@ import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { mount } from '@vue/test-utils'
 import { defineComponent, h, ref } from 'vue'
 import { QueryClient } from '@tanstack/vue-query'
-import { DkanClient } from '@dkan-client-tools/core'
+import { DkanClient, DkanValidationError } from '@dkan-client-tools/core'
 import { DkanClientPlugin } from '../plugin'
 import {
   useCreateDataset,
@@ -135,6 +135,41 @@ describe('useDatasetMutations', () => {
       })
     })
 
+    it('should validate against the dataset schema before sending', async () => {
+      vi.spyOn(mockClient.getApiClient(), 'getSchema').mockResolvedValue({
+        type: 'object',
+        required: ['title'],
+        properties: { title: { type: 'string' } },
+      })
+      const createSpy = vi.spyOn(mockClient, 'createDataset')
+
+      const TestComponent = defineComponent({
+        setup() {
+          const createDataset = useCreateDataset({ validate: true })
+
+          return () => h('div', [
+            h('button', { onClick: () => createDataset.mutate({ description: 'No title' } as any) }, 'Create'),
+            createDataset.error.value instanceof DkanValidationError
+              ? h('div', createDataset.error.value.violations.map((v) => v.property).join(','))
+              : null,
+          ])
+        },
+      })
+
+      const wrapper = mount(TestComponent, {
+        global: {
+          plugins: [[DkanClientPlugin, { client: mockClient }]],
+        },
+      })
+
+      await wrapper.find('button').trigger('click')
+
+      await vi.waitFor(() => {
+        expect(wrapper.text()).toContain('title')
+      })
+      expect(createSpy).not.toHaveBeenCalled()
+    })
+
     it('should call onSuccess callback', async () => {
       const onSuccess = vi.fn()
       const mockResponse = {
@@ -6,9 +6,9 @@ import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { mount } from '@vue/test-utils'
 import { defineComponent, h, ref, computed } from 'vue'
 import { QueryClient } from '@tanstack/vue-query'
-import { DkanClient } from '@dkan-client-tools/core'
+import { DkanClient, FederatedDkanClient } from '@dkan-client-tools/core'
 import { DkanClientPlugin } from '../plugin'
-import { useDatasetSearch } from '../useDatasetSearch'
+import { useDatasetSearch, useFederatedDatasetSearch } from '../useDatasetSearch'
 
 describe('useDatasetSearch', () => {
   let mockClient: DkanClient
@@ -63,7 +63,7 @@ describe('useDatasetSearch', () => {
       expect(wrapper.text()).toBe('Found 10 datasets')
     })
 
-    expect(mockClient.searchDatasets).toHaveBeenCalledWith(undefined)
+    expect(mockClient.searchDatasets).toHaveBeenCalledWith(undefined, { signal: expect.any(AbortSignal) })
   })
 
   it('should search with keyword filter', async () => {
@@ -94,7 +94,7 @@ describe('useDatasetSearch', () => {
       expect(wrapper.text()).toBe('Results: 1')
     })
 
-    expect(mockClient.searchDatasets).toHaveBeenCalledWith({ keyword: 'health' })
+    expect(mockClient.searchDatasets).toHaveBeenCalledWith({ keyword: 'health' }, { signal: expect.any(AbortSignal) })
   })
 
   it('should search with multiple filters', async () => {
@@ -136,7 +136,7 @@ describe('useDatasetSearch', () => {
       page: 1,
       sort: 'modified',
       'sort-order': 'desc',
-    })
+    }, { signal: expect.any(AbortSignal) })
   })
 
   it('should handle search error', async () => {
@@ -220,13 +220,13 @@ describe('useDatasetSearch', () => {
     })
 
     await vi.waitFor(() => {
-      expect(searchSpy).toHaveBeenCalledWith({ keyword: 'health' })
+      expect(searchSpy).toHaveBeenCalledWith({ keyword: 'health' }, { signal: expect.any(AbortSignal) })
     })
 
     await wrapper.find('button').trigger('click')
 
     await vi.waitFor(() => {
-      expect(searchSpy).toHaveBeenCalledWith({ keyword: 'education' })
+      expect(searchSpy).toHaveBeenCalledWith({ keyword: 'education' }, { signal: expect.any(AbortSignal) })
     })
 
     expect(searchSpy).toHaveBeenCalledTimes(2)
@@ -326,3 +326,62 @@ describe('useDatasetSearch', () => {
     })
   })
 })
+
+describe('useFederatedDatasetSearch', () => {
+  let mockClient: DkanClient
+  let federated: FederatedDkanClient
+
+  beforeEach(() => {
+    mockClient = new DkanClient({
+      baseUrl: 'https://test.example.com',
+      queryClient: new QueryClient({ defaultOptions: { queries: { retry: 0 } } }),
+    })
+    federated = new FederatedDkanClient({
+      sources: [
+        { id: 'a', label: 'County A', baseUrl: 'https://a.example.com' },
+        { id: 'b', label: 'County B', baseUrl: 'https://b.example.com' },
+      ],
+    })
+  })
+
+  it('should search every source and refetch when options change', async () => {
+    const source = { id: 'a', label: 'County A', baseUrl: 'https://a.example.com' }
+    vi.spyOn(federated, 'searchDatasets').mockImplementation(async (options) => ({
+      total: 1,
+      results: [{ identifier: '1', title: options?.fulltext ?? 'All', source }],
+      facets: { theme: [], keyword: [], publisher: [] },
+      totals: { a: 1, b: 0 },
+      errors: [],
+    }) as any)
+
+    const fulltext = ref('parks')
+    const TestComponent = defineComponent({
+      setup() {
+        const { data } = useFederatedDatasetSearch({
+          client: federated,
+          searchOptions: computed(() => ({ fulltext: fulltext.value })),
+        })
+        return () => h('div', data.value
+          ? `${data.value.results[0].title} from ${data.value.results[0].source.label}`
+          : 'Loading...')
+      },
+    })
+
+    const wrapper = mount(TestComponent, {
+      global: { plugins: [[DkanClientPlugin, { client: mockClient }]] },
+    })
+
+    await vi.waitFor(() => {
+      expect(wrapper.text()).toBe('parks from County A')
+    })
+
+    fulltext.value = 'trails'
+    await vi.waitFor(() => {
+      expect(wrapper.text()).toBe('trails from County A')
+    })
+    expect(federated.searchDatasets).toHaveBeenLastCalledWith(
+      { fulltext: 'trails' },
+      { signal: expect.any(AbortSignal) }
+    )
+  })
+})
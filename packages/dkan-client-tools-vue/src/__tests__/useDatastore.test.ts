@@ -63,7 +63,7 @@ describe('useDatastore', () => {
       expect(wrapper.text()).toBe('Rows: 2')
     })
 
-    expect(mockClient.queryDatastore).toHaveBeenCalledWith('dataset-123', undefined, undefined)
+    expect(mockClient.queryDatastore).toHaveBeenCalledWith('dataset-123', undefined, undefined, { signal: expect.any(AbortSignal) })
   })
 
   it('should query with specific index', async () => {
@@ -92,7 +92,7 @@ describe('useDatastore', () => {
       expect(wrapper.text()).toBe('Count: 0')
     })
 
-    expect(mockClient.queryDatastore).toHaveBeenCalledWith('dataset-123', 2, undefined)
+    expect(mockClient.queryDatastore).toHaveBeenCalledWith('dataset-123', 2, undefined, { signal: expect.any(AbortSignal) })
   })
 
   it('should query with query options', async () => {
@@ -127,7 +127,8 @@ describe('useDatastore', () => {
       expect(mockClient.queryDatastore).toHaveBeenCalledWith(
         'dataset-123',
         undefined,
-        queryOptions
+        queryOptions,
+        { signal: expect.any(AbortSignal) }
       )
     })
   })
@@ -215,14 +216,14 @@ describe('useDatastore', () => {
     })
 
     await vi.waitFor(() => {
-      expect(querySpy).toHaveBeenCalledWith('dataset-1', undefined, undefined)
+      expect(querySpy).toHaveBeenCalledWith('dataset-1', undefined, undefined, { signal: expect.any(AbortSignal) })
     })
 
     const button = wrapper.find('button')
     await button.trigger('click')
 
     await vi.waitFor(() => {
-      expect(querySpy).toHaveBeenCalledWith('dataset-2', undefined, undefined)
+      expect(querySpy).toHaveBeenCalledWith('dataset-2', undefined, undefined, { signal: expect.any(AbortSignal) })
     })
 
     expect(querySpy).toHaveBeenCalledTimes(2)
@@ -329,7 +330,7 @@ describe('useDatastore', () => {
     })
 
     await vi.waitFor(() => {
-      expect(querySpy).toHaveBeenCalledWith('dataset-123', 0, queryOptions)
+      expect(querySpy).toHaveBeenCalledWith('dataset-123', 0, queryOptions, { signal: expect.any(AbortSignal) })
     })
   })
 
@@ -452,7 +453,7 @@ describe('useQueryDatastoreMulti', () => {
       },
     }), { global: { plugins: [[DkanClientPlugin, { client: mockClient }]] } })
 
-    await vi.waitFor(() => expect(querySpy).toHaveBeenCalledWith(queryOptions, undefined))
+    await vi.waitFor(() => expect(querySpy).toHaveBeenCalledWith(queryOptions, undefined, { signal: expect.any(AbortSignal) }))
   })
 
   it('should support GET method option', async () => {
@@ -465,6 +466,6 @@ describe('useQueryDatastoreMulti', () => {
       },
     }), { global: { plugins: [[DkanClientPlugin, { client: mockClient }]] } })
 
-    await vi.waitFor(() => expect(querySpy).toHaveBeenCalledWith(queryOptions, 'GET'))
+    await vi.waitFor(() => expect(querySpy).toHaveBeenCalledWith(queryOptions, 'GET', { signal: expect.any(AbortSignal) }))
   })
 })
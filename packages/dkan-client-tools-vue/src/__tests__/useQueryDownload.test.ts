@@ -60,6 +60,57 @@ describe('useQueryDownload', () => {
       await wrapper.find('button').trigger('click')
       await vi.waitFor(() => expect(wrapper.text()).toContain('Download failed'))
     })
+
+    it('should expose download progress', async () => {
+      vi.spyOn(mockClient, 'downloadQuery').mockImplementation(
+        async (_datasetId, _index, _options, requestOptions) => {
+          requestOptions?.onProgress?.({ loaded: 50, total: 200 })
+          return new Blob(['data'], { type: 'text/csv' })
+        }
+      )
+      const wrapper = mount(defineComponent({
+        setup() {
+          const mutation = useDownloadQuery()
+          return () => h('button', {
+            onClick: () => mutation.mutate({ datasetId: 'ds-123', index: 0 })
+          }, mutation.progress.value
+            ? `${mutation.progress.value.loaded} of ${mutation.progress.value.total}`
+            : 'No progress')
+        },
+      }), { global: { plugins: [[DkanClientPlugin, { client: mockClient }]] } })
+
+      expect(wrapper.text()).toBe('No progress')
+      await wrapper.find('button').trigger('click')
+      await vi.waitFor(() => expect(wrapper.text()).toBe('50 of 200'))
+    })
+
+    it('should only update progress when the percentage changes', async () => {
+      const rendered: string[] = []
+      vi.spyOn(mockClient, 'downloadQuery').mockImplementation(
+        async (_datasetId, _index, _options, requestOptions) => {
+          for (const loaded of [0, 10, 20, 30, 40]) {
+            requestOptions?.onProgress?.({ loaded, total: 100000 })
+            await new Promise((resolve) => setTimeout(resolve, 0))
+          }
+          return new Blob(['data'], { type: 'text/csv' })
+        }
+      )
+      const wrapper = mount(defineComponent({
+        setup() {
+          const mutation = useDownloadQuery()
+          return () => {
+            if (mutation.progress.value) rendered.push(String(mutation.progress.value.loaded))
+            return h('button', {
+              onClick: () => mutation.mutate({ datasetId: 'ds-123', index: 0 })
+            }, mutation.isSuccess.value ? `Done at ${mutation.progress.value?.loaded}` : 'Pending')
+          }
+        },
+      }), { global: { plugins: [[DkanClientPlugin, { client: mockClient }]] } })
+
+      await wrapper.find('button').trigger('click')
+      await vi.waitFor(() => expect(wrapper.text()).toBe('Done at 40'))
+      expect(new Set(rendered)).toEqual(new Set(['0', '40']))
+    })
   })
 
   describe('useDownloadQueryByDistribution', () => {
@@ -8,7 +8,13 @@ import { defineComponent, h, ref } from 'vue'
 import { QueryClient } from '@tanstack/vue-query'
 import { DkanClient } from '@dkan-client-tools/core'
 import { DkanClientPlugin } from '../plugin'
-import { useRevisions, useRevision, useCreateRevision, useChangeDatasetState } from '../useRevisions'
+import {
+  useRevisions,
+  useRevision,
+  useRevisionDiff,
+  useCreateRevision,
+  useChangeDatasetState,
+} from '../useRevisions'
 
 describe('useRevisions', () => {
   let mockClient: DkanClient
@@ -64,6 +70,38 @@ describe('useRevisions', () => {
     })
   })
 
+  describe('useRevisionDiff', () => {
+    it('should compare two revisions and refetch when one changes', async () => {
+      const compareSpy = vi.spyOn(mockClient, 'compareRevisions').mockImplementation(
+        async (schemaId, identifier, from, to) => ({
+          from: { identifier: from } as any,
+          to: { identifier: to } as any,
+          changes: [{ type: 'changed', path: 'state', before: 'published', after: 'draft' }],
+        })
+      )
+      const toRevisionId = ref('2')
+      const wrapper = mount(defineComponent({
+        setup() {
+          const { data } = useRevisionDiff({
+            schemaId: 'dataset',
+            identifier: 'dataset-123',
+            fromRevisionId: '1',
+            toRevisionId,
+          })
+          return () => h('div', data.value
+            ? `${data.value.to.identifier}: ${data.value.changes.map((change) => change.path).join(',')}`
+            : 'Loading')
+        },
+      }), { global: { plugins: [[DkanClientPlugin, { client: mockClient }]] } })
+
+      await vi.waitFor(() => expect(wrapper.text()).toBe('2: state'))
+
+      toRevisionId.value = '3'
+      await vi.waitFor(() => expect(wrapper.text()).toBe('3: state'))
+      expect(compareSpy).toHaveBeenLastCalledWith('dataset', 'dataset-123', '1', '3', expect.anything())
+    })
+  })
+
   describe('useCreateRevision', () => {
     it('should create revision', async () => {
       vi.spyOn(mockClient, 'createRevision').mockResolvedValue({ revision_id: 2 })
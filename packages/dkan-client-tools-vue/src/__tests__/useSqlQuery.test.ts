@@ -6,7 +6,7 @@ import { describe, it, expect, beforeEach, vi } from 'vitest'
 import { mount, flushPromises } from '@vue/test-utils'
 import { defineComponent, h, ref, nextTick } from 'vue'
 import { QueryClient } from '@tanstack/vue-query'
-import { DkanClient } from '@dkan-client-tools/core'
+import { DkanClient, sqlQuery } from '@dkan-client-tools/core'
 import { DkanClientPlugin } from '../plugin'
 import { useSqlQuery, useExecuteSqlQuery } from '../useSqlQuery'
 import { waitForOptions } from './setup'
@@ -75,7 +75,7 @@ describe('useSqlQuery', () => {
       expect(mockClient.querySql).toHaveBeenCalledWith({
         query: 'SELECT * FROM datastore_12345 LIMIT 10',
         show_db_columns: undefined,
-      })
+      }, { signal: expect.any(AbortSignal) })
     })
 
     it('should execute aggregate query successfully', async () => {
@@ -213,6 +213,33 @@ describe('useSqlQuery', () => {
       }, waitForOptions)
     })
 
+    it('should report an unbuildable sqlQuery builder as the query error', async () => {
+      const fetchSpy = vi.spyOn(global, 'fetch')
+
+      const TestComponent = defineComponent({
+        setup() {
+          const { error } = useSqlQuery({
+            query: sqlQuery('dist-123').where('name', 'Record [1]'),
+          })
+
+          return () => h('div', error.value ? `Error: ${error.value.message}` : 'Pending')
+        },
+      })
+
+      const wrapper = mount(TestComponent, {
+        global: {
+          plugins: [[DkanClientPlugin, { client: mockClient }]],
+        },
+      })
+
+      await flushPromises()
+
+      await vi.waitFor(() => {
+        expect(wrapper.text()).toBe('Error: SQL values cannot contain "[" or "]"')
+      }, waitForOptions)
+      expect(fetchSpy).not.toHaveBeenCalled()
+    })
+
     it('should query with show_db_columns option', async () => {
       const mockResult = [{ col1: 'value1' }]
 
@@ -245,7 +272,7 @@ describe('useSqlQuery', () => {
       expect(querySpy).toHaveBeenCalledWith({
         query: 'SELECT * FROM datastore_12345',
         show_db_columns: true,
-      })
+      }, { signal: expect.any(AbortSignal) })
     })
   })
 
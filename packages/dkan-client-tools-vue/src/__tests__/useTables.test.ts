@@ -302,7 +302,7 @@ describe('Table Composables', () => {
 
       expect(mockClient.searchDatasets).toHaveBeenCalledWith({
         keyword: 'health',
-      })
+      }, { signal: expect.any(AbortSignal) })
     })
 
     it('should handle search errors', async () => {
@@ -456,7 +456,7 @@ describe('Table Composables', () => {
         expect(wrapper.text()).toContain('Name: Jane')
       }, waitForOptions)
 
-      expect(mockClient.queryDatastore).toHaveBeenCalledWith('test-dataset', 0, undefined)
+      expect(mockClient.queryDatastore).toHaveBeenCalledWith('test-dataset', 0, undefined, { signal: expect.any(AbortSignal) })
     })
 
     it('should handle datastore query errors', async () => {
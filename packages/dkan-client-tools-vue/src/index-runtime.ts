@@ -14,7 +14,7 @@ export { VueNamespace as Vue }
 
 // Re-export QueryClient and VueQueryPlugin for IIFE builds
 export { QueryClient, VueQueryPlugin } from '@tanstack/vue-query'
-export { DkanClient } from '@dkan-client-tools/core'
+export { DkanClient, FederatedDkanClient } from '@dkan-client-tools/core'
 
 // Plugin and context
 export { DkanClientPlugin, useDkanClient } from './plugin'
@@ -24,8 +24,8 @@ export type { DkanClientPluginOptions } from './plugin'
 export { useDataset } from './useDataset'
 export type { UseDatasetOptions } from './useDataset'
 
-export { useDatasetSearch } from './useDatasetSearch'
-export type { UseDatasetSearchOptions } from './useDatasetSearch'
+export { useDatasetSearch, useFederatedDatasetSearch } from './useDatasetSearch'
+export type { UseDatasetSearchOptions, UseFederatedDatasetSearchOptions } from './useDatasetSearch'
 
 export { useDatastore } from './useDatastore'
 export type { UseDatastoreOptions } from './useDatastore'
@@ -82,12 +82,14 @@ export type {
 export {
   useRevisions,
   useRevision,
+  useRevisionDiff,
   useCreateRevision,
   useChangeDatasetState,
 } from './useRevisions'
 export type {
   UseRevisionsOptions,
   UseRevisionOptions,
+  UseRevisionDiffOptions,
   CreateRevisionOptions,
   ChangeDatasetStateOptions,
 } from './useRevisions'
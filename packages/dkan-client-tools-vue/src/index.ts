@@ -21,8 +21,8 @@ export type { DkanClientPluginOptions } from './plugin'
 export { useDataset } from './useDataset'
 export type { UseDatasetOptions } from './useDataset'
 
-export { useDatasetSearch } from './useDatasetSearch'
-export type { UseDatasetSearchOptions } from './useDatasetSearch'
+export { useDatasetSearch, useFederatedDatasetSearch } from './useDatasetSearch'
+export type { UseDatasetSearchOptions, UseFederatedDatasetSearchOptions } from './useDatasetSearch'
 
 export { useDatastore, useQueryDatastoreMulti } from './useDatastore'
 export type { UseDatastoreOptions, UseQueryDatastoreMultiOptions } from './useDatastore'
@@ -79,6 +79,7 @@ export {
 export type {
   UpdateDatasetOptions,
   PatchDatasetOptions,
+  DatasetMutationOptions,
 } from './useDatasetMutations'
 
 // Datastore Import composables
@@ -99,12 +100,14 @@ export type {
 export {
   useRevisions,
   useRevision,
+  useRevisionDiff,
   useCreateRevision,
   useChangeDatasetState,
 } from './useRevisions'
 export type {
   UseRevisionsOptions,
   UseRevisionOptions,
+  UseRevisionDiffOptions,
   CreateRevisionOptions,
   ChangeDatasetStateOptions,
 } from './useRevisions'
@@ -171,9 +174,16 @@ export type {
   DkanClientOptions,
   DkanDataset,
   DkanSearchResponse,
+  FederatedSearchResponse,
+  FederatedDataset,
+  FederatedSource,
+  FederatedSourceConfig,
   DkanDatastoreQueryResponse,
   DatasetQueryOptions,
   DatastoreQueryOptions,
+  DatastoreQueryInput,
+  SqlQueryInput,
+  SqlQueryParts,
   DataDictionary,
   DataDictionaryData,
   DataDictionaryField,
@@ -187,8 +197,14 @@ export type {
   DatastoreImportOptions,
   MetastoreWriteResponse,
   MetastoreRevision,
+  RevisionComparison,
+  DatasetChange,
   MetastoreNewRevision,
   WorkflowState,
+  DkanValidationViolation,
+  DownloadProgress,
+  DkanCacheStorage,
+  PersistQueryClientOptions,
   DatasetColumnConfig,
   DatastoreColumnConfig,
   HarvestPlanColumnConfig,
@@ -200,6 +216,19 @@ export type {
   TableFilterConfig,
 } from '@dkan-client-tools/core'
 
+// Re-export error classes for instanceof checks on hook errors
+export {
+  DkanApiError,
+  DkanNotFoundError,
+  DkanAuthError,
+  DkanValidationError,
+  DkanNetworkError,
+  DkanTimeoutError,
+} from '@dkan-client-tools/core'
+
+// Re-export query builders
+export { datastoreQuery, sqlQuery, parseSqlQuery } from '@dkan-client-tools/core'
+
 // Re-export TanStack Vue Query for advanced usage
 export {
   useQuery,
@@ -5,7 +5,12 @@
 
 import { type App, type Plugin, inject, type InjectionKey } from 'vue'
 import { QueryClient, VueQueryPlugin, type VueQueryPluginOptions } from '@tanstack/vue-query'
-import { DkanClient, type DkanClientOptions } from '@dkan-client-tools/core'
+import {
+  DkanClient,
+  persistQueryClient,
+  type DkanClientOptions,
+  type PersistQueryClientOptions,
+} from '@dkan-client-tools/core'
 
 export const DkanClientKey: InjectionKey<DkanClient> = Symbol('DkanClient')
 
@@ -20,6 +25,12 @@ export interface DkanClientPluginOptions {
    * Optional Vue Query configuration
    */
   vueQueryOptions?: Omit<VueQueryPluginOptions, 'queryClient'>
+
+  /**
+   * Persist selected queries (search results, facets, schemas by default) across page loads.
+   * Queries wait for the stored cache to be restored before fetching.
+   */
+  persistOptions?: PersistQueryClientOptions
 }
 
 /**
@@ -42,7 +53,7 @@ export interface DkanClientPluginOptions {
  */
 export const DkanClientPlugin: Plugin<DkanClientPluginOptions> = {
   install(app: App, options: DkanClientPluginOptions) {
-    const { clientOptions, client: providedClient, vueQueryOptions } = options
+    const { clientOptions, client: providedClient, vueQueryOptions, persistOptions } = options
 
     let client: DkanClient
     let queryClient: QueryClient
@@ -77,6 +88,12 @@ export const DkanClientPlugin: Plugin<DkanClientPluginOptions> = {
     app.use(VueQueryPlugin, {
       ...vueQueryOptions,
       queryClient,
+      ...(persistOptions && {
+        clientPersister: (client: QueryClient): [() => void, Promise<void>] => {
+          const { restored, unsubscribe } = persistQueryClient(client, persistOptions)
+          return [unsubscribe, restored]
+        },
+      }),
     })
 
     // Provide DkanClient
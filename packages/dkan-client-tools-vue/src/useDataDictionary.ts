@@ -34,7 +34,7 @@ export function useDataDictionary(options: UseDataDictionaryOptions) {
 
   return useQuery({
     queryKey: ['data-dictionary', options.identifier] as const,
-    queryFn: () => client.getDataDictionary(toValue(options.identifier)),
+    queryFn: ({ signal }) => client.getDataDictionary(toValue(options.identifier), { signal }),
     enabled: () => toValue(options.enabled) ?? true,
     staleTime: options.staleTime,
   })
@@ -55,7 +55,7 @@ export function useDataDictionaryList(options: UseDataDictionaryListOptions = {}
 
   return useQuery({
     queryKey: ['data-dictionaries'] as const,
-    queryFn: () => client.listDataDictionaries(),
+    queryFn: ({ signal }) => client.listDataDictionaries({ signal }),
     enabled: () => toValue(options.enabled) ?? true,
     staleTime: options.staleTime,
   })
@@ -82,7 +82,7 @@ export function useDataDictionaryFromUrl(options: {
 
   return useQuery({
     queryKey: ['data-dictionary-url', options.url] as const,
-    queryFn: () => client.getDataDictionaryFromUrl(toValue(options.url)),
+    queryFn: ({ signal }) => client.getDataDictionaryFromUrl(toValue(options.url), { signal }),
     enabled: () => toValue(options.enabled) ?? true,
     staleTime: options.staleTime,
   })
@@ -115,10 +115,11 @@ export function useDatastoreSchema(options: {
       options.datasetId,
       () => toValue(options.index) ?? 0,
     ] as const,
-    queryFn: () =>
+    queryFn: ({ signal }) =>
       client.getDatastoreSchema(
         toValue(options.datasetId),
-        toValue(options.index) ?? 0
+        toValue(options.index) ?? 0,
+        { signal }
       ),
     enabled: () => toValue(options.enabled) ?? true,
     staleTime: options.staleTime,
@@ -7,6 +7,7 @@ import { useDkanClient } from './plugin'
 import type {
   DataDictionary,
   MetastoreWriteResponse,
+  DkanApiError,
 } from '@dkan-client-tools/core'
 
 /**
@@ -36,7 +37,7 @@ export function useCreateDataDictionary() {
   const client = useDkanClient()
   const queryClient = useQueryClient()
 
-  return useMutation<MetastoreWriteResponse, Error, DataDictionary>({
+  return useMutation<MetastoreWriteResponse, DkanApiError, DataDictionary>({
     mutationFn: (dictionary: DataDictionary) => client.createDataDictionary(dictionary),
     onSuccess: () => {
       queryClient.invalidateQueries({
@@ -66,7 +67,7 @@ export function useUpdateDataDictionary() {
 
   return useMutation<
     MetastoreWriteResponse,
-    Error,
+    DkanApiError,
     { identifier: string; dictionary: DataDictionary }
   >({
     mutationFn: ({ identifier, dictionary }: { identifier: string; dictionary: DataDictionary }) =>
@@ -102,7 +103,7 @@ export function useDeleteDataDictionary() {
   const client = useDkanClient()
   const queryClient = useQueryClient()
 
-  return useMutation<{ message: string }, Error, string>({
+  return useMutation<{ message: string }, DkanApiError, string>({
     mutationFn: (identifier: string) => client.deleteDataDictionary(identifier),
     onSuccess: (_data, identifier) => {
       queryClient.removeQueries({
@@ -37,7 +37,7 @@ export function useDataset(options: UseDatasetOptions) {
 
   return useQuery({
     queryKey: ['dataset', identifier],
-    queryFn: () => client.fetchDataset(toValue(identifier)),
+    queryFn: ({ signal }) => client.fetchDataset(toValue(identifier), { signal }),
     enabled: () => {
       const isEnabled = toValue(enabled) ?? true
       const hasIdentifier = !!toValue(identifier)
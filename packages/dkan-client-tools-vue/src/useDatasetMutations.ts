@@ -6,7 +6,10 @@ import { useMutation, useQueryClient } from '@tanstack/vue-query'
 import { useDkanClient } from './plugin'
 import type {
   DkanDataset,
+  DatasetMergePatch,
   MetastoreWriteResponse,
+  DkanApiError,
+  DkanRequestOptions,
 } from '@dkan-client-tools/core'
 
 export interface UpdateDatasetOptions {
@@ -16,7 +19,23 @@ export interface UpdateDatasetOptions {
 
 export interface PatchDatasetOptions {
   identifier: string
-  partialDataset: Partial<DkanDataset>
+  /** Fields to update, or a merge patch from diffDatasets() */
+  partialDataset: Partial<DkanDataset> | DatasetMergePatch
+}
+
+export interface DatasetMutationOptions {
+  /**
+   * Validate against the site's dataset schema before sending. Invalid datasets reject with
+   * DkanValidationError, the same error the metastore returns, without a request. Pass request
+   * options (`{ timeoutMs: 5000 }`) to bound the schema fetch.
+   * @default false
+   */
+  validate?: boolean | DkanRequestOptions
+}
+
+/** Request options for the schema fetch behind `validate` */
+function schemaRequestOptions({ validate }: DatasetMutationOptions) {
+  return typeof validate === 'object' ? validate : undefined
 }
 
 /**
@@ -38,12 +57,15 @@ export interface PatchDatasetOptions {
  * </script>
  * ```
  */
-export function useCreateDataset() {
+export function useCreateDataset(options: DatasetMutationOptions = {}) {
   const client = useDkanClient()
   const queryClient = useQueryClient()
 
-  return useMutation<MetastoreWriteResponse, Error, DkanDataset>({
-    mutationFn: (dataset) => client.createDataset(dataset),
+  return useMutation<MetastoreWriteResponse, DkanApiError, DkanDataset>({
+    mutationFn: async (dataset) => {
+      if (options.validate) await client.assertValidDataset(dataset, undefined, schemaRequestOptions(options))
+      return client.createDataset(dataset)
+    },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['datasets'] })
       queryClient.invalidateQueries({ queryKey: ['metastore', 'facets'] })
@@ -70,12 +92,15 @@ export function useCreateDataset() {
  * </script>
  * ```
  */
-export function useUpdateDataset() {
+export function useUpdateDataset(options: DatasetMutationOptions = {}) {
   const client = useDkanClient()
   const queryClient = useQueryClient()
 
-  return useMutation<MetastoreWriteResponse, Error, { identifier: string; dataset: DkanDataset }>({
-    mutationFn: ({ identifier, dataset }) => client.updateDataset(identifier, dataset),
+  return useMutation<MetastoreWriteResponse, DkanApiError, { identifier: string; dataset: DkanDataset }>({
+    mutationFn: async ({ identifier, dataset }) => {
+      if (options.validate) await client.assertValidDataset(dataset, undefined, schemaRequestOptions(options))
+      return client.updateDataset(identifier, dataset)
+    },
     onSuccess: (data, variables) => {
       queryClient.invalidateQueries({
         queryKey: ['datasets', 'single', variables.identifier],
@@ -87,7 +112,8 @@ export function useUpdateDataset() {
 }
 
 /**
- * Partially updates a dataset (only specified fields).
+ * Partially updates a dataset (only specified fields). With `validate`, only the fields sent
+ * are checked; missing required fields are allowed.
  *
  * @example
  * ```vue
@@ -103,12 +129,17 @@ export function useUpdateDataset() {
  * </script>
  * ```
  */
-export function usePatchDataset() {
+export function usePatchDataset(options: DatasetMutationOptions = {}) {
   const client = useDkanClient()
   const queryClient = useQueryClient()
 
-  return useMutation<MetastoreWriteResponse, Error, { identifier: string; partialDataset: Partial<DkanDataset> }>({
-    mutationFn: ({ identifier, partialDataset }) => client.patchDataset(identifier, partialDataset),
+  return useMutation<MetastoreWriteResponse, DkanApiError, PatchDatasetOptions>({
+    mutationFn: async ({ identifier, partialDataset }) => {
+      if (options.validate) {
+        await client.assertValidDataset(partialDataset, { partial: true }, schemaRequestOptions(options))
+      }
+      return client.patchDataset(identifier, partialDataset)
+    },
     onSuccess: (data, variables) => {
       queryClient.invalidateQueries({
         queryKey: ['datasets', 'single', variables.identifier],
@@ -139,7 +170,7 @@ export function useDeleteDataset() {
   const client = useDkanClient()
   const queryClient = useQueryClient()
 
-  return useMutation<{ message: string }, Error, string>({
+  return useMutation<{ message: string }, DkanApiError, string>({
     mutationFn: (identifier) => client.deleteDataset(identifier),
     onSuccess: (data, identifier) => {
       queryClient.invalidateQueries({
@@ -4,7 +4,7 @@
 
 import { useQuery } from '@tanstack/vue-query'
 import { type MaybeRefOrGetter, toValue } from 'vue'
-import type { DatasetQueryOptions } from '@dkan-client-tools/core'
+import type { DatasetQueryOptions, FederatedDkanClient } from '@dkan-client-tools/core'
 import { useDkanClient } from './plugin'
 
 export interface UseDatasetSearchOptions {
@@ -35,7 +35,51 @@ export function useDatasetSearch(options: UseDatasetSearchOptions = {}) {
 
   return useQuery({
     queryKey: ['datasets', 'search', () => toValue(options.searchOptions) || {}] as const,
-    queryFn: () => client.searchDatasets(toValue(options.searchOptions)),
+    queryFn: ({ signal }) => client.searchDatasets(toValue(options.searchOptions), { signal }),
+    enabled: () => toValue(options.enabled) ?? true,
+    staleTime: options.staleTime,
+    gcTime: options.gcTime,
+  })
+}
+
+export interface UseFederatedDatasetSearchOptions {
+  /** Sites to search; create it once, outside the component */
+  client: FederatedDkanClient
+  /** Applied to every site; page and page-size apply to the merged results */
+  searchOptions?: MaybeRefOrGetter<DatasetQueryOptions | undefined>
+  enabled?: MaybeRefOrGetter<boolean>
+  staleTime?: number
+  gcTime?: number
+}
+
+/**
+ * Searches several DKAN sites at once and merges the results into one ranked page.
+ * Sites that fail are listed in `data.errors` while the others still answer.
+ *
+ * @example
+ * ```vue
+ * <script setup lang="ts">
+ * const federated = new FederatedDkanClient({ sources: [...] })
+ * const searchQuery = ref('')
+ * const { data } = useFederatedDatasetSearch({
+ *   client: federated,
+ *   searchOptions: computed(() => ({ fulltext: searchQuery.value || undefined })),
+ * })
+ * // data.value.results[0].source.label, data.value.errors
+ * </script>
+ * ```
+ */
+export function useFederatedDatasetSearch(options: UseFederatedDatasetSearchOptions) {
+  const { client } = options
+
+  return useQuery({
+    queryKey: [
+      'datasets',
+      'federated-search',
+      client.getSources(),
+      () => toValue(options.searchOptions) || {},
+    ] as const,
+    queryFn: ({ signal }) => client.searchDatasets(toValue(options.searchOptions), { signal }),
     enabled: () => toValue(options.enabled) ?? true,
     staleTime: options.staleTime,
     gcTime: options.gcTime,
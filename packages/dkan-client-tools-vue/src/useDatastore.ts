@@ -4,20 +4,21 @@
 
 import { useQuery } from '@tanstack/vue-query'
 import { type MaybeRefOrGetter, toValue, computed } from 'vue'
-import type { DatastoreQueryOptions } from '@dkan-client-tools/core'
+import { toDatastoreQueryOptions } from '@dkan-client-tools/core'
+import type { DatastoreQueryInput } from '@dkan-client-tools/core'
 import { useDkanClient } from './plugin'
 
 export interface UseDatastoreOptions {
   datasetId: MaybeRefOrGetter<string>
   index?: MaybeRefOrGetter<number>
-  queryOptions?: MaybeRefOrGetter<DatastoreQueryOptions | undefined>
+  queryOptions?: MaybeRefOrGetter<DatastoreQueryInput | undefined>
   enabled?: MaybeRefOrGetter<boolean>
   staleTime?: number
   gcTime?: number
 }
 
 export interface UseQueryDatastoreMultiOptions {
-  queryOptions: MaybeRefOrGetter<DatastoreQueryOptions>
+  queryOptions: MaybeRefOrGetter<DatastoreQueryInput>
   method?: MaybeRefOrGetter<'GET' | 'POST'>
   enabled?: MaybeRefOrGetter<boolean>
   staleTime?: number
@@ -46,13 +47,15 @@ export function useDatastore(options: UseDatastoreOptions) {
       'datastore',
       options.datasetId,
       () => toValue(options.index) || 0,
-      () => toValue(options.queryOptions) || {},
+      // Resolve builders so the key holds plain, serializable options
+      () => toDatastoreQueryOptions(toValue(options.queryOptions)) || {},
     ] as const,
-    queryFn: () =>
+    queryFn: ({ signal }) =>
       client.queryDatastore(
         toValue(options.datasetId),
         toValue(options.index),
-        toValue(options.queryOptions)
+        toValue(options.queryOptions),
+        { signal }
       ),
     enabled: () => toValue(options.enabled) ?? true,
     staleTime: options.staleTime,
@@ -86,10 +89,10 @@ export function useQueryDatastoreMulti(options: UseQueryDatastoreMultiOptions) {
     queryKey: computed(() => [
       'datastore',
       'multi',
-      toValue(options.queryOptions),
+      toDatastoreQueryOptions(toValue(options.queryOptions)),
       toValue(options.method) || 'POST',
     ] as const),
-    queryFn: () => client.queryDatastoreMulti(toValue(options.queryOptions), toValue(options.method)),
+    queryFn: ({ signal }) => client.queryDatastoreMulti(toValue(options.queryOptions), toValue(options.method), { signal }),
     enabled: () => toValue(options.enabled) ?? true,
     staleTime: options.staleTime ?? 5 * 60 * 1000, // Default 5 minutes
     gcTime: options.gcTime ?? 5 * 60 * 1000,
@@ -9,6 +9,7 @@ import type {
   DatastoreImport,
   DatastoreImportOptions,
   DatastoreStatistics,
+  DkanApiError,
 } from '@dkan-client-tools/core'
 
 export interface UseDatastoreImportsOptions {
@@ -48,7 +49,7 @@ export function useDatastoreImports(options: UseDatastoreImportsOptions = {}) {
 
   return useQuery({
     queryKey: ['datastore', 'imports'] as const,
-    queryFn: () => client.listDatastoreImports(),
+    queryFn: ({ signal }) => client.listDatastoreImports({ signal }),
     enabled: () => toValue(options.enabled) ?? true,
     staleTime: options.staleTime ?? 0, // Default to always refetch
     refetchInterval: options.refetchInterval,
@@ -100,7 +101,7 @@ export function useTriggerDatastoreImport() {
   const client = useDkanClient()
   const queryClient = useQueryClient()
 
-  return useMutation<DatastoreImport, Error, DatastoreImportOptions>({
+  return useMutation<DatastoreImport, DkanApiError, DatastoreImportOptions>({
     mutationFn: (options) => client.triggerDatastoreImport(options),
     onSuccess: () => {
       // Invalidate imports list
@@ -129,7 +130,7 @@ export function useDeleteDatastore() {
   const client = useDkanClient()
   const queryClient = useQueryClient()
 
-  return useMutation<{ message: string }, Error, string>({
+  return useMutation<{ message: string }, DkanApiError, string>({
     mutationFn: (identifier) => client.deleteDatastore(identifier),
     onSuccess: (data, identifier) => {
       // Invalidate imports list
@@ -161,7 +162,7 @@ export function useDatastoreStatistics(options: UseDatastoreStatisticsOptions) {
 
   return useQuery({
     queryKey: computed(() => ['datastore', 'statistics', toValue(options.identifier)] as const),
-    queryFn: () => client.getDatastoreStatistics(toValue(options.identifier)),
+    queryFn: ({ signal }) => client.getDatastoreStatistics(toValue(options.identifier), { signal }),
     enabled: () => toValue(options.enabled) !== false && !!toValue(options.identifier),
     staleTime: options.staleTime ?? 5 * 60 * 1000, // Default 5 minutes
   })
@@ -10,6 +10,7 @@ import type {
   HarvestRun,
   HarvestRunOptions,
   MetastoreWriteResponse,
+  DkanApiError,
 } from '@dkan-client-tools/core'
 
 export interface UseHarvestPlansOptions {
@@ -53,7 +54,7 @@ export function useHarvestPlans(options: UseHarvestPlansOptions = {}) {
 
   return useQuery({
     queryKey: ['harvest', 'plans'] as const,
-    queryFn: () => client.listHarvestPlans(),
+    queryFn: ({ signal }) => client.listHarvestPlans({ signal }),
     enabled: () => toValue(options.enabled) ?? true,
     staleTime: options.staleTime,
   })
@@ -74,7 +75,7 @@ export function useHarvestPlan(options: UseHarvestPlanOptions) {
 
   return useQuery({
     queryKey: ['harvest', 'plan', options.planId] as const,
-    queryFn: () => client.getHarvestPlan(toValue(options.planId)),
+    queryFn: ({ signal }) => client.getHarvestPlan(toValue(options.planId), { signal }),
     enabled: () => (toValue(options.enabled) ?? true) && !!toValue(options.planId),
     staleTime: options.staleTime,
   })
@@ -98,7 +99,7 @@ export function useHarvestRuns(options: UseHarvestRunsOptions) {
 
   return useQuery({
     queryKey: ['harvest', 'runs', options.planId] as const,
-    queryFn: () => client.listHarvestRuns(toValue(options.planId)),
+    queryFn: ({ signal }) => client.listHarvestRuns(toValue(options.planId), { signal }),
     enabled: () => (toValue(options.enabled) ?? true) && !!toValue(options.planId),
     staleTime: options.staleTime,
     refetchInterval: options.refetchInterval,
@@ -124,7 +125,7 @@ export function useHarvestRun(options: UseHarvestRunOptions) {
 
   return useQuery({
     queryKey: ['harvest', 'run', options.planId, options.runId] as const,
-    queryFn: () => client.getHarvestRun(toValue(options.planId), toValue(options.runId)),
+    queryFn: ({ signal }) => client.getHarvestRun(toValue(options.planId), toValue(options.runId), { signal }),
     enabled: () =>
       (toValue(options.enabled) ?? true) &&
       !!toValue(options.planId) &&
@@ -156,7 +157,7 @@ export function useRegisterHarvestPlan() {
   const client = useDkanClient()
   const queryClient = useQueryClient()
 
-  return useMutation<MetastoreWriteResponse, Error, HarvestPlan>({
+  return useMutation<MetastoreWriteResponse, DkanApiError, HarvestPlan>({
     mutationFn: (plan) => client.registerHarvestPlan(plan),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['harvest', 'plans'] })
@@ -182,7 +183,7 @@ export function useRunHarvest() {
   const client = useDkanClient()
   const queryClient = useQueryClient()
 
-  return useMutation<HarvestRun, Error, HarvestRunOptions>({
+  return useMutation<HarvestRun, DkanApiError, HarvestRunOptions>({
     mutationFn: (options) => client.runHarvest(options),
     onSuccess: (data, variables) => {
       queryClient.invalidateQueries({
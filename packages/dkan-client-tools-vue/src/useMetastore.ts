@@ -48,7 +48,7 @@ export function useAllDatasets(options: UseAllDatasetsOptions = {}) {
 
   return useQuery({
     queryKey: ['datasets', 'list'] as const,
-    queryFn: () => client.listAllDatasets(),
+    queryFn: ({ signal }) => client.listAllDatasets({ signal }),
     enabled: () => toValue(options.enabled) ?? true,
     staleTime: options.staleTime,
   })
@@ -69,7 +69,7 @@ export function useSchemas(options: UseSchemasOptions = {}) {
 
   return useQuery({
     queryKey: ['metastore', 'schemas'] as const,
-    queryFn: () => client.listSchemas(),
+    queryFn: ({ signal }) => client.listSchemas({ signal }),
     enabled: () => toValue(options.enabled) ?? true,
     staleTime: options.staleTime,
   })
@@ -90,7 +90,7 @@ export function useSchema(options: UseSchemaOptions) {
 
   return useQuery({
     queryKey: computed(() => ['metastore', 'schema', toValue(options.schemaId)] as const),
-    queryFn: () => client.getSchema(toValue(options.schemaId)),
+    queryFn: ({ signal }) => client.getSchema(toValue(options.schemaId), { signal }),
     enabled: () => (toValue(options.enabled) ?? true) && !!toValue(options.schemaId),
     staleTime: options.staleTime,
   })
@@ -111,7 +111,7 @@ export function useSchemaItems(options: UseSchemaItemsOptions) {
 
   return useQuery({
     queryKey: computed(() => ['metastore', 'items', toValue(options.schemaId)] as const),
-    queryFn: () => client.getSchemaItems(toValue(options.schemaId)),
+    queryFn: ({ signal }) => client.getSchemaItems(toValue(options.schemaId), { signal }),
     enabled: () => (toValue(options.enabled) ?? true) && !!toValue(options.schemaId),
     staleTime: options.staleTime,
   })
@@ -133,7 +133,7 @@ export function useDatasetFacets(options: UseFacetsOptions = {}) {
 
   return useQuery({
     queryKey: ['metastore', 'facets'] as const,
-    queryFn: () => client.getDatasetFacets(),
+    queryFn: ({ signal }) => client.getDatasetFacets({ signal }),
     enabled: () => toValue(options.enabled) ?? true,
     staleTime: options.staleTime,
   })
@@ -2,24 +2,66 @@
  * Vue composables for DKAN Query Download operations
  */
 
+import { shallowRef } from 'vue'
 import { useMutation } from '@tanstack/vue-query'
 import { useDkanClient } from './plugin'
-import type { QueryDownloadOptions } from '@dkan-client-tools/core'
+import type {
+  QueryDownloadOptions,
+  DatastoreQueryBuilder,
+  DkanApiError,
+  DownloadProgress,
+} from '@dkan-client-tools/core'
 
 export interface DownloadQueryOptions {
   datasetId: string
   index: number
-  queryOptions?: QueryDownloadOptions
+  queryOptions?: QueryDownloadOptions | DatastoreQueryBuilder
 }
 
 export interface DownloadQueryByDistributionOptions {
   distributionId: string
-  queryOptions?: QueryDownloadOptions
+  queryOptions?: QueryDownloadOptions | DatastoreQueryBuilder
+}
+
+/** Minimum time between progress updates when the server sends no Content-Length */
+const PROGRESS_INTERVAL = 100
+
+/**
+ * Limit progress updates to one per percent (or one per PROGRESS_INTERVAL without a total)
+ * so large downloads don't re-render on every chunk. `flush` reports the last skipped value.
+ */
+function throttleProgress(report: (progress: DownloadProgress) => void) {
+  let latest: DownloadProgress | undefined
+  let reported: DownloadProgress | undefined
+  let reportedAt = 0
+  const percent = ({ loaded, total }: DownloadProgress) => Math.floor((loaded / total!) * 100)
+
+  return {
+    onProgress(progress: DownloadProgress) {
+      latest = progress
+      const now = Date.now()
+      const due = !reported || (progress.total
+        ? percent(progress) !== percent(reported)
+        : now - reportedAt >= PROGRESS_INTERVAL)
+      if (due) {
+        reported = progress
+        reportedAt = now
+        report(progress)
+      }
+    },
+    flush() {
+      if (latest && latest !== reported) report(latest)
+    },
+  }
 }
 
 /**
  * Downloads datastore query results as CSV or JSON on user action.
  *
+ * `progress` is a ref holding the bytes received (and the total when the server sends
+ * Content-Length) while the download runs, updated at most once per percent; it resets to null
+ * when a new download starts.
+ *
  * @example
  * ```vue
  * <script setup lang="ts">
@@ -45,15 +87,23 @@ export interface DownloadQueryByDistributionOptions {
  */
 export function useDownloadQuery() {
   const client = useDkanClient()
+  const progress = shallowRef<DownloadProgress | null>(null)
 
-  return useMutation<Blob, Error, DownloadQueryOptions>({
-    mutationFn: ({ datasetId, index, queryOptions }) =>
-      client.downloadQuery(datasetId, index, queryOptions),
+  const mutation = useMutation<Blob, DkanApiError, DownloadQueryOptions>({
+    mutationFn: ({ datasetId, index, queryOptions }) => {
+      progress.value = null
+      const { onProgress, flush } = throttleProgress((value) => {
+        progress.value = value
+      })
+      return client.downloadQuery(datasetId, index, queryOptions, { onProgress }).finally(flush)
+    },
   })
+
+  return { ...mutation, progress }
 }
 
 /**
- * Downloads datastore data by distribution ID as CSV or JSON.
+ * Downloads datastore data by distribution ID as CSV or JSON. Exposes `progress` like useDownloadQuery.
  *
  * @example
  * ```vue
@@ -80,9 +130,17 @@ export function useDownloadQuery() {
  */
 export function useDownloadQueryByDistribution() {
   const client = useDkanClient()
+  const progress = shallowRef<DownloadProgress | null>(null)
 
-  return useMutation<Blob, Error, DownloadQueryByDistributionOptions>({
-    mutationFn: ({ distributionId, queryOptions }) =>
-      client.downloadQueryByDistribution(distributionId, queryOptions),
+  const mutation = useMutation<Blob, DkanApiError, DownloadQueryByDistributionOptions>({
+    mutationFn: ({ distributionId, queryOptions }) => {
+      progress.value = null
+      const { onProgress, flush } = throttleProgress((value) => {
+        progress.value = value
+      })
+      return client.downloadQueryByDistribution(distributionId, queryOptions, { onProgress }).finally(flush)
+    },
   })
+
+  return { ...mutation, progress }
 }
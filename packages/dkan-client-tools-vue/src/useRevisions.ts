@@ -10,6 +10,7 @@ import type {
   MetastoreNewRevision,
   MetastoreWriteResponse,
   WorkflowState,
+  DkanApiError,
 } from '@dkan-client-tools/core'
 
 export interface UseRevisionsOptions {
@@ -27,6 +28,17 @@ export interface UseRevisionOptions {
   staleTime?: number
 }
 
+export interface UseRevisionDiffOptions {
+  schemaId: MaybeRefOrGetter<string>
+  identifier: MaybeRefOrGetter<string>
+  /** Baseline revision, e.g. the published one */
+  fromRevisionId: MaybeRefOrGetter<string>
+  /** Revision to review, e.g. the editor's draft */
+  toRevisionId: MaybeRefOrGetter<string>
+  enabled?: MaybeRefOrGetter<boolean>
+  staleTime?: number
+}
+
 export interface CreateRevisionOptions {
   schemaId: string
   identifier: string
@@ -62,7 +74,7 @@ export function useRevisions(options: UseRevisionsOptions) {
       options.schemaId,
       options.identifier,
     ] as const,
-    queryFn: () => client.getRevisions(toValue(options.schemaId), toValue(options.identifier)),
+    queryFn: ({ signal }) => client.getRevisions(toValue(options.schemaId), toValue(options.identifier), { signal }),
     enabled: () =>
       (toValue(options.enabled) ?? true) && !!toValue(options.schemaId) && !!toValue(options.identifier),
     staleTime: options.staleTime,
@@ -94,11 +106,12 @@ export function useRevision(options: UseRevisionOptions) {
       options.identifier,
       options.revisionId,
     ] as const,
-    queryFn: () =>
+    queryFn: ({ signal }) =>
       client.getRevision(
         toValue(options.schemaId),
         toValue(options.identifier),
-        toValue(options.revisionId)
+        toValue(options.revisionId),
+        { signal }
       ),
     enabled: () =>
       (toValue(options.enabled) ?? true) &&
@@ -109,6 +122,52 @@ export function useRevision(options: UseRevisionOptions) {
   })
 }
 
+/**
+ * Compares the workflow metadata (state, published, message, modified) of two revisions of a
+ * metastore item. DKAN revision records do not include item content.
+ *
+ * @example
+ * ```vue
+ * <script setup lang="ts">
+ * const { data: diff } = useRevisionDiff({
+ *   schemaId: 'dataset',
+ *   identifier: datasetId,
+ *   fromRevisionId: publishedId,
+ *   toRevisionId: draftId,
+ * })
+ * </script>
+ * ```
+ */
+export function useRevisionDiff(options: UseRevisionDiffOptions) {
+  const client = useDkanClient()
+
+  return useQuery({
+    queryKey: [
+      'metastore',
+      'revision-diff',
+      options.schemaId,
+      options.identifier,
+      options.fromRevisionId,
+      options.toRevisionId,
+    ] as const,
+    queryFn: ({ signal }) =>
+      client.compareRevisions(
+        toValue(options.schemaId),
+        toValue(options.identifier),
+        toValue(options.fromRevisionId),
+        toValue(options.toRevisionId),
+        { signal }
+      ),
+    enabled: () =>
+      (toValue(options.enabled) ?? true) &&
+      !!toValue(options.schemaId) &&
+      !!toValue(options.identifier) &&
+      !!toValue(options.fromRevisionId) &&
+      !!toValue(options.toRevisionId),
+    staleTime: options.staleTime,
+  })
+}
+
 /**
  * Creates a new revision by changing an item's workflow state.
  *
@@ -133,7 +192,7 @@ export function useCreateRevision() {
   const client = useDkanClient()
   const queryClient = useQueryClient()
 
-  return useMutation<MetastoreWriteResponse, Error, CreateRevisionOptions>({
+  return useMutation<MetastoreWriteResponse, DkanApiError, CreateRevisionOptions>({
     mutationFn: ({ schemaId, identifier, revision }) =>
       client.createRevision(schemaId, identifier, revision),
     onSuccess: (data, variables) => {
@@ -180,7 +239,7 @@ export function useChangeDatasetState() {
   const client = useDkanClient()
   const queryClient = useQueryClient()
 
-  return useMutation<MetastoreWriteResponse, Error, ChangeDatasetStateOptions>({
+  return useMutation<MetastoreWriteResponse, DkanApiError, ChangeDatasetStateOptions>({
     mutationFn: ({ identifier, state, message }) =>
       client.changeDatasetState(identifier, state, message),
     onSuccess: (data, variables) => {
@@ -5,7 +5,14 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/vue-query'
 import { type MaybeRefOrGetter, toValue, computed } from 'vue'
 import { useDkanClient } from './plugin'
-import type { SqlQueryOptions, SqlQueryResult } from '@dkan-client-tools/core'
+import { toSqlQueryString } from '@dkan-client-tools/core'
+import type {
+  SqlQueryBuilder,
+  SqlQueryInput,
+  SqlQueryOptions,
+  SqlQueryResult,
+  DkanApiError,
+} from '@dkan-client-tools/core'
 
 export interface UseSqlQueryOptions extends SqlQueryOptions {
   enabled?: MaybeRefOrGetter<boolean>
@@ -13,6 +20,15 @@ export interface UseSqlQueryOptions extends SqlQueryOptions {
   gcTime?: number
 }
 
+/** Query key part for a SQL query; an unbuildable builder keys on its parts so queryFn can report the error */
+function sqlQueryKey(query: SqlQueryInput | undefined) {
+  try {
+    return toSqlQueryString(query)
+  } catch {
+    return (query as SqlQueryBuilder).toParts()
+  }
+}
+
 /**
  * Executes SQL SELECT queries against DKAN's datastore with automatic caching. Only SELECT queries are permitted.
  *
@@ -32,14 +48,19 @@ export function useSqlQuery(options: UseSqlQueryOptions) {
     queryKey: [
       'datastore',
       'sql',
-      options.query,
+      // Resolve builders so the key holds the query string
+      () => sqlQueryKey(toValue(options.query)),
       () => toValue(options.show_db_columns),
     ] as const,
-    queryFn: () =>
-      client.querySql({
-        query: toValue(options.query),
-        show_db_columns: toValue(options.show_db_columns),
-      }),
+    // Builders are built here so invalid input becomes the query error
+    queryFn: ({ signal }) =>
+      client.querySql(
+        {
+          query: toValue(options.query),
+          show_db_columns: toValue(options.show_db_columns),
+        },
+        { signal }
+      ),
     enabled: () => {
       const enabled = toValue(options.enabled) ?? true
       const hasQuery = !!toValue(options.query)
@@ -69,12 +90,12 @@ export function useExecuteSqlQuery() {
   const client = useDkanClient()
   const queryClient = useQueryClient()
 
-  return useMutation<SqlQueryResult, Error, SqlQueryOptions>({
+  return useMutation<SqlQueryResult, DkanApiError, SqlQueryOptions>({
     mutationFn: (options: SqlQueryOptions) => client.querySql(options),
     onSuccess: (data, variables) => {
       // Optionally cache the result using the same key as useSqlQuery
       queryClient.setQueryData(
-        ['datastore', 'sql', variables.query, variables.show_db_columns],
+        ['datastore', 'sql', toSqlQueryString(variables.query), variables.show_db_columns],
         data
       )
     },
@@ -63,6 +63,11 @@ export const packageBuildOrder = [
     name: 'Vue Package',
     path: 'packages/dkan-client-tools-vue',
     deps: ['core']
+  },
+  {
+    name: 'CLI Package',
+    path: 'packages/dkan-client-tools-cli',
+    deps: ['core']
   }
 ]
 
@@ -4,7 +4,7 @@
  * Build Orchestrator
  *
  * Automates the complete build and deployment workflow for DKAN Client Tools:
- * 1. Build all packages (core, react, vue)
+ * 1. Build all packages (core, react, vue, cli)
  * 2. Copy built files to Drupal base modules
  * 3. Build standalone demo apps
  * 4. Build Drupal demo modules